@@ -0,0 +1,11 @@
+-- Per-trader cursor for Data API activity polling
+-- Lets the monitor fetch each followed trader once per cycle and catch up after downtime
+CREATE TABLE IF NOT EXISTS "TraderCursor" (
+    "traderAddress" TEXT NOT NULL,
+    "lastTimestamp" INTEGER NOT NULL DEFAULT 0,
+    "lastTxHashes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TraderCursor_pkey" PRIMARY KEY ("traderAddress")
+);
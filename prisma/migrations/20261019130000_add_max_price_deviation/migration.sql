@@ -0,0 +1,4 @@
+-- Add maxPriceDeviation to CopyTradingConfig
+-- Max adverse move (as a fraction, e.g. 0.05 = 5%) between the trader's fill price and the current best ask/bid
+ALTER TABLE "CopyTradingConfig" 
+ADD COLUMN IF NOT EXISTS "maxPriceDeviation" TEXT;
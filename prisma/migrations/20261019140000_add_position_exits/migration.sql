@@ -0,0 +1,12 @@
+-- Add stop-loss / take-profit / trailing stop thresholds to CopyTradingConfig
+ALTER TABLE "CopyTradingConfig" 
+ADD COLUMN IF NOT EXISTS "stopLossPercent" TEXT,
+ADD COLUMN IF NOT EXISTS "takeProfitPercent" TEXT,
+ADD COLUMN IF NOT EXISTS "trailingStopPercent" TEXT;
+
+-- Track exits on CopiedTrade
+-- exitReason is set on tradeType 'exit' rows (stop_loss, take_profit, trailing_stop)
+-- peakPrice is the highest price seen for an open buy (used by the trailing stop)
+ALTER TABLE "CopiedTrade" 
+ADD COLUMN IF NOT EXISTS "exitReason" TEXT,
+ADD COLUMN IF NOT EXISTS "peakPrice" TEXT;
@@ -0,0 +1,15 @@
+-- Per-market (conditionId) and per-event (eventSlug) USDC exposure caps
+ALTER TABLE "User" 
+ADD COLUMN IF NOT EXISTS "maxMarketExposure" TEXT,
+ADD COLUMN IF NOT EXISTS "maxEventExposure" TEXT;
+
+ALTER TABLE "CopyTradingConfig" 
+ADD COLUMN IF NOT EXISTS "maxMarketExposure" TEXT,
+ADD COLUMN IF NOT EXISTS "maxEventExposure" TEXT;
+
+-- Event slug so exposure can be grouped per event
+ALTER TABLE "CopiedTrade" ADD COLUMN IF NOT EXISTS "eventSlug" TEXT;
+ALTER TABLE "CopiedSignal" ADD COLUMN IF NOT EXISTS "eventSlug" TEXT;
+
+-- Why a copied buy was shrunk by an exposure cap
+ALTER TABLE "CopiedTrade" ADD COLUMN IF NOT EXISTS "sizeCapReason" TEXT;
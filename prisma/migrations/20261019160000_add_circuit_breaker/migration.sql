@@ -0,0 +1,39 @@
+-- Account-level drawdown circuit breaker
+ALTER TABLE "User" 
+ADD COLUMN IF NOT EXISTS "maxDailyLoss" TEXT,
+ADD COLUMN IF NOT EXISTS "maxWeeklyLoss" TEXT,
+ADD COLUMN IF NOT EXISTS "circuitBreakerTrippedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CircuitBreakerTrip" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "window" TEXT NOT NULL,
+    "lossLimit" TEXT NOT NULL,
+    "windowPnl" TEXT NOT NULL,
+    "pausedConfigIds" TEXT,
+    "disabledSignalConfigIds" TEXT,
+    "trippedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resumedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CircuitBreakerTrip_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "PnlSnapshot" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "totalPnl" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PnlSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "CircuitBreakerTrip_userId_idx" ON "CircuitBreakerTrip"("userId");
+CREATE INDEX IF NOT EXISTS "CircuitBreakerTrip_trippedAt_idx" ON "CircuitBreakerTrip"("trippedAt");
+CREATE INDEX IF NOT EXISTS "PnlSnapshot_userId_createdAt_idx" ON "PnlSnapshot"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CircuitBreakerTrip" ADD CONSTRAINT "CircuitBreakerTrip_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "PnlSnapshot" ADD CONSTRAINT "PnlSnapshot_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Paper-trading mode for copy configs ('live' or 'paper')
+ALTER TABLE "CopyTradingConfig" ADD COLUMN IF NOT EXISTS "mode" TEXT NOT NULL DEFAULT 'live';
+ALTER TABLE "CopySignalConfig" ADD COLUMN IF NOT EXISTS "mode" TEXT NOT NULL DEFAULT 'live';
+
+-- Flag simulated fills so paper and live results can be reported separately
+-- Paper fills use status 'simulated' instead of pending/settled
+ALTER TABLE "CopiedTrade" ADD COLUMN IF NOT EXISTS "isPaper" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "CopiedSignal" ADD COLUMN IF NOT EXISTS "isPaper" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS "CopiedTrade_isPaper_idx" ON "CopiedTrade"("isPaper");
+CREATE INDEX IF NOT EXISTS "CopiedSignal_isPaper_idx" ON "CopiedSignal"("isPaper");
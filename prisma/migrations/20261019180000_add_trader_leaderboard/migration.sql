@@ -0,0 +1,27 @@
+-- Cached trader stats for the discovery leaderboard, refreshed by the leaderboard worker
+CREATE TABLE IF NOT EXISTS "TraderLeaderboardEntry" (
+    "traderAddress" TEXT NOT NULL,
+    "name" TEXT,
+    "pseudonym" TEXT,
+    "profileImage" TEXT,
+    "totalTrades" INTEGER NOT NULL DEFAULT 0,
+    "totalVolume" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "realizedPnl" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "realizedRoi" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "winRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "closedPositions" INTEGER NOT NULL DEFAULT 0,
+    "maxDrawdown" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lastTradeAt" TIMESTAMP(3),
+    "categories" TEXT,
+    "refreshedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TraderLeaderboardEntry_pkey" PRIMARY KEY ("traderAddress")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "TraderLeaderboardEntry_realizedRoi_idx" ON "TraderLeaderboardEntry"("realizedRoi");
+CREATE INDEX IF NOT EXISTS "TraderLeaderboardEntry_winRate_idx" ON "TraderLeaderboardEntry"("winRate");
+CREATE INDEX IF NOT EXISTS "TraderLeaderboardEntry_totalVolume_idx" ON "TraderLeaderboardEntry"("totalVolume");
+CREATE INDEX IF NOT EXISTS "TraderLeaderboardEntry_lastTradeAt_idx" ON "TraderLeaderboardEntry"("lastTradeAt");
+CREATE INDEX IF NOT EXISTS "TraderLeaderboardEntry_refreshedAt_idx" ON "TraderLeaderboardEntry"("refreshedAt");
@@ -0,0 +1,42 @@
+-- Consensus configs follow a group of traders and copy a buy once N of them
+-- buy the same market outcome within a time window
+ALTER TABLE "CopyTradingConfig" ADD COLUMN IF NOT EXISTS "configType" TEXT NOT NULL DEFAULT 'single';
+ALTER TABLE "CopyTradingConfig" ADD COLUMN IF NOT EXISTS "consensusTraders" TEXT;
+ALTER TABLE "CopyTradingConfig" ADD COLUMN IF NOT EXISTS "consensusThreshold" INTEGER;
+ALTER TABLE "CopyTradingConfig" ADD COLUMN IF NOT EXISTS "consensusWindowMinutes" INTEGER;
+
+-- A consensus config's lead trader may also be followed by a single-trader config,
+-- so one config per trader is only enforced for single-trader configs
+DROP INDEX IF EXISTS "CopyTradingConfig_userId_targetTraderAddress_key";
+CREATE INDEX IF NOT EXISTS "CopyTradingConfig_userId_targetTraderAddress_idx" ON "CopyTradingConfig"("userId", "targetTraderAddress");
+CREATE UNIQUE INDEX IF NOT EXISTS "CopyTradingConfig_userId_targetTraderAddress_single_key" ON "CopyTradingConfig"("userId", "targetTraderAddress") WHERE "configType" = 'single';
+
+-- Contributing trader tx hashes and amounts behind a consensus copy
+ALTER TABLE "CopiedTrade" ADD COLUMN IF NOT EXISTS "consensusSources" TEXT;
+
+-- CreateTable (group buys waiting for enough traders to agree)
+CREATE TABLE IF NOT EXISTS "PendingConsensusTrade" (
+    "id" TEXT NOT NULL,
+    "configId" TEXT NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "outcomeIndex" INTEGER NOT NULL,
+    "traderAddress" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "price" TEXT NOT NULL,
+    "shares" TEXT,
+    "tradeTimestamp" INTEGER NOT NULL,
+    "trade" TEXT NOT NULL,
+    "copiedTradeId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PendingConsensusTrade_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "PendingConsensusTrade_configId_txHash_key" ON "PendingConsensusTrade"("configId", "txHash");
+CREATE INDEX IF NOT EXISTS "PendingConsensusTrade_configId_marketId_outcomeIndex_idx" ON "PendingConsensusTrade"("configId", "marketId", "outcomeIndex");
+CREATE INDEX IF NOT EXISTS "PendingConsensusTrade_createdAt_idx" ON "PendingConsensusTrade"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PendingConsensusTrade" ADD CONSTRAINT "PendingConsensusTrade_configId_fkey" FOREIGN KEY ("configId") REFERENCES "CopyTradingConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
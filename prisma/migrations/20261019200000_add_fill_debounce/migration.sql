@@ -0,0 +1,7 @@
+-- Per-config debounce window for merging a trader's burst of fills into one copy
+ALTER TABLE "CopyTradingConfig" ADD COLUMN IF NOT EXISTS "debounceSeconds" INTEGER;
+
+-- Every original tx hash merged into a debounced copy, and when it stops accepting fills
+ALTER TABLE "CopiedTrade" 
+ADD COLUMN IF NOT EXISTS "aggregatedTxHashes" TEXT,
+ADD COLUMN IF NOT EXISTS "aggregateUntil" TIMESTAMP(3);
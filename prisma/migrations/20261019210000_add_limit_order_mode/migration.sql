@@ -0,0 +1,14 @@
+-- Limit-order copy mode: rest a GTC/GTD order near the trader's price instead of crossing the spread
+ALTER TABLE "CopyTradingConfig" 
+ADD COLUMN IF NOT EXISTS "executionStyle" TEXT NOT NULL DEFAULT 'market',
+ADD COLUMN IF NOT EXISTS "limitOrderType" TEXT,
+ADD COLUMN IF NOT EXISTS "limitPriceImprovement" TEXT,
+ADD COLUMN IF NOT EXISTS "limitOrderTtlSeconds" INTEGER;
+
+-- Open limit orders keep orderExpiresAt until their fill is recorded and any remainder cancelled
+ALTER TABLE "CopiedTrade" 
+ADD COLUMN IF NOT EXISTS "orderType" TEXT,
+ADD COLUMN IF NOT EXISTS "limitPrice" TEXT,
+ADD COLUMN IF NOT EXISTS "orderExpiresAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "CopiedTrade_orderExpiresAt_idx" ON "CopiedTrade"("orderExpiresAt");
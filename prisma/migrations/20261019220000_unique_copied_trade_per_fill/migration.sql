@@ -0,0 +1,35 @@
+-- Copies removed by the uniqueness constraint below, archived unchanged (tx hashes still match the chain)
+CREATE TABLE IF NOT EXISTS "ArchivedCopiedTrade" (
+    "id" TEXT NOT NULL,
+    "configId" TEXT NOT NULL,
+    "originalTxHash" TEXT NOT NULL,
+    "keptTradeId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "archivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ArchivedCopiedTrade_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "ArchivedCopiedTrade_configId_originalTxHash_idx" ON "ArchivedCopiedTrade"("configId", "originalTxHash");
+
+-- Keep the earliest copy of each trader fill per config; archive the later duplicates
+INSERT INTO "ArchivedCopiedTrade" ("id", "configId", "originalTxHash", "keptTradeId", "reason", "data")
+SELECT ct."id", ct."configId", ct."originalTxHash", ranked."keptTradeId", 'duplicate_fill', row_to_json(ct)::text
+FROM "CopiedTrade" AS ct
+JOIN (
+  SELECT
+    "id",
+    ROW_NUMBER() OVER fill AS rn,
+    FIRST_VALUE("id") OVER fill AS "keptTradeId"
+  FROM "CopiedTrade"
+  WINDOW fill AS (PARTITION BY "configId", "originalTxHash" ORDER BY "createdAt", "id")
+) AS ranked ON ranked."id" = ct."id"
+WHERE ranked.rn > 1
+ON CONFLICT ("id") DO NOTHING;
+
+DELETE FROM "CopiedTrade"
+WHERE "id" IN (SELECT "id" FROM "ArchivedCopiedTrade" WHERE "reason" = 'duplicate_fill');
+
+-- One copy per trader fill per config, so the same fill can never produce two orders
+CREATE UNIQUE INDEX IF NOT EXISTS "CopiedTrade_configId_originalTxHash_key" ON "CopiedTrade"("configId", "originalTxHash");
@@ -0,0 +1,31 @@
+-- Signal provider registry: each provider is polled (pollUrl) or pushes signed webhooks
+CREATE TABLE IF NOT EXISTS "SignalProvider" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "transport" TEXT NOT NULL DEFAULT 'poll',
+    "pollUrl" TEXT,
+    "apiKey" TEXT,
+    "webhookSecret" TEXT,
+    "signerAddress" TEXT,
+    "categories" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SignalProvider_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "SignalProvider_name_key" ON "SignalProvider"("name");
+CREATE INDEX IF NOT EXISTS "SignalProvider_enabled_idx" ON "SignalProvider"("enabled");
+
+-- Configs may subscribe to specific providers (JSON array of IDs); null keeps category-only matching
+ALTER TABLE "CopySignalConfig" 
+ADD COLUMN IF NOT EXISTS "providerIds" TEXT;
+
+-- Which provider produced each copied signal (null for signals copied before the registry)
+ALTER TABLE "CopiedSignal" 
+ADD COLUMN IF NOT EXISTS "providerId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "CopiedSignal_providerId_idx" ON "CopiedSignal"("providerId");
+
+ALTER TABLE "CopiedSignal" ADD CONSTRAINT "CopiedSignal_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "SignalProvider"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Opt-in sizing by signal confidence
+ALTER TABLE "CopySignalConfig" 
+ADD COLUMN IF NOT EXISTS "scaleByConfidence" BOOLEAN NOT NULL DEFAULT false;
+
+-- Constraints carried by the signal: expiry, worst acceptable price and confidence (0-1)
+ALTER TABLE "CopiedSignal" 
+ADD COLUMN IF NOT EXISTS "validUntil" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "limitPrice" TEXT,
+ADD COLUMN IF NOT EXISTS "confidence" TEXT;
@@ -0,0 +1,21 @@
+-- Withdrawals from the proxy wallet (USDC or conditional tokens), recorded for the accounting export
+CREATE TABLE IF NOT EXISTS "Withdrawal" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "tokenId" TEXT,
+    "amount" TEXT NOT NULL,
+    "toAddress" TEXT NOT NULL,
+    "proxyWallet" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "txHash" TEXT,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Withdrawal_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "Withdrawal_userId_createdAt_idx" ON "Withdrawal"("userId", "createdAt");
+
+ALTER TABLE "Withdrawal" ADD CONSTRAINT "Withdrawal_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
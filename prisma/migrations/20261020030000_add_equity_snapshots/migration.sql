@@ -0,0 +1,24 @@
+-- Daily equity of each user (scope "user") and each copy trading / signal config, for the equity curve
+CREATE TABLE IF NOT EXISTS "EquitySnapshot" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "cashBalance" TEXT NOT NULL,
+    "positionsValue" TEXT NOT NULL,
+    "equity" TEXT NOT NULL,
+    "netFlows" TEXT NOT NULL DEFAULT '0',
+    "realizedPnl" TEXT NOT NULL,
+    "unrealizedPnl" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EquitySnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- One snapshot per subject per day; re-running a day overwrites it
+CREATE UNIQUE INDEX IF NOT EXISTS "EquitySnapshot_scope_subjectId_date_key" ON "EquitySnapshot"("scope", "subjectId", "date");
+CREATE INDEX IF NOT EXISTS "EquitySnapshot_userId_date_idx" ON "EquitySnapshot"("userId", "date");
+
+ALTER TABLE "EquitySnapshot" ADD CONSTRAINT "EquitySnapshot_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Replace the raw partial unique index (WHERE "configType" = 'single') with a unique index Prisma tracks:
+-- singleTraderAddress mirrors targetTraderAddress on single-trader configs and stays NULL on consensus configs
+ALTER TABLE "CopyTradingConfig" ADD COLUMN IF NOT EXISTS "singleTraderAddress" TEXT;
+
+UPDATE "CopyTradingConfig"
+SET "singleTraderAddress" = "targetTraderAddress"
+WHERE "configType" = 'single';
+
+DROP INDEX IF EXISTS "CopyTradingConfig_userId_targetTraderAddress_single_key";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "CopyTradingConfig_userId_singleTraderAddress_key" ON "CopyTradingConfig"("userId", "singleTraderAddress");
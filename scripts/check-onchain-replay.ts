@@ -0,0 +1,109 @@
+import fs from "fs";
+import { ethers } from "ethers";
+import { config } from "../src/config/env";
+import {
+  buildTradesFromEvents,
+  OrderFilledEvent,
+  ORDER_FILLED_TOPIC,
+  parseOrderFilledLog,
+} from "../src/services/onchain-trade-detector";
+import { PolymarketTrade } from "../src/services/trade-monitor";
+
+/**
+ * Run a recorded OrderFilled fixture through the on-chain detector's decoding and
+ * trade building, and compare the result with the fixture's expectedTrades
+ *
+ * Needs the replay RPC serving the same fixture, with POLYGON_RPC_URL and
+ * POLYMARKET_GAMMA_API_URL pointing at it (see scripts/onchain-replay-rpc.ts).
+ * Without a local Redis the Bull queues log connection errors; they don't affect the check.
+ *
+ * Usage:
+ *   POLYGON_RPC_URL=http://localhost:8545 POLYMARKET_GAMMA_API_URL=http://localhost:8545 \
+ *     tsx scripts/check-onchain-replay.ts fixtures/order-filled-logs.json
+ */
+
+const HEAD_WAIT_TIMEOUT_MS = 60 * 1000;
+const COMPARED_FIELDS: Array<keyof PolymarketTrade> = ["proxyWallet", "side", "asset", "outcomeIndex", "size", "usdcSize", "timestamp"];
+
+const fixturePath = process.argv[2];
+
+if (!fixturePath) {
+  console.error("Usage: tsx scripts/check-onchain-replay.ts <fixture.json>");
+  process.exit(1);
+}
+
+async function checkOnChainReplay(): Promise<boolean> {
+  const fixture = JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+  const logBlocks: number[] = (fixture.logs || []).map((log: any) => parseInt(log.blockNumber, 16));
+  const fromBlock = Math.min(...logBlocks);
+  const toBlock = Math.max(...logBlocks);
+  const followedTraders = new Set<string>((fixture.followedTraders || []).map((address: string) => address.toLowerCase()));
+  const expectedTrades: any[] = fixture.expectedTrades || [];
+
+  console.log(`🧪 Checking on-chain replay of ${fixturePath} against ${config.blockchain.polygonRpcUrl}`);
+
+  // The replay RPC advances its head one block per interval, so wait for the last recorded block
+  const provider = new ethers.providers.JsonRpcProvider(config.blockchain.polygonRpcUrl);
+  const deadline = Date.now() + HEAD_WAIT_TIMEOUT_MS;
+  let head = await provider.getBlockNumber();
+  while (head < toBlock) {
+    if (Date.now() > deadline) {
+      console.error(`❌ Replay head stuck at ${head}, expected block ${toBlock}`);
+      return false;
+    }
+    console.log(`⏳ Waiting for block ${toBlock} (head: ${head})`);
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    head = await provider.getBlockNumber();
+  }
+
+  const logs: ethers.providers.Log[] = [];
+  for (const address of [config.blockchain.ctfExchangeAddress, config.blockchain.negRiskCtfExchangeAddress]) {
+    logs.push(...await provider.getLogs({ address, fromBlock, toBlock, topics: [ORDER_FILLED_TOPIC] }));
+  }
+
+  const events = logs
+    .map(parseOrderFilledLog)
+    .filter((event): event is OrderFilledEvent => event !== null);
+  const trades = await buildTradesFromEvents(events, followedTraders);
+
+  console.log(`📋 Decoded ${events.length}/${logs.length} logs into ${trades.length} trades`);
+
+  let matched = 0;
+  for (const expected of expectedTrades) {
+    const trade = trades.find((t) => t.transactionHash === expected.transactionHash && t.side === expected.side);
+    if (!trade) {
+      console.error(`❌ Missing ${expected.side} trade in tx ${expected.transactionHash}`);
+      continue;
+    }
+
+    const mismatches = COMPARED_FIELDS
+      .filter((field) => String(trade[field]).toLowerCase() !== String(expected[field]).toLowerCase())
+      .map((field) => `${field}: expected ${expected[field]}, got ${trade[field]}`);
+    if (Math.abs(trade.price - expected.price) > 1e-9) {
+      mismatches.push(`price: expected ${expected.price}, got ${trade.price}`);
+    }
+
+    if (mismatches.length > 0) {
+      console.error(`❌ ${expected.side} trade in tx ${expected.transactionHash}: ${mismatches.join("; ")}`);
+      continue;
+    }
+
+    console.log(`✅ ${trade.side} ${trade.size} @ ${trade.price} by ${trade.proxyWallet} (tx ${trade.transactionHash})`);
+    matched++;
+  }
+
+  if (trades.length > expectedTrades.length) {
+    console.error(`❌ ${trades.length - expectedTrades.length} more trades detected than expected`);
+  }
+
+  const passed = matched === expectedTrades.length && trades.length === expectedTrades.length;
+  console.log(`${passed ? "✅" : "❌"} ${matched}/${expectedTrades.length} expected trades detected`);
+  return passed;
+}
+
+checkOnChainReplay()
+  .then((passed) => process.exit(passed ? 0 : 1))
+  .catch((error) => {
+    console.error("❌ On-chain replay check failed:", error);
+    process.exit(1);
+  });
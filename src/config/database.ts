@@ -9,6 +9,11 @@ interface InMemoryUser {
   username: string | null;
   nonce: string | null;
   proxyWallet: string | null;
+  maxMarketExposure: string | null;
+  maxEventExposure: string | null;
+  maxDailyLoss: string | null;
+  maxWeeklyLoss: string | null;
+  circuitBreakerTrippedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,6 +38,7 @@ interface InMemoryCopyTradingConfig {
   id: string;
   userId: string;
   targetTraderAddress: string;
+  singleTraderAddress: string | null;
   copyBuyTrades: boolean;
   copySellTrades: boolean;
   amountType: string;
@@ -83,6 +89,7 @@ interface InMemoryCopySignalConfig {
   id: string;
   userId: string;
   signalCategories: string;
+  providerIds: string | null;
   copyBuyTrades: boolean;
   copySellTrades: boolean;
   amountType: string;
@@ -105,6 +112,7 @@ interface InMemoryCopiedSignal {
   id: string;
   configId: string;
   signalId: string;
+  providerId: string | null;
   category: string;
   originalTxHash: string | null;
   marketId: string;
@@ -143,6 +151,56 @@ interface InMemoryCopiedSignal {
   createdAt: Date;
 }
 
+interface InMemorySignalProvider {
+  id: string;
+  name: string;
+  transport: string;
+  pollUrl: string | null;
+  apiKey: string | null;
+  webhookSecret: string | null;
+  signerAddress: string | null;
+  categories: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface InMemoryWithdrawal {
+  id: string;
+  userId: string;
+  asset: string;
+  tokenId: string | null;
+  amount: string;
+  toAddress: string;
+  proxyWallet: string;
+  status: string;
+  txHash: string | null;
+  errorMessage: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+interface InMemoryTraderCursor {
+  traderAddress: string;
+  lastTimestamp: number;
+  lastTxHashes: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface InMemoryFetchedTrade {
+  id: string;
+  configId: string;
+  originalTxHash: string;
+  traderAddress: string;
+  marketId: string | null;
+  timestamp: string | null;
+  side: string | null;
+  processed: boolean;
+  skippedReason: string | null;
+  createdAt: Date;
+}
+
 const inMemoryUsers: Map<string, InMemoryUser> = new Map();
 const inMemoryUsersByUsername: Map<string, InMemoryUser> = new Map();
 const inMemoryDeposits: Map<string, InMemoryDeposit> = new Map();
@@ -157,6 +215,10 @@ const inMemoryCopySignalConfigs: Map<string, InMemoryCopySignalConfig> = new Map
 const inMemoryCopySignalConfigsByUserId: Map<string, string[]> = new Map(); // userId -> configIds[]
 const inMemoryCopiedSignals: Map<string, InMemoryCopiedSignal> = new Map();
 const inMemoryCopiedSignalsByConfigId: Map<string, string[]> = new Map(); // configId -> signalIds[]
+const inMemoryTraderCursors: Map<string, InMemoryTraderCursor> = new Map(); // traderAddress -> cursor
+const inMemorySignalProviders: Map<string, InMemorySignalProvider> = new Map();
+const inMemoryWithdrawals: Map<string, InMemoryWithdrawal> = new Map();
+const inMemoryFetchedTrades: Map<string, InMemoryFetchedTrade> = new Map(); // configId:originalTxHash -> fetched trade
 
 // Create in-memory Prisma client mock
 function createInMemoryPrisma() {
@@ -201,6 +263,11 @@ function createInMemoryPrisma() {
             username: args.create.username || null,
             nonce: args.create.nonce,
             proxyWallet: args.create.proxyWallet || null,
+            maxMarketExposure: null,
+            maxEventExposure: null,
+            maxDailyLoss: null,
+            maxWeeklyLoss: null,
+            circuitBreakerTrippedAt: null,
             createdAt: new Date(),
             updatedAt: new Date(),
           };
@@ -285,8 +352,17 @@ function createInMemoryPrisma() {
         return users as User[];
       },
       async update(args: {
-        where: { address?: string; username?: string };
-        data: { nonce?: string | null; proxyWallet?: string | null; username?: string | null };
+        where: { address?: string; username?: string; id?: string };
+        data: {
+          nonce?: string | null;
+          proxyWallet?: string | null;
+          username?: string | null;
+          maxMarketExposure?: string | null;
+          maxEventExposure?: string | null;
+          maxDailyLoss?: string | null;
+          maxWeeklyLoss?: string | null;
+          circuitBreakerTrippedAt?: Date | null;
+        };
       }): Promise<User> {
         let user: InMemoryUser | undefined;
         
@@ -296,6 +372,8 @@ function createInMemoryPrisma() {
         } else if (args.where.username) {
           const username = args.where.username.toLowerCase();
           user = inMemoryUsersByUsername.get(username);
+        } else if (args.where.id) {
+          user = Array.from(inMemoryUsers.values()).find((u) => u.id === args.where.id);
         }
         
         if (!user) {
@@ -308,6 +386,21 @@ function createInMemoryPrisma() {
         if (args.data.proxyWallet !== undefined) {
           user.proxyWallet = args.data.proxyWallet;
         }
+        if (args.data.maxMarketExposure !== undefined) {
+          user.maxMarketExposure = args.data.maxMarketExposure;
+        }
+        if (args.data.maxEventExposure !== undefined) {
+          user.maxEventExposure = args.data.maxEventExposure;
+        }
+        if (args.data.maxDailyLoss !== undefined) {
+          user.maxDailyLoss = args.data.maxDailyLoss;
+        }
+        if (args.data.maxWeeklyLoss !== undefined) {
+          user.maxWeeklyLoss = args.data.maxWeeklyLoss;
+        }
+        if (args.data.circuitBreakerTrippedAt !== undefined) {
+          user.circuitBreakerTrippedAt = args.data.circuitBreakerTrippedAt;
+        }
         if (args.data.username !== undefined) {
           // Remove old username mapping if exists
           if (user.username) {
@@ -459,6 +552,7 @@ function createInMemoryPrisma() {
         data: {
           userId: string;
           targetTraderAddress: string;
+          singleTraderAddress?: string | null;
           copyBuyTrades: boolean;
           copySellTrades: boolean;
           amountType: string;
@@ -476,12 +570,12 @@ function createInMemoryPrisma() {
           traderInfo?: string | null;
         };
       }): Promise<any> {
-        // Enforce uniqueness: each user can only have one config per trader
-        const normalizedTraderAddress = args.data.targetTraderAddress.toLowerCase();
+        // Enforce uniqueness: each user can only have one single-trader config per trader
         const userConfigs = inMemoryCopyTradingConfigsByUserId.get(args.data.userId) || [];
-        const existingConfig = userConfigs.find((configId) => {
+        const normalizedSingleTraderAddress = args.data.singleTraderAddress?.toLowerCase() || null;
+        const existingConfig = normalizedSingleTraderAddress && userConfigs.find((configId) => {
           const config = inMemoryCopyTradingConfigs.get(configId);
-          return config && config.targetTraderAddress === normalizedTraderAddress;
+          return config && config.singleTraderAddress === normalizedSingleTraderAddress;
         });
         
         if (existingConfig) {
@@ -492,6 +586,7 @@ function createInMemoryPrisma() {
           id: randomUUID(),
           userId: args.data.userId,
           targetTraderAddress: args.data.targetTraderAddress.toLowerCase(),
+          singleTraderAddress: normalizedSingleTraderAddress,
           copyBuyTrades: args.data.copyBuyTrades,
           copySellTrades: args.data.copySellTrades,
           amountType: args.data.amountType,
@@ -908,6 +1003,7 @@ function createInMemoryPrisma() {
         data: {
           userId: string;
           signalCategories: string;
+          providerIds?: string | null;
           copyBuyTrades: boolean;
           copySellTrades: boolean;
           amountType: string;
@@ -928,6 +1024,7 @@ function createInMemoryPrisma() {
           id: randomUUID(),
           userId: args.data.userId,
           signalCategories: args.data.signalCategories,
+          providerIds: args.data.providerIds || null,
           copyBuyTrades: args.data.copyBuyTrades,
           copySellTrades: args.data.copySellTrades,
           amountType: args.data.amountType,
@@ -1054,6 +1151,7 @@ function createInMemoryPrisma() {
           maxSellAmount?: string | null;
           marketCategories?: string | null;
           signalCategories?: string;
+          providerIds?: string | null;
           slippageTolerance?: string;
           maxRetries?: number;
         };
@@ -1102,6 +1200,9 @@ function createInMemoryPrisma() {
         if (args.data.signalCategories !== undefined) {
           config.signalCategories = args.data.signalCategories;
         }
+        if (args.data.providerIds !== undefined) {
+          config.providerIds = args.data.providerIds;
+        }
         if (args.data.slippageTolerance !== undefined) {
           config.slippageTolerance = args.data.slippageTolerance;
         }
@@ -1133,6 +1234,7 @@ function createInMemoryPrisma() {
         data: {
           configId: string;
           signalId: string;
+          providerId?: string | null;
           category: string;
           originalTxHash?: string | null;
           marketId: string;
@@ -1150,6 +1252,7 @@ function createInMemoryPrisma() {
           id: randomUUID(),
           configId: args.data.configId,
           signalId: args.data.signalId,
+          providerId: args.data.providerId || null,
           category: args.data.category,
           originalTxHash: args.data.originalTxHash || null,
           marketId: args.data.marketId,
@@ -1459,6 +1562,185 @@ function createInMemoryPrisma() {
         return signals.length;
       },
     },
+    traderCursor: {
+      async findUnique(args: { where: { traderAddress: string } }): Promise<InMemoryTraderCursor | null> {
+        return inMemoryTraderCursors.get(args.where.traderAddress) || null;
+      },
+      async upsert(args: {
+        where: { traderAddress: string };
+        create: { traderAddress: string; lastTimestamp: number; lastTxHashes?: string | null };
+        update: { lastTimestamp?: number; lastTxHashes?: string | null };
+      }): Promise<InMemoryTraderCursor> {
+        const existing = inMemoryTraderCursors.get(args.where.traderAddress);
+
+        if (existing) {
+          if (args.update.lastTimestamp !== undefined) {
+            existing.lastTimestamp = args.update.lastTimestamp;
+          }
+          if (args.update.lastTxHashes !== undefined) {
+            existing.lastTxHashes = args.update.lastTxHashes;
+          }
+          existing.updatedAt = new Date();
+          return existing;
+        }
+
+        const cursor: InMemoryTraderCursor = {
+          traderAddress: args.create.traderAddress,
+          lastTimestamp: args.create.lastTimestamp,
+          lastTxHashes: args.create.lastTxHashes || null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+        inMemoryTraderCursors.set(cursor.traderAddress, cursor);
+        return cursor;
+      },
+    },
+    fetchedTrade: {
+      async findMany(args?: {
+        where?: { configId?: { in: string[] }; originalTxHash?: { in: string[] } };
+      }): Promise<InMemoryFetchedTrade[]> {
+        const configIds = args?.where?.configId?.in;
+        const txHashes = args?.where?.originalTxHash?.in;
+        return Array.from(inMemoryFetchedTrades.values())
+          .filter((t) => !configIds || configIds.includes(t.configId))
+          .filter((t) => !txHashes || txHashes.includes(t.originalTxHash));
+      },
+      async upsert(args: {
+        where: { configId_originalTxHash: { configId: string; originalTxHash: string } };
+        create: Partial<InMemoryFetchedTrade> & { configId: string; originalTxHash: string; traderAddress: string };
+        update: Partial<InMemoryFetchedTrade>;
+      }): Promise<InMemoryFetchedTrade> {
+        const { configId, originalTxHash } = args.where.configId_originalTxHash;
+        const key = `${configId}:${originalTxHash}`;
+        const existing = inMemoryFetchedTrades.get(key);
+        if (existing) {
+          Object.assign(existing, args.update);
+          return existing;
+        }
+
+        const fetchedTrade: InMemoryFetchedTrade = {
+          id: randomUUID(),
+          configId: args.create.configId,
+          originalTxHash: args.create.originalTxHash,
+          traderAddress: args.create.traderAddress,
+          marketId: args.create.marketId || null,
+          timestamp: args.create.timestamp || null,
+          side: args.create.side || null,
+          processed: args.create.processed || false,
+          skippedReason: args.create.skippedReason || null,
+          createdAt: new Date(),
+        };
+        inMemoryFetchedTrades.set(key, fetchedTrade);
+        return fetchedTrade;
+      },
+      async updateMany(args: {
+        where: { configId: string; originalTxHash: string };
+        data: Partial<InMemoryFetchedTrade>;
+      }): Promise<{ count: number }> {
+        const existing = inMemoryFetchedTrades.get(`${args.where.configId}:${args.where.originalTxHash}`);
+        if (!existing) {
+          return { count: 0 };
+        }
+        Object.assign(existing, args.data);
+        return { count: 1 };
+      },
+    },
+    signalProvider: {
+      async findMany(args?: {
+        where?: { enabled?: boolean; transport?: string; id?: { in: string[] } };
+      }): Promise<InMemorySignalProvider[]> {
+        const where = args?.where;
+        return Array.from(inMemorySignalProviders.values())
+          .filter((p) => where?.enabled === undefined || p.enabled === where.enabled)
+          .filter((p) => where?.transport === undefined || p.transport === where.transport)
+          .filter((p) => !where?.id || where.id.in.includes(p.id))
+          .sort((a, b) => a.name.localeCompare(b.name));
+      },
+      async findUnique(args: { where: { id?: string; name?: string } }): Promise<InMemorySignalProvider | null> {
+        if (args.where.id) {
+          return inMemorySignalProviders.get(args.where.id) || null;
+        }
+        return Array.from(inMemorySignalProviders.values()).find((p) => p.name === args.where.name) || null;
+      },
+      async create(args: { data: Partial<InMemorySignalProvider> & { name: string; categories: string } }): Promise<InMemorySignalProvider> {
+        const provider: InMemorySignalProvider = {
+          id: randomUUID(),
+          name: args.data.name,
+          transport: args.data.transport || 'poll',
+          pollUrl: args.data.pollUrl || null,
+          apiKey: args.data.apiKey || null,
+          webhookSecret: args.data.webhookSecret || null,
+          signerAddress: args.data.signerAddress || null,
+          categories: args.data.categories,
+          enabled: args.data.enabled ?? true,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+        inMemorySignalProviders.set(provider.id, provider);
+        return provider;
+      },
+      async update(args: { where: { id: string }; data: Partial<InMemorySignalProvider> }): Promise<InMemorySignalProvider> {
+        const provider = inMemorySignalProviders.get(args.where.id);
+        if (!provider) {
+          throw new Error('SignalProvider not found');
+        }
+        Object.assign(provider, args.data, { updatedAt: new Date() });
+        return provider;
+      },
+      async upsert(args: {
+        where: { name: string };
+        create: Partial<InMemorySignalProvider> & { name: string; categories: string };
+        update: Partial<InMemorySignalProvider>;
+      }): Promise<InMemorySignalProvider> {
+        const existing = Array.from(inMemorySignalProviders.values()).find((p) => p.name === args.where.name);
+        if (existing) {
+          Object.assign(existing, args.update, { updatedAt: new Date() });
+          return existing;
+        }
+        return this.create({ data: args.create });
+      },
+    },
+    withdrawal: {
+      async create(args: { data: Partial<InMemoryWithdrawal> & { userId: string; asset: string; amount: string; toAddress: string; proxyWallet: string } }): Promise<InMemoryWithdrawal> {
+        const withdrawal: InMemoryWithdrawal = {
+          id: randomUUID(),
+          userId: args.data.userId,
+          asset: args.data.asset,
+          tokenId: args.data.tokenId || null,
+          amount: args.data.amount,
+          toAddress: args.data.toAddress,
+          proxyWallet: args.data.proxyWallet,
+          status: args.data.status || 'pending',
+          txHash: args.data.txHash || null,
+          errorMessage: args.data.errorMessage || null,
+          createdAt: new Date(),
+          completedAt: args.data.completedAt || null,
+        };
+        inMemoryWithdrawals.set(withdrawal.id, withdrawal);
+        return withdrawal;
+      },
+      async update(args: { where: { id: string }; data: Partial<InMemoryWithdrawal> }): Promise<InMemoryWithdrawal> {
+        const withdrawal = inMemoryWithdrawals.get(args.where.id);
+        if (!withdrawal) {
+          throw new Error('Withdrawal not found');
+        }
+        Object.assign(withdrawal, args.data);
+        return withdrawal;
+      },
+      async findMany(args?: { where?: { userId?: string; status?: string } }): Promise<InMemoryWithdrawal[]> {
+        const where = args?.where;
+        return Array.from(inMemoryWithdrawals.values())
+          .filter((w) => where?.userId === undefined || w.userId === where.userId)
+          .filter((w) => where?.status === undefined || w.status === where.status)
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      },
+    },
+    // Notification webhooks need PostgreSQL; in development no endpoint is ever subscribed
+    webhookEndpoint: {
+      async findMany(): Promise<never[]> {
+        return [];
+      },
+    },
   } as unknown as PrismaClient;
 }
 
@@ -15,6 +15,13 @@ export const config = {
     cookieSecret: process.env.ADMINJS_COOKIE_SECRET || '',
     sessionSecret: process.env.ADMINJS_SESSION_SECRET || '',
   },
+  admin: {
+    // Wallet addresses allowed to use the admin API (comma-separated)
+    addresses: (process.env.ADMIN_ADDRESSES || '')
+      .split(',')
+      .map((address) => address.trim().toLowerCase())
+      .filter(Boolean),
+  },
   app: {
     name: process.env.APP_NAME || 'PolySignal Copy Trading',
     url: process.env.APP_URL || 'http://localhost:3001',
@@ -28,6 +35,8 @@ export const config = {
     deployerPrivateKey: process.env.DEPLOYER_PRIVATE_KEY || '',
     usdcAddress: process.env.USDC_POLYGON_ADDRESS || '', // USDC on Polygon
     ctfAddress: process.env.CTF_ADDRESS || '', // Conditional Token Framework on Polygon
+    ctfExchangeAddress: process.env.CTF_EXCHANGE_ADDRESS || '0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E', // Polymarket CTF Exchange
+    negRiskCtfExchangeAddress: process.env.NEG_RISK_CTF_EXCHANGE_ADDRESS || '0xC5d563A36AE78145C45a50134d48A1215220f80a', // Polymarket Neg Risk CTF Exchange
     hdWalletMnemonic: process.env.HD_WALLET_MNEMONIC || '', // Mnemonic for HD wallet derivation (for dynamic Safe deployment)
   },
   deposit: {
@@ -50,8 +59,16 @@ export const config = {
     },
   },
   signals: {
+    // Legacy single upstream, registered as the "default" poll provider on startup
     apiUrl: process.env.SIGNALS_API_URL || '',
     apiKey: process.env.SIGNALS_API_KEY || '',
+    // Replay window for signed pushes to /api/signals/ingest
+    ingestMaxSkewSeconds: parseInt(process.env.SIGNAL_INGEST_MAX_SKEW_SECONDS || '300', 10),
+  },
+  notifications: {
+    // Outbound user webhooks: per-request timeout and delivery attempts (exponential backoff)
+    webhookTimeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10),
   },
   safe: {
     // Safe Transaction Service URL for Polygon
@@ -64,6 +81,12 @@ export const config = {
   workers: {
     tradeMonitorInterval: parseInt(process.env.TRADE_MONITOR_INTERVAL || '30000', 10), // 30 seconds
     maxRetries: parseInt(process.env.MAX_RETRIES || '3', 10),
+    // Trades older than this when picked up (e.g. cursor catch-up after downtime) are skipped, 0 copies any age
+    maxTradeAgeSeconds: parseInt(process.env.MAX_TRADE_AGE_SECONDS || '300', 10),
+    // On-chain trade detection (CTF Exchange OrderFilled logs); polling stays on as a gap-filler
+    onChainDetectionEnabled: process.env.ONCHAIN_TRADE_DETECTION_ENABLED !== 'false',
+    onChainPollInterval: parseInt(process.env.ONCHAIN_POLL_INTERVAL || '2000', 10), // ~1 Polygon block
+    onChainMaxBlockRange: parseInt(process.env.ONCHAIN_MAX_BLOCK_RANGE || '500', 10),
   },
   tenderly: {
     accessToken: process.env.TENDERLY_ACCESS_TOKEN || '',
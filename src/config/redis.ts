@@ -1,34 +1,124 @@
+import { EventEmitter } from 'events';
 import Redis from 'ioredis';
 import { isProduction, config } from './env';
 
 // In-memory Redis-like store for development
 class InMemoryRedis {
   private store: Map<string, string> = new Map();
+  private expiresAt: Map<string, number> = new Map();
 
   async get(key: string): Promise<string | null> {
+    this.evictIfExpired(key);
     return this.store.get(key) || null;
   }
 
-  async set(key: string, value: string): Promise<'OK'> {
+  // Supports the PX / EX and NX options used for locks
+  async set(key: string, value: string, ...options: Array<string | number>): Promise<'OK' | null> {
+    this.evictIfExpired(key);
+    const flags = options.map((option) => String(option).toUpperCase());
+    if (flags.includes('NX') && this.store.has(key)) {
+      return null;
+    }
+
     this.store.set(key, value);
+    this.expiresAt.delete(key);
+    const pxIndex = flags.indexOf('PX');
+    const exIndex = flags.indexOf('EX');
+    if (pxIndex !== -1) {
+      this.expiresAt.set(key, Date.now() + Number(options[pxIndex + 1]));
+    } else if (exIndex !== -1) {
+      this.expiresAt.set(key, Date.now() + Number(options[exIndex + 1]) * 1000);
+    }
     return 'OK';
   }
 
   async del(key: string): Promise<number> {
+    this.expiresAt.delete(key);
     return this.store.delete(key) ? 1 : 0;
   }
 
   async exists(key: string): Promise<number> {
+    this.evictIfExpired(key);
     return this.store.has(key) ? 1 : 0;
   }
 
-  async expire(_key: string, _seconds: number): Promise<number> {
-    // In-memory implementation - would need setTimeout for real expiry
+  async incr(key: string): Promise<number> {
+    return this.incrBy(key, 1);
+  }
+
+  async decr(key: string): Promise<number> {
+    return this.incrBy(key, -1);
+  }
+
+  async expire(key: string, seconds: number): Promise<number> {
+    this.evictIfExpired(key);
+    if (!this.store.has(key)) {
+      return 0;
+    }
+    this.expiresAt.set(key, Date.now() + seconds * 1000);
     return 1;
   }
 
+  async publish(channel: string, message: string): Promise<number> {
+    let receivers = 0;
+    for (const subscriber of inMemorySubscribers) {
+      if (subscriber.deliver(channel, message)) {
+        receivers++;
+      }
+    }
+    return receivers;
+  }
+
   async disconnect(): Promise<void> {
     this.store.clear();
+    this.expiresAt.clear();
+  }
+
+  private incrBy(key: string, amount: number): number {
+    this.evictIfExpired(key);
+    const value = (parseInt(this.store.get(key) || '0', 10) || 0) + amount;
+    this.store.set(key, String(value));
+    return value;
+  }
+
+  private evictIfExpired(key: string): void {
+    const expiresAt = this.expiresAt.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.store.delete(key);
+      this.expiresAt.delete(key);
+    }
+  }
+}
+
+// Pub/sub for the in-memory store (development runs the API and workers in one process)
+const inMemorySubscribers: Set<InMemoryRedisSubscriber> = new Set();
+
+class InMemoryRedisSubscriber extends EventEmitter {
+  private channels: Set<string> = new Set();
+
+  async subscribe(...channels: string[]): Promise<number> {
+    channels.forEach((channel) => this.channels.add(channel));
+    inMemorySubscribers.add(this);
+    return this.channels.size;
+  }
+
+  async unsubscribe(...channels: string[]): Promise<number> {
+    channels.forEach((channel) => this.channels.delete(channel));
+    return this.channels.size;
+  }
+
+  deliver(channel: string, message: string): boolean {
+    if (!this.channels.has(channel)) {
+      return false;
+    }
+    this.emit('message', channel, message);
+    return true;
+  }
+
+  async quit(): Promise<'OK'> {
+    inMemorySubscribers.delete(this);
+    this.channels.clear();
+    return 'OK';
   }
 }
 
@@ -73,3 +163,12 @@ export const closeRedis = async () => {
   }
 };
 
+/**
+ * Create a dedicated connection for SUBSCRIBE
+ * A subscribed ioredis connection can't run other commands, so it must not be the shared client.
+ */
+export const createRedisSubscriber = (): Redis => {
+  return isProduction
+    ? redis.duplicate()
+    : (new InMemoryRedisSubscriber() as unknown as Redis);
+};
@@ -9,13 +9,22 @@ import { initRedis, closeRedis } from './config/redis';
 import routes from './routes';
 import { setupAdmin } from './admin/admin';
 import { startTradeMonitorWorker, stopTradeMonitorWorker } from './workers/trade-monitor-worker';
+import { startOnChainTradeDetectorWorker, stopOnChainTradeDetectorWorker } from './workers/onchain-trade-detector-worker';
 import { startSignalMonitorWorker, stopSignalMonitorWorker } from './workers/signal-monitor-worker';
 import { startTradeExecutorWorker } from './workers/trade-executor-worker';
 import { startBridgeAssetsWorker } from './workers/bridge-assets-worker';
 import { startDepositTrackerWorker } from './workers/deposit-tracker-worker';
 import { startClobClientRefreshWorker } from './workers/clob-client-refresh-worker';
 import { startPositionRedemptionWorker } from './workers/position-redemption-worker';
+import { startPositionExitWorker, stopPositionExitWorker } from './workers/position-exit-worker';
+import { startCircuitBreakerWorker, stopCircuitBreakerWorker } from './workers/circuit-breaker-worker';
+import { startTraderLeaderboardWorker, stopTraderLeaderboardWorker } from './workers/trader-leaderboard-worker';
+import { startEquitySnapshotWorker, stopEquitySnapshotWorker } from './workers/equity-snapshot-worker';
+import { startLimitOrderWorker, stopLimitOrderWorker } from './workers/limit-order-worker';
+import { startWebhookDeliveryWorker } from './workers/webhook-delivery-worker';
 import { closeQueues } from './services/queue';
+import { closeTradingEventsSubscriber } from './services/trading-events';
+import { captureRawBody } from './middleware/raw-body';
 
 const app: Express = express();
 
@@ -81,7 +90,7 @@ const corsOptions = {
 
 // Middleware
 app.use(cors(corsOptions));
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody })); // Raw body is kept for signed webhooks
 app.use(express.urlencoded({ extended: true }));
 
 // Serve static files from public directory
@@ -107,12 +116,19 @@ const startServer = async () => {
 
     // Start background workers
     startTradeMonitorWorker();
+    startOnChainTradeDetectorWorker(); // Detect trades from CTF Exchange OrderFilled logs
     startSignalMonitorWorker(); // Monitor external API for signals
     startTradeExecutorWorker();
     startBridgeAssetsWorker(); // Sync supported assets from Polymarket Bridge API
     startClobClientRefreshWorker(); // Refresh CLOB clients before they expire
     startDepositTrackerWorker(); // Track deposits through bridge process
     startPositionRedemptionWorker(); // Auto-redeem positions for closed markets
+    startPositionExitWorker(); // Stop-loss / take-profit / trailing stop exits
+    startCircuitBreakerWorker(); // Pause everything when account drawdown limits are hit
+    startTraderLeaderboardWorker(); // Refresh cached trader discovery leaderboard
+    startEquitySnapshotWorker(); // Record daily user and config equity for the equity curve
+    startLimitOrderWorker(); // Record limit-order copy fills and cancel expired orders
+    startWebhookDeliveryWorker(); // Deliver signed notification webhooks with retries
 
     const server = app.listen(config.port, () => {
       console.log(`🚀 Server running on port ${config.port}`);
@@ -121,22 +137,36 @@ const startServer = async () => {
       console.log(`🔧 Admin Panel: ${config.app.url}/admin`);
       console.log(`🌍 Environment: ${config.env}`);
       console.log(`🔄 Trade monitoring worker: Active`);
+      console.log(`⛓️ On-chain trade detection worker: ${config.workers.onChainDetectionEnabled && config.blockchain.polygonRpcUrl ? 'Active' : 'Disabled'}`);
       console.log(`📡 Signal monitoring worker: Active`);
       console.log(`⚡ Trade execution worker: Active`);
       console.log(`🌉 Bridge assets sync worker: Active`);
       console.log(`🔑 CLOB client refresh worker: Active`);
       console.log(`📦 Deposit tracker worker: Active`);
       console.log(`💰 Position redemption worker: Active`);
+      console.log(`🚪 Position exit worker: Active`);
+      console.log(`🚨 Circuit breaker worker: Active`);
+      console.log(`🏆 Trader leaderboard worker: Active`);
+      console.log(`📈 Equity snapshot worker: Active`);
+      console.log(`⏳ Limit order worker: Active`);
+      console.log(`🔔 Webhook delivery worker: Active`);
     });
 
     // Graceful shutdown
     const gracefulShutdown = async () => {
       console.log('\n🛑 Shutting down gracefully...');
       stopTradeMonitorWorker();
+      stopOnChainTradeDetectorWorker();
       stopSignalMonitorWorker();
+      stopPositionExitWorker();
+      stopCircuitBreakerWorker();
+      stopTraderLeaderboardWorker();
+      stopEquitySnapshotWorker();
+      stopLimitOrderWorker();
       await closeQueues();
       server.close(async () => {
         await closeDatabase();
+        await closeTradingEventsSubscriber();
         await closeRedis();
         console.log('✅ Server closed');
         process.exit(0);
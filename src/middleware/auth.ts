@@ -53,3 +53,19 @@ export function authenticateToken(
   }
 }
 
+/**
+ * Admin Authorization Middleware
+ * Use after authenticateToken; only wallets listed in ADMIN_ADDRESSES pass
+ */
+export function requireAdmin(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.userAddress || !config.admin.addresses.includes(req.userAddress.toLowerCase())) {
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+
+  next();
+}
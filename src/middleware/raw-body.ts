@@ -0,0 +1,14 @@
+import { Request } from 'express';
+import { IncomingMessage } from 'http';
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * express.json `verify` hook that keeps the exact request bytes
+ * Signed webhooks must be verified against the body as sent, not re-serialized JSON.
+ */
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
@@ -0,0 +1,233 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import { listDeadLetterJobs, requeueDeadLetterJob } from '../services/dead-letter';
+import { createSignalProvider, listSignalProviders, updateSignalProvider } from '../services/signal-providers';
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * /admin/dead-letter:
+ *   get:
+ *     summary: List trade and signal execution jobs that ran out of retries
+ *     description: |
+ *       Jobs that kept failing with transient errors (network, proxy, rate limit) after
+ *       every retry. Admin wallets only (ADMIN_ADDRESSES).
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Dead-lettered jobs with their original job data, last error and attempt count
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ */
+router.get('/dead-letter', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await listDeadLetterJobs({
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error listing dead-letter jobs:', error);
+    res.status(500).json({
+      error: 'Failed to list dead-letter jobs',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/dead-letter/{jobId}/requeue:
+ *   post:
+ *     summary: Requeue a dead-lettered execution job
+ *     description: Puts the job back on the trade execution queue with a fresh set of retries and resets its trade or signal to pending.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Dead-letter job ID
+ *     responses:
+ *       200:
+ *         description: Job requeued
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: Dead-letter job not found
+ */
+router.post('/dead-letter/:jobId/requeue', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await requeueDeadLetterJob(req.params.jobId as string);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error requeueing dead-letter job:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    res.status(message.includes('not found') ? 404 : 500).json({
+      error: 'Failed to requeue dead-letter job',
+      message,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/signal-providers:
+ *   get:
+ *     summary: List registered signal providers
+ *     description: Credentials are never returned, only whether they are set. Admin wallets only (ADMIN_ADDRESSES).
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Signal providers
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ */
+router.get('/signal-providers', authenticateToken, requireAdmin, async (_req: AuthRequest, res: Response) => {
+  try {
+    const providers = await listSignalProviders();
+    res.json(providers);
+  } catch (error) {
+    console.error('Error listing signal providers:', error);
+    res.status(500).json({
+      error: 'Failed to list signal providers',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/signal-providers:
+ *   post:
+ *     summary: Register a signal provider
+ *     description: |
+ *       `poll` providers are fetched by the signal monitor from `pollUrl` (with `apiKey` as a bearer token).
+ *       `webhook` providers push signed signals to /signals/ingest using `webhookSecret` (HMAC) or the key of `signerAddress`.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - transport
+ *               - categories
+ *             properties:
+ *               name:
+ *                 type: string
+ *               transport:
+ *                 type: string
+ *                 enum: [poll, webhook]
+ *               pollUrl:
+ *                 type: string
+ *               apiKey:
+ *                 type: string
+ *               webhookSecret:
+ *                 type: string
+ *               signerAddress:
+ *                 type: string
+ *               categories:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Categories the provider publishes (empty = any)
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Provider registered
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ */
+router.post('/signal-providers', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const provider = await createSignalProvider({
+      ...req.body,
+      categories: req.body.categories ?? [],
+    });
+    res.json(provider);
+  } catch (error) {
+    console.error('Error creating signal provider:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    res.status(message.includes('Invalid') ? 400 : 500).json({
+      error: 'Failed to create signal provider',
+      message,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/signal-providers/{providerId}:
+ *   put:
+ *     summary: Update a signal provider
+ *     description: Change its transport, credentials or categories, or disable it with `enabled` false.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: providerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Provider updated
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Provider not found
+ */
+router.put('/signal-providers/:providerId', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const provider = await updateSignalProvider(req.params.providerId as string, req.body);
+    res.json(provider);
+  } catch (error) {
+    console.error('Error updating signal provider:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const statusCode = message.includes('not found') ? 404 : message.includes('Invalid') ? 400 : 500;
+    res.status(statusCode).json({
+      error: 'Failed to update signal provider',
+      message,
+    });
+  }
+});
+
+export default router;
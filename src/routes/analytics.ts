@@ -12,10 +12,68 @@ import {
   getTradesLifecycle,
   getEnhancedStatistics,
 } from '../services/trade-lifecycle-analytics';
+import { getUserLedger, ledgerToCsv } from '../services/accounting-export';
+import { getEquityCurve } from '../services/equity-snapshots';
 import { prisma } from '../config/database';
 
 const router: Router = Router();
 
+/**
+ * Summarize copied signals (simulated paper fills count as executed)
+ */
+function summarizeSignals(signals: Array<{ status: string; pnl: string | null; outcome: string | null }>) {
+  const executedSignals = signals.filter(s => s.status === 'settled' || s.status === 'executed' || s.status === 'simulated').length;
+  const failedSignals = signals.filter(s => s.status === 'failed').length;
+  const pendingSignals = signals.filter(s => s.status === 'pending').length;
+
+  const totalPnl = signals
+    .filter(s => s.pnl !== null)
+    .reduce((sum, s) => sum + parseFloat(s.pnl || '0'), 0);
+
+  const winCount = signals.filter(s => s.outcome === 'win').length;
+  const lossCount = signals.filter(s => s.outcome === 'loss').length;
+
+  return {
+    totalSignals: signals.length,
+    executedSignals,
+    failedSignals,
+    pendingSignals,
+    totalPnl: totalPnl.toFixed(2),
+    winCount,
+    lossCount,
+    winRate: winCount + lossCount > 0 ? ((winCount / (winCount + lossCount)) * 100).toFixed(2) : '0.00',
+  };
+}
+
+/**
+ * Summarize copied signals per provider (signals copied before the provider registry have a null providerId)
+ */
+async function summarizeSignalsByProvider(
+  signals: Array<{ providerId: string | null; status: string; pnl: string | null; outcome: string | null }>
+) {
+  const groups = new Map<string | null, typeof signals>();
+  for (const signal of signals) {
+    const group = groups.get(signal.providerId) || [];
+    group.push(signal);
+    groups.set(signal.providerId, group);
+  }
+
+  const providerIds = Array.from(groups.keys()).filter((id): id is string => id !== null);
+  const providers = providerIds.length > 0
+    ? await prisma.signalProvider.findMany({
+        where: { id: { in: providerIds } },
+        select: { id: true, name: true },
+      })
+    : [];
+  const providerNames = new Map(providers.map(p => [p.id, p.name]));
+
+  return Array.from(groups.entries()).map(([providerId, group]) => ({
+    providerId,
+    providerName: providerId ? providerNames.get(providerId) || null : null,
+    ...summarizeSignals(group),
+  }));
+}
+
 /**
  * @swagger
  * /analytics/stats:
@@ -26,7 +84,7 @@ const router: Router = Router();
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: User statistics
+ *         description: User statistics for live trades, with paper-mode results under `paper`
  */
 router.get('/stats', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -144,7 +202,7 @@ router.get('/traders', authenticateToken, async (req: AuthRequest, res: Response
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, executed, failed, skipped]
+ *           enum: [pending, executed, failed, skipped, simulated]
  *       - in: query
  *         name: outcome
  *         schema:
@@ -204,7 +262,7 @@ router.get('/config/:configId/history', authenticateToken, async (req: AuthReque
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, executed, failed, skipped]
+ *           enum: [pending, executed, failed, skipped, simulated]
  *       - in: query
  *         name: outcome
  *         schema:
@@ -395,7 +453,9 @@ router.get('/enhanced/stats', authenticateToken, async (req: AuthRequest, res: R
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: User signal statistics
+ *         description: |
+ *           User signal statistics for live signals, with paper-mode results under `paper`.
+ *           `byProvider` breaks each down by the provider that published the signals.
  */
 router.get('/signals/stats', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -417,27 +477,17 @@ router.get('/signals/stats', authenticateToken, async (req: AuthRequest, res: Re
       },
     });
 
-    const totalSignals = signals.length;
-    const executedSignals = signals.filter(s => s.status === 'settled' || s.status === 'executed').length;
-    const failedSignals = signals.filter(s => s.status === 'failed').length;
-    const pendingSignals = signals.filter(s => s.status === 'pending').length;
-
-    const totalPnl = signals
-      .filter(s => s.pnl !== null)
-      .reduce((sum, s) => sum + parseFloat(s.pnl || '0'), 0);
-
-    const winCount = signals.filter(s => s.outcome === 'win').length;
-    const lossCount = signals.filter(s => s.outcome === 'loss').length;
+    const liveSignals = signals.filter(s => !s.isPaper);
+    const paperSignals = signals.filter(s => s.isPaper);
 
+    // Live results at the top level, paper results alongside
     res.json({
-      totalSignals,
-      executedSignals,
-      failedSignals,
-      pendingSignals,
-      totalPnl: totalPnl.toFixed(2),
-      winCount,
-      lossCount,
-      winRate: winCount + lossCount > 0 ? ((winCount / (winCount + lossCount)) * 100).toFixed(2) : '0.00',
+      ...summarizeSignals(liveSignals),
+      byProvider: await summarizeSignalsByProvider(liveSignals),
+      paper: {
+        ...summarizeSignals(paperSignals),
+        byProvider: await summarizeSignalsByProvider(paperSignals),
+      },
     });
   } catch (error) {
     console.error('Error getting signal statistics:', error);
@@ -464,7 +514,7 @@ router.get('/signals/stats', authenticateToken, async (req: AuthRequest, res: Re
  *           type: string
  *     responses:
  *       200:
- *         description: Configuration signal statistics
+ *         description: Configuration signal statistics, with a per-provider breakdown under `byProvider`
  */
 router.get('/signals/config/:configId/stats', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -492,28 +542,11 @@ router.get('/signals/config/:configId/stats', authenticateToken, async (req: Aut
       where: { configId },
     });
 
-    const totalSignals = signals.length;
-    const executedSignals = signals.filter(s => s.status === 'settled' || s.status === 'executed').length;
-    const failedSignals = signals.filter(s => s.status === 'failed').length;
-    const pendingSignals = signals.filter(s => s.status === 'pending').length;
-
-    const totalPnl = signals
-      .filter(s => s.pnl !== null)
-      .reduce((sum, s) => sum + parseFloat(s.pnl || '0'), 0);
-
-    const winCount = signals.filter(s => s.outcome === 'win').length;
-    const lossCount = signals.filter(s => s.outcome === 'loss').length;
-
     res.json({
       configId,
-      totalSignals,
-      executedSignals,
-      failedSignals,
-      pendingSignals,
-      totalPnl: totalPnl.toFixed(2),
-      winCount,
-      lossCount,
-      winRate: winCount + lossCount > 0 ? ((winCount / (winCount + lossCount)) * 100).toFixed(2) : '0.00',
+      mode: config.mode,
+      ...summarizeSignals(signals),
+      byProvider: await summarizeSignalsByProvider(signals),
     });
   } catch (error) {
     console.error('Error getting signal config statistics:', error);
@@ -551,11 +584,16 @@ router.get('/signals/config/:configId/stats', authenticateToken, async (req: Aut
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, executed, failed, skipped, settled]
+ *           enum: [pending, executed, failed, skipped, settled, simulated]
  *       - in: query
  *         name: category
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: providerId
+ *         schema:
+ *           type: string
+ *         description: Only signals published by this provider
  *     responses:
  *       200:
  *         description: Signal history
@@ -564,7 +602,7 @@ router.get('/signals/config/:configId/history', authenticateToken, async (req: A
   try {
     const userId = req.userId;
     const { configId } = req.params;
-    const { limit, offset, status, category } = req.query;
+    const { limit, offset, status, category, providerId } = req.query;
 
     if (!userId) {
       res.status(401).json({ error: 'Authentication required' });
@@ -590,6 +628,9 @@ router.get('/signals/config/:configId/history', authenticateToken, async (req: A
     if (category) {
       where.category = category;
     }
+    if (providerId) {
+      where.providerId = providerId;
+    }
 
     const signals = await prisma.copiedSignal.findMany({
       where,
@@ -637,11 +678,16 @@ router.get('/signals/config/:configId/history', authenticateToken, async (req: A
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, executed, failed, skipped, settled]
+ *           enum: [pending, executed, failed, skipped, settled, simulated]
  *       - in: query
  *         name: category
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: providerId
+ *         schema:
+ *           type: string
+ *         description: Only signals published by this provider
  *     responses:
  *       200:
  *         description: Signal history
@@ -649,7 +695,7 @@ router.get('/signals/config/:configId/history', authenticateToken, async (req: A
 router.get('/signals/history', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.userId;
-    const { limit, offset, status, category } = req.query;
+    const { limit, offset, status, category, providerId } = req.query;
 
     if (!userId) {
       res.status(401).json({ error: 'Authentication required' });
@@ -671,6 +717,9 @@ router.get('/signals/history', authenticateToken, async (req: AuthRequest, res:
     if (category) {
       where.category = category;
     }
+    if (providerId) {
+      where.providerId = providerId;
+    }
 
     const signals = await prisma.copiedSignal.findMany({
       where,
@@ -696,5 +745,183 @@ router.get('/signals/history', authenticateToken, async (req: AuthRequest, res:
   }
 });
 
+/**
+ * @swagger
+ * /analytics/export:
+ *   get:
+ *     summary: Export an accounting ledger of your live activity
+ *     description: |
+ *       Every buy, sell, redemption, deposit and withdrawal, oldest first, with timestamps, tx hashes,
+ *       fees, proceeds and FIFO cost-basis gains per disposal. Cost basis is matched per token across
+ *       copy trading and signal fills, using history before `from` too. Paper trades are excluded.
+ *       Trade fees are derived from each token's fee rate, price and size (fills don't record them);
+ *       buy fees are added to cost basis and sell fees netted from gains. Deposit fees are empty.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, json]
+ *           default: json
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Inclusive start
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Exclusive end; a plain date (YYYY-MM-DD) includes that whole day
+ *     responses:
+ *       200:
+ *         description: Ledger entries (JSON) or a CSV attachment
+ *       400:
+ *         description: Invalid format or date
+ */
+router.get('/export', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    const format = (req.query.format as string | undefined) || 'json';
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (format !== 'csv' && format !== 'json') {
+      res.status(400).json({ error: 'Invalid format. Use csv or json' });
+      return;
+    }
+
+    const from = parseDateParam(req.query.from as string | undefined, false);
+    const to = parseDateParam(req.query.to as string | undefined, true);
+    if (from === null || to === null) {
+      res.status(400).json({ error: 'Invalid date. Use ISO 8601, e.g. 2026-01-31 or 2026-01-31T12:00:00Z' });
+      return;
+    }
+    if (from && to && from >= to) {
+      res.status(400).json({ error: 'Invalid date range: from must be before to' });
+      return;
+    }
+
+    const entries = await getUserLedger(userId, { from, to });
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="ledger-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(ledgerToCsv(entries));
+      return;
+    }
+
+    res.json({
+      entries,
+      total: entries.length,
+      from: from || null,
+      to: to || null,
+    });
+  } catch (error) {
+    console.error('Error exporting ledger:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to export ledger';
+    const statusCode = errorMessage.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+/**
+ * @swagger
+ * /analytics/equity-curve:
+ *   get:
+ *     summary: Daily equity curve with drawdown, volatility, Sharpe and time-weighted return
+ *     description: |
+ *       Daily snapshots of your account equity (USDC balance plus the marked value of open live
+ *       positions), or of one config's equity (its allocation plus realized and unrealized PnL) when
+ *       `configId` is given. Returns are time-weighted: deposits, withdrawals and allocation changes
+ *       are netted out of each day's return. Volatility and Sharpe are annualized over 365 days with
+ *       a risk-free rate of 0.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: configId
+ *         schema:
+ *           type: string
+ *         description: Copy trading or signal config (defaults to the whole account)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Inclusive start
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Exclusive end; a plain date (YYYY-MM-DD) includes that whole day
+ *     responses:
+ *       200:
+ *         description: Equity series and metrics
+ *       400:
+ *         description: Invalid date
+ *       404:
+ *         description: Config not found
+ */
+router.get('/equity-curve', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const from = parseDateParam(req.query.from as string | undefined, false);
+    const to = parseDateParam(req.query.to as string | undefined, true);
+    if (from === null || to === null) {
+      res.status(400).json({ error: 'Invalid date. Use ISO 8601, e.g. 2026-01-31 or 2026-01-31T12:00:00Z' });
+      return;
+    }
+
+    const curve = await getEquityCurve(userId, {
+      configId: req.query.configId as string | undefined,
+      from,
+      to,
+    });
+
+    res.json(curve);
+  } catch (error) {
+    console.error('Error getting equity curve:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get equity curve';
+    const statusCode = errorMessage.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+/**
+ * Parse a from/to query date; a plain-date upper bound moves to the start of the next day
+ *
+ * @returns undefined when absent, null when invalid
+ */
+function parseDateParam(value: string | undefined, isEnd: boolean): Date | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  if (isEnd && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
 export default router;
 
@@ -10,6 +10,7 @@ import {
   authorizeCopySignals,
   deleteCopySignalConfig,
 } from '../services/copy-signals';
+import { listSignalProviders } from '../services/signal-providers';
 
 const router: Router = Router();
 
@@ -28,7 +29,6 @@ const router: Router = Router();
  *           schema:
  *             type: object
  *             required:
- *               - signalCategories
  *               - copyBuyTrades
  *               - copySellTrades
  *               - amountType
@@ -39,7 +39,12 @@ const router: Router = Router();
  *                 type: array
  *                 items:
  *                   type: string
- *                 description: Array of signal categories to copy
+ *                 description: Array of signal categories to copy (required unless providerIds is set)
+ *               providerIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Only copy signals from these providers (see GET /copy-signals/providers). With no signalCategories, every category they publish is copied.
  *               copyBuyTrades:
  *                 type: boolean
  *               copySellTrades:
@@ -63,6 +68,13 @@ const router: Router = Router();
  *                 type: array
  *                 items:
  *                   type: string
+ *               mode:
+ *                 type: string
+ *                 enum: [live, paper]
+ *                 description: "paper" simulates fills against the live order book instead of placing orders (default "live")
+ *               scaleByConfidence:
+ *                 type: boolean
+ *                 description: Scale the copied amount by each signal's confidence (0-1), kept within the min/max amounts for its side
  *     responses:
  *       200:
  *         description: Configuration created
@@ -81,6 +93,7 @@ router.post('/config', authenticateToken, async (req: AuthRequest, res: Response
 
     const {
       signalCategories,
+      providerIds,
       copyBuyTrades,
       copySellTrades,
       amountType,
@@ -92,10 +105,14 @@ router.post('/config', authenticateToken, async (req: AuthRequest, res: Response
       maxSellAmount,
       marketCategories,
       allocatedUSDCAmount,
+      mode,
+      scaleByConfidence,
     } = req.body;
 
     // Validate required fields
-    if (!signalCategories || !Array.isArray(signalCategories) || signalCategories.length === 0 ||
+    const hasCategories = Array.isArray(signalCategories) && signalCategories.length > 0;
+    const hasProviders = Array.isArray(providerIds) && providerIds.length > 0;
+    if ((!hasCategories && !hasProviders) ||
         copyBuyTrades === undefined || copySellTrades === undefined ||
         !amountType || !buyAmount || !allocatedUSDCAmount) {
       res.status(400).json({ error: 'Missing required fields' });
@@ -109,7 +126,8 @@ router.post('/config', authenticateToken, async (req: AuthRequest, res: Response
     }
 
     const config = await createCopySignalConfig(userId, {
-      signalCategories,
+      signalCategories: signalCategories || [],
+      providerIds,
       copyBuyTrades,
       copySellTrades,
       amountType,
@@ -121,6 +139,8 @@ router.post('/config', authenticateToken, async (req: AuthRequest, res: Response
       maxSellAmount,
       marketCategories,
       allocatedUSDCAmount,
+      mode,
+      scaleByConfidence,
     });
 
     res.json(config);
@@ -132,6 +152,35 @@ router.post('/config', authenticateToken, async (req: AuthRequest, res: Response
   }
 });
 
+/**
+ * @swagger
+ * /copy-signals/providers:
+ *   get:
+ *     summary: List signal providers a copy signal configuration can subscribe to
+ *     tags: [Copy Signals]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enabled providers with the categories they publish
+ */
+router.get('/providers', authenticateToken, async (_req: AuthRequest, res: Response) => {
+  try {
+    const providers = await listSignalProviders({ enabledOnly: true });
+    res.json(
+      providers.map((provider) => ({
+        id: provider.id,
+        name: provider.name,
+        transport: provider.transport,
+        categories: provider.categories,
+      }))
+    );
+  } catch (error) {
+    console.error('Error listing signal providers:', error);
+    res.status(500).json({ error: 'Failed to list signal providers' });
+  }
+});
+
 /**
  * @swagger
  * /copy-signals/config:
@@ -228,6 +277,10 @@ router.get('/config/:configId', authenticateToken, async (req: AuthRequest, res:
  *                 type: array
  *                 items:
  *                   type: string
+ *               providerIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
  *               copyBuyTrades:
  *                 type: boolean
  *               copySellTrades:
@@ -250,6 +303,8 @@ router.get('/config/:configId', authenticateToken, async (req: AuthRequest, res:
  *                 type: array
  *                 items:
  *                   type: string
+ *               scaleByConfidence:
+ *                 type: boolean
  *     responses:
  *       200:
  *         description: Configuration updated
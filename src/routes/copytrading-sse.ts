@@ -0,0 +1,119 @@
+import { Router, Response } from "express";
+import jwt from "jsonwebtoken";
+import { logger } from "../utils/logger";
+import { config } from "../config/env";
+import { getInFlightTradingEvents, subscribeToTradingEvents, TradingEvent } from "../services/trading-events";
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * /copytrading/events:
+ *   get:
+ *     summary: Live stream of your copied trade and signal updates (Server-Sent Events)
+ *     description: |
+ *       Sends a `trade-update` event whenever one of your copied trades or signals changes stage
+ *       (pending, submitted, settled, failed, skipped, resolved, redeemed) and a `price-update`
+ *       event when an open position is marked to market. On connect, trades still pending or
+ *       settling are sent as `trade-update` events. Events are published over Redis, so updates
+ *       from workers running in other processes are delivered too.
+ *     tags: [Copy Trading]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         description: JWT, for EventSource clients that can't set the Authorization header
+ *     responses:
+ *       200:
+ *         description: text/event-stream of trade-update and price-update events
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/events", async (req: any, res: Response) => {
+  // Support authentication via Authorization header or query parameter
+  let userId: string | undefined;
+
+  // Try Authorization header first
+  if (req.headers.authorization) {
+    try {
+      const token = req.headers.authorization.replace("Bearer ", "");
+      const decoded = jwt.verify(token, config.jwt.secret) as { address: string; userId: string };
+      userId = decoded.userId;
+    } catch (error) {
+      // Invalid token in header, try query param
+    }
+  }
+
+  // Fallback to query parameter (for EventSource compatibility)
+  if (!userId && req.query.token) {
+    try {
+      const token = req.query.token as string;
+      const decoded = jwt.verify(token, config.jwt.secret) as { address: string; userId: string };
+      userId = decoded.userId;
+    } catch (error) {
+      res.status(401).json({ error: "Invalid token" });
+      return;
+    }
+  }
+
+  if (!userId) {
+    res.status(401).json({ error: "Authentication required. Provide token in Authorization header or ?token= query parameter" });
+    return;
+  }
+
+  // Set up SSE headers
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Cache-Control");
+  res.flushHeaders();
+
+  const sendEvent = (event: TradingEvent) => {
+    try {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    } catch (error) {
+      // Connection closed, the close handler cleans up
+    }
+  };
+
+  let closed = false;
+  let unsubscribe: (() => Promise<void>) | null = null;
+  const pingInterval = setInterval(() => {
+    try {
+      res.write(`: ping\n\n`);
+    } catch (error) {
+      clearInterval(pingInterval);
+    }
+  }, 30000); // Ping every 30 seconds
+
+  req.on("close", () => {
+    closed = true;
+    clearInterval(pingInterval);
+    unsubscribe?.().catch(() => undefined);
+
+    logger.info("SSE connection closed for copy trading events", { userId });
+  });
+
+  try {
+    // Subscribe before sending the snapshot so no update falls between the two
+    unsubscribe = await subscribeToTradingEvents(userId, sendEvent);
+    if (closed) {
+      await unsubscribe();
+      return;
+    }
+
+    logger.info("SSE connection established for copy trading events", { userId });
+
+    const inFlight = await getInFlightTradingEvents(userId);
+    inFlight.forEach(sendEvent);
+  } catch (error) {
+    logger.error("Error starting copy trading event stream", {
+      userId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
@@ -14,6 +14,10 @@ import {
   resumeCopyTrading,
   updateCopyTradingLimits,
 } from '../services/copytrading';
+import { getUserExposureLimits, updateUserExposureLimits } from '../services/exposure-limits';
+import { getCircuitBreakerStatus, updateCircuitBreakerLimits, resumeCircuitBreaker } from '../services/circuit-breaker';
+import { runBacktest } from '../services/backtest';
+import { getLeaderboard } from '../services/trader-leaderboard';
 import { prisma } from '../config/database';
 
 const router: RouterType = Router();
@@ -110,6 +114,144 @@ router.post('/trader/verify', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /copytrading/traders/leaderboard:
+ *   get:
+ *     summary: Discover traders ranked by realized performance
+ *     description: |
+ *       Ranks Polymarket traders using cached stats computed from their Data API
+ *       activity. Stats are refreshed by a background worker, so they can lag
+ *       live activity by up to one refresh interval (see lastRefreshedAt).
+ *     tags: [Copy Trading]
+ *     parameters:
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [roi, winRate, volume, recency, drawdown]
+ *           default: roi
+ *         description: Ranking metric (drawdown ranks the smallest drawdown first)
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         description: Only traders with activity in this market category (e.g. sports, crypto, politics)
+ *       - in: query
+ *         name: minTrades
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *         description: Minimum number of trades to be ranked
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Ranked traders with realized ROI, win rate, volume, last trade time, max drawdown and categories
+ *       400:
+ *         description: Invalid sortBy or category
+ */
+router.get('/traders/leaderboard', async (req: Request, res: Response) => {
+  try {
+    const leaderboard = await getLeaderboard({
+      sortBy: req.query.sortBy as string | undefined,
+      category: req.query.category as string | undefined,
+      minTrades: req.query.minTrades ? parseInt(req.query.minTrades as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+    });
+
+    res.json(leaderboard);
+  } catch (error) {
+    console.error('Error fetching trader leaderboard:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    res.status(message.includes('Invalid') ? 400 : 500).json({
+      error: 'Failed to fetch trader leaderboard',
+      message,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /copytrading/backtest:
+ *   post:
+ *     summary: Backtest a draft copy trading config against a trader's history
+ *     description: |
+ *       Replays the trader's historical activity through the config's filters
+ *       (buy/sell toggles, amount limits, market categories, daily buy cap, allocation)
+ *       and sizing rules, starting from a simulated balance equal to allocatedUSDCAmount.
+ *       Fills are assumed at the trader's price; open positions are valued at their
+ *       market resolution, or current price if unresolved.
+ *     tags: [Copy Trading]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - traderAddress
+ *               - config
+ *             properties:
+ *               traderAddress:
+ *                 type: string
+ *                 description: Polymarket trader wallet address
+ *               config:
+ *                 type: object
+ *                 description: Draft config, same fields as POST /copytrading/config (copyBuyTrades, copySellTrades, amountType, buyAmount, sellAmount, min/max amounts, marketCategories, maxBuyTradesPerDay, allocatedUSDCAmount)
+ *               lookbackDays:
+ *                 type: integer
+ *                 default: 30
+ *                 description: How far back to replay (max 365)
+ *     responses:
+ *       200:
+ *         description: Simulated trades, final PnL, max drawdown and skipped trade counts by reason. If the trader's history is too long to replay in full, truncated is true and coveredTo is where the replay stopped.
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/backtest', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { traderAddress, config, lookbackDays } = req.body;
+
+    if (!traderAddress || typeof traderAddress !== 'string' || !config || typeof config !== 'object') {
+      res.status(400).json({ error: 'traderAddress and config are required' });
+      return;
+    }
+
+    const result = await runBacktest(
+      traderAddress,
+      config,
+      lookbackDays !== undefined ? Number(lookbackDays) : undefined
+    );
+    res.json(result);
+  } catch (error) {
+    console.error('Error running backtest:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to run backtest';
+    const statusCode = errorMessage.includes('Invalid') || errorMessage.includes('must be') ? 400 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
 /**
  * @swagger
  * /copytrading/config/check-relayer-authorization:
@@ -218,13 +360,14 @@ router.get('/config/check-relayer-authorization', authenticateToken, async (req:
  *             properties:
  *               targetTraderAddress:
  *                 type: string
+ *                 description: Trader to copy (not needed for consensus configs)
  *               copyBuyTrades:
  *                 type: boolean
  *               copySellTrades:
  *                 type: boolean
  *               amountType:
  *                 type: string
- *                 enum: [fixed, percentage, percentageOfOriginal]
+ *                 enum: [fixed, percentage, percentageOfOriginal, proportionalToPortfolio]
  *               buyAmount:
  *                 type: string
  *               sellAmount:
@@ -241,6 +384,70 @@ router.get('/config/check-relayer-authorization', authenticateToken, async (req:
  *                 type: array
  *                 items:
  *                   type: string
+ *               maxPriceDeviation:
+ *                 type: string
+ *                 description: Skip copies when the best ask/bid has moved more than this fraction past the trader's fill price (e.g. "0.05" = 5%)
+ *               stopLossPercent:
+ *                 type: string
+ *                 description: Sell the whole position once it's down this % from average entry (e.g. "20")
+ *               takeProfitPercent:
+ *                 type: string
+ *                 description: Sell the whole position once it's up this % from average entry (e.g. "50")
+ *               trailingStopPercent:
+ *                 type: string
+ *                 description: Sell the whole position once it falls this % from its highest price since entry (e.g. "15")
+ *               maxMarketExposure:
+ *                 type: string
+ *                 description: Max USDC this config can hold in one market (conditionId). Buys are shrunk or skipped to stay under it.
+ *               maxEventExposure:
+ *                 type: string
+ *                 description: Max USDC this config can hold across one event's markets (eventSlug)
+ *               mode:
+ *                 type: string
+ *                 enum: [live, paper]
+ *                 description: "paper" runs the config without placing orders, simulating fills against the live order book (default "live")
+ *               configType:
+ *                 type: string
+ *                 enum: [single, consensus]
+ *                 description: |
+ *                   "consensus" follows a group of traders and copies a buy only once consensusThreshold of them
+ *                   buy the same market outcome within consensusWindowMinutes. The copy is sized on their combined
+ *                   buy (summed USDC at the volume-weighted price). Consensus configs copy buys only
+ *                   (copySellTrades must be false) and don't support proportionalToPortfolio sizing.
+ *               consensusTraders:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Trader addresses in the group (2-20, consensus configs only)
+ *               consensusThreshold:
+ *                 type: integer
+ *                 description: How many group traders must buy the same outcome (at least 2)
+ *               consensusWindowMinutes:
+ *                 type: integer
+ *                 description: Window the agreeing buys must fall within (max 10080 = 7 days)
+ *               debounceSeconds:
+ *                 type: integer
+ *                 description: |
+ *                   Merge the trader's same-side fills on one token within this many seconds (1-300) into a single
+ *                   copy at their volume-weighted price. The copy is executed once the window ends.
+ *               executionStyle:
+ *                 type: string
+ *                 enum: [market, limit]
+ *                 default: market
+ *                 description: |
+ *                   'limit' posts a resting GTC/GTD order at the trader's fill price (plus limitPriceImprovement)
+ *                   instead of a fill-or-kill order. The unfilled remainder is cancelled after limitOrderTtlSeconds.
+ *               limitOrderType:
+ *                 type: string
+ *                 enum: [GTC, GTD]
+ *                 default: GTC
+ *               limitPriceImprovement:
+ *                 type: string
+ *                 description: How far past the trader's price the order may rest, as a fraction (e.g. "0.01" = 1% higher for buys, lower for sells)
+ *               limitOrderTtlSeconds:
+ *                 type: integer
+ *                 default: 300
+ *                 description: Seconds before the unfilled remainder of a limit order is cancelled
  *     responses:
  *       200:
  *         description: Authorization transaction prepared (config not created yet)
@@ -273,10 +480,26 @@ router.post('/config/prepare', authenticateToken, async (req: AuthRequest, res:
       durationDays,
       configName,
       allocatedUSDCAmount,
+      maxPriceDeviation,
+      stopLossPercent,
+      takeProfitPercent,
+      trailingStopPercent,
+      maxMarketExposure,
+      maxEventExposure,
+      mode,
+      configType,
+      consensusTraders,
+      consensusThreshold,
+      consensusWindowMinutes,
+      debounceSeconds,
+      executionStyle,
+      limitOrderType,
+      limitPriceImprovement,
+      limitOrderTtlSeconds,
     } = req.body;
 
     // Validate required fields
-    if (!targetTraderAddress || copyBuyTrades === undefined || copySellTrades === undefined ||
+    if ((!targetTraderAddress && configType !== 'consensus') || copyBuyTrades === undefined || copySellTrades === undefined ||
         !amountType || !buyAmount) {
       res.status(400).json({ error: 'Missing required fields' });
       return;
@@ -305,6 +528,22 @@ router.post('/config/prepare', authenticateToken, async (req: AuthRequest, res:
       durationDays,
       configName,
       allocatedUSDCAmount,
+      maxPriceDeviation,
+      stopLossPercent,
+      takeProfitPercent,
+      trailingStopPercent,
+      maxMarketExposure,
+      maxEventExposure,
+      mode,
+      configType,
+      consensusTraders,
+      consensusThreshold,
+      consensusWindowMinutes,
+      debounceSeconds,
+      executionStyle,
+      limitOrderType,
+      limitPriceImprovement,
+      limitOrderTtlSeconds,
     });
 
     res.json(result);
@@ -361,10 +600,26 @@ router.post('/config', authenticateToken, async (req: AuthRequest, res: Response
       durationDays,
       configName,
       allocatedUSDCAmount,
+      maxPriceDeviation,
+      stopLossPercent,
+      takeProfitPercent,
+      trailingStopPercent,
+      maxMarketExposure,
+      maxEventExposure,
+      mode,
+      configType,
+      consensusTraders,
+      consensusThreshold,
+      consensusWindowMinutes,
+      debounceSeconds,
+      executionStyle,
+      limitOrderType,
+      limitPriceImprovement,
+      limitOrderTtlSeconds,
     } = req.body;
 
     // Validate required fields
-    if (!targetTraderAddress || copyBuyTrades === undefined || copySellTrades === undefined ||
+    if ((!targetTraderAddress && configType !== 'consensus') || copyBuyTrades === undefined || copySellTrades === undefined ||
         !amountType || !buyAmount || !allocatedUSDCAmount) {
       res.status(400).json({ error: 'Missing required fields' });
       return;
@@ -392,6 +647,22 @@ router.post('/config', authenticateToken, async (req: AuthRequest, res: Response
       durationDays,
       configName,
       allocatedUSDCAmount,
+      maxPriceDeviation,
+      stopLossPercent,
+      takeProfitPercent,
+      trailingStopPercent,
+      maxMarketExposure,
+      maxEventExposure,
+      mode,
+      configType,
+      consensusTraders,
+      consensusThreshold,
+      consensusWindowMinutes,
+      debounceSeconds,
+      executionStyle,
+      limitOrderType,
+      limitPriceImprovement,
+      limitOrderTtlSeconds,
     });
 
     res.json(config);
@@ -517,6 +788,51 @@ router.get('/config/:configId', authenticateToken, async (req: AuthRequest, res:
  *                 type: array
  *                 items:
  *                   type: string
+ *               maxPriceDeviation:
+ *                 type: string
+ *                 description: Skip copies when the best ask/bid has moved more than this fraction past the trader's fill price (e.g. "0.05" = 5%)
+ *               stopLossPercent:
+ *                 type: string
+ *                 description: Sell the whole position once it's down this % from average entry (e.g. "20")
+ *               takeProfitPercent:
+ *                 type: string
+ *                 description: Sell the whole position once it's up this % from average entry (e.g. "50")
+ *               trailingStopPercent:
+ *                 type: string
+ *                 description: Sell the whole position once it falls this % from its highest price since entry (e.g. "15")
+ *               maxMarketExposure:
+ *                 type: string
+ *                 description: Max USDC this config can hold in one market (conditionId). Buys are shrunk or skipped to stay under it.
+ *               maxEventExposure:
+ *                 type: string
+ *                 description: Max USDC this config can hold across one event's markets (eventSlug)
+ *               mode:
+ *                 type: string
+ *                 enum: [live, paper]
+ *                 description: "paper" runs the config without placing orders, simulating fills against the live order book (default "live")
+ *               consensusThreshold:
+ *                 type: integer
+ *                 description: Consensus configs only
+ *               consensusWindowMinutes:
+ *                 type: integer
+ *                 description: Consensus configs only
+ *               debounceSeconds:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Merge the trader's same-side fills on one token within this many seconds into one copy (null to disable)
+ *               executionStyle:
+ *                 type: string
+ *                 enum: [market, limit]
+ *               limitOrderType:
+ *                 type: string
+ *                 enum: [GTC, GTD]
+ *                 nullable: true
+ *               limitPriceImprovement:
+ *                 type: string
+ *                 nullable: true
+ *               limitOrderTtlSeconds:
+ *                 type: integer
+ *                 nullable: true
  *     responses:
  *       200:
  *         description: Configuration updated
@@ -997,6 +1313,201 @@ router.put('/config/:configId/limits', authenticateToken, async (req: AuthReques
   }
 });
 
+/**
+ * @swagger
+ * /copytrading/exposure-limits:
+ *   get:
+ *     summary: Get account-wide exposure caps
+ *     description: Caps on USDC held per market and per event across all copy trading and copy signal configs
+ *     tags: [Copy Trading]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Exposure caps
+ */
+router.get('/exposure-limits', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const limits = await getUserExposureLimits(userId);
+    res.json(limits);
+  } catch (error) {
+    console.error('Error getting exposure limits:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get exposure limits';
+    const statusCode = errorMessage.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+/**
+ * @swagger
+ * /copytrading/exposure-limits:
+ *   put:
+ *     summary: Update account-wide exposure caps
+ *     description: Copied buys are shrunk or skipped so the user's total holding in one market or event stays under these caps
+ *     tags: [Copy Trading]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               maxMarketExposure:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Max USDC held in one market (conditionId) across all configs (null = unlimited)
+ *               maxEventExposure:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Max USDC held across one event's markets (eventSlug) across all configs (null = unlimited)
+ *     responses:
+ *       200:
+ *         description: Exposure caps updated
+ */
+router.put('/exposure-limits', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { maxMarketExposure, maxEventExposure } = req.body;
+    const limits = await updateUserExposureLimits(userId, { maxMarketExposure, maxEventExposure });
+    res.json(limits);
+  } catch (error) {
+    console.error('Error updating exposure limits:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update exposure limits';
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('must be') ? 400 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+/**
+ * @swagger
+ * /copytrading/circuit-breaker:
+ *   get:
+ *     summary: Get drawdown circuit breaker status
+ *     description: Loss limits, whether the breaker is tripped, rolling 24h / 7d PnL and recent trips
+ *     tags: [Copy Trading]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Circuit breaker status
+ */
+router.get('/circuit-breaker', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const status = await getCircuitBreakerStatus(userId);
+    res.json(status);
+  } catch (error) {
+    console.error('Error getting circuit breaker status:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to get circuit breaker status';
+    const statusCode = errorMessage.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+/**
+ * @swagger
+ * /copytrading/circuit-breaker:
+ *   put:
+ *     summary: Update drawdown circuit breaker loss limits
+ *     description: |
+ *       When combined realized and unrealized PnL across all copy trading and copy signal configs
+ *       falls by more than a limit within its rolling window, every config is paused until
+ *       /copytrading/circuit-breaker/resume is called.
+ *     tags: [Copy Trading]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               maxDailyLoss:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Max loss in USDC over a rolling 24h window (null = no limit)
+ *               maxWeeklyLoss:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Max loss in USDC over a rolling 7d window (null = no limit)
+ *     responses:
+ *       200:
+ *         description: Limits updated
+ */
+router.put('/circuit-breaker', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { maxDailyLoss, maxWeeklyLoss } = req.body;
+    const status = await updateCircuitBreakerLimits(userId, { maxDailyLoss, maxWeeklyLoss });
+    res.json(status);
+  } catch (error) {
+    console.error('Error updating circuit breaker limits:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update circuit breaker limits';
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('must be') ? 400 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+/**
+ * @swagger
+ * /copytrading/circuit-breaker/resume:
+ *   post:
+ *     summary: Resume after the drawdown circuit breaker tripped
+ *     description: Re-activates the configs the breaker paused. Configs paused by the user stay paused.
+ *     tags: [Copy Trading]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Breaker reset and configs resumed
+ *       400:
+ *         description: Circuit breaker is not tripped
+ */
+router.post('/circuit-breaker/resume', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const result = await resumeCircuitBreaker(userId);
+    res.json(result);
+  } catch (error) {
+    console.error('Error resuming circuit breaker:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to resume circuit breaker';
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('not tripped') ? 400 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
 /**
  * @swagger
  * /copytrading/config/authorize/execute-backend:
@@ -3,10 +3,15 @@ import authRoutes from './auth';
 import depositRoutes from './deposit';
 import depositSseRoutes from './deposit-sse';
 import copytradingRoutes from './copytrading';
+import copytradingSseRoutes from './copytrading-sse';
 import copySignalsRoutes from './copy-signals';
 import analyticsRoutes from './analytics';
 import walletRoutes from './wallet';
 import tradeHistoryRoutes from './trade-history';
+import adminRoutes from './admin';
+import signalsRoutes from './signals';
+import notificationsRoutes from './notifications';
+import portfolioRoutes from './portfolio';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 
 const router: RouterType = Router();
@@ -48,6 +53,7 @@ router.use('/deposit', depositSseRoutes); // SSE routes for real-time deposit tr
 
 // Copy trading routes
 router.use('/copytrading', copytradingRoutes);
+router.use('/copytrading', copytradingSseRoutes); // SSE stream of copied trade and signal updates
 
 // Copy signals routes
 router.use('/copy-signals', copySignalsRoutes);
@@ -61,6 +67,18 @@ router.use('/wallet', walletRoutes);
 // Trade history routes
 router.use('/trade-history', tradeHistoryRoutes);
 
+// Portfolio positions (FIFO lots, on-chain reconciliation)
+router.use('/portfolio', portfolioRoutes);
+
+// Signal provider push ingestion
+router.use('/signals', signalsRoutes);
+
+// Notification webhooks and delivery log
+router.use('/notifications', notificationsRoutes);
+
+// Admin routes (dead-letter queue, signal providers)
+router.use('/admin', adminRoutes);
+
 /**
  * @swagger
  * /auth/me:
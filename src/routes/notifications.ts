@@ -0,0 +1,287 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  listWebhookDeliveries,
+  listWebhookEndpoints,
+  updateWebhookEndpoint,
+  WEBHOOK_EVENTS,
+} from '../services/notifications';
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * /notifications/events:
+ *   get:
+ *     summary: List the event types webhook endpoints can subscribe to
+ *     tags: [Notifications]
+ *     responses:
+ *       200:
+ *         description: Event types
+ */
+router.get('/events', (_req, res: Response) => {
+  res.json({ events: WEBHOOK_EVENTS });
+});
+
+/**
+ * @swagger
+ * /notifications/webhooks:
+ *   get:
+ *     summary: List your webhook endpoints
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook endpoints (without signing secrets)
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/webhooks', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const endpoints = await listWebhookEndpoints(userId);
+    res.json({ endpoints });
+  } catch (error) {
+    console.error('Error listing webhook endpoints:', error);
+    res.status(500).json({ error: 'Failed to list webhook endpoints' });
+  }
+});
+
+/**
+ * @swagger
+ * /notifications/webhooks:
+ *   post:
+ *     summary: Register a webhook endpoint
+ *     description: |
+ *       Events are POSTed as JSON `{ id, event, createdAt, data }`. Each request carries
+ *       `X-Webhook-Event`, `X-Webhook-Id`, `X-Webhook-Timestamp` (Unix seconds) and
+ *       `X-Webhook-Signature: sha256=<hex>`, the HMAC-SHA256 of `{timestamp}.{raw body}` with the
+ *       endpoint's secret. Non-2xx responses are retried with exponential backoff
+ *       (WEBHOOK_MAX_ATTEMPTS); `id` stays the same across retries. The secret is only returned here.
+ *       The URL must use https in production and resolve to a public address; redirects are not followed.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - url
+ *               - events
+ *             properties:
+ *               url:
+ *                 type: string
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [trade.executed, trade.failed, trade.skipped, position.redeemed, deposit.confirmed, withdrawal.completed, config.auto_paused]
+ *               description:
+ *                 type: string
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Endpoint registered (includes the signing secret)
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/webhooks', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { url, events, description, enabled } = req.body;
+    const endpoint = await createWebhookEndpoint(userId, { url, events, description, enabled });
+    res.json(endpoint);
+  } catch (error) {
+    console.error('Error creating webhook endpoint:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create webhook endpoint';
+    const statusCode = errorMessage.includes('Invalid') ? 400 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+/**
+ * @swagger
+ * /notifications/webhooks/{endpointId}:
+ *   put:
+ *     summary: Update a webhook endpoint
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               description:
+ *                 type: string
+ *               enabled:
+ *                 type: boolean
+ *               rotateSecret:
+ *                 type: boolean
+ *                 description: Issue a new signing secret (returned once in the response)
+ *     responses:
+ *       200:
+ *         description: Endpoint updated
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Endpoint not found
+ */
+router.put('/webhooks/:endpointId', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    const { endpointId } = req.params;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { url, events, description, enabled, rotateSecret } = req.body;
+    const endpoint = await updateWebhookEndpoint(userId, endpointId, {
+      url,
+      events,
+      description,
+      enabled,
+      rotateSecret: rotateSecret === true,
+    });
+    res.json(endpoint);
+  } catch (error) {
+    console.error('Error updating webhook endpoint:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update webhook endpoint';
+    const statusCode = errorMessage.includes('not found') ? 404 : errorMessage.includes('Invalid') ? 400 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+/**
+ * @swagger
+ * /notifications/webhooks/{endpointId}:
+ *   delete:
+ *     summary: Delete a webhook endpoint and its delivery log
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: endpointId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Endpoint deleted
+ *       404:
+ *         description: Endpoint not found
+ */
+router.delete('/webhooks/:endpointId', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    const { endpointId } = req.params;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    await deleteWebhookEndpoint(userId, endpointId);
+    res.json({ message: 'Webhook endpoint deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting webhook endpoint:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to delete webhook endpoint';
+    const statusCode = errorMessage.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+/**
+ * @swagger
+ * /notifications/deliveries:
+ *   get:
+ *     summary: Webhook delivery log, most recent first
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: endpointId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, delivered, failed]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Deliveries with attempts, last response status and error
+ *       404:
+ *         description: Endpoint not found
+ */
+router.get('/deliveries', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const result = await listWebhookDeliveries(userId, {
+      endpointId: req.query.endpointId as string | undefined,
+      status: req.query.status as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string, 10) : undefined,
+    });
+    res.json(result);
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list webhook deliveries';
+    const statusCode = errorMessage.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { getUserPositions } from '../services/portfolio';
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * /portfolio/positions:
+ *   get:
+ *     summary: Net positions per token across your copied trades and signals
+ *     description: |
+ *       Groups filled copies by market and outcome. Buys open lots and sells/exits close the
+ *       oldest lots first (FIFO), giving net shares, average entry, realized PnL and unrealized
+ *       PnL at the current price, plus the configs that contributed. Live positions are compared
+ *       with the proxy wallet's holdings: `reconciliation` flags DB positions missing on-chain or
+ *       with a different size, and `untrackedOnChain` lists holdings with no copied trade behind them.
+ *     tags: [Portfolio]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [live, paper]
+ *         description: Only live or only paper positions (default both)
+ *       - in: query
+ *         name: includeClosed
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include closed, resolved and redeemed positions
+ *     responses:
+ *       200:
+ *         description: Positions, untracked on-chain holdings and totals
+ *       400:
+ *         description: Invalid mode
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/positions', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const mode = req.query.mode as string | undefined;
+    if (mode && mode !== 'live' && mode !== 'paper') {
+      res.status(400).json({ error: 'Invalid mode: must be live or paper' });
+      return;
+    }
+
+    const positions = await getUserPositions(userId, {
+      mode: mode as 'live' | 'paper' | undefined,
+      includeClosed: req.query.includeClosed === 'true',
+    });
+    res.json(positions);
+  } catch (error) {
+    console.error('Error fetching portfolio positions:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch positions';
+    const statusCode = errorMessage.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ error: errorMessage });
+  }
+});
+
+export default router;
@@ -0,0 +1,128 @@
+import { Router, Response } from 'express';
+import { RawBodyRequest } from '../middleware/raw-body';
+import { ingestSignals, verifySignedSignalRequest } from '../services/signal-ingest';
+
+const router: Router = Router();
+
+/**
+ * @swagger
+ * /signals/ingest:
+ *   post:
+ *     summary: Push signals from a registered signal provider
+ *     description: |
+ *       Webhook providers registered through /admin/signal-providers sign `{timestamp}.{nonce}.{raw body}`
+ *       with their HMAC-SHA256 secret (hex digest) or Ethereum key (personal_sign). Requests older than
+ *       SIGNAL_INGEST_MAX_SKEW_SECONDS or reusing a nonce are rejected, and signals whose `id`
+ *       was already ingested from the provider are ignored. Accepted signals are queued for every copy
+ *       signal config subscribed to the provider or its categories.
+ *     tags: [Signals]
+ *     parameters:
+ *       - in: header
+ *         name: X-Signal-Provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Signal-Timestamp
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Unix timestamp (seconds)
+ *       - in: header
+ *         name: X-Signal-Nonce
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Signal-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               signals:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     category:
+ *                       type: string
+ *                     marketId:
+ *                       type: string
+ *                     outcomeIndex:
+ *                       type: integer
+ *                     tradeType:
+ *                       type: string
+ *                       enum: [buy, sell]
+ *                     amount:
+ *                       type: string
+ *                     price:
+ *                       type: number
+ *                     slug:
+ *                       type: string
+ *                     validUntil:
+ *                       type: string
+ *                       format: date-time
+ *                       description: Not executed after this time
+ *                     limitPrice:
+ *                       type: number
+ *                       description: Worst price to accept (max for buys, min for sells)
+ *                     confidence:
+ *                       type: number
+ *                       description: 0-1, scales the copied size for configs with scaleByConfidence
+ *     responses:
+ *       200:
+ *         description: Counts of accepted, duplicate, rejected and queued signals
+ *       400:
+ *         description: Invalid payload
+ *       401:
+ *         description: Missing or invalid signature, unknown provider, or stale timestamp
+ *       409:
+ *         description: Replayed request (nonce already used)
+ *       500:
+ *         description: Signals couldn't be queued for every config; retry with a new nonce (the signal IDs aren't marked as seen)
+ */
+router.post('/ingest', async (req: RawBodyRequest, res: Response) => {
+  try {
+    const provider = await verifySignedSignalRequest({
+      providerName: req.get('x-signal-provider'),
+      timestamp: req.get('x-signal-timestamp'),
+      nonce: req.get('x-signal-nonce'),
+      signature: req.get('x-signal-signature'),
+      rawBody: req.rawBody,
+    });
+
+    const result = await ingestSignals(provider, req.body);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    let status = 500;
+    if (message.includes('Replayed')) {
+      status = 409;
+    } else if (message.includes('signature') || message.includes('provider') || message.includes('timestamp')) {
+      status = 401;
+    } else if (message.includes('Invalid payload')) {
+      status = 400;
+    }
+
+    if (status === 500) {
+      console.error('Error ingesting signals:', error);
+    } else {
+      console.warn(`⚠️ Rejected signal push: ${message}`);
+    }
+
+    res.status(status).json({
+      error: 'Failed to ingest signals',
+      message,
+    });
+  }
+});
+
+export default router;
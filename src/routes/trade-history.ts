@@ -42,14 +42,14 @@ const router: Router = Router();
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, executed, settled, failed, skipped]
+ *           enum: [pending, executed, settled, failed, skipped, simulated]
  *         description: Filter by trade status
  *       - in: query
  *         name: tradeType
  *         schema:
  *           type: string
- *           enum: [buy, sell]
- *         description: Filter by trade type
+ *           enum: [buy, sell, exit]
+ *         description: Filter by trade type (exit = stop-loss / take-profit / trailing stop sells)
  *     responses:
  *       200:
  *         description: Trade history retrieved successfully
@@ -117,14 +117,14 @@ router.get('/config/:configId', authenticateToken, async (req: AuthRequest, res:
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, executed, settled, failed, skipped]
+ *           enum: [pending, executed, settled, failed, skipped, simulated]
  *         description: Filter by trade status
  *       - in: query
  *         name: tradeType
  *         schema:
  *           type: string
- *           enum: [buy, sell]
- *         description: Filter by trade type
+ *           enum: [buy, sell, exit]
+ *         description: Filter by trade type (exit = stop-loss / take-profit / trailing stop sells)
  *       - in: query
  *         name: configId
  *         schema:
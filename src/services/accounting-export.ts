@@ -0,0 +1,379 @@
+import { CopiedSignal, CopiedTrade } from '@prisma/client';
+import { prisma } from '../config/database';
+import { getFeeRateBps, getMarketInfo } from './polymarket-clob';
+import { closeFifoLots, FifoLot, FILLED_STATUSES, getFilledAt } from './portfolio';
+
+export type LedgerEntryType = 'buy' | 'sell' | 'redemption' | 'deposit' | 'withdrawal';
+
+export interface LedgerEntry {
+  timestamp: Date;
+  type: LedgerEntryType;
+  source: 'copy_trading' | 'signal' | 'wallet';
+  referenceId: string; // CopiedTrade, CopiedSignal, Deposit or Withdrawal id
+  configId: string | null;
+  marketId: string | null;
+  marketQuestion: string | null;
+  outcomeIndex: number | null;
+  asset: string; // USDC, or the outcome token
+  shares: string | null;
+  price: string | null; // Per share
+  amount: string | null; // USDC paid, received or moved
+  fee: string | null; // USDC; derived for trades (see getFillFee), null when unknown
+  proceeds: string | null; // Disposals only
+  costBasis: string | null; // FIFO cost of the shares disposed of, buy fees included
+  gain: string | null; // proceeds - sell fee - costBasis
+  txHash: string | null;
+  note: string | null;
+}
+
+export const LEDGER_COLUMNS: Array<keyof LedgerEntry> = [
+  'timestamp',
+  'type',
+  'source',
+  'referenceId',
+  'configId',
+  'marketId',
+  'marketQuestion',
+  'outcomeIndex',
+  'asset',
+  'shares',
+  'price',
+  'amount',
+  'fee',
+  'proceeds',
+  'costBasis',
+  'gain',
+  'txHash',
+  'note',
+];
+
+// Share amounts below this are rounding dust
+const SHARE_EPSILON = 0.000001;
+
+// Redemptions and withdrawals go through the relayer, which pays the gas
+const RELAYED_FEE = '0.000000';
+
+interface LedgerFill {
+  source: 'copy_trading' | 'signal';
+  row: CopiedTrade | CopiedSignal;
+  timestamp: Date;
+  kind: 'fill' | 'redemption';
+}
+
+// Market info and fee rates fetched while building one ledger
+interface LedgerLookups {
+  markets: Map<string, any>;
+  feeRates: Map<string, number | null>;
+}
+
+/**
+ * Accounting ledger of a user's live buys, sells, redemptions, deposits and withdrawals, oldest first
+ *
+ * Disposals are matched against buys first-in first-out per token. The whole history is
+ * replayed so lots bought before `from` still carry their cost basis into the range.
+ * Paper trades never moved funds and are left out.
+ */
+export async function getUserLedger(
+  userId: string,
+  options: { from?: Date; to?: Date } = {}
+): Promise<LedgerEntry[]> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const liveFilled = { config: { userId }, status: { in: FILLED_STATUSES }, isPaper: false };
+  const [trades, signals, deposits, withdrawals] = await Promise.all([
+    prisma.copiedTrade.findMany({ where: liveFilled }),
+    prisma.copiedSignal.findMany({ where: liveFilled }),
+    prisma.deposit.findMany({ where: { userId, status: 'completed' } }),
+    prisma.withdrawal.findMany({ where: { userId, status: 'completed' } }),
+  ]);
+
+  const fillsByToken = new Map<string, LedgerFill[]>();
+  const addFill = (fill: LedgerFill) => {
+    const key = `${fill.row.marketId.toLowerCase()}:${fill.row.outcomeIndex}`;
+    if (!fillsByToken.has(key)) {
+      fillsByToken.set(key, []);
+    }
+    fillsByToken.get(key)!.push(fill);
+  };
+
+  const sources: Array<[LedgerFill['source'], Array<CopiedTrade | CopiedSignal>]> = [
+    ['copy_trading', trades],
+    ['signal', signals],
+  ];
+  for (const [source, rows] of sources) {
+    for (const row of rows) {
+      addFill({ source, row, timestamp: getFilledAt(row), kind: 'fill' });
+      if (row.tradeType === 'buy' && row.redemptionStatus === 'redeemed') {
+        addFill({ source, row, timestamp: row.redeemedAt ?? row.resolvedAt ?? getFilledAt(row), kind: 'redemption' });
+      }
+    }
+  }
+
+  const entries: LedgerEntry[] = [];
+  const lookups: LedgerLookups = { markets: new Map(), feeRates: new Map() };
+  for (const fills of fillsByToken.values()) {
+    entries.push(...(await replayToken(fills, lookups)));
+  }
+
+  for (const deposit of deposits) {
+    const metadata = deposit.metadata ? JSON.parse(deposit.metadata) : {};
+    entries.push({
+      ...emptyEntry(),
+      timestamp: metadata.bridgeCompletedAt ? new Date(metadata.bridgeCompletedAt) : deposit.updatedAt,
+      type: 'deposit',
+      source: 'wallet',
+      referenceId: deposit.id,
+      asset: 'USDC',
+      amount: deposit.targetAmount,
+      txHash: deposit.transactionHash,
+      note: `Paid ${deposit.sourceAmount} ${deposit.sourceCurrency}`,
+    });
+  }
+
+  for (const withdrawal of withdrawals) {
+    entries.push({
+      ...emptyEntry(),
+      timestamp: withdrawal.completedAt || withdrawal.createdAt,
+      type: 'withdrawal',
+      source: 'wallet',
+      referenceId: withdrawal.id,
+      asset: withdrawal.asset === 'USDC' ? 'USDC' : `token:${withdrawal.tokenId}`,
+      shares: withdrawal.asset === 'USDC' ? null : withdrawal.amount,
+      amount: withdrawal.asset === 'USDC' ? withdrawal.amount : null,
+      fee: RELAYED_FEE,
+      txHash: withdrawal.txHash,
+      note: `To ${withdrawal.toAddress}`,
+    });
+  }
+
+  return entries
+    .filter((entry) => (!options.from || entry.timestamp >= options.from) && (!options.to || entry.timestamp < options.to))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Serialize ledger entries as CSV with a header row
+ */
+export function ledgerToCsv(entries: LedgerEntry[]): string {
+  const lines = [LEDGER_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push(
+      LEDGER_COLUMNS.map((column) => {
+        const value = entry[column];
+        if (value === null || value === undefined) {
+          return '';
+        }
+        return escapeCsvValue(value instanceof Date ? value.toISOString() : String(value));
+      }).join(',')
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Replay one token's fills and redemptions in order, matching disposals to the oldest lots
+ */
+async function replayToken(fills: LedgerFill[], lookups: LedgerLookups): Promise<LedgerEntry[]> {
+  // Fills before redemptions at the same instant, so a redemption sees every lot bought
+  const ordered = [...fills].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime() || (a.kind === 'redemption' ? 1 : 0) - (b.kind === 'redemption' ? 1 : 0)
+  );
+  const lots: FifoLot[] = [];
+  const entries: LedgerEntry[] = [];
+  let redeemed = false;
+
+  for (const fill of ordered) {
+    const { row } = fill;
+    const base: Omit<LedgerEntry, 'type'> = {
+      ...emptyEntry(),
+      timestamp: fill.timestamp,
+      source: fill.source,
+      referenceId: row.id,
+      configId: row.configId,
+      marketId: row.marketId,
+      marketQuestion: row.marketQuestion,
+      outcomeIndex: row.outcomeIndex,
+      asset: `outcome:${row.outcomeIndex}`,
+    };
+
+    if (fill.kind === 'redemption') {
+      // Redeeming pays out the whole token balance, so only the first redemption per token counts
+      if (redeemed) {
+        continue;
+      }
+      redeemed = true;
+
+      const shares = lots.reduce((total, lot) => total + lot.shares, 0);
+      const payoutPrice = await getPayoutPrice(row, lookups);
+      const { costBasis } = closeFifoLots(lots, shares);
+      const proceeds = payoutPrice !== null ? shares * payoutPrice : null;
+
+      entries.push({
+        ...base,
+        type: 'redemption',
+        shares: shares.toFixed(6),
+        price: payoutPrice !== null ? payoutPrice.toFixed(6) : null,
+        amount: proceeds !== null ? proceeds.toFixed(6) : null,
+        proceeds: proceeds !== null ? proceeds.toFixed(6) : null,
+        costBasis: costBasis.toFixed(6),
+        gain: proceeds !== null ? (proceeds - costBasis).toFixed(6) : null,
+        fee: RELAYED_FEE,
+        txHash: row.redemptionTxHash,
+        note: payoutPrice === null ? 'Resolution price unknown' : null,
+      });
+      continue;
+    }
+
+    const shares = parseFloat(row.copiedShares || '0') || 0;
+    if (shares <= SHARE_EPSILON) {
+      continue;
+    }
+
+    if (row.tradeType === 'buy') {
+      const cost = parseFloat(row.costBasis || row.copiedAmount || '0') || 0;
+      const price = cost > 0 ? cost / shares : parseFloat(row.copiedPrice || '0') || 0;
+      const fee = await getFillFee(row, price, shares, lookups);
+      const totalCost = shares * price + (fee ?? 0);
+      lots.push({ shares, price: totalCost / shares });
+      entries.push({
+        ...base,
+        type: 'buy',
+        shares: shares.toFixed(6),
+        price: price.toFixed(6),
+        amount: (shares * price).toFixed(6),
+        fee: fee !== null ? fee.toFixed(6) : null,
+        costBasis: totalCost.toFixed(6),
+        txHash: row.copiedTxHash,
+        note: fee === null ? 'Fee rate unavailable' : null,
+      });
+      continue;
+    }
+
+    // Sells and exits
+    const proceeds = parseFloat(row.copiedAmount || '0') || 0;
+    const price = proceeds > 0 ? proceeds / shares : parseFloat(row.copiedPrice || '0') || 0;
+    const fee = await getFillFee(row, price, shares, lookups);
+    const { closedShares, costBasis } = closeFifoLots(lots, shares);
+    const matchedProceeds = closedShares * price - ((fee ?? 0) * closedShares) / shares;
+
+    const notes: string[] = [];
+    if (fee === null) {
+      notes.push('Fee rate unavailable');
+    }
+    if (shares - closedShares > SHARE_EPSILON) {
+      notes.push(`${(shares - closedShares).toFixed(6)} shares sold without a recorded buy (no gain computed for them)`);
+    }
+
+    entries.push({
+      ...base,
+      type: 'sell',
+      shares: shares.toFixed(6),
+      price: price.toFixed(6),
+      amount: (shares * price).toFixed(6),
+      fee: fee !== null ? fee.toFixed(6) : null,
+      proceeds: (shares * price).toFixed(6),
+      costBasis: costBasis.toFixed(6),
+      gain: (matchedProceeds - costBasis).toFixed(6),
+      txHash: row.copiedTxHash,
+      note: notes.length > 0 ? notes.join('; ') : null,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Trading fee of a fill in USDC, derived from price and size
+ *
+ * Fills don't record the fee they paid, so this applies Polymarket's fee formula to
+ * the token's base fee rate (the rate every order on it is signed with):
+ * feeRateBps / 10000 * min(price, 1 - price) * shares.
+ */
+async function getFillFee(
+  row: CopiedTrade | CopiedSignal,
+  price: number,
+  shares: number,
+  lookups: LedgerLookups
+): Promise<number | null> {
+  const marketInfo = await getCachedMarketInfo(row.marketId, lookups);
+  const tokenId: string | undefined = marketInfo?.tokens?.[row.outcomeIndex]?.token_id;
+  if (!tokenId) {
+    return null;
+  }
+
+  if (!lookups.feeRates.has(tokenId)) {
+    try {
+      lookups.feeRates.set(tokenId, await getFeeRateBps(tokenId));
+    } catch (error) {
+      console.error(`⚠️ Failed to look up fee rate for token ${tokenId}:`, error);
+      lookups.feeRates.set(tokenId, null);
+    }
+  }
+  const feeRateBps = lookups.feeRates.get(tokenId);
+  if (feeRateBps === null || feeRateBps === undefined) {
+    return null;
+  }
+
+  return (feeRateBps / 10000) * Math.min(price, 1 - price) * shares;
+}
+
+/**
+ * USDC paid per share on redemption: the recorded resolution price, else the market's winner
+ */
+async function getPayoutPrice(row: CopiedTrade | CopiedSignal, lookups: LedgerLookups): Promise<number | null> {
+  if (row.resolutionPrice !== null) {
+    return parseFloat(row.resolutionPrice);
+  }
+
+  const marketInfo = await getCachedMarketInfo(row.marketId, lookups);
+  const hasWinner = Array.isArray(marketInfo?.tokens) && marketInfo.tokens.some((t: any) => t?.winner === true);
+  const token = marketInfo?.tokens?.[row.outcomeIndex];
+  if (hasWinner && token) {
+    return token.winner ? 1 : 0;
+  }
+  return null;
+}
+
+/**
+ * Market info, fetched once per ledger; null if the lookup failed
+ */
+async function getCachedMarketInfo(marketId: string, lookups: LedgerLookups): Promise<any> {
+  if (!lookups.markets.has(marketId)) {
+    try {
+      lookups.markets.set(marketId, await getMarketInfo(marketId));
+    } catch (error) {
+      console.error(`⚠️ Failed to look up market ${marketId}:`, error);
+      lookups.markets.set(marketId, null);
+    }
+  }
+  return lookups.markets.get(marketId);
+}
+
+function emptyEntry(): Omit<LedgerEntry, 'timestamp' | 'type' | 'source' | 'referenceId' | 'asset'> {
+  return {
+    configId: null,
+    marketId: null,
+    marketQuestion: null,
+    outcomeIndex: null,
+    shares: null,
+    price: null,
+    amount: null,
+    fee: null,
+    proceeds: null,
+    costBasis: null,
+    gain: null,
+    txHash: null,
+    note: null,
+  };
+}
+
+function escapeCsvValue(value: string): string {
+  // Spreadsheets run text starting with = + - @ as a formula; numbers (e.g. a negative gain) are left alone
+  if (/^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value)) {
+    value = `'${value}`;
+  }
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,506 @@
+import { ethers } from 'ethers';
+import { CopyTradingConfigInput } from './copytrading';
+import { calculatePositionAmount, getTraderPortfolioValue, validateMarketCategory, validateTradeAmount } from './position-sizer';
+import { fetchTraderActivity, PolymarketTrade } from './trade-monitor';
+import { isValidAddress } from './polymarket';
+import { getMarketInfo } from './polymarket-clob';
+import { logger } from '../utils/logger';
+
+const DEFAULT_LOOKBACK_DAYS = 30;
+const MAX_LOOKBACK_DAYS = 365;
+
+// Most trades replayed in one backtest; longer histories are cut off and flagged as truncated
+const MAX_BACKTEST_TRADES = 100000;
+
+// Trader holdings below this count as a full exit (matches getTraderSellFraction)
+const DUST_SHARES = 0.01;
+
+export type BacktestSkipReason =
+  | 'buy_trades_disabled'
+  | 'sell_trades_disabled'
+  | 'trade_amount_limits'
+  | 'market_category'
+  | 'daily_trade_cap'
+  | 'allocated_amount_exhausted'
+  | 'insufficient_balance'
+  | 'zero_position_size'
+  | 'no_position_to_sell'
+  | 'sizing_error';
+
+export interface BacktestTrade {
+  timestamp: number;
+  transactionHash: string;
+  marketId: string;
+  marketQuestion: string;
+  outcomeIndex: number;
+  tradeType: 'buy' | 'sell';
+  originalAmount: string;
+  price: string;
+  copiedAmount: string;
+  copiedShares: string;
+  realizedPnl?: string; // Sells only
+  cashAfter: string;
+  equityAfter: string;
+}
+
+export interface BacktestResult {
+  traderAddress: string;
+  from: Date;
+  to: Date;
+  truncated: boolean; // History was longer than MAX_BACKTEST_TRADES, only from..coveredTo was replayed
+  coveredTo: Date;
+  startingBalance: string;
+  endingEquity: string;
+  tradesReplayed: number;
+  tradesCopied: number;
+  totalInvested: string;
+  totalReturned: string;
+  realizedPnl: string;
+  unrealizedPnl: string; // Open positions in unresolved markets, at current prices
+  resolvedPnl: string; // Positions settled by market resolution
+  totalPnl: string;
+  roi: string;
+  maxDrawdown: string;
+  maxDrawdownPercent: string;
+  positions: {
+    open: number;
+    resolvedWins: number;
+    resolvedLosses: number;
+  };
+  skipped: {
+    total: number;
+    byReason: Partial<Record<BacktestSkipReason, number>>;
+  };
+  trades: BacktestTrade[];
+}
+
+interface SimulatedPosition {
+  marketId: string;
+  outcomeIndex: number;
+  shares: number;
+  cost: number;
+}
+
+/**
+ * Replay a trader's historical activity through a draft config
+ *
+ * Uses the same filters as the trade monitor (buy/sell toggles, amount limits,
+ * market categories, daily buy cap, allocation) and the same sizing rules as
+ * calculatePositionSize, against a simulated balance that starts at the
+ * config's allocation. Fills are assumed at the trader's price. Price deviation,
+ * exposure caps and exit thresholds need historical order books/prices and
+ * aren't replayed.
+ *
+ * Sells mirror the fraction of the position the trader sold, based on the
+ * trader's holdings built up from the replayed trades.
+ */
+export async function runBacktest(
+  traderAddress: string,
+  draft: Partial<CopyTradingConfigInput>,
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS
+): Promise<BacktestResult> {
+  if (!isValidAddress(traderAddress)) {
+    throw new Error('Invalid trader address format');
+  }
+  validateBacktestConfig(draft);
+
+  if (isNaN(lookbackDays) || lookbackDays <= 0 || lookbackDays > MAX_LOOKBACK_DAYS) {
+    throw new Error(`lookbackDays must be between 1 and ${MAX_LOOKBACK_DAYS}`);
+  }
+
+  const sizing = {
+    amountType: draft.amountType!,
+    buyAmount: draft.buyAmount!,
+    sellAmount: draft.sellAmount || '0',
+  };
+  const filters = {
+    minBuyAmount: draft.minBuyAmount || null,
+    maxBuyAmount: draft.maxBuyAmount || null,
+    minSellAmount: draft.minSellAmount || null,
+    maxSellAmount: draft.maxSellAmount || null,
+    marketCategories: draft.marketCategories ? JSON.stringify(draft.marketCategories) : null,
+  };
+
+  const to = new Date();
+  const from = new Date(to.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+  const { trades: history, truncatedAt } = await fetchBacktestHistory(
+    traderAddress.toLowerCase(),
+    Math.floor(from.getTime() / 1000)
+  );
+  if (truncatedAt !== null) {
+    logger.warn('Backtest history truncated', { traderAddress, trades: history.length, truncatedAt });
+  }
+
+  // Proportional sizing needs the trader's portfolio value (cash + positions); historical values
+  // aren't available, so the current value is used for the whole replay
+  const traderPortfolioValue = sizing.amountType === 'proportionalToPortfolio'
+    ? await getTraderPortfolioValue(traderAddress)
+    : '0';
+
+  const startingBalance = parseFloat(draft.allocatedUSDCAmount!);
+  let cash = startingBalance;
+  let usedAmount = 0;
+  let totalInvested = 0;
+  let totalReturned = 0;
+  let realizedPnl = 0;
+
+  const positions = new Map<string, SimulatedPosition>();
+  const traderShares = new Map<string, number>();
+  const lastPrices = new Map<string, number>();
+
+  let buysInWindow = 0;
+  let windowStart: number | null = null;
+
+  const skippedByReason: Partial<Record<BacktestSkipReason, number>> = {};
+  const skip = (reason: BacktestSkipReason) => {
+    skippedByReason[reason] = (skippedByReason[reason] || 0) + 1;
+  };
+
+  const positionsValue = () => {
+    let value = 0;
+    for (const [key, position] of positions) {
+      value += position.shares * (lastPrices.get(key) || 0);
+    }
+    return value;
+  };
+
+  let peakEquity = startingBalance;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  const trackDrawdown = (equity: number) => {
+    peakEquity = Math.max(peakEquity, equity);
+    const drawdown = peakEquity - equity;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercent = peakEquity > 0 ? (drawdown / peakEquity) * 100 : 0;
+    }
+  };
+
+  const trades: BacktestTrade[] = [];
+
+  for (const trade of history) {
+    const key = `${trade.conditionId}-${trade.outcomeIndex}`;
+    const price = parseFloat(String(trade.price));
+    const size = parseFloat(String(trade.size)) || 0;
+    const timestamp = parseInt(trade.timestamp);
+    const tradeType = trade.side === 'BUY' ? 'buy' : 'sell';
+
+    // Trader's holding before this trade, used to mirror sell fractions
+    const traderHeld = traderShares.get(key) || 0;
+    traderShares.set(key, Math.max(traderHeld + (tradeType === 'buy' ? size : -size), 0));
+    if (price > 0) {
+      lastPrices.set(key, price);
+    }
+
+    const copied = tradeType === 'buy'
+      ? replayBuy(trade, price)
+      : replaySell(trade, price, traderHeld, size);
+
+    trackDrawdown(cash + positionsValue());
+    if (copied) {
+      trades.push({
+        ...copied,
+        timestamp,
+        transactionHash: trade.transactionHash,
+        marketId: trade.conditionId,
+        marketQuestion: trade.title,
+        outcomeIndex: trade.outcomeIndex,
+        tradeType,
+        originalAmount: toUsdc(trade.usdcSize),
+        price: price.toFixed(6),
+        cashAfter: cash.toFixed(6),
+        equityAfter: (cash + positionsValue()).toFixed(6),
+      });
+    }
+  }
+
+  function replayBuy(trade: PolymarketTrade, price: number) {
+    if (!draft.copyBuyTrades) {
+      skip('buy_trades_disabled');
+      return null;
+    }
+    if (!validateTradeAmount(toUsdc(trade.usdcSize), 'buy', filters).isValid) {
+      skip('trade_amount_limits');
+      return null;
+    }
+    if (!validateMarketCategory(trade.eventSlug, filters)) {
+      skip('market_category');
+      return null;
+    }
+
+    // Daily buy cap resets 24 hours after the window opened, like isConfigActive
+    const timestamp = parseInt(trade.timestamp);
+    if (windowStart === null || timestamp - windowStart >= 24 * 60 * 60) {
+      windowStart = timestamp;
+      buysInWindow = 0;
+    }
+    if (draft.maxBuyTradesPerDay && buysInWindow >= draft.maxBuyTradesPerDay) {
+      skip('daily_trade_cap');
+      return null;
+    }
+
+    if (usedAmount >= startingBalance) {
+      skip('allocated_amount_exhausted');
+      return null;
+    }
+
+    let amount: number;
+    try {
+      const positionSize = calculatePositionAmount(
+        sizing,
+        toUsdc(trade.usdcSize),
+        'buy',
+        cash.toFixed(6),
+        { traderPortfolioValue, ourPositionsValue: positionsValue().toFixed(6) }
+      );
+      if (!positionSize.isSufficient) {
+        skip('insufficient_balance');
+        return null;
+      }
+      amount = parseFloat(positionSize.amount);
+    } catch {
+      skip('sizing_error');
+      return null;
+    }
+
+    if (amount <= 0 || price <= 0) {
+      skip('zero_position_size');
+      return null;
+    }
+
+    const shares = amount / price;
+    const key = `${trade.conditionId}-${trade.outcomeIndex}`;
+    const position = positions.get(key) || {
+      marketId: trade.conditionId,
+      outcomeIndex: trade.outcomeIndex,
+      shares: 0,
+      cost: 0,
+    };
+    position.shares += shares;
+    position.cost += amount;
+    positions.set(key, position);
+
+    cash -= amount;
+    usedAmount += amount;
+    totalInvested += amount;
+    buysInWindow++;
+
+    return {
+      copiedAmount: amount.toFixed(6),
+      copiedShares: shares.toFixed(6),
+    };
+  }
+
+  function replaySell(trade: PolymarketTrade, price: number, traderHeld: number, soldShares: number) {
+    if (!draft.copySellTrades) {
+      skip('sell_trades_disabled');
+      return null;
+    }
+    if (!validateTradeAmount(toUsdc(trade.usdcSize), 'sell', filters).isValid) {
+      skip('trade_amount_limits');
+      return null;
+    }
+    if (!validateMarketCategory(trade.eventSlug, filters)) {
+      skip('market_category');
+      return null;
+    }
+
+    const key = `${trade.conditionId}-${trade.outcomeIndex}`;
+    const position = positions.get(key);
+    if (!position || position.shares <= 0) {
+      skip('no_position_to_sell');
+      return null;
+    }
+
+    // Trader sold X% of their holding, so sell X% of ours
+    const traderRemaining = traderHeld - soldShares;
+    const sellFraction = traderHeld <= 0 || traderRemaining < DUST_SHARES
+      ? 1
+      : Math.min(soldShares / traderHeld, 1);
+    const shares = sellFraction >= 1 ? position.shares : position.shares * sellFraction;
+
+    const proceeds = shares * price;
+    const costSold = position.cost * (shares / position.shares);
+    const pnl = proceeds - costSold;
+
+    position.shares -= shares;
+    position.cost -= costSold;
+    if (position.shares <= 1e-9) {
+      positions.delete(key);
+    }
+
+    cash += proceeds;
+    totalReturned += proceeds;
+    realizedPnl += pnl;
+
+    return {
+      copiedAmount: proceeds.toFixed(6),
+      copiedShares: shares.toFixed(6),
+      realizedPnl: pnl.toFixed(6),
+    };
+  }
+
+  // Value what's still held: resolved markets pay 1/0 per share, the rest at current prices
+  let resolvedPnl = 0;
+  let unrealizedPnl = 0;
+  let openPositions = 0;
+  let resolvedWins = 0;
+  let resolvedLosses = 0;
+  let endingPositionsValue = 0;
+
+  for (const [key, position] of positions) {
+    const valuation = await valuePosition(position, lastPrices.get(key) || 0);
+    const value = position.shares * valuation.price;
+    endingPositionsValue += value;
+
+    if (valuation.outcome) {
+      resolvedPnl += value - position.cost;
+      if (valuation.outcome === 'win') {
+        resolvedWins++;
+      } else {
+        resolvedLosses++;
+      }
+    } else {
+      unrealizedPnl += value - position.cost;
+      openPositions++;
+    }
+  }
+
+  const endingEquity = cash + endingPositionsValue;
+  trackDrawdown(endingEquity);
+
+  const totalPnl = realizedPnl + resolvedPnl + unrealizedPnl;
+  const skippedTotal = Object.values(skippedByReason).reduce((sum, count) => sum + (count || 0), 0);
+
+  return {
+    traderAddress: ethers.utils.getAddress(traderAddress.toLowerCase()),
+    from,
+    to,
+    truncated: truncatedAt !== null,
+    coveredTo: truncatedAt !== null ? new Date(truncatedAt * 1000) : to,
+    startingBalance: startingBalance.toFixed(6),
+    endingEquity: endingEquity.toFixed(6),
+    tradesReplayed: history.length,
+    tradesCopied: trades.length,
+    totalInvested: totalInvested.toFixed(6),
+    totalReturned: totalReturned.toFixed(6),
+    realizedPnl: realizedPnl.toFixed(6),
+    unrealizedPnl: unrealizedPnl.toFixed(6),
+    resolvedPnl: resolvedPnl.toFixed(6),
+    totalPnl: totalPnl.toFixed(6),
+    roi: totalInvested > 0 ? ((totalPnl / totalInvested) * 100).toFixed(2) : '0.00',
+    maxDrawdown: maxDrawdown.toFixed(6),
+    maxDrawdownPercent: maxDrawdownPercent.toFixed(2),
+    positions: {
+      open: openPositions,
+      resolvedWins,
+      resolvedLosses,
+    },
+    skipped: {
+      total: skippedTotal,
+      byReason: skippedByReason,
+    },
+    trades,
+  };
+}
+
+/**
+ * Fetch a trader's trades since a timestamp, oldest first
+ *
+ * fetchTraderActivity stops after a fixed number of pages, so fetch again from the
+ * newest timestamp it reached. Trades at that timestamp are left for the next fetch,
+ * so none are lost or replayed twice.
+ * @returns The trades, and the timestamp the history was cut off at (null if complete)
+ */
+async function fetchBacktestHistory(
+  traderAddress: string,
+  fromTimestamp: number
+): Promise<{ trades: PolymarketTrade[]; truncatedAt: number | null }> {
+  const trades: PolymarketTrade[] = [];
+  let startTimestamp = fromTimestamp;
+
+  while (trades.length < MAX_BACKTEST_TRADES) {
+    const batch = await fetchTraderActivity(traderAddress, startTimestamp);
+    if (!batch.truncated) {
+      trades.push(...batch.trades);
+      return { trades, truncatedAt: null };
+    }
+
+    // A full batch within one second can't be paged past
+    const lastTimestamp = batch.trades.length > 0
+      ? parseInt(batch.trades[batch.trades.length - 1].timestamp)
+      : startTimestamp;
+    if (lastTimestamp <= startTimestamp) {
+      break;
+    }
+
+    trades.push(...batch.trades.filter((trade) => parseInt(trade.timestamp) < lastTimestamp));
+    startTimestamp = lastTimestamp;
+  }
+
+  return { trades, truncatedAt: startTimestamp };
+}
+
+/**
+ * Price a held position: resolution price if its market has resolved,
+ * otherwise the current token price (falling back to the last traded price)
+ */
+async function valuePosition(
+  position: SimulatedPosition,
+  lastPrice: number
+): Promise<{ price: number; outcome?: 'win' | 'loss' }> {
+  try {
+    const marketInfo = await getMarketInfo(position.marketId);
+    const token = marketInfo.tokens?.[position.outcomeIndex];
+    const hasWinner = Array.isArray(marketInfo.tokens) && marketInfo.tokens.some((t: any) => t?.winner === true);
+
+    if (marketInfo.closed && hasWinner && token) {
+      return token.winner ? { price: 1, outcome: 'win' } : { price: 0, outcome: 'loss' };
+    }
+
+    const currentPrice = token && typeof token === 'object' ? parseFloat(token.price) : NaN;
+    return { price: currentPrice > 0 ? currentPrice : lastPrice };
+  } catch (error) {
+    logger.warn('Backtest could not price position, using last traded price', {
+      marketId: position.marketId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { price: lastPrice };
+  }
+}
+
+/**
+ * Validate the parts of a draft config the backtest uses
+ */
+function validateBacktestConfig(draft: Partial<CopyTradingConfigInput>): void {
+  if (!draft.copyBuyTrades && !draft.copySellTrades) {
+    throw new Error('At least one trade type (buy or sell) must be enabled');
+  }
+
+  if (!['fixed', 'percentage', 'percentageOfOriginal', 'proportionalToPortfolio'].includes(draft.amountType || '')) {
+    throw new Error(`Invalid amount type: ${draft.amountType}`);
+  }
+
+  const buyAmount = parseFloat(draft.buyAmount || '');
+  if (isNaN(buyAmount) || buyAmount <= 0) {
+    throw new Error('Buy amount must be a positive number');
+  }
+  if (draft.copySellTrades && draft.amountType === 'fixed') {
+    const sellAmount = parseFloat(draft.sellAmount || '');
+    if (isNaN(sellAmount) || sellAmount <= 0) {
+      throw new Error('Sell amount must be a positive number');
+    }
+  }
+
+  const allocatedAmount = parseFloat(draft.allocatedUSDCAmount || '');
+  if (isNaN(allocatedAmount) || allocatedAmount <= 0) {
+    throw new Error('allocatedUSDCAmount must be a positive number');
+  }
+}
+
+/**
+ * Normalize a Data API USDC amount (string or number) to 6 decimals
+ */
+function toUsdc(value: string | number): string {
+  return (parseFloat(String(value)) || 0).toFixed(6);
+}
@@ -0,0 +1,373 @@
+import { prisma } from '../config/database';
+import { pauseCopyTrading, resumeCopyTrading } from './copytrading';
+import { disableCopySignals, enableCopySignals } from './copy-signals';
+import { updateTradeCurrentValue } from './trade-history';
+import { calculateFifoPnl } from './portfolio';
+import { logger } from '../utils/logger';
+import { emitUserEvent } from './notifications';
+
+export type CircuitBreakerWindow = '24h' | '7d';
+
+const WINDOWS: Array<{ window: CircuitBreakerWindow; ms: number; limitField: 'maxDailyLoss' | 'maxWeeklyLoss' }> = [
+  { window: '24h', ms: 24 * 60 * 60 * 1000, limitField: 'maxDailyLoss' },
+  { window: '7d', ms: 7 * 24 * 60 * 60 * 1000, limitField: 'maxWeeklyLoss' },
+];
+
+// Keep a little more history than the longest window
+const SNAPSHOT_RETENTION_MS = 8 * 24 * 60 * 60 * 1000;
+
+export interface CircuitBreakerStatus {
+  maxDailyLoss?: string;
+  maxWeeklyLoss?: string;
+  tripped: boolean;
+  trippedAt?: Date;
+  pnl24h: string | null;
+  pnl7d: string | null;
+  trips: Array<{
+    id: string;
+    window: string;
+    lossLimit: string;
+    windowPnl: string;
+    pausedConfigIds: string[];
+    disabledSignalConfigIds: string[];
+    trippedAt: Date;
+    resumedAt?: Date;
+  }>;
+}
+
+/**
+ * Combined realized and unrealized PnL across all of a user's copied trades and signals
+ *
+ * Realized PnL is matched first-in first-out per token, so sells and exits count as
+ * well as resolved positions; the remaining shares are marked to market. Paper
+ * trades are excluded.
+ */
+export async function calculateUserTotalPnl(userId: string, refreshPrices: boolean = true): Promise<number> {
+  if (refreshPrices) {
+    const openTrades = await prisma.copiedTrade.findMany({
+      where: {
+        config: { userId },
+        isPaper: false,
+        tradeType: 'buy',
+        status: 'settled',
+        outcome: null,
+      },
+      select: { id: true },
+    });
+    for (const trade of openTrades) {
+      await updateTradeCurrentValue(trade.id);
+    }
+  }
+
+  const [trades, signals] = await Promise.all([
+    prisma.copiedTrade.findMany({ where: { config: { userId }, isPaper: false } }),
+    prisma.copiedSignal.findMany({ where: { config: { userId }, isPaper: false } }),
+  ]);
+
+  const { realizedPnl, unrealizedPnl } = calculateFifoPnl(trades, signals);
+  return realizedPnl + unrealizedPnl;
+}
+
+/**
+ * Check every user with loss limits configured and trip the breaker if a
+ * rolling window's PnL has fallen below the limit
+ *
+ * @returns Number of breakers tripped
+ */
+export async function checkCircuitBreakers(): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: {
+      circuitBreakerTrippedAt: null,
+      OR: [
+        { maxDailyLoss: { not: null } },
+        { maxWeeklyLoss: { not: null } },
+      ],
+    },
+  });
+
+  let tripped = 0;
+
+  for (const user of users) {
+    try {
+      const totalPnl = await calculateUserTotalPnl(user.id);
+
+      await prisma.pnlSnapshot.create({
+        data: {
+          userId: user.id,
+          totalPnl: totalPnl.toFixed(6),
+        },
+      });
+
+      for (const { window, ms, limitField } of WINDOWS) {
+        const limit = user[limitField];
+        if (!limit) {
+          continue;
+        }
+
+        const windowPnl = await getWindowPnl(user.id, totalPnl, ms);
+        if (windowPnl !== null && windowPnl <= -parseFloat(limit)) {
+          await tripCircuitBreaker(user.id, window, limit, windowPnl);
+          tripped++;
+          break;
+        }
+      }
+    } catch (error) {
+      logger.error('Error checking circuit breaker for user', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  await prisma.pnlSnapshot.deleteMany({
+    where: {
+      createdAt: { lt: new Date(Date.now() - SNAPSHOT_RETENTION_MS) },
+    },
+  });
+
+  return tripped;
+}
+
+/**
+ * PnL change over a rolling window, measured against the oldest snapshot in it
+ *
+ * After a resume the window starts at the resume time, so losses that already
+ * tripped the breaker don't trip it again straight away.
+ */
+async function getWindowPnl(userId: string, totalPnl: number, windowMs: number): Promise<number | null> {
+  let since = new Date(Date.now() - windowMs);
+
+  const lastResumed = await prisma.circuitBreakerTrip.findFirst({
+    where: {
+      userId,
+      resumedAt: { not: null },
+    },
+    orderBy: { resumedAt: 'desc' },
+  });
+  if (lastResumed?.resumedAt && lastResumed.resumedAt > since) {
+    since = lastResumed.resumedAt;
+  }
+
+  const baseline = await prisma.pnlSnapshot.findFirst({
+    where: {
+      userId,
+      createdAt: { gte: since },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (!baseline) {
+    return null;
+  }
+
+  return totalPnl - parseFloat(baseline.totalPnl);
+}
+
+/**
+ * Pause every copy trading config and disable every copy signal config for a user
+ */
+async function tripCircuitBreaker(
+  userId: string,
+  window: CircuitBreakerWindow,
+  lossLimit: string,
+  windowPnl: number
+): Promise<void> {
+  // Mark the breaker first so configs can't be resumed while we're pausing them
+  await prisma.user.update({
+    where: { id: userId },
+    data: { circuitBreakerTrippedAt: new Date() },
+  });
+
+  const [tradingConfigs, signalConfigs] = await Promise.all([
+    prisma.copyTradingConfig.findMany({ where: { userId, status: 'active' } }),
+    prisma.copySignalConfig.findMany({ where: { userId, enabled: true } }),
+  ]);
+
+  const pausedConfigIds: string[] = [];
+  for (const tradingConfig of tradingConfigs) {
+    try {
+      await pauseCopyTrading(tradingConfig.id, userId);
+      pausedConfigIds.push(tradingConfig.id);
+    } catch (error) {
+      logger.error('Circuit breaker failed to pause copy trading config', {
+        userId,
+        configId: tradingConfig.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const disabledSignalConfigIds: string[] = [];
+  for (const signalConfig of signalConfigs) {
+    try {
+      await disableCopySignals(signalConfig.id, userId);
+      disabledSignalConfigIds.push(signalConfig.id);
+    } catch (error) {
+      logger.error('Circuit breaker failed to disable copy signal config', {
+        userId,
+        configId: signalConfig.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const trip = await prisma.circuitBreakerTrip.create({
+    data: {
+      userId,
+      window,
+      lossLimit,
+      windowPnl: windowPnl.toFixed(6),
+      pausedConfigIds: JSON.stringify(pausedConfigIds),
+      disabledSignalConfigIds: JSON.stringify(disabledSignalConfigIds),
+    },
+  });
+
+  await emitUserEvent(userId, 'config.auto_paused', `config.auto_paused:circuit_breaker:${trip.id}`, {
+    reason: 'circuit_breaker',
+    window,
+    lossLimit,
+    windowPnl: windowPnl.toFixed(6),
+    pausedConfigIds,
+    disabledSignalConfigIds,
+  });
+
+  console.log(`🚨 Circuit breaker tripped for user ${userId}: ${window} PnL ${windowPnl.toFixed(2)} USDC (limit -${lossLimit}). Paused ${pausedConfigIds.length} trading configs, disabled ${disabledSignalConfigIds.length} signal configs`);
+}
+
+/**
+ * Resume after a trip: re-activate the configs the breaker paused
+ * Configs the user had paused themselves stay paused.
+ */
+export async function resumeCircuitBreaker(userId: string): Promise<{
+  resumedConfigIds: string[];
+  enabledSignalConfigIds: string[];
+  errors: Array<{ configId: string; error: string }>;
+}> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (!user.circuitBreakerTrippedAt) {
+    throw new Error('Circuit breaker is not tripped');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { circuitBreakerTrippedAt: null },
+  });
+
+  const trip = await prisma.circuitBreakerTrip.findFirst({
+    where: {
+      userId,
+      resumedAt: null,
+    },
+    orderBy: { trippedAt: 'desc' },
+  });
+
+  const resumedConfigIds: string[] = [];
+  const enabledSignalConfigIds: string[] = [];
+  const errors: Array<{ configId: string; error: string }> = [];
+
+  if (trip) {
+    for (const configId of JSON.parse(trip.pausedConfigIds || '[]') as string[]) {
+      try {
+        await resumeCopyTrading(configId, userId);
+        resumedConfigIds.push(configId);
+      } catch (error) {
+        errors.push({ configId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    for (const configId of JSON.parse(trip.disabledSignalConfigIds || '[]') as string[]) {
+      try {
+        await enableCopySignals(configId, userId);
+        enabledSignalConfigIds.push(configId);
+      } catch (error) {
+        errors.push({ configId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    await prisma.circuitBreakerTrip.update({
+      where: { id: trip.id },
+      data: { resumedAt: new Date() },
+    });
+  }
+
+  return { resumedConfigIds, enabledSignalConfigIds, errors };
+}
+
+/**
+ * Get loss limits, breaker state, current window PnL and recent trips
+ */
+export async function getCircuitBreakerStatus(userId: string): Promise<CircuitBreakerStatus> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const totalPnl = await calculateUserTotalPnl(userId, false);
+  const [pnl24h, pnl7d] = await Promise.all(WINDOWS.map(({ ms }) => getWindowPnl(userId, totalPnl, ms)));
+
+  const trips = await prisma.circuitBreakerTrip.findMany({
+    where: { userId },
+    orderBy: { trippedAt: 'desc' },
+    take: 20,
+  });
+
+  return {
+    maxDailyLoss: user.maxDailyLoss || undefined,
+    maxWeeklyLoss: user.maxWeeklyLoss || undefined,
+    tripped: !!user.circuitBreakerTrippedAt,
+    trippedAt: user.circuitBreakerTrippedAt || undefined,
+    pnl24h: pnl24h !== null ? pnl24h.toFixed(6) : null,
+    pnl7d: pnl7d !== null ? pnl7d.toFixed(6) : null,
+    trips: trips.map((trip) => ({
+      id: trip.id,
+      window: trip.window,
+      lossLimit: trip.lossLimit,
+      windowPnl: trip.windowPnl,
+      pausedConfigIds: JSON.parse(trip.pausedConfigIds || '[]'),
+      disabledSignalConfigIds: JSON.parse(trip.disabledSignalConfigIds || '[]'),
+      trippedAt: trip.trippedAt,
+      resumedAt: trip.resumedAt || undefined,
+    })),
+  };
+}
+
+/**
+ * Update a user's 24h / 7d loss limits in USDC (null to remove a limit)
+ */
+export async function updateCircuitBreakerLimits(
+  userId: string,
+  updates: { maxDailyLoss?: string | null; maxWeeklyLoss?: string | null }
+): Promise<CircuitBreakerStatus> {
+  const updateData: any = {};
+
+  for (const field of ['maxDailyLoss', 'maxWeeklyLoss'] as const) {
+    const value = updates[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null) {
+      const limit = parseFloat(value);
+      if (isNaN(limit) || limit <= 0) {
+        throw new Error(`${field} must be a positive USDC amount`);
+      }
+    }
+    updateData[field] = value;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: updateData,
+  });
+
+  return getCircuitBreakerStatus(userId);
+}
@@ -0,0 +1,191 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../config/database';
+import type { PolymarketTrade } from './trade-monitor';
+
+export type CopyTradingConfigType = 'single' | 'consensus';
+
+export const CONFIG_TYPES: CopyTradingConfigType[] = ['single', 'consensus'];
+
+export const MAX_CONSENSUS_TRADERS = 20;
+export const MAX_CONSENSUS_WINDOW_MINUTES = 7 * 24 * 60;
+
+// Keep pending buys a little longer than the longest allowed window
+const PENDING_RETENTION_MS = (MAX_CONSENSUS_WINDOW_MINUTES + 24 * 60) * 60 * 1000;
+
+export interface ConsensusSource {
+  traderAddress: string;
+  txHash: string;
+  amount: string;
+  price: string;
+  shares: string | null;
+  timestamp: number;
+}
+
+export interface ConsensusCheck {
+  reached: boolean;
+  traderCount: number; // Distinct group traders agreeing on this outcome
+  trade?: PolymarketTrade; // Combined buy to copy (reached only)
+  sources?: ConsensusSource[];
+  copiedTradeId?: string; // ID reserved for the CopiedTrade (reached only)
+}
+
+/**
+ * Parse a config's stored consensus trader list (lowercased)
+ */
+export function parseConsensusTraders(consensusTraders: string | null | undefined): string[] {
+  if (!consensusTraders) {
+    return [];
+  }
+  return (JSON.parse(consensusTraders) as string[]).map((address) => address.toLowerCase());
+}
+
+/**
+ * Trader addresses a config copies from (lowercased)
+ * Consensus configs follow their whole group, single configs their target trader.
+ */
+export function getFollowedTraders(copyConfig: any): string[] {
+  if (copyConfig.configType === 'consensus') {
+    return parseConsensusTraders(copyConfig.consensusTraders);
+  }
+  return [copyConfig.targetTraderAddress.toLowerCase()];
+}
+
+/**
+ * Record a group trader's buy for a consensus config and check whether enough
+ * traders have now bought the same market outcome within the config's window
+ *
+ * Once the threshold is met, the agreeing buys are claimed for one copy and
+ * combined into a single trade (summed USDC and shares at their VWAP), so the
+ * copy is sized on the group's combined signal. Claimed buys don't count
+ * towards the next consensus on that outcome.
+ *
+ * @returns null if this buy was already recorded
+ */
+export async function recordConsensusBuy(
+  copyConfig: any,
+  traderAddress: string,
+  trade: PolymarketTrade
+): Promise<ConsensusCheck | null> {
+  const tradeTimestamp = parseInt(trade.timestamp);
+  const windowSeconds = copyConfig.consensusWindowMinutes * 60;
+
+  try {
+    await prisma.pendingConsensusTrade.create({
+      data: {
+        configId: copyConfig.id,
+        marketId: trade.conditionId,
+        outcomeIndex: trade.outcomeIndex,
+        traderAddress,
+        txHash: trade.transactionHash.toLowerCase(),
+        amount: String(trade.usdcSize),
+        price: trade.price.toString(),
+        shares: trade.size ? String(trade.size) : null,
+        tradeTimestamp,
+        trade: JSON.stringify(trade),
+      },
+    });
+  } catch (error: any) {
+    if (error?.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+
+  const pending = await prisma.pendingConsensusTrade.findMany({
+    where: {
+      configId: copyConfig.id,
+      marketId: trade.conditionId,
+      outcomeIndex: trade.outcomeIndex,
+      copiedTradeId: null,
+      tradeTimestamp: {
+        gte: tradeTimestamp - windowSeconds,
+        lte: tradeTimestamp + windowSeconds,
+      },
+    },
+    orderBy: { tradeTimestamp: 'asc' },
+  });
+
+  // Group buys arrive per trader rather than in time order, so look for the
+  // best window containing this buy instead of only the one ending at it
+  let best: typeof pending = [];
+  let bestTraderCount = 0;
+  for (const start of pending) {
+    if (start.tradeTimestamp > tradeTimestamp || start.tradeTimestamp < tradeTimestamp - windowSeconds) {
+      continue;
+    }
+    const group = pending.filter(
+      (p) => p.tradeTimestamp >= start.tradeTimestamp && p.tradeTimestamp <= start.tradeTimestamp + windowSeconds
+    );
+    const traderCount = new Set(group.map((p) => p.traderAddress)).size;
+    if (traderCount > bestTraderCount) {
+      best = group;
+      bestTraderCount = traderCount;
+    }
+  }
+
+  if (bestTraderCount < copyConfig.consensusThreshold) {
+    return { reached: false, traderCount: bestTraderCount };
+  }
+
+  // Claim the buys so a concurrent run (e.g. on-chain detection) can't copy them too
+  const copiedTradeId = randomUUID();
+  const claimed = await prisma.pendingConsensusTrade.updateMany({
+    where: {
+      id: { in: best.map((p) => p.id) },
+      copiedTradeId: null,
+    },
+    data: { copiedTradeId },
+  });
+
+  if (claimed.count < best.length) {
+    await releaseConsensusClaim(copiedTradeId);
+    return { reached: false, traderCount: bestTraderCount };
+  }
+
+  const sources: ConsensusSource[] = best.map((p) => ({
+    traderAddress: p.traderAddress,
+    txHash: p.txHash,
+    amount: p.amount,
+    price: p.price,
+    shares: p.shares,
+    timestamp: p.tradeTimestamp,
+  }));
+
+  const totalAmount = sources.reduce((sum, s) => sum + (parseFloat(s.amount) || 0), 0);
+  const totalShares = sources.reduce((sum, s) => sum + (parseFloat(s.shares || '0') || 0), 0);
+
+  return {
+    reached: true,
+    traderCount: bestTraderCount,
+    trade: {
+      ...trade,
+      usdcSize: totalAmount.toFixed(6),
+      size: totalShares.toFixed(6),
+      price: totalShares > 0 ? parseFloat((totalAmount / totalShares).toFixed(6)) : trade.price,
+    },
+    sources,
+    copiedTradeId,
+  };
+}
+
+/**
+ * Return claimed buys to the pending pool (e.g. the consensus copy couldn't be created)
+ */
+export async function releaseConsensusClaim(copiedTradeId: string): Promise<void> {
+  await prisma.pendingConsensusTrade.updateMany({
+    where: { copiedTradeId },
+    data: { copiedTradeId: null },
+  });
+}
+
+/**
+ * Delete pending buys older than any consensus window
+ */
+export async function prunePendingConsensusTrades(): Promise<number> {
+  const result = await prisma.pendingConsensusTrade.deleteMany({
+    where: {
+      createdAt: { lt: new Date(Date.now() - PENDING_RETENTION_MS) },
+    },
+  });
+  return result.count;
+}
@@ -1,8 +1,11 @@
 import { prisma } from '../config/database';
 import { getUserBalance } from './balance';
+import { ConfigMode, validateConfigMode } from './paper-trading';
+import { parseProviderIds, validateProviderIds } from './signal-providers';
 
 export interface CopySignalConfigInput {
   signalCategories: string[];
+  providerIds?: string[]; // Only copy signals from these providers (any provider when empty)
   copyBuyTrades: boolean;
   copySellTrades: boolean;
   amountType: 'fixed' | 'percentage' | 'percentageOfOriginal';
@@ -14,11 +17,14 @@ export interface CopySignalConfigInput {
   maxSellAmount?: string;
   marketCategories?: string[];
   allocatedUSDCAmount: string; // Required: Amount of USDC to allocate to this config
+  mode?: ConfigMode; // 'paper' simulates fills against the order book instead of placing orders
+  scaleByConfidence?: boolean; // Scale copied size by signal confidence, within min/max amounts
 }
 
 export interface CopySignalConfigResponse {
   id: string;
   signalCategories: string[];
+  providerIds: string[];
   copyBuyTrades: boolean;
   copySellTrades: boolean;
   amountType: string;
@@ -33,6 +39,8 @@ export interface CopySignalConfigResponse {
   authorized: boolean;
   allocatedUSDCAmount: string;
   usedUSDCAmount: string;
+  mode: string;
+  scaleByConfidence: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -44,10 +52,15 @@ export async function createCopySignalConfig(
   userId: string,
   input: CopySignalConfigInput
 ): Promise<CopySignalConfigResponse> {
-  // Validate signal categories
-  if (!input.signalCategories || input.signalCategories.length === 0) {
-    throw new Error('At least one signal category must be specified');
+  // Validate signal categories and providers (a config can follow whole providers instead of categories)
+  if (input.signalCategories && !Array.isArray(input.signalCategories)) {
+    throw new Error('Invalid signalCategories: must be an array of categories');
   }
+  if ((!input.signalCategories || input.signalCategories.length === 0) &&
+      (!input.providerIds || input.providerIds.length === 0)) {
+    throw new Error('At least one signal category or provider must be specified');
+  }
+  await validateProviderIds(input.providerIds);
 
   // Validate at least one trade type is enabled
   if (!input.copyBuyTrades && !input.copySellTrades) {
@@ -155,12 +168,14 @@ export async function createCopySignalConfig(
   if (input.maxSellAmount && parseFloat(input.maxSellAmount) < 0) {
     throw new Error('Maximum sell amount cannot be negative');
   }
+  validateConfigMode(input.mode);
 
   // Create configuration
   const config = await prisma.copySignalConfig.create({
     data: {
       userId,
-      signalCategories: JSON.stringify(input.signalCategories),
+      signalCategories: JSON.stringify(input.signalCategories || []),
+      providerIds: input.providerIds && input.providerIds.length > 0 ? JSON.stringify(input.providerIds) : null,
       copyBuyTrades: input.copyBuyTrades,
       copySellTrades: input.copySellTrades,
       amountType: input.amountType,
@@ -176,12 +191,15 @@ export async function createCopySignalConfig(
       authorized: false, // Must be authorized separately
       allocatedUSDCAmount: input.allocatedUSDCAmount,
       usedUSDCAmount: '0', // Start with zero usage
+      mode: input.mode || 'live',
+      scaleByConfidence: input.scaleByConfidence ?? false,
     },
   });
 
   return {
     id: config.id,
     signalCategories: JSON.parse(config.signalCategories),
+    providerIds: parseProviderIds(config.providerIds),
     copyBuyTrades: config.copyBuyTrades,
     copySellTrades: config.copySellTrades,
     amountType: config.amountType,
@@ -196,6 +214,8 @@ export async function createCopySignalConfig(
     authorized: config.authorized,
     allocatedUSDCAmount: config.allocatedUSDCAmount,
     usedUSDCAmount: config.usedUSDCAmount || '0',
+    mode: config.mode || 'live',
+    scaleByConfidence: config.scaleByConfidence,
     createdAt: config.createdAt,
     updatedAt: config.updatedAt,
   };
@@ -213,6 +233,7 @@ export async function getUserCopySignalConfigs(userId: string): Promise<CopySign
   return configs.map((config) => ({
     id: config.id,
     signalCategories: JSON.parse(config.signalCategories),
+    providerIds: parseProviderIds(config.providerIds),
     copyBuyTrades: config.copyBuyTrades,
     copySellTrades: config.copySellTrades,
     amountType: config.amountType,
@@ -227,6 +248,8 @@ export async function getUserCopySignalConfigs(userId: string): Promise<CopySign
     authorized: config.authorized,
     allocatedUSDCAmount: config.allocatedUSDCAmount,
     usedUSDCAmount: config.usedUSDCAmount || '0',
+    mode: config.mode || 'live',
+    scaleByConfidence: config.scaleByConfidence,
     createdAt: config.createdAt,
     updatedAt: config.updatedAt,
   }));
@@ -253,6 +276,7 @@ export async function getCopySignalConfig(
   return {
     id: config.id,
     signalCategories: JSON.parse(config.signalCategories),
+    providerIds: parseProviderIds(config.providerIds),
     copyBuyTrades: config.copyBuyTrades,
     copySellTrades: config.copySellTrades,
     amountType: config.amountType,
@@ -267,6 +291,8 @@ export async function getCopySignalConfig(
     authorized: config.authorized,
     allocatedUSDCAmount: config.allocatedUSDCAmount,
     usedUSDCAmount: config.usedUSDCAmount || '0',
+    mode: config.mode || 'live',
+    scaleByConfidence: config.scaleByConfidence,
     createdAt: config.createdAt,
     updatedAt: config.updatedAt,
   };
@@ -296,10 +322,27 @@ export async function updateCopySignalConfig(
   const updateData: any = {};
 
   if (updates.signalCategories !== undefined) {
-    if (updates.signalCategories.length === 0) {
-      throw new Error('At least one signal category must be specified');
+    if (updates.signalCategories && !Array.isArray(updates.signalCategories)) {
+      throw new Error('Invalid signalCategories: must be an array of categories');
+    }
+    updateData.signalCategories = JSON.stringify(updates.signalCategories || []);
+  }
+  if (updates.providerIds !== undefined) {
+    await validateProviderIds(updates.providerIds || []);
+    updateData.providerIds = updates.providerIds && updates.providerIds.length > 0
+      ? JSON.stringify(updates.providerIds)
+      : null;
+  }
+  if (updates.signalCategories !== undefined || updates.providerIds !== undefined) {
+    const finalCategories = updates.signalCategories !== undefined
+      ? updates.signalCategories || []
+      : JSON.parse(existingConfig.signalCategories);
+    const finalProviderIds = updates.providerIds !== undefined
+      ? updates.providerIds || []
+      : parseProviderIds(existingConfig.providerIds);
+    if (finalCategories.length === 0 && finalProviderIds.length === 0) {
+      throw new Error('At least one signal category or provider must be specified');
     }
-    updateData.signalCategories = JSON.stringify(updates.signalCategories);
   }
   if (updates.copyBuyTrades !== undefined) {
     updateData.copyBuyTrades = updates.copyBuyTrades;
@@ -333,6 +376,13 @@ export async function updateCopySignalConfig(
       ? JSON.stringify(updates.marketCategories)
       : null;
   }
+  if (updates.mode !== undefined) {
+    validateConfigMode(updates.mode);
+    updateData.mode = updates.mode;
+  }
+  if (updates.scaleByConfidence !== undefined) {
+    updateData.scaleByConfidence = !!updates.scaleByConfidence;
+  }
   if (updates.allocatedUSDCAmount !== undefined) {
     // Validate allocatedUSDCAmount if being updated
     const allocatedAmount = parseFloat(updates.allocatedUSDCAmount);
@@ -400,6 +450,7 @@ export async function updateCopySignalConfig(
   return {
     id: updatedConfig.id,
     signalCategories: JSON.parse(updatedConfig.signalCategories),
+    providerIds: parseProviderIds(updatedConfig.providerIds),
     copyBuyTrades: updatedConfig.copyBuyTrades,
     copySellTrades: updatedConfig.copySellTrades,
     amountType: updatedConfig.amountType,
@@ -414,6 +465,8 @@ export async function updateCopySignalConfig(
     authorized: updatedConfig.authorized,
     allocatedUSDCAmount: updatedConfig.allocatedUSDCAmount,
     usedUSDCAmount: updatedConfig.usedUSDCAmount || '0',
+    mode: updatedConfig.mode || 'live',
+    scaleByConfidence: updatedConfig.scaleByConfidence,
     createdAt: updatedConfig.createdAt,
     updatedAt: updatedConfig.updatedAt,
   };
@@ -441,6 +494,13 @@ export async function enableCopySignals(
     throw new Error('Copy signals must be authorized before they can be enabled');
   }
 
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+  if (user?.circuitBreakerTrippedAt) {
+    throw new Error('Drawdown circuit breaker is tripped. Resume it via /copytrading/circuit-breaker/resume first.');
+  }
+
   const updatedConfig = await prisma.copySignalConfig.update({
     where: { id: configId },
     data: { enabled: true },
@@ -449,6 +509,7 @@ export async function enableCopySignals(
   return {
     id: updatedConfig.id,
     signalCategories: JSON.parse(updatedConfig.signalCategories),
+    providerIds: parseProviderIds(updatedConfig.providerIds),
     copyBuyTrades: updatedConfig.copyBuyTrades,
     copySellTrades: updatedConfig.copySellTrades,
     amountType: updatedConfig.amountType,
@@ -463,6 +524,8 @@ export async function enableCopySignals(
     authorized: updatedConfig.authorized,
     allocatedUSDCAmount: updatedConfig.allocatedUSDCAmount,
     usedUSDCAmount: updatedConfig.usedUSDCAmount || '0',
+    mode: updatedConfig.mode || 'live',
+    scaleByConfidence: updatedConfig.scaleByConfidence,
     createdAt: updatedConfig.createdAt,
     updatedAt: updatedConfig.updatedAt,
   };
@@ -512,6 +575,7 @@ export async function disableCopySignals(
   return {
     id: updatedConfig.id,
     signalCategories: JSON.parse(updatedConfig.signalCategories),
+    providerIds: parseProviderIds(updatedConfig.providerIds),
     copyBuyTrades: updatedConfig.copyBuyTrades,
     copySellTrades: updatedConfig.copySellTrades,
     amountType: updatedConfig.amountType,
@@ -526,6 +590,8 @@ export async function disableCopySignals(
     authorized: updatedConfig.authorized,
     allocatedUSDCAmount: updatedConfig.allocatedUSDCAmount,
     usedUSDCAmount: updatedConfig.usedUSDCAmount || '0',
+    mode: updatedConfig.mode || 'live',
+    scaleByConfidence: updatedConfig.scaleByConfidence,
     createdAt: updatedConfig.createdAt,
     updatedAt: updatedConfig.updatedAt,
   };
@@ -557,6 +623,7 @@ export async function authorizeCopySignals(
   return {
     id: updatedConfig.id,
     signalCategories: JSON.parse(updatedConfig.signalCategories),
+    providerIds: parseProviderIds(updatedConfig.providerIds),
     copyBuyTrades: updatedConfig.copyBuyTrades,
     copySellTrades: updatedConfig.copySellTrades,
     amountType: updatedConfig.amountType,
@@ -571,6 +638,8 @@ export async function authorizeCopySignals(
     authorized: updatedConfig.authorized,
     allocatedUSDCAmount: updatedConfig.allocatedUSDCAmount,
     usedUSDCAmount: updatedConfig.usedUSDCAmount || '0',
+    mode: updatedConfig.mode || 'live',
+    scaleByConfidence: updatedConfig.scaleByConfidence,
     createdAt: updatedConfig.createdAt,
     updatedAt: updatedConfig.updatedAt,
   };
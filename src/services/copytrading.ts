@@ -3,12 +3,23 @@ import { verifyTrader, TraderInfo } from './polymarket';
 import { ethers } from 'ethers';
 import { getUserLogger } from '../utils/user-logger';
 import { getUserBalance } from './balance';
+import { validateExposureCaps } from './exposure-limits';
+import { ConfigMode, validateConfigMode } from './paper-trading';
+import { validateDebounceSeconds } from './fill-aggregation';
+import { ExecutionStyle, validateLimitOrderSettings } from './limit-orders';
+import {
+  CopyTradingConfigType,
+  CONFIG_TYPES,
+  MAX_CONSENSUS_TRADERS,
+  MAX_CONSENSUS_WINDOW_MINUTES,
+  parseConsensusTraders,
+} from './consensus';
 
 export interface CopyTradingConfigInput {
   targetTraderAddress: string;
   copyBuyTrades: boolean;
   copySellTrades: boolean;
-  amountType: 'fixed' | 'percentage' | 'percentageOfOriginal';
+  amountType: 'fixed' | 'percentage' | 'percentageOfOriginal' | 'proportionalToPortfolio';
   buyAmount: string;
   sellAmount: string;
   minBuyAmount?: string;
@@ -20,6 +31,22 @@ export interface CopyTradingConfigInput {
   durationDays?: number | null;
   configName?: string | null;
   allocatedUSDCAmount: string; // Required: Amount of USDC to allocate to this config
+  maxPriceDeviation?: string | null; // Max adverse move from the trader's fill price (fraction, e.g. "0.05" = 5%)
+  stopLossPercent?: string | null; // Exit a position once it's down this % from average entry (e.g. "20")
+  takeProfitPercent?: string | null; // Exit a position once it's up this % from average entry (e.g. "50")
+  trailingStopPercent?: string | null; // Exit a position once it falls this % from its peak price (e.g. "15")
+  maxMarketExposure?: string | null; // Max USDC held in one market (conditionId)
+  maxEventExposure?: string | null; // Max USDC held across one event's markets (eventSlug)
+  mode?: ConfigMode; // 'paper' simulates fills against the order book instead of placing orders
+  configType?: CopyTradingConfigType; // 'consensus' copies a buy once enough of consensusTraders agree
+  consensusTraders?: string[]; // Trader group for consensus configs (the first is used as targetTraderAddress)
+  consensusThreshold?: number; // How many group traders must buy the same outcome
+  consensusWindowMinutes?: number; // Time window those buys must fall within
+  debounceSeconds?: number | null; // Merge a trader's same-side fills on one token within this window into one copy
+  executionStyle?: ExecutionStyle; // 'limit' rests a GTC/GTD order near the trader's price instead of a FOK order
+  limitOrderType?: 'GTC' | 'GTD' | null; // Limit order type (default GTC)
+  limitPriceImprovement?: string | null; // How far past the trader's price a limit order may rest (fraction, e.g. "0.01")
+  limitOrderTtlSeconds?: number | null; // Cancel the unfilled remainder of a limit order after this long (default 300)
 }
 
 export interface CopyTradingConfigResponse {
@@ -47,6 +74,22 @@ export interface CopyTradingConfigResponse {
   traderInfo?: TraderInfo;
   allocatedUSDCAmount: string;
   usedUSDCAmount: string;
+  maxPriceDeviation?: string;
+  stopLossPercent?: string;
+  takeProfitPercent?: string;
+  trailingStopPercent?: string;
+  maxMarketExposure?: string;
+  maxEventExposure?: string;
+  mode: string;
+  configType: string;
+  consensusTraders?: string[];
+  consensusThreshold?: number;
+  consensusWindowMinutes?: number;
+  debounceSeconds?: number;
+  executionStyle: string;
+  limitOrderType?: string;
+  limitPriceImprovement?: string;
+  limitOrderTtlSeconds?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -80,11 +123,165 @@ function mapConfigToResponse(config: any): CopyTradingConfigResponse {
     traderInfo: config.traderInfo ? JSON.parse(config.traderInfo) : undefined,
     allocatedUSDCAmount: config.allocatedUSDCAmount,
     usedUSDCAmount: config.usedUSDCAmount || '0',
+    maxPriceDeviation: config.maxPriceDeviation || undefined,
+    stopLossPercent: config.stopLossPercent || undefined,
+    takeProfitPercent: config.takeProfitPercent || undefined,
+    trailingStopPercent: config.trailingStopPercent || undefined,
+    maxMarketExposure: config.maxMarketExposure || undefined,
+    maxEventExposure: config.maxEventExposure || undefined,
+    mode: config.mode || 'live',
+    configType: config.configType || 'single',
+    consensusTraders: config.consensusTraders ? JSON.parse(config.consensusTraders) : undefined,
+    consensusThreshold: config.consensusThreshold || undefined,
+    consensusWindowMinutes: config.consensusWindowMinutes || undefined,
+    debounceSeconds: config.debounceSeconds || undefined,
+    executionStyle: config.executionStyle || 'market',
+    limitOrderType: config.limitOrderType || undefined,
+    limitPriceImprovement: config.limitPriceImprovement || undefined,
+    limitOrderTtlSeconds: config.limitOrderTtlSeconds || undefined,
     createdAt: config.createdAt,
     updatedAt: config.updatedAt,
   };
 }
 
+/**
+ * Validate maxPriceDeviation (fraction between 0 and 1, or null to disable)
+ */
+function validateMaxPriceDeviation(maxPriceDeviation: string | null | undefined): void {
+  if (maxPriceDeviation === undefined || maxPriceDeviation === null) {
+    return;
+  }
+  const deviation = parseFloat(maxPriceDeviation);
+  if (isNaN(deviation) || deviation <= 0 || deviation >= 1) {
+    throw new Error('maxPriceDeviation must be a fraction between 0 and 1 (e.g. "0.05" for 5%)');
+  }
+}
+
+/**
+ * Validate stop-loss / take-profit / trailing stop percentages (null to disable)
+ */
+function validateExitThresholds(input: Partial<CopyTradingConfigInput>): void {
+  const parse = (value: string | null | undefined, name: string): number | null => {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    const percent = parseFloat(value);
+    if (isNaN(percent) || percent <= 0) {
+      throw new Error(`${name} must be a positive percentage (e.g. "20" for 20%)`);
+    }
+    return percent;
+  };
+
+  const stopLoss = parse(input.stopLossPercent, 'stopLossPercent');
+  parse(input.takeProfitPercent, 'takeProfitPercent');
+  const trailingStop = parse(input.trailingStopPercent, 'trailingStopPercent');
+
+  if (stopLoss !== null && stopLoss > 100) {
+    throw new Error('stopLossPercent cannot be more than 100');
+  }
+  if (trailingStop !== null && trailingStop >= 100) {
+    throw new Error('trailingStopPercent must be less than 100');
+  }
+}
+
+/**
+ * Validate a consensus config's threshold and window against its group size
+ */
+function validateConsensusSettings(threshold: number | undefined, windowMinutes: number | undefined, traderCount: number): void {
+  if (!Number.isInteger(threshold) || threshold! < 2 || threshold! > traderCount) {
+    throw new Error(`Invalid consensusThreshold: must be a whole number between 2 and ${traderCount}`);
+  }
+  if (!Number.isInteger(windowMinutes) || windowMinutes! < 1 || windowMinutes! > MAX_CONSENSUS_WINDOW_MINUTES) {
+    throw new Error(`Invalid consensusWindowMinutes: must be a whole number between 1 and ${MAX_CONSENSUS_WINDOW_MINUTES}`);
+  }
+}
+
+/**
+ * Validate and normalize a consensus config's trader group
+ * The first group trader becomes targetTraderAddress, so it goes through the
+ * regular trader checks and single-trader tooling keeps working.
+ */
+async function prepareConsensusInput(input: CopyTradingConfigInput): Promise<CopyTradingConfigInput> {
+  if (input.configType !== undefined && !CONFIG_TYPES.includes(input.configType)) {
+    throw new Error(`Invalid configType: ${input.configType}. Must be one of: ${CONFIG_TYPES.join(', ')}`);
+  }
+  if (input.configType !== 'consensus') {
+    return input;
+  }
+
+  if (!Array.isArray(input.consensusTraders)) {
+    throw new Error('Invalid consensusTraders: must be an array of trader addresses');
+  }
+
+  const traders: string[] = [];
+  for (const address of input.consensusTraders) {
+    let checksummed: string;
+    try {
+      checksummed = ethers.utils.getAddress(String(address).toLowerCase());
+    } catch {
+      throw new Error(`Invalid trader address format: ${address}`);
+    }
+    if (!traders.includes(checksummed)) {
+      traders.push(checksummed);
+    }
+  }
+
+  if (traders.length < 2 || traders.length > MAX_CONSENSUS_TRADERS) {
+    throw new Error(`Invalid consensusTraders: must list between 2 and ${MAX_CONSENSUS_TRADERS} distinct trader addresses`);
+  }
+  validateConsensusSettings(input.consensusThreshold, input.consensusWindowMinutes, traders.length);
+
+  // Sells and portfolio sizing follow one trader's position, so consensus configs copy buys only
+  if (!input.copyBuyTrades || input.copySellTrades) {
+    throw new Error('Invalid consensus config: consensus configs copy buys only (copyBuyTrades true, copySellTrades false); use stop-loss / take-profit to exit');
+  }
+  if (input.amountType === 'proportionalToPortfolio') {
+    throw new Error('Invalid consensus config: proportionalToPortfolio sizing is not supported for consensus configs');
+  }
+
+  for (const address of traders.slice(1)) {
+    const traderInfo = await verifyTrader(address);
+    if (!traderInfo.isValid) {
+      throw new Error(`Trader ${address} not found on Polymarket or has no trading history`);
+    }
+  }
+
+  return {
+    ...input,
+    targetTraderAddress: traders[0],
+    consensusTraders: traders,
+  };
+}
+
+/**
+ * Check a user doesn't already have a config for this trader, or for this consensus group
+ */
+async function assertNoDuplicateConfig(userId: string, input: CopyTradingConfigInput): Promise<void> {
+  if (input.configType !== 'consensus') {
+    const existingConfig = await prisma.copyTradingConfig.findFirst({
+      where: {
+        userId,
+        configType: 'single',
+        targetTraderAddress: ethers.utils.getAddress(input.targetTraderAddress.toLowerCase()),
+      },
+    });
+
+    if (existingConfig) {
+      throw new Error('You already have a copy trading configuration for this trader');
+    }
+    return;
+  }
+
+  const group = input.consensusTraders!.map((address) => address.toLowerCase()).sort().join(',');
+  const consensusConfigs = await prisma.copyTradingConfig.findMany({
+    where: { userId, configType: 'consensus' },
+  });
+
+  if (consensusConfigs.some((c) => parseConsensusTraders(c.consensusTraders).sort().join(',') === group)) {
+    throw new Error('You already have a consensus configuration for this group of traders');
+  }
+}
+
 /**
  * Create a copy trading configuration for a user
  */
@@ -92,6 +289,8 @@ export async function createCopyTradingConfig(
   userId: string,
   input: CopyTradingConfigInput
 ): Promise<CopyTradingConfigResponse> {
+  input = await prepareConsensusInput(input);
+
   // Validate address format
   try {
     ethers.utils.getAddress(input.targetTraderAddress);
@@ -127,7 +326,11 @@ export async function createCopyTradingConfig(
         throw new Error('Sell amount must be a positive number');
       }
     }
-  } else if (input.amountType === 'percentage' || input.amountType === 'percentageOfOriginal') {
+  } else if (
+    input.amountType === 'percentage' ||
+    input.amountType === 'percentageOfOriginal' ||
+    input.amountType === 'proportionalToPortfolio'
+  ) {
     // Percentages should be between 0 and 100
     const buyPercent = parseFloat(input.buyAmount);
     if (isNaN(buyPercent) || buyPercent <= 0 || buyPercent > 100) {
@@ -203,18 +406,15 @@ export async function createCopyTradingConfig(
   if (input.maxSellAmount && parseFloat(input.maxSellAmount) < 0) {
     throw new Error('Maximum sell amount cannot be negative');
   }
+  validateMaxPriceDeviation(input.maxPriceDeviation);
+  validateExitThresholds(input);
+  validateExposureCaps(input);
+  validateConfigMode(input.mode);
+  validateDebounceSeconds(input.debounceSeconds);
+  validateLimitOrderSettings(input);
 
-  // Check if user already has a config for this trader
-  const existingConfig = await prisma.copyTradingConfig.findFirst({
-    where: {
-      userId,
-      targetTraderAddress: ethers.utils.getAddress(input.targetTraderAddress.toLowerCase()),
-    },
-  });
-
-  if (existingConfig) {
-    throw new Error('You already have a copy trading configuration for this trader');
-  }
+  // Check if user already has a config for this trader (or consensus group)
+  await assertNoDuplicateConfig(userId, input);
 
   // Get user logger
   const userLogger = getUserLogger(user.address);
@@ -241,8 +441,20 @@ export async function createCopyTradingConfig(
     tradesCountToday: 0,
     allocatedUSDCAmount: input.allocatedUSDCAmount,
     usedUSDCAmount: '0', // Start with zero usage
+    mode: input.mode || 'live',
+    configType: input.configType || 'single',
+    executionStyle: input.executionStyle || 'market',
   };
 
+  if (input.configType === 'consensus') {
+    configData.consensusTraders = JSON.stringify(input.consensusTraders);
+    configData.consensusThreshold = input.consensusThreshold;
+    configData.consensusWindowMinutes = input.consensusWindowMinutes;
+  } else {
+    // Backs the (userId, singleTraderAddress) unique index: one single-trader config per trader
+    configData.singleTraderAddress = configData.targetTraderAddress;
+  }
+
   // Add optional fields if provided
   if (input.maxBuyTradesPerDay !== undefined) {
     configData.maxBuyTradesPerDay = input.maxBuyTradesPerDay;
@@ -262,10 +474,38 @@ export async function createCopyTradingConfig(
     configData.configName = input.configName;
   }
 
-  // Create configuration
-  const config = await prisma.copyTradingConfig.create({
-    data: configData,
-  });
+  if (input.maxPriceDeviation !== undefined && input.maxPriceDeviation !== null) {
+    configData.maxPriceDeviation = input.maxPriceDeviation;
+  }
+
+  if (input.debounceSeconds !== undefined && input.debounceSeconds !== null) {
+    configData.debounceSeconds = input.debounceSeconds;
+  }
+
+  for (const field of ['limitOrderType', 'limitPriceImprovement', 'limitOrderTtlSeconds'] as const) {
+    if (input[field] !== undefined && input[field] !== null) {
+      configData[field] = input[field];
+    }
+  }
+
+  for (const field of ['stopLossPercent', 'takeProfitPercent', 'trailingStopPercent', 'maxMarketExposure', 'maxEventExposure'] as const) {
+    if (input[field] !== undefined && input[field] !== null) {
+      configData[field] = input[field];
+    }
+  }
+
+  // Create configuration (a concurrent create for the same trader loses on the unique index)
+  let config;
+  try {
+    config = await prisma.copyTradingConfig.create({
+      data: configData,
+    });
+  } catch (error: any) {
+    if (error?.code === 'P2002') {
+      throw new Error('You already have a copy trading configuration for this trader');
+    }
+    throw error;
+  }
 
   // Log config creation
   userLogger.configCreated(config.id, 'trading', {
@@ -366,6 +606,31 @@ export async function updateCopyTradingConfig(
       ? JSON.stringify(updates.marketCategories)
       : null;
   }
+  if (updates.maxPriceDeviation !== undefined) {
+    validateMaxPriceDeviation(updates.maxPriceDeviation);
+    updateData.maxPriceDeviation = updates.maxPriceDeviation;
+  }
+  validateExitThresholds(updates);
+  validateExposureCaps(updates);
+  if (updates.mode !== undefined) {
+    validateConfigMode(updates.mode);
+    updateData.mode = updates.mode;
+  }
+  if (updates.debounceSeconds !== undefined) {
+    validateDebounceSeconds(updates.debounceSeconds);
+    updateData.debounceSeconds = updates.debounceSeconds;
+  }
+  validateLimitOrderSettings(updates);
+  for (const field of ['executionStyle', 'limitOrderType', 'limitPriceImprovement', 'limitOrderTtlSeconds'] as const) {
+    if (updates[field] !== undefined) {
+      updateData[field] = updates[field];
+    }
+  }
+  for (const field of ['stopLossPercent', 'takeProfitPercent', 'trailingStopPercent', 'maxMarketExposure', 'maxEventExposure'] as const) {
+    if (updates[field] !== undefined) {
+      updateData[field] = updates[field];
+    }
+  }
   if (updates.allocatedUSDCAmount !== undefined) {
     // Validate allocatedUSDCAmount if being updated
     const allocatedAmount = parseFloat(updates.allocatedUSDCAmount);
@@ -416,6 +681,31 @@ export async function updateCopyTradingConfig(
     throw new Error('At least one trade type (buy or sell) must be enabled');
   }
 
+  if (updates.configType !== undefined && updates.configType !== existingConfig.configType) {
+    throw new Error('configType cannot be changed, create a new configuration instead');
+  }
+  if (updates.consensusTraders !== undefined) {
+    throw new Error('consensusTraders cannot be changed, create a new consensus configuration instead');
+  }
+
+  if (existingConfig.configType === 'consensus') {
+    if (updates.consensusThreshold !== undefined || updates.consensusWindowMinutes !== undefined) {
+      const threshold = updates.consensusThreshold ?? existingConfig.consensusThreshold ?? undefined;
+      const windowMinutes = updates.consensusWindowMinutes ?? existingConfig.consensusWindowMinutes ?? undefined;
+      validateConsensusSettings(threshold, windowMinutes, parseConsensusTraders(existingConfig.consensusTraders).length);
+      updateData.consensusThreshold = threshold;
+      updateData.consensusWindowMinutes = windowMinutes;
+    }
+
+    const finalAmountType = updateData.amountType ?? existingConfig.amountType;
+    if (!finalCopyBuyTrades || finalCopySellTrades) {
+      throw new Error('Invalid consensus config: consensus configs copy buys only (copyBuyTrades true, copySellTrades false); use stop-loss / take-profit to exit');
+    }
+    if (finalAmountType === 'proportionalToPortfolio') {
+      throw new Error('Invalid consensus config: proportionalToPortfolio sizing is not supported for consensus configs');
+    }
+  }
+
   const updatedConfig = await prisma.copyTradingConfig.update({
     where: { id: configId },
     data: updateData,
@@ -450,6 +740,13 @@ export async function enableCopyTrading(
     throw new Error('Copy trading must be authorized before it can be enabled');
   }
 
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+  if (user?.circuitBreakerTrippedAt) {
+    throw new Error('Drawdown circuit breaker is tripped. Resume it via /copytrading/circuit-breaker/resume first.');
+  }
+
   // Prepare update data
   const updateData: any = {
     enabled: true,
@@ -549,6 +846,13 @@ export async function resumeCopyTrading(
     throw new Error('Copy trading must be authorized before it can be resumed');
   }
 
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+  if (user?.circuitBreakerTrippedAt) {
+    throw new Error('Drawdown circuit breaker is tripped. Resume it via /copytrading/circuit-breaker/resume first.');
+  }
+
   // Check if duration has expired
   if (config.durationDays && config.startDate) {
     const now = new Date();
@@ -846,6 +1150,8 @@ export async function prepareConfigWithAuthorization(
   transaction: any;
   safeAddress: string;
 }> {
+  input = await prepareConsensusInput(input);
+
   // Validate address format
   try {
     ethers.utils.getAddress(input.targetTraderAddress);
@@ -880,7 +1186,11 @@ export async function prepareConfigWithAuthorization(
         throw new Error('Sell amount must be a positive number');
       }
     }
-  } else if (input.amountType === 'percentage' || input.amountType === 'percentageOfOriginal') {
+  } else if (
+    input.amountType === 'percentage' ||
+    input.amountType === 'percentageOfOriginal' ||
+    input.amountType === 'proportionalToPortfolio'
+  ) {
     const buyPercent = parseFloat(input.buyAmount);
     if (isNaN(buyPercent) || buyPercent <= 0 || buyPercent > 100) {
       throw new Error('Buy percentage must be between 0 and 100');
@@ -910,6 +1220,12 @@ export async function prepareConfigWithAuthorization(
   if (input.maxSellAmount && parseFloat(input.maxSellAmount) < 0) {
     throw new Error('Maximum sell amount cannot be negative');
   }
+  validateMaxPriceDeviation(input.maxPriceDeviation);
+  validateExitThresholds(input);
+  validateExposureCaps(input);
+  validateConfigMode(input.mode);
+  validateDebounceSeconds(input.debounceSeconds);
+  validateLimitOrderSettings(input);
 
   // Validate maxBuyTradesPerDay if provided
   if (input.maxBuyTradesPerDay !== undefined && input.maxBuyTradesPerDay !== null) {
@@ -970,17 +1286,8 @@ export async function prepareConfigWithAuthorization(
     throw new Error(`allocatedUSDCAmount (${allocatedAmount}) exceeds remaining balance (${remainingBalance}). Total already allocated: ${totalAllocated}`);
   }
 
-  // Check if user already has a config for this trader
-  const existingConfig = await prisma.copyTradingConfig.findFirst({
-    where: {
-      userId,
-      targetTraderAddress: ethers.utils.getAddress(input.targetTraderAddress.toLowerCase()),
-    },
-  });
-
-  if (existingConfig) {
-    throw new Error('You already have a copy trading configuration for this trader');
-  }
+  // Check if user already has a config for this trader (or consensus group)
+  await assertNoDuplicateConfig(userId, input);
 
   // Authorization is no longer required - derived wallets handle everything via CLOB client
   // Skip relayer authorization check for backward compatibility
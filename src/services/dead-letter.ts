@@ -0,0 +1,77 @@
+import { prisma } from '../config/database';
+import { deadLetterQueue, DeadLetterJobData, tradeExecutionQueue } from './queue';
+import { ExecutionJobName, scheduleExecutionJob } from './execution-scheduler';
+
+export interface DeadLetterJob extends DeadLetterJobData {
+  id: string; // Dead-letter job ID (used to requeue)
+}
+
+/**
+ * List execution jobs that ran out of retries, most recent first
+ */
+export async function listDeadLetterJobs(
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ jobs: DeadLetterJob[]; total: number }> {
+  const limit = Math.min(Math.max(options.limit || 50, 1), 100);
+  const offset = Math.max(options.offset || 0, 0);
+
+  const [jobs, total] = await Promise.all([
+    deadLetterQueue.getJobs(['waiting'], offset, offset + limit - 1, false),
+    deadLetterQueue.getWaitingCount(),
+  ]);
+
+  return {
+    jobs: jobs
+      .filter((job) => job)
+      .map((job) => ({ id: String(job.id), ...(job.data as DeadLetterJobData) })),
+    total,
+  };
+}
+
+/**
+ * Put a dead-lettered job back on the trade execution queue
+ * Its copied trade (or signal) goes back to pending so the executor picks it up again.
+ */
+export async function requeueDeadLetterJob(deadLetterJobId: string): Promise<{ jobId: string }> {
+  const deadJob = await deadLetterQueue.getJob(deadLetterJobId);
+  if (!deadJob) {
+    throw new Error('Dead-letter job not found');
+  }
+
+  const { jobName, jobId, data } = deadJob.data as DeadLetterJobData;
+
+  // The failed job is kept for debugging and would block re-adding the same job ID
+  const failedJob = await tradeExecutionQueue.getJob(jobId);
+  if (failedJob) {
+    await failedJob.remove();
+  }
+
+  const resetData = {
+    status: 'pending',
+    errorMessage: null,
+    failureReason: null,
+    failureCategory: null,
+  };
+  if (jobName === 'execute-signal') {
+    await prisma.copiedSignal.updateMany({
+      where: { id: data.signalId, status: 'failed' },
+      data: resetData,
+    });
+  } else {
+    await prisma.copiedTrade.updateMany({
+      where: { id: data.tradeId, status: 'failed' },
+      data: resetData,
+    });
+  }
+
+  if (data.userId && data.side) {
+    await scheduleExecutionJob(jobName as ExecutionJobName, data, { userId: data.userId, side: data.side, jobId });
+  } else {
+    await tradeExecutionQueue.add(jobName, data, { jobId });
+  }
+  await deadJob.remove();
+
+  console.log(`♻️ Requeued dead-letter job ${deadLetterJobId} as ${jobId}`);
+
+  return { jobId };
+}
@@ -5,6 +5,7 @@ import { getUserByAddress } from "./auth";
 import { createDepositAddresses } from "./bridge-deposit";
 import { getTokenTransfers } from "./explorer-api-client";
 import { getUserLogger } from "../utils/user-logger";
+import { emitUserEvent } from "./notifications";
 
 // USDC contract addresses
 const POLYGON_USDC = "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359"; // Native USDC on Polygon
@@ -358,6 +359,17 @@ export async function updateDepositStatus(
       });
     }
     
+    if (status === "completed") {
+      await emitUserEvent(deposit.userId, "deposit.confirmed", `deposit.confirmed:${depositId}`, {
+        depositId,
+        sourceCurrency: deposit.sourceCurrency,
+        sourceAmount: deposit.sourceAmount,
+        amount: updates?.targetAmount || deposit.targetAmount,
+        txHash: updates?.destinationTxHash || deposit.transactionHash,
+        proxyWallet: deposit.proxyWallet,
+      });
+    }
+
     logger.info("Updated deposit status", {
       depositId,
       status,
@@ -0,0 +1,120 @@
+import { randomUUID } from 'crypto';
+import { redis } from '../config/redis';
+import { isProduction } from '../config/env';
+
+// How long a task lock survives a process that died mid-run
+const DEFAULT_TASK_LOCK_TTL_MS = 5 * 60 * 1000;
+
+// How often runWithLock checks whether a held lock was released
+const LOCK_POLL_INTERVAL_MS = 100;
+
+// Delete the lock only if it's still ours, so a lock that expired and was
+// taken by another process isn't released from under it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Try to take a Redis lock
+ * @returns Token to release the lock with, or null if another process holds it
+ */
+export async function acquireLock(key: string, ttlMs: number): Promise<string | null> {
+  const token = randomUUID();
+  const result = await redis.set(key, token, 'PX', ttlMs, 'NX');
+  return result === 'OK' ? token : null;
+}
+
+/**
+ * Release a lock taken with acquireLock
+ */
+export async function releaseLock(key: string, token: string): Promise<void> {
+  if (isProduction) {
+    await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+    return;
+  }
+
+  // In-memory store (single process) has no scripting
+  if ((await redis.get(key)) === token) {
+    await redis.del(key);
+  }
+}
+
+/**
+ * Run a task unless another process is already running it
+ * @returns The task's result, or null if it was skipped
+ */
+export async function withLock<T>(
+  name: string,
+  task: () => Promise<T>,
+  ttlMs: number = DEFAULT_TASK_LOCK_TTL_MS
+): Promise<T | null> {
+  const key = `lock:${name}`;
+  const token = await acquireLock(key, ttlMs);
+  if (!token) {
+    return null;
+  }
+
+  return runAndRelease(key, token, task);
+}
+
+/**
+ * Run a task once the lock is free, waiting for whoever holds it
+ * @throws If the lock isn't released within waitMs
+ */
+export async function runWithLock<T>(
+  name: string,
+  task: () => Promise<T>,
+  waitMs: number,
+  ttlMs: number = DEFAULT_TASK_LOCK_TTL_MS
+): Promise<T> {
+  const key = `lock:${name}`;
+  const deadline = Date.now() + waitMs;
+
+  let token = await acquireLock(key, ttlMs);
+  while (!token) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${name}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL_MS));
+    token = await acquireLock(key, ttlMs);
+  }
+
+  return runAndRelease(key, token, task);
+}
+
+/**
+ * Run a periodic task at most once per interval across all processes
+ *
+ * Every process schedules the same cron, so the first one to claim the
+ * current interval runs it. The claim is never released (it just expires),
+ * so a process whose cron fires a little later can't run the same cycle
+ * again, and a run that overruns its interval blocks the next one.
+ *
+ * @returns The task's result, or null if another process ran this cycle
+ */
+export async function runOncePerInterval<T>(
+  name: string,
+  intervalMs: number,
+  task: () => Promise<T>
+): Promise<T | null> {
+  const cycle = Math.floor(Date.now() / intervalMs);
+  const claimed = await acquireLock(`cycle:${name}:${cycle}`, intervalMs * 2);
+  if (!claimed) {
+    return null;
+  }
+
+  return withLock(name, task);
+}
+
+async function runAndRelease<T>(key: string, token: string, task: () => Promise<T>): Promise<T> {
+  try {
+    return await task();
+  } finally {
+    await releaseLock(key, token).catch((error) => {
+      console.warn(`⚠️ Failed to release lock ${key}:`, error instanceof Error ? error.message : error);
+    });
+  }
+}
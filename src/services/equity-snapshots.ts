@@ -0,0 +1,338 @@
+import { prisma } from '../config/database';
+import { getUserBalance } from './balance';
+import { calculateFifoPnl, FILLED_STATUSES } from './portfolio';
+import { updateTradeCurrentValue } from './trade-history';
+
+export type EquityScope = 'user' | 'copy_trading' | 'signal';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Returns are daily, annualized over calendar days (markets trade every day)
+const PERIODS_PER_YEAR = 365;
+
+export interface EquityCurvePoint {
+  date: Date;
+  equity: string;
+  cashBalance: string;
+  positionsValue: string;
+  netFlows: string; // Deposits minus withdrawals (or allocation change) since the previous snapshot
+  realizedPnl: string;
+  unrealizedPnl: string;
+  dailyReturn: string | null; // Flow-adjusted return since the previous snapshot
+}
+
+export interface EquityCurveMetrics {
+  periods: number;
+  timeWeightedReturn: string | null;
+  maxDrawdown: string | null; // Fraction of the peak, e.g. 0.12 = 12%
+  maxDrawdownPeakDate: Date | null;
+  maxDrawdownTroughDate: Date | null;
+  volatility: string | null; // Annualized standard deviation of daily returns
+  sharpeRatio: string | null; // Annualized, risk-free rate of 0
+}
+
+export interface EquityCurve {
+  scope: EquityScope;
+  subjectId: string;
+  series: EquityCurvePoint[];
+  metrics: EquityCurveMetrics;
+}
+
+interface PnlSummary {
+  positionsValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+}
+
+/**
+ * Record today's equity for every user and each of their configs
+ *
+ * User equity is the proxy wallet's USDC balance plus the marked value of open
+ * live positions. A config has no wallet of its own, so its equity is its USDC
+ * allocation plus its realized and unrealized PnL. Positions are netted per token
+ * FIFO (calculateFifoPnl), so sold and exited shares leave the positions value and
+ * their PnL is realized. Re-running a day overwrites that day's snapshots.
+ *
+ * @returns Number of snapshots recorded
+ */
+export async function recordEquitySnapshots(now: Date = new Date()): Promise<number> {
+  const date = startOfUtcDay(now);
+  const users = await prisma.user.findMany({
+    include: { copyTradingConfigs: true, copySignalConfigs: true },
+  });
+
+  let recorded = 0;
+  for (const user of users) {
+    if (!user.proxyWallet && user.copyTradingConfigs.length === 0 && user.copySignalConfigs.length === 0) {
+      continue;
+    }
+
+    try {
+      recorded += await recordUserEquitySnapshots(user, date);
+    } catch (error) {
+      console.error(`❌ Failed to record equity snapshots for user ${user.id}:`, error);
+    }
+  }
+
+  return recorded;
+}
+
+/**
+ * A user's or config's equity curve with drawdown and risk-adjusted return metrics
+ *
+ * Returns are time-weighted: each day's return nets out deposits, withdrawals and
+ * allocation changes, so adding funds doesn't count as performance and configs
+ * with different allocations compare fairly.
+ */
+export async function getEquityCurve(
+  userId: string,
+  options: { configId?: string; from?: Date; to?: Date } = {}
+): Promise<EquityCurve> {
+  let scope: EquityScope = 'user';
+  let subjectId = userId;
+
+  if (options.configId) {
+    const [tradingConfig, signalConfig] = await Promise.all([
+      prisma.copyTradingConfig.findFirst({ where: { id: options.configId, userId } }),
+      prisma.copySignalConfig.findFirst({ where: { id: options.configId, userId } }),
+    ]);
+    if (!tradingConfig && !signalConfig) {
+      throw new Error('Config not found');
+    }
+    scope = tradingConfig ? 'copy_trading' : 'signal';
+    subjectId = options.configId;
+  }
+
+  const date: { gte?: Date; lt?: Date } = {};
+  if (options.from) date.gte = options.from;
+  if (options.to) date.lt = options.to;
+
+  const snapshots = await prisma.equitySnapshot.findMany({
+    where: { userId, scope, subjectId, ...(options.from || options.to ? { date } : {}) },
+    orderBy: { date: 'asc' },
+  });
+
+  const returns: Array<number | null> = snapshots.map((snapshot, index) => {
+    if (index === 0) {
+      return null;
+    }
+    const previousEquity = parseFloat(snapshots[index - 1].equity);
+    if (!(previousEquity > 0)) {
+      return null;
+    }
+    return (parseFloat(snapshot.equity) - parseFloat(snapshot.netFlows)) / previousEquity - 1;
+  });
+
+  return {
+    scope,
+    subjectId,
+    series: snapshots.map((snapshot, index) => ({
+      date: snapshot.date,
+      equity: snapshot.equity,
+      cashBalance: snapshot.cashBalance,
+      positionsValue: snapshot.positionsValue,
+      netFlows: snapshot.netFlows,
+      realizedPnl: snapshot.realizedPnl,
+      unrealizedPnl: snapshot.unrealizedPnl,
+      dailyReturn: returns[index] !== null ? returns[index]!.toFixed(6) : null,
+    })),
+    metrics: calculateEquityMetrics(snapshots.map((snapshot) => snapshot.date), returns),
+  };
+}
+
+async function recordUserEquitySnapshots(
+  user: {
+    id: string;
+    address: string;
+    proxyWallet: string | null;
+    copyTradingConfigs: Array<{ id: string; allocatedUSDCAmount: string }>;
+    copySignalConfigs: Array<{ id: string; allocatedUSDCAmount: string }>;
+  },
+  date: Date
+): Promise<number> {
+  // Mark open positions to market before valuing them
+  const openTrades = await prisma.copiedTrade.findMany({
+    where: { config: { userId: user.id }, tradeType: 'buy', status: { in: FILLED_STATUSES }, outcome: null },
+    select: { id: true },
+  });
+  for (const trade of openTrades) {
+    await updateTradeCurrentValue(trade.id);
+  }
+
+  const [trades, signals] = await Promise.all([
+    prisma.copiedTrade.findMany({ where: { config: { userId: user.id } } }),
+    prisma.copiedSignal.findMany({ where: { config: { userId: user.id } } }),
+  ]);
+
+  let recorded = 0;
+  const configs: Array<[EquityScope, { id: string; allocatedUSDCAmount: string }, PnlSummary]> = [
+    ...user.copyTradingConfigs.map((config): [EquityScope, typeof config, PnlSummary] => [
+      'copy_trading',
+      config,
+      calculateFifoPnl(trades.filter((trade) => trade.configId === config.id), []),
+    ]),
+    ...user.copySignalConfigs.map((config): [EquityScope, typeof config, PnlSummary] => [
+      'signal',
+      config,
+      calculateFifoPnl([], signals.filter((signal) => signal.configId === config.id)),
+    ]),
+  ];
+
+  for (const [scope, config, summary] of configs) {
+    const allocated = parseFloat(config.allocatedUSDCAmount) || 0;
+    const equity = allocated + summary.realizedPnl + summary.unrealizedPnl;
+
+    // Allocation changes are flows, not performance
+    const previous = await getPreviousSnapshot(scope, config.id, date);
+    const previousAllocated = previous
+      ? parseFloat(previous.equity) - parseFloat(previous.realizedPnl) - parseFloat(previous.unrealizedPnl)
+      : allocated;
+
+    await saveSnapshot(user.id, scope, config.id, date, {
+      cashBalance: equity - summary.positionsValue,
+      netFlows: allocated - previousAllocated,
+      equity,
+      ...summary,
+    });
+    recorded++;
+  }
+
+  if (!user.proxyWallet) {
+    return recorded;
+  }
+
+  const balance = await getUserBalance(user.address);
+  if (balance.error) {
+    // A zero balance from a failed lookup would show up as a crash in the curve
+    console.warn(`⚠️ Skipping equity snapshot for user ${user.id}: ${balance.error}`);
+    return recorded;
+  }
+
+  const summary = calculateFifoPnl(
+    trades.filter((trade) => !trade.isPaper),
+    signals.filter((signal) => !signal.isPaper)
+  );
+  const cashBalance = parseFloat(balance.balance) || 0;
+  const previous = await getPreviousSnapshot('user', user.id, date);
+
+  await saveSnapshot(user.id, 'user', user.id, date, {
+    cashBalance,
+    netFlows: previous ? await getNetFlows(user.id, previous.updatedAt, new Date()) : 0,
+    equity: cashBalance + summary.positionsValue,
+    ...summary,
+  });
+
+  return recorded + 1;
+}
+
+/**
+ * Completed USDC deposits minus completed USDC withdrawals in (since, until]
+ */
+async function getNetFlows(userId: string, since: Date, until: Date): Promise<number> {
+  const [deposits, withdrawals] = await Promise.all([
+    prisma.deposit.findMany({
+      where: { userId, status: 'completed', updatedAt: { gt: since, lte: until } },
+    }),
+    prisma.withdrawal.findMany({
+      where: { userId, status: 'completed', asset: 'USDC', completedAt: { gt: since, lte: until } },
+    }),
+  ]);
+
+  const deposited = deposits.reduce((total, deposit) => total + (parseFloat(deposit.targetAmount || '0') || 0), 0);
+  const withdrawn = withdrawals.reduce((total, withdrawal) => total + (parseFloat(withdrawal.amount) || 0), 0);
+  return deposited - withdrawn;
+}
+
+async function getPreviousSnapshot(scope: EquityScope, subjectId: string, date: Date) {
+  return prisma.equitySnapshot.findFirst({
+    where: { scope, subjectId, date: { lt: date } },
+    orderBy: { date: 'desc' },
+  });
+}
+
+async function saveSnapshot(
+  userId: string,
+  scope: EquityScope,
+  subjectId: string,
+  date: Date,
+  values: PnlSummary & { cashBalance: number; netFlows: number; equity: number }
+): Promise<void> {
+  const data = {
+    cashBalance: values.cashBalance.toFixed(6),
+    positionsValue: values.positionsValue.toFixed(6),
+    equity: values.equity.toFixed(6),
+    netFlows: values.netFlows.toFixed(6),
+    realizedPnl: values.realizedPnl.toFixed(6),
+    unrealizedPnl: values.unrealizedPnl.toFixed(6),
+  };
+
+  await prisma.equitySnapshot.upsert({
+    where: { scope_subjectId_date: { scope, subjectId, date } },
+    create: { userId, scope, subjectId, date, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Time-weighted return, max drawdown, volatility and Sharpe from per-period returns
+ * Drawdown is measured on the flow-adjusted index, so withdrawals don't look like losses.
+ */
+function calculateEquityMetrics(dates: Date[], returns: Array<number | null>): EquityCurveMetrics {
+  const periodReturns: number[] = [];
+  let index = 1;
+  let peak = 1;
+  let peakDate: Date | null = dates[0] || null;
+  let maxDrawdown = 0;
+  let maxDrawdownPeakDate: Date | null = null;
+  let maxDrawdownTroughDate: Date | null = null;
+
+  returns.forEach((periodReturn, i) => {
+    if (periodReturn === null) {
+      return;
+    }
+    periodReturns.push(periodReturn);
+    index *= 1 + periodReturn;
+
+    if (index > peak) {
+      peak = index;
+      peakDate = dates[i];
+    }
+    const drawdown = 1 - index / peak;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPeakDate = peakDate;
+      maxDrawdownTroughDate = dates[i];
+    }
+  });
+
+  if (periodReturns.length === 0) {
+    return {
+      periods: 0,
+      timeWeightedReturn: null,
+      maxDrawdown: null,
+      maxDrawdownPeakDate: null,
+      maxDrawdownTroughDate: null,
+      volatility: null,
+      sharpeRatio: null,
+    };
+  }
+
+  const mean = periodReturns.reduce((total, r) => total + r, 0) / periodReturns.length;
+  const stdDev = periodReturns.length > 1
+    ? Math.sqrt(periodReturns.reduce((total, r) => total + (r - mean) ** 2, 0) / (periodReturns.length - 1))
+    : null;
+
+  return {
+    periods: periodReturns.length,
+    timeWeightedReturn: (index - 1).toFixed(6),
+    maxDrawdown: maxDrawdown.toFixed(6),
+    maxDrawdownPeakDate,
+    maxDrawdownTroughDate,
+    volatility: stdDev !== null ? (stdDev * Math.sqrt(PERIODS_PER_YEAR)).toFixed(6) : null,
+    sharpeRatio: stdDev ? ((mean / stdDev) * Math.sqrt(PERIODS_PER_YEAR)).toFixed(6) : null,
+  };
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
@@ -0,0 +1,166 @@
+export interface CategorizedFailure {
+  failureReason: string;
+  failureCategory: string;
+}
+
+// Failures that can clear up on their own, so the same order is worth retrying
+// network_error only covers requests made before the order was posted, see toOrderSubmissionError
+const RETRYABLE_FAILURE_REASONS = ['rate_limited', 'proxy_error', 'network_error'];
+
+// Prefix for errors where the order may or may not have reached the CLOB
+const SUBMISSION_OUTCOME_UNKNOWN = 'Order submission outcome unknown';
+
+/**
+ * Categorize failure reason from error message
+ * Shared by the trade and signal executors.
+ */
+export function categorizeFailure(errorMessage: string): CategorizedFailure {
+  const lowerMessage = errorMessage.toLowerCase();
+
+  // Balance-related failures
+  if (lowerMessage.includes('not enough balance') || lowerMessage.includes('insufficient balance')) {
+    return {
+      failureReason: 'insufficient_balance',
+      failureCategory: 'balance',
+    };
+  }
+
+  // Allowance-related failures
+  if (lowerMessage.includes('not enough allowance') || lowerMessage.includes('allowance')) {
+    return {
+      failureReason: 'insufficient_allowance',
+      failureCategory: 'balance',
+    };
+  }
+
+  // Validation failures
+  if (lowerMessage.includes('min size') || lowerMessage.includes('minimum')) {
+    return {
+      failureReason: 'below_minimum_size',
+      failureCategory: 'validation',
+    };
+  }
+
+  // Price validation failures
+  if (lowerMessage.includes('invalid price') || (lowerMessage.includes('price') && (lowerMessage.includes('min:') || lowerMessage.includes('max:')))) {
+    return {
+      failureReason: 'invalid_price',
+      failureCategory: 'validation',
+    };
+  }
+
+  // The order may have been placed, so retrying could place it twice
+  if (lowerMessage.includes(SUBMISSION_OUTCOME_UNKNOWN.toLowerCase())) {
+    return {
+      failureReason: 'submission_outcome_unknown',
+      failureCategory: 'execution',
+    };
+  }
+
+  // Transient failures (checked before market failures, which can wrap them,
+  // e.g. an orderbook fetch that timed out)
+  if (lowerMessage.includes('rate limit') || lowerMessage.includes('too many requests')) {
+    return {
+      failureReason: 'rate_limited',
+      failureCategory: 'execution',
+    };
+  }
+
+  // Outbound HTTP proxy failures (not the user's proxy wallet)
+  if (
+    lowerMessage.includes('proxy error') ||
+    lowerMessage.includes('proxy connection') ||
+    lowerMessage.includes('proxy authentication') ||
+    lowerMessage.includes('tunneling socket') ||
+    lowerMessage.includes('status code 407')
+  ) {
+    return {
+      failureReason: 'proxy_error',
+      failureCategory: 'network',
+    };
+  }
+
+  if (
+    lowerMessage.includes('econnreset') ||
+    lowerMessage.includes('econnrefused') ||
+    lowerMessage.includes('etimedout') ||
+    lowerMessage.includes('eai_again') ||
+    lowerMessage.includes('socket hang up') ||
+    lowerMessage.includes('fetch failed') ||
+    lowerMessage.includes('network error') ||
+    lowerMessage.includes('timed out') ||
+    lowerMessage.includes('timeout') ||
+    lowerMessage.includes('bad gateway') ||
+    lowerMessage.includes('service unavailable') ||
+    lowerMessage.includes('gateway timeout')
+  ) {
+    return {
+      failureReason: 'network_error',
+      failureCategory: 'network',
+    };
+  }
+
+  if (lowerMessage.includes('no liquidity')) {
+    return {
+      failureReason: 'no_liquidity',
+      failureCategory: 'market',
+    };
+  }
+
+  if (lowerMessage.includes('orderbook does not exist') || lowerMessage.includes('orderbook')) {
+    return {
+      failureReason: 'orderbook_unavailable',
+      failureCategory: 'market',
+    };
+  }
+
+  // Market status failures
+  if (lowerMessage.includes('market is closed') || lowerMessage.includes('market closed')) {
+    return {
+      failureReason: 'market_closed',
+      failureCategory: 'market',
+    };
+  }
+
+  if (lowerMessage.includes('market is not open') || lowerMessage.includes('not accepting orders')) {
+    return {
+      failureReason: 'market_not_accepting_orders',
+      failureCategory: 'market',
+    };
+  }
+
+  // Execution failures
+  if (lowerMessage.includes('invalid signature')) {
+    return {
+      failureReason: 'invalid_signature',
+      failureCategory: 'execution',
+    };
+  }
+
+  // Default
+  return {
+    failureReason: 'unknown_error',
+    failureCategory: 'other',
+  };
+}
+
+/**
+ * Whether a failure is transient and the execution job should be retried
+ * Balance, validation and market failures fail fast.
+ */
+export function isRetryableFailure(failureReason: string): boolean {
+  return RETRYABLE_FAILURE_REASONS.includes(failureReason);
+}
+
+/**
+ * Turn a network error raised while posting an order into submission_outcome_unknown
+ * A timeout or dropped connection can happen after the CLOB accepted the order and
+ * before we saw its orderId, so the job must not resubmit it.
+ */
+export function toOrderSubmissionError(error: unknown): unknown {
+  const message = error instanceof Error ? error.message : String((error as any)?.error ?? error);
+  if (categorizeFailure(message).failureReason !== 'network_error') {
+    return error;
+  }
+  return new Error(`${SUBMISSION_OUTCOME_UNKNOWN}, check the CLOB for the order before retrying: ${message}`);
+}
@@ -0,0 +1,95 @@
+import { Job } from 'bull';
+import { redis } from '../config/redis';
+import { tradeExecutionQueue } from './queue';
+
+export type ExecutionJobName = 'execute-trade' | 'execute-signal';
+
+// Bull runs lower priorities first. Every sell ranks ahead of every buy (exits
+// are time-sensitive), and within a side a user's k-th queued job gets rank k,
+// so users take turns instead of queuing behind whoever copies the busiest trader.
+const SELL_PRIORITY_BASE = 1;
+const BUY_PRIORITY_BASE = 100001;
+const MAX_USER_ROUND = 100000;
+
+// Queued-job counters expire if a user's queue goes quiet, which also heals any drift
+const QUEUED_COUNT_TTL_SECONDS = 24 * 60 * 60;
+
+export interface ScheduleExecutionOptions {
+  userId: string;
+  side: 'buy' | 'sell';
+  jobId: string;
+  delay?: number;
+}
+
+/**
+ * Queue a trade or signal for execution with a fair-share priority
+ * The user ID and side are stored on the job so requeues keep the same treatment.
+ * Delayed jobs aren't competing for a turn yet, so they take the next rank
+ * without holding a slot in the user's queued count.
+ */
+export async function scheduleExecutionJob(
+  name: ExecutionJobName,
+  data: Record<string, any>,
+  options: ScheduleExecutionOptions
+): Promise<Job> {
+  const key = getQueuedCountKey(options.userId);
+  const holdsQueuedSlot = !options.delay;
+  let round: number;
+  if (holdsQueuedSlot) {
+    round = await redis.incr(key);
+    await redis.expire(key, QUEUED_COUNT_TTL_SECONDS);
+  } else {
+    round = parseInt((await redis.get(key)) || '0', 10) + 1;
+  }
+
+  const base = options.side === 'sell' ? SELL_PRIORITY_BASE : BUY_PRIORITY_BASE;
+  const priority = base + Math.min(Math.max(round, 1), MAX_USER_ROUND) - 1;
+
+  try {
+    return await tradeExecutionQueue.add(
+      name,
+      { ...data, userId: options.userId, side: options.side, holdsQueuedSlot },
+      {
+        jobId: options.jobId,
+        priority,
+        removeOnComplete: true,
+        ...(options.delay ? { delay: options.delay } : {}),
+      }
+    );
+  } catch (error) {
+    if (holdsQueuedSlot) {
+      await releaseQueuedSlot(options.userId);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Free a job's slot in its user's queued count once it leaves the queue for good
+ * Call this when the job completes or fails for the last time, not on every attempt:
+ * a job waiting to be retried is still queued work for its user.
+ */
+export async function releaseExecutionJob(job: Job): Promise<void> {
+  if (!job.data?.userId || !job.data.holdsQueuedSlot) {
+    return;
+  }
+  try {
+    await releaseQueuedSlot(job.data.userId);
+  } catch (error) {
+    // A stale count only affects priority and expires with the counter's TTL
+    console.warn(`⚠️ Failed to release queued slot for job ${job.id}:`, error);
+  }
+}
+
+async function releaseQueuedSlot(userId: string): Promise<void> {
+  const key = getQueuedCountKey(userId);
+  const remaining = await redis.decr(key);
+  if (remaining < 0) {
+    // Clamp at zero, e.g. when a job outlived its counter's TTL
+    await redis.incr(key);
+  }
+}
+
+function getQueuedCountKey(userId: string): string {
+  return `execution:queued:${userId}`;
+}
@@ -0,0 +1,258 @@
+import { prisma } from '../config/database';
+import { runWithLock } from './distributed-lock';
+
+// Statuses that hold (or are about to hold) a position
+const EXPOSURE_TRADE_STATUSES = ['pending', 'executed', 'settled', 'simulated'];
+
+// Polymarket rejects marketable orders below $1, so a cap that leaves less
+// room than this skips the trade instead of shrinking it
+const MIN_CAPPED_ORDER_USDC = 1;
+
+// How long a buy waits for the user's other buys before its job is retried
+const EXPOSURE_LOCK_WAIT_MS = 2 * 60 * 1000;
+
+export type ExposureCapType = 'market' | 'event' | 'user_market' | 'user_event';
+
+export interface ExposureCapResult {
+  amount: string; // Amount to buy after applying caps
+  isCapped: boolean; // Amount was shrunk to fit a cap
+  isBlocked: boolean; // No room left under a cap, skip the buy
+  capType?: ExposureCapType;
+  reason?: string;
+}
+
+interface ExposureRow {
+  configId: string;
+  marketId: string;
+  outcomeIndex: number;
+  tradeType: string;
+  status: string;
+  outcome: string | null;
+  redemptionStatus: string | null;
+  copiedAmount: string;
+  copiedShares: string | null;
+  costBasis: string | null;
+}
+
+/**
+ * Open USDC exposure of a set of copied trades or signals
+ *
+ * Exposure is the cost basis of what's still held: buy cost scaled down by
+ * the fraction of shares that have since been sold or exited. Resolved and
+ * redeemed positions don't count.
+ */
+export function calculateOpenExposure(rows: ExposureRow[]): number {
+  const positions = new Map<string, { cost: number; boughtShares: number; soldShares: number }>();
+
+  for (const row of rows) {
+    if (!EXPOSURE_TRADE_STATUSES.includes(row.status) || row.outcome || row.redemptionStatus === 'redeemed') {
+      continue;
+    }
+
+    const key = `${row.configId}-${row.marketId}-${row.outcomeIndex}`;
+    if (!positions.has(key)) {
+      positions.set(key, { cost: 0, boughtShares: 0, soldShares: 0 });
+    }
+    const position = positions.get(key)!;
+    const shares = parseFloat(row.copiedShares || '0') || 0;
+
+    if (row.tradeType === 'buy') {
+      position.cost += parseFloat(row.costBasis || row.copiedAmount || '0') || 0;
+      position.boughtShares += shares;
+    } else {
+      position.soldShares += shares;
+    }
+  }
+
+  let exposure = 0;
+  for (const position of positions.values()) {
+    if (position.boughtShares <= 0) {
+      // Shares not known yet (e.g. just submitted), count the full cost
+      exposure += position.cost;
+      continue;
+    }
+    const heldFraction = Math.max(position.boughtShares - position.soldShares, 0) / position.boughtShares;
+    exposure += position.cost * heldFraction;
+  }
+
+  return exposure;
+}
+
+/**
+ * Shrink or block a copied buy so it stays within the config's and the user's
+ * per-market and per-event exposure caps
+ *
+ * User-wide caps count exposure across all of the user's copy trading and
+ * copy signal configs. Config caps exist only on copy trading configs.
+ * Exclude the row being sized, its amount isn't final yet.
+ */
+export async function applyExposureCaps(
+  copyConfig: any,
+  trade: { marketId: string; eventSlug?: string | null; excludeTradeId?: string; excludeSignalId?: string },
+  amount: string
+): Promise<ExposureCapResult> {
+  const user = copyConfig.user || await prisma.user.findUnique({ where: { id: copyConfig.userId } });
+
+  const caps: Array<{ type: ExposureCapType; limit: string | null | undefined; scope: 'config' | 'user'; by: 'market' | 'event' }> = [
+    { type: 'market', limit: copyConfig.maxMarketExposure, scope: 'config', by: 'market' },
+    { type: 'event', limit: copyConfig.maxEventExposure, scope: 'config', by: 'event' },
+    { type: 'user_market', limit: user?.maxMarketExposure, scope: 'user', by: 'market' },
+    { type: 'user_event', limit: user?.maxEventExposure, scope: 'user', by: 'event' },
+  ];
+
+  const requested = parseFloat(amount);
+  let allowed = requested;
+  let bindingCap: { type: ExposureCapType; limit: number; exposure: number } | null = null;
+
+  for (const cap of caps) {
+    if (!cap.limit || (cap.by === 'event' && !trade.eventSlug)) {
+      continue;
+    }
+
+    const limit = parseFloat(cap.limit);
+    const where: any = cap.by === 'market'
+      ? { marketId: trade.marketId }
+      : { eventSlug: trade.eventSlug };
+
+    const exposure = cap.scope === 'config'
+      ? await getConfigExposure(copyConfig.id, where, trade.excludeTradeId)
+      : await getUserExposure(copyConfig.userId, { ...where, isPaper: copyConfig.mode === 'paper' }, trade);
+
+    const room = limit - exposure;
+    if (room < allowed) {
+      allowed = room;
+      bindingCap = { type: cap.type, limit, exposure };
+    }
+  }
+
+  if (!bindingCap) {
+    return { amount, isCapped: false, isBlocked: false };
+  }
+
+  const scopeLabel = bindingCap.type.startsWith('user_') ? 'User' : 'Config';
+  const targetLabel = bindingCap.type.endsWith('event') ? `event ${trade.eventSlug}` : `market ${trade.marketId}`;
+  const capLabel = `${scopeLabel} exposure cap for ${targetLabel}: ${bindingCap.exposure.toFixed(2)}/${bindingCap.limit.toFixed(2)} USDC held`;
+
+  const minAmount = Math.max(MIN_CAPPED_ORDER_USDC, parseFloat(copyConfig.minBuyAmount || '0') || 0);
+  if (allowed < minAmount) {
+    return {
+      amount: '0',
+      isCapped: false,
+      isBlocked: true,
+      capType: bindingCap.type,
+      reason: `${capLabel}, no room for a ${requested.toFixed(2)} USDC buy`,
+    };
+  }
+
+  return {
+    amount: allowed.toFixed(6),
+    isCapped: true,
+    isBlocked: false,
+    capType: bindingCap.type,
+    reason: `${capLabel}, buy reduced from ${requested.toFixed(2)} to ${allowed.toFixed(2)} USDC`,
+  };
+}
+
+/**
+ * Open exposure of a single copy trading config
+ */
+async function getConfigExposure(configId: string, where: any, excludeTradeId?: string): Promise<number> {
+  const trades = await prisma.copiedTrade.findMany({
+    where: { configId, ...where },
+  });
+  return calculateOpenExposure(trades.filter((t) => t.id !== excludeTradeId));
+}
+
+/**
+ * Open exposure across all of a user's copy trading and copy signal configs
+ * Callers filter on isPaper so paper positions don't eat into live caps.
+ */
+async function getUserExposure(
+  userId: string,
+  where: any,
+  exclude: { excludeTradeId?: string; excludeSignalId?: string }
+): Promise<number> {
+  const [trades, signals] = await Promise.all([
+    prisma.copiedTrade.findMany({
+      where: { config: { userId }, ...where },
+    }),
+    prisma.copiedSignal.findMany({
+      where: { config: { userId }, ...where },
+    }),
+  ]);
+  return calculateOpenExposure(trades.filter((t) => t.id !== exclude.excludeTradeId))
+    + calculateOpenExposure(signals.filter((s) => s.id !== exclude.excludeSignalId));
+}
+
+/**
+ * Run a copied buy while holding the user's exposure lock
+ *
+ * A buy only counts towards exposure once its amount is recorded, so two of the
+ * user's buys checked side by side could both fit under a cap that has room for one.
+ * @throws If the user's other buys hold the lock for longer than EXPOSURE_LOCK_WAIT_MS
+ */
+export async function withUserExposureLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  return runWithLock(`exposure:${userId}`, task, EXPOSURE_LOCK_WAIT_MS);
+}
+
+/**
+ * Get a user's account-wide exposure caps
+ */
+export async function getUserExposureLimits(userId: string): Promise<{ maxMarketExposure?: string; maxEventExposure?: string }> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  return {
+    maxMarketExposure: user.maxMarketExposure || undefined,
+    maxEventExposure: user.maxEventExposure || undefined,
+  };
+}
+
+/**
+ * Update a user's account-wide exposure caps (null to remove a cap)
+ */
+export async function updateUserExposureLimits(
+  userId: string,
+  updates: { maxMarketExposure?: string | null; maxEventExposure?: string | null }
+): Promise<{ maxMarketExposure?: string; maxEventExposure?: string }> {
+  validateExposureCaps(updates);
+
+  const updateData: any = {};
+  if (updates.maxMarketExposure !== undefined) {
+    updateData.maxMarketExposure = updates.maxMarketExposure;
+  }
+  if (updates.maxEventExposure !== undefined) {
+    updateData.maxEventExposure = updates.maxEventExposure;
+  }
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: updateData,
+  });
+
+  return {
+    maxMarketExposure: user.maxMarketExposure || undefined,
+    maxEventExposure: user.maxEventExposure || undefined,
+  };
+}
+
+/**
+ * Validate exposure caps (positive USDC amounts, or null to remove)
+ */
+export function validateExposureCaps(caps: { maxMarketExposure?: string | null; maxEventExposure?: string | null }): void {
+  for (const field of ['maxMarketExposure', 'maxEventExposure'] as const) {
+    const value = caps[field];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const cap = parseFloat(value);
+    if (isNaN(cap) || cap <= 0) {
+      throw new Error(`${field} must be a positive USDC amount`);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { prisma } from '../config/database';
+import type { PolymarketTrade } from './trade-monitor';
+
+export const MAX_DEBOUNCE_SECONDS = 300;
+
+/**
+ * Validate a config's debounce window in seconds (null to disable)
+ */
+export function validateDebounceSeconds(debounceSeconds: number | null | undefined): void {
+  if (debounceSeconds === undefined || debounceSeconds === null) {
+    return;
+  }
+  if (!Number.isInteger(debounceSeconds) || debounceSeconds < 1 || debounceSeconds > MAX_DEBOUNCE_SECONDS) {
+    throw new Error(`Invalid debounceSeconds: must be a whole number between 1 and ${MAX_DEBOUNCE_SECONDS}`);
+  }
+}
+
+/**
+ * Merge a fill into the trader's open debounced copy of the same side and token
+ *
+ * A debounced copy accepts fills until its aggregateUntil passes or the executor
+ * picks it up, whichever comes first. Amounts and shares are summed and the
+ * reference price becomes their volume-weighted average. The update only applies
+ * if nothing else changed the copy since it was read, so a fill is never lost
+ * to a concurrent merge or to the executor closing the window.
+ *
+ * @returns ID of the copy the fill was merged into, or null to start a new copy
+ */
+export async function mergeIntoOpenAggregate(
+  configId: string,
+  traderAddress: string,
+  trade: PolymarketTrade,
+  tradeType: 'buy' | 'sell'
+): Promise<string | null> {
+  const openTrade = await prisma.copiedTrade.findFirst({
+    where: {
+      configId,
+      originalTrader: traderAddress,
+      marketId: trade.conditionId,
+      outcomeIndex: trade.outcomeIndex,
+      tradeType,
+      status: 'pending',
+      aggregateUntil: { gt: new Date() },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!openTrade) {
+    return null;
+  }
+
+  const txHash = trade.transactionHash.toLowerCase();
+  const txHashes: string[] = openTrade.aggregatedTxHashes
+    ? JSON.parse(openTrade.aggregatedTxHashes)
+    : [openTrade.originalTxHash];
+
+  if (txHashes.includes(txHash)) {
+    return openTrade.id;
+  }
+
+  const amount = (parseFloat(openTrade.originalAmount) || 0) + (parseFloat(String(trade.usdcSize)) || 0);
+  const shares = (parseFloat(openTrade.originalShares || '0') || 0) + (parseFloat(String(trade.size)) || 0);
+  const price = shares > 0 ? amount / shares : trade.price;
+
+  const merged = await prisma.copiedTrade.updateMany({
+    where: {
+      id: openTrade.id,
+      status: 'pending',
+      aggregateUntil: { gt: new Date() },
+      aggregatedTxHashes: openTrade.aggregatedTxHashes,
+    },
+    data: {
+      originalAmount: amount.toFixed(6),
+      originalShares: shares.toFixed(6),
+      originalPrice: price.toFixed(6),
+      aggregatedTxHashes: JSON.stringify([...txHashes, txHash]),
+    },
+  });
+
+  return merged.count > 0 ? openTrade.id : null;
+}
+
+/**
+ * Stop a debounced copy from accepting fills
+ * Called by the executor before it reads the copy's aggregated totals.
+ */
+export async function closeAggregate(copiedTradeId: string): Promise<void> {
+  await prisma.copiedTrade.updateMany({
+    where: {
+      id: copiedTradeId,
+      aggregateUntil: { not: null },
+    },
+    data: { aggregateUntil: null },
+  });
+}
@@ -0,0 +1,238 @@
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import { cancelOrder, getOrderFills, getOrderStatus } from './polymarket-clob';
+import { getClobClientForUser } from './clob-client-cache';
+import { monitorOrderSettlement } from './order-monitor';
+import { publishCopiedTradeEvent } from './trading-events';
+import type { LimitOrderParams } from './polymarket-executor';
+
+export type ExecutionStyle = 'market' | 'limit';
+
+export const EXECUTION_STYLES: ExecutionStyle[] = ['market', 'limit'];
+export const LIMIT_ORDER_TYPES: Array<LimitOrderParams['orderType']> = ['GTC', 'GTD'];
+
+export const DEFAULT_LIMIT_ORDER_TTL_SECONDS = 300;
+export const MAX_LIMIT_ORDER_TTL_SECONDS = 24 * 60 * 60;
+
+// The CLOB only accepts GTD expirations at least a minute out, so GTD orders
+// get this much extra and the TTL check cancels them on time instead
+const GTD_EXPIRATION_BUFFER_SECONDS = 60;
+
+// Binary market price bounds
+const MIN_LIMIT_PRICE = 0.001;
+const MAX_LIMIT_PRICE = 0.999;
+
+// Order statuses after which nothing more will fill
+const CLOSED_ORDER_STATUSES = ['CANCELED', 'CANCELLED', 'EXPIRED', 'REJECTED'];
+
+export interface LimitOrderPlan {
+  params: LimitOrderParams;
+  expiresAt: Date; // When the unfilled remainder gets cancelled
+}
+
+/**
+ * Validate a config's limit-order settings
+ */
+export function validateLimitOrderSettings(settings: {
+  executionStyle?: string;
+  limitOrderType?: string | null;
+  limitPriceImprovement?: string | null;
+  limitOrderTtlSeconds?: number | null;
+}): void {
+  if (settings.executionStyle !== undefined && !EXECUTION_STYLES.includes(settings.executionStyle as ExecutionStyle)) {
+    throw new Error(`Invalid executionStyle: must be one of ${EXECUTION_STYLES.join(', ')}`);
+  }
+
+  if (
+    settings.limitOrderType !== undefined &&
+    settings.limitOrderType !== null &&
+    !LIMIT_ORDER_TYPES.includes(settings.limitOrderType as LimitOrderParams['orderType'])
+  ) {
+    throw new Error(`Invalid limitOrderType: must be one of ${LIMIT_ORDER_TYPES.join(', ')}`);
+  }
+
+  if (settings.limitPriceImprovement !== undefined && settings.limitPriceImprovement !== null) {
+    const improvement = parseFloat(settings.limitPriceImprovement);
+    if (isNaN(improvement) || improvement < 0 || improvement > 1) {
+      throw new Error('Invalid limitPriceImprovement: must be a fraction between 0 and 1');
+    }
+  }
+
+  const ttl = settings.limitOrderTtlSeconds;
+  if (ttl !== undefined && ttl !== null && (!Number.isInteger(ttl) || ttl < 1 || ttl > MAX_LIMIT_ORDER_TTL_SECONDS)) {
+    throw new Error(`Invalid limitOrderTtlSeconds: must be a whole number between 1 and ${MAX_LIMIT_ORDER_TTL_SECONDS}`);
+  }
+}
+
+/**
+ * Plan the resting order for a limit-mode copy
+ *
+ * The order rests at the trader's fill price moved by the config's allowed
+ * improvement (up for buys, down for sells), so it only fills at a price the
+ * config accepts rather than crossing the spread.
+ */
+export function planLimitOrder(copyConfig: any, tradeType: string, traderPrice: number): LimitOrderPlan {
+  const improvement = parseFloat(copyConfig.limitPriceImprovement || '0') || 0;
+  const ttlSeconds = copyConfig.limitOrderTtlSeconds || DEFAULT_LIMIT_ORDER_TTL_SECONDS;
+  const orderType: LimitOrderParams['orderType'] = copyConfig.limitOrderType === 'GTD' ? 'GTD' : 'GTC';
+
+  const rawPrice = tradeType === 'buy'
+    ? Math.min(traderPrice * (1 + improvement), MAX_LIMIT_PRICE)
+    : Math.max(traderPrice * (1 - improvement), MIN_LIMIT_PRICE);
+  const price = parseFloat(rawPrice.toFixed(3));
+
+  const now = Date.now();
+  const params: LimitOrderParams = { orderType, price };
+  if (orderType === 'GTD') {
+    params.expiration = Math.floor(now / 1000) + GTD_EXPIRATION_BUFFER_SECONDS + ttlSeconds;
+  }
+
+  return {
+    params,
+    expiresAt: new Date(now + ttlSeconds * 1000),
+  };
+}
+
+/**
+ * Check open limit-order copies
+ *
+ * Fully filled orders are recorded at their fill. Orders still open past their
+ * TTL have the unfilled remainder cancelled, and the copy is finalized with the
+ * shares that actually filled (or failed if none did).
+ *
+ * @returns Number of limit orders finalized
+ */
+export async function checkLimitOrders(): Promise<number> {
+  const openTrades = await prisma.copiedTrade.findMany({
+    where: {
+      orderExpiresAt: { not: null },
+      orderId: { not: null },
+    },
+    include: {
+      config: {
+        include: { user: true },
+      },
+    },
+  });
+
+  let finalized = 0;
+  for (const trade of openTrades) {
+    try {
+      let order = await getOrderStatus(trade.orderId!);
+      const status = String(order.status || '').toUpperCase();
+      const isFilled = getRequestedShares(order, trade) > 0 && getFilledShares(order) >= getRequestedShares(order, trade);
+      const isClosed = CLOSED_ORDER_STATUSES.includes(status);
+
+      if (!isFilled && !isClosed && trade.orderExpiresAt! > new Date()) {
+        continue;
+      }
+
+      const clobClient = await getClobClientForUser(trade.config.user.address);
+      if (isFilled) {
+        await monitorOrderSettlement(trade.orderId!, trade.id).catch(() => undefined);
+      } else if (!isClosed) {
+        await cancelOrder(clobClient, trade.orderId!);
+        // Re-read so fills that landed just before the cancel are counted
+        order = await getOrderStatus(trade.orderId!);
+      }
+
+      const fills = getFilledShares(order) > 0 ? await getOrderFills(clobClient, order) : { shares: 0, amount: 0 };
+      await finalizeLimitOrder(trade, order, isFilled, fills);
+      finalized++;
+    } catch (error) {
+      logger.error('Error checking limit order', {
+        tradeId: trade.id,
+        orderId: trade.orderId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return finalized;
+}
+
+function getFilledShares(order: any): number {
+  return parseFloat(order.size_matched ?? order.filled_size ?? '0') || 0;
+}
+
+function getRequestedShares(order: any, trade: { copiedShares: string | null }): number {
+  return parseFloat(order.original_size ?? trade.copiedShares ?? '0') || 0;
+}
+
+/**
+ * Record a limit order's actual fill and return unspent allocation for a buy's unfilled part
+ * The fill is valued at the prices of the order's trades, which can beat the limit price.
+ */
+async function finalizeLimitOrder(
+  trade: any,
+  order: any,
+  isFilled: boolean,
+  fills: { shares: number; amount: number }
+): Promise<void> {
+  const filledShares = getFilledShares(order);
+  const requestedShares = getRequestedShares(order, trade);
+  let price = fills.shares > 0 ? fills.amount / fills.shares : 0;
+  if (filledShares > 0 && price <= 0) {
+    // Order reports a fill but its trades couldn't be read
+    price = parseFloat(trade.limitPrice || trade.copiedPrice || '0') || 0;
+    logger.warn('No trades found for filled limit order, valuing fill at the limit price', {
+      tradeId: trade.id,
+      orderId: trade.orderId,
+    });
+  }
+  const filledAmount = filledShares * price;
+
+  const updateData: any = {
+    orderExpiresAt: null,
+    orderStatus: order.status || trade.orderStatus,
+  };
+
+  if (filledShares > 0) {
+    updateData.copiedShares = filledShares.toFixed(6);
+    updateData.copiedAmount = filledAmount.toFixed(6);
+    updateData.copiedPrice = price.toFixed(6);
+    if (trade.tradeType === 'buy') {
+      updateData.costBasis = filledAmount.toFixed(6);
+    }
+    updateData.status = 'settled';
+    updateData.settledAt = trade.settledAt || new Date();
+    if (!isFilled) {
+      updateData.errorMessage = `Limit order partially filled: ${filledShares.toFixed(2)}/${requestedShares.toFixed(2)} shares, remainder cancelled`;
+    }
+  } else {
+    updateData.copiedShares = '0';
+    updateData.costBasis = trade.tradeType === 'buy' ? '0' : trade.costBasis;
+    updateData.status = 'failed';
+    updateData.errorMessage = 'Limit order not filled before its TTL, cancelled';
+    updateData.failureReason = 'limit_order_unfilled';
+    updateData.failureCategory = 'market';
+  }
+
+  await prisma.copiedTrade.update({
+    where: { id: trade.id },
+    data: updateData,
+  });
+  await publishCopiedTradeEvent(trade.id);
+
+  if (trade.tradeType === 'buy') {
+    const unfilledAmount = (parseFloat(trade.copiedAmount) || 0) - filledAmount;
+    if (unfilledAmount > 0) {
+      const config = await prisma.copyTradingConfig.findUnique({ where: { id: trade.configId } });
+      if (config) {
+        const usedAmount = Math.max((parseFloat(config.usedUSDCAmount || '0') || 0) - unfilledAmount, 0);
+        await prisma.copyTradingConfig.update({
+          where: { id: trade.configId },
+          data: { usedUSDCAmount: usedAmount.toFixed(6) },
+        });
+      }
+    }
+  }
+
+  logger.info('Limit order finalized', {
+    tradeId: trade.id,
+    orderId: trade.orderId,
+    filledShares,
+    requestedShares,
+    status: updateData.status,
+  });
+}
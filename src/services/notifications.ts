@@ -0,0 +1,579 @@
+import { createHmac, randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { WebhookDelivery, WebhookEndpoint } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config, isProduction } from '../config/env';
+import { webhookDeliveryQueue, WebhookDeliveryJobData } from './queue';
+
+export type WebhookEvent =
+  | 'trade.executed'
+  | 'trade.failed'
+  | 'trade.skipped'
+  | 'position.redeemed'
+  | 'deposit.confirmed'
+  | 'withdrawal.completed'
+  | 'config.auto_paused';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'trade.executed',
+  'trade.failed',
+  'trade.skipped',
+  'position.redeemed',
+  'deposit.confirmed',
+  'withdrawal.completed',
+  'config.auto_paused',
+];
+
+const MAX_ENDPOINTS_PER_USER = 10;
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, multicast and other reserved ranges
+const BLOCKED_WEBHOOK_ADDRESSES = new BlockList();
+([
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as Array<[string, number]>).forEach(([network, prefix]) => BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as Array<[string, number]>).forEach(([network, prefix]) => BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  enabled?: boolean;
+}
+
+export interface WebhookEndpointResponse {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  event: string;
+  payload: any;
+  status: string;
+  attempts: number;
+  responseStatus?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * List a user's webhook endpoints (secrets are only returned on creation)
+ */
+export async function listWebhookEndpoints(userId: string): Promise<WebhookEndpointResponse[]> {
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return endpoints.map(toWebhookEndpointResponse);
+}
+
+/**
+ * Register a webhook endpoint
+ * Returns the signing secret once; deliveries are signed with it from then on.
+ */
+export async function createWebhookEndpoint(
+  userId: string,
+  input: WebhookEndpointInput
+): Promise<WebhookEndpointResponse & { secret: string }> {
+  validateEndpointSettings(input);
+  await assertPublicWebhookUrl(input.url);
+
+  const count = await prisma.webhookEndpoint.count({ where: { userId } });
+  if (count >= MAX_ENDPOINTS_PER_USER) {
+    throw new Error(`Invalid request: at most ${MAX_ENDPOINTS_PER_USER} webhook endpoints per user`);
+  }
+
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: {
+      userId,
+      url: input.url,
+      secret: generateWebhookSecret(),
+      events: JSON.stringify(input.events),
+      description: input.description || null,
+      enabled: input.enabled ?? true,
+    },
+  });
+
+  console.log(`🔔 User ${userId} registered webhook endpoint ${endpoint.id} (${input.events.join(', ')})`);
+
+  return { ...toWebhookEndpointResponse(endpoint), secret: endpoint.secret };
+}
+
+/**
+ * Update a webhook endpoint's URL, events, description or enabled flag
+ * Pass rotateSecret to issue a new signing secret (returned once, like on creation).
+ */
+export async function updateWebhookEndpoint(
+  userId: string,
+  endpointId: string,
+  updates: Partial<WebhookEndpointInput> & { rotateSecret?: boolean }
+): Promise<WebhookEndpointResponse & { secret?: string }> {
+  const existing = await getOwnedEndpoint(userId, endpointId);
+
+  validateEndpointSettings({
+    url: updates.url ?? existing.url,
+    events: updates.events ?? parseEvents(existing.events),
+  });
+  if (updates.url !== undefined) {
+    await assertPublicWebhookUrl(updates.url);
+  }
+
+  const endpoint = await prisma.webhookEndpoint.update({
+    where: { id: endpointId },
+    data: {
+      ...(updates.url !== undefined ? { url: updates.url } : {}),
+      ...(updates.events !== undefined ? { events: JSON.stringify(updates.events) } : {}),
+      ...(updates.description !== undefined ? { description: updates.description || null } : {}),
+      ...(updates.enabled !== undefined ? { enabled: updates.enabled } : {}),
+      ...(updates.rotateSecret ? { secret: generateWebhookSecret() } : {}),
+    },
+  });
+
+  return {
+    ...toWebhookEndpointResponse(endpoint),
+    ...(updates.rotateSecret ? { secret: endpoint.secret } : {}),
+  };
+}
+
+/**
+ * Delete a webhook endpoint and its delivery log
+ */
+export async function deleteWebhookEndpoint(userId: string, endpointId: string): Promise<void> {
+  await getOwnedEndpoint(userId, endpointId);
+  await prisma.webhookEndpoint.delete({ where: { id: endpointId } });
+}
+
+/**
+ * A user's delivery log, most recent first
+ */
+export async function listWebhookDeliveries(
+  userId: string,
+  options: { endpointId?: string; status?: string; limit?: number; offset?: number } = {}
+): Promise<{ deliveries: WebhookDeliveryResponse[]; total: number }> {
+  const limit = Math.min(Math.max(options.limit || 50, 1), 100);
+  const offset = Math.max(options.offset || 0, 0);
+
+  if (options.endpointId) {
+    await getOwnedEndpoint(userId, options.endpointId);
+  }
+
+  const where = {
+    endpoint: { userId },
+    ...(options.endpointId ? { endpointId: options.endpointId } : {}),
+    ...(options.status ? { status: options.status } : {}),
+  };
+
+  const [deliveries, total] = await Promise.all([
+    prisma.webhookDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.webhookDelivery.count({ where }),
+  ]);
+
+  return { deliveries: deliveries.map(toWebhookDeliveryResponse), total };
+}
+
+/**
+ * Notify a user's subscribed webhook endpoints about an event
+ *
+ * eventId must be deterministic for the underlying change (e.g. `trade.failed:<tradeId>`):
+ * emitting the same event again, from a retried job or another process, is a no-op.
+ * Never throws - notifications must not break the flow that emits them.
+ */
+export async function emitUserEvent(
+  userId: string,
+  event: WebhookEvent,
+  eventId: string,
+  data: Record<string, any>
+): Promise<void> {
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { userId, enabled: true },
+    });
+    const subscribed = endpoints.filter((endpoint) => parseEvents(endpoint.events).includes(event));
+    if (subscribed.length === 0) {
+      return;
+    }
+
+    const payload = JSON.stringify({
+      id: eventId,
+      event,
+      createdAt: new Date().toISOString(),
+      data,
+    });
+
+    for (const endpoint of subscribed) {
+      let delivery: WebhookDelivery;
+      try {
+        delivery = await prisma.webhookDelivery.create({
+          data: {
+            endpointId: endpoint.id,
+            eventId,
+            event,
+            payload,
+          },
+        });
+      } catch (error: any) {
+        if (error?.code === 'P2002') {
+          continue; // Already emitted to this endpoint
+        }
+        throw error;
+      }
+
+      const jobData: WebhookDeliveryJobData = { deliveryId: delivery.id };
+      await webhookDeliveryQueue.add(jobData, { jobId: `webhook-${delivery.id}` });
+    }
+  } catch (error) {
+    console.error(`⚠️ Failed to emit ${event} for user ${userId}:`, error);
+  }
+}
+
+/**
+ * Emit trade.executed / trade.failed / trade.skipped for a copied trade's current status
+ * Pending trades without an order (waiting on a queue retry) emit nothing yet.
+ */
+export async function notifyCopiedTradeOutcome(tradeId: string): Promise<void> {
+  try {
+    const trade = await prisma.copiedTrade.findUnique({
+      where: { id: tradeId },
+      include: { config: true },
+    });
+    if (!trade?.config) {
+      return;
+    }
+
+    const event = getOutcomeEvent(trade.status, trade.orderId);
+    if (!event) {
+      return;
+    }
+
+    await emitUserEvent(trade.config.userId, event, `${event}:${trade.id}`, {
+      source: 'copy_trading',
+      tradeId: trade.id,
+      configId: trade.configId,
+      traderAddress: trade.config.targetTraderAddress,
+      marketId: trade.marketId,
+      marketQuestion: trade.marketQuestion,
+      outcomeIndex: trade.outcomeIndex,
+      tradeType: trade.tradeType,
+      status: trade.status,
+      amount: trade.copiedAmount,
+      price: trade.copiedPrice,
+      orderId: trade.orderId,
+      reason: event === 'trade.executed' ? undefined : trade.failureReason || trade.errorMessage,
+      errorMessage: event === 'trade.executed' ? undefined : trade.errorMessage,
+    });
+  } catch (error) {
+    console.error(`⚠️ Failed to notify outcome of trade ${tradeId}:`, error);
+  }
+}
+
+/**
+ * Emit trade.executed / trade.failed / trade.skipped for a copied signal's current status
+ */
+export async function notifyCopiedSignalOutcome(signalId: string): Promise<void> {
+  try {
+    const signal = await prisma.copiedSignal.findUnique({
+      where: { id: signalId },
+      include: { config: true },
+    });
+    if (!signal?.config) {
+      return;
+    }
+
+    const event = getOutcomeEvent(signal.status, signal.orderId);
+    if (!event) {
+      return;
+    }
+
+    await emitUserEvent(signal.config.userId, event, `${event}:${signal.id}`, {
+      source: 'signal',
+      signalId: signal.id,
+      configId: signal.configId,
+      category: signal.category,
+      marketId: signal.marketId,
+      marketQuestion: signal.marketQuestion,
+      outcomeIndex: signal.outcomeIndex,
+      tradeType: signal.tradeType,
+      status: signal.status,
+      amount: signal.copiedAmount,
+      price: signal.copiedPrice,
+      orderId: signal.orderId,
+      reason: event === 'trade.executed' ? undefined : signal.failureReason || signal.errorMessage,
+      errorMessage: event === 'trade.executed' ? undefined : signal.errorMessage,
+    });
+  } catch (error) {
+    console.error(`⚠️ Failed to notify outcome of signal ${signalId}:`, error);
+  }
+}
+
+/**
+ * HMAC-SHA256 (hex) of `${timestamp}.${body}` with the endpoint's secret
+ * Sent as `X-Webhook-Signature: sha256=<hex>` alongside `X-Webhook-Timestamp`.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * POST a delivery to its endpoint and record the attempt
+ * Throws on non-2xx responses so the queue retries with backoff; the last
+ * attempt marks the delivery failed.
+ */
+export async function deliverWebhook(deliveryId: string, isLastAttempt: boolean): Promise<void> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: true },
+  });
+
+  if (!delivery || delivery.status !== 'pending') {
+    return;
+  }
+
+  if (!delivery.endpoint.enabled) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'failed', lastError: 'Endpoint disabled' },
+    });
+    return;
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = signWebhookPayload(delivery.endpoint.secret, timestamp, delivery.payload);
+
+  let responseStatus: number | null = null;
+  let errorMessage: string | null = null;
+  try {
+    const response = await postWebhook(delivery.endpoint.url, delivery.payload, {
+      'Content-Type': 'application/json',
+      'User-Agent': `${config.app.name} Webhooks`,
+      'X-Webhook-Id': delivery.eventId,
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${signature}`,
+    });
+    responseStatus = response.status;
+    if (response.status < 200 || response.status >= 300) {
+      errorMessage = `Endpoint responded ${response.status} ${response.statusText}`;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  const attempts = delivery.attempts + 1;
+  if (!errorMessage) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'delivered', attempts, responseStatus, lastError: null, deliveredAt: new Date() },
+    });
+    return;
+  }
+
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: isLastAttempt ? 'failed' : 'pending',
+      attempts,
+      responseStatus,
+      lastError: errorMessage,
+    },
+  });
+
+  throw new Error(`Webhook delivery ${deliveryId} failed: ${errorMessage}`);
+}
+
+function getOutcomeEvent(status: string, orderId: string | null): WebhookEvent | null {
+  if (status === 'skipped') return 'trade.skipped';
+  if (status === 'failed') return 'trade.failed';
+  if (status === 'settled' || status === 'simulated') return 'trade.executed';
+  if (status === 'pending' && orderId) return 'trade.executed'; // Order submitted, settling
+  return null;
+}
+
+async function getOwnedEndpoint(userId: string, endpointId: string): Promise<WebhookEndpoint> {
+  const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: endpointId } });
+  if (!endpoint || endpoint.userId !== userId) {
+    throw new Error('Webhook endpoint not found');
+  }
+  return endpoint;
+}
+
+/**
+ * Reject webhook URLs whose host resolves to a private or reserved address
+ * (IPv4-mapped IPv6 addresses are checked against the IPv4 ranges)
+ */
+async function assertPublicWebhookUrl(rawUrl: string): Promise<void> {
+  await resolvePublicAddresses(new URL(rawUrl).hostname.replace(/^\[|\]$/g, ''));
+}
+
+async function resolvePublicAddresses(hostname: string): Promise<Array<{ address: string; family: number }>> {
+  let addresses: Array<{ address: string; family: number }>;
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Invalid url: could not resolve ${hostname}`);
+  }
+
+  const blocked = addresses.some(({ address, family }) =>
+    BLOCKED_WEBHOOK_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+  );
+  if (addresses.length === 0 || blocked) {
+    throw new Error('Invalid url: must resolve to a public address');
+  }
+  return addresses;
+}
+
+// Resolves and checks the host in one step and hands the checked addresses to the
+// socket, so a DNS answer that changes after the check (rebinding) is never dialed
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  resolvePublicAddresses(hostname)
+    .then((addresses) => {
+      if (options.all) {
+        (callback as (...args: any[]) => void)(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    })
+    .catch((error) => callback(error, '', 0));
+};
+
+/**
+ * POST a webhook body, connecting only to addresses that passed the public-address check
+ * Redirects aren't followed: a redirect could point anywhere, including internal hosts.
+ */
+async function postWebhook(
+  rawUrl: string,
+  body: string,
+  headers: Record<string, string>
+): Promise<{ status: number; statusText: string }> {
+  const url = new URL(rawUrl);
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+  // IP literals are dialed without a lookup, so check them here
+  if (isIP(hostname)) {
+    await resolvePublicAddresses(hostname);
+  }
+
+  const request = url.protocol === 'https:' ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: lookupPublicAddress,
+      signal: AbortSignal.timeout(config.notifications.webhookTimeoutMs),
+    }, (res) => {
+      res.resume(); // The response body isn't used
+      resolve({ status: res.statusCode || 0, statusText: res.statusMessage || '' });
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+function validateEndpointSettings(input: WebhookEndpointInput): void {
+  let url: URL;
+  try {
+    url = new URL(input.url);
+  } catch {
+    throw new Error('Invalid url: must be a valid http(s) URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('Invalid url: must be a valid http(s) URL');
+  }
+  if (isProduction && url.protocol !== 'https:') {
+    throw new Error('Invalid url: must use https');
+  }
+
+  if (
+    !Array.isArray(input.events) ||
+    input.events.length === 0 ||
+    input.events.some((event) => !WEBHOOK_EVENTS.includes(event))
+  ) {
+    throw new Error(`Invalid events: must be a non-empty list of ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+}
+
+function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+function parseEvents(value: string): WebhookEvent[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function toWebhookEndpointResponse(endpoint: WebhookEndpoint): WebhookEndpointResponse {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    events: parseEvents(endpoint.events),
+    description: endpoint.description || undefined,
+    enabled: endpoint.enabled,
+    createdAt: endpoint.createdAt,
+    updatedAt: endpoint.updatedAt,
+  };
+}
+
+function toWebhookDeliveryResponse(delivery: WebhookDelivery): WebhookDeliveryResponse {
+  let payload: any = delivery.payload;
+  try {
+    payload = JSON.parse(delivery.payload);
+  } catch {
+    // Keep the raw string
+  }
+
+  return {
+    id: delivery.id,
+    endpointId: delivery.endpointId,
+    eventId: delivery.eventId,
+    event: delivery.event,
+    payload,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus ?? undefined,
+    lastError: delivery.lastError || undefined,
+    deliveredAt: delivery.deliveredAt || undefined,
+    createdAt: delivery.createdAt,
+  };
+}
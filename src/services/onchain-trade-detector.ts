@@ -0,0 +1,383 @@
+import { ethers } from 'ethers';
+import { prisma } from '../config/database';
+import { config } from '../config/env';
+import { redis } from '../config/redis';
+import { PolymarketTrade, processDetectedTrades } from './trade-monitor';
+import { getFollowedTraders } from './consensus';
+
+// CTF Exchange OrderFilled event
+// Asset ID 0 is USDC (collateral); any other asset ID is an outcome token ID
+const EXCHANGE_ABI = [
+  'event OrderFilled(bytes32 indexed orderHash, address indexed maker, address indexed taker, uint256 makerAssetId, uint256 takerAssetId, uint256 makerAmountFilled, uint256 takerAmountFilled, uint256 fee)',
+];
+const EXCHANGE_INTERFACE = new ethers.utils.Interface(EXCHANGE_ABI);
+export const ORDER_FILLED_TOPIC = EXCHANGE_INTERFACE.getEventTopic('OrderFilled');
+
+// Both USDC and outcome tokens use 6 decimals on Polymarket
+const AMOUNT_DECIMALS = 6;
+
+// Last block whose logs were processed, shared by every process and kept across restarts
+const LAST_PROCESSED_BLOCK_KEY = 'onchain-trade-detector:last-block';
+
+export interface OrderFilledEvent {
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+  exchange: string;
+  orderHash: string;
+  maker: string;
+  taker: string;
+  makerAssetId: string;
+  takerAssetId: string;
+  makerAmountFilled: ethers.BigNumber;
+  takerAmountFilled: ethers.BigNumber;
+}
+
+// Fields we read from a Gamma /markets entry
+// clobTokenIds and outcomes come back as JSON-encoded strings
+interface GammaMarket {
+  conditionId: string;
+  question?: string;
+  slug?: string;
+  outcomes?: string | string[];
+  clobTokenIds?: string | string[];
+  events?: Array<{ slug?: string }>;
+}
+
+interface TokenMarketInfo {
+  conditionId: string;
+  outcomeIndex: number;
+  outcome: string;
+  title: string;
+  slug: string;
+  eventSlug: string;
+}
+
+let provider: ethers.providers.JsonRpcProvider | null = null;
+const tokenMarketCache = new Map<string, TokenMarketInfo>();
+const blockTimestampCache = new Map<number, number>();
+
+function getProvider(): ethers.providers.JsonRpcProvider {
+  if (!provider) {
+    provider = new ethers.providers.JsonRpcProvider(config.blockchain.polygonRpcUrl);
+  }
+  return provider;
+}
+
+function getExchangeAddresses(): string[] {
+  return [config.blockchain.ctfExchangeAddress, config.blockchain.negRiskCtfExchangeAddress]
+    .filter((address) => !!address)
+    .map((address) => address.toLowerCase());
+}
+
+/**
+ * Poll for new OrderFilled logs since the last processed block
+ * and feed trades from followed traders into the copy pipeline
+ *
+ * The block cursor lives in Redis, so call this under the detector lock: the
+ * process holding it resumes where the previous holder (or run) stopped.
+ *
+ * @returns Number of trades queued for execution
+ */
+export async function pollOrderFilledLogs(): Promise<number> {
+  const rpc = getProvider();
+  const latestBlock = await rpc.getBlockNumber();
+
+  // With no stored cursor start from the current head; Data API polling covers anything earlier
+  const lastProcessedBlock = (await getLastProcessedBlock()) ?? latestBlock - 1;
+
+  if (latestBlock <= lastProcessedBlock) {
+    return 0;
+  }
+
+  const fromBlock = lastProcessedBlock + 1;
+  // Cap the range so we don't hit RPC getLogs limits after a long outage
+  const toBlock = Math.min(latestBlock, fromBlock + config.workers.onChainMaxBlockRange - 1);
+
+  const followedTraders = await getFollowedTraderAddresses();
+  if (followedTraders.size === 0) {
+    await setLastProcessedBlock(toBlock);
+    return 0;
+  }
+
+  const logs: ethers.providers.Log[] = [];
+  for (const exchangeAddress of getExchangeAddresses()) {
+    const exchangeLogs = await rpc.getLogs({
+      address: exchangeAddress,
+      fromBlock,
+      toBlock,
+      topics: [ORDER_FILLED_TOPIC],
+    });
+    logs.push(...exchangeLogs);
+  }
+
+  const events = logs
+    .map(parseOrderFilledLog)
+    .filter((event): event is OrderFilledEvent => event !== null);
+
+  const trades = await buildTradesFromEvents(events, followedTraders);
+
+  // Advance the cursor before processing so a failing trade can't stall detection
+  await setLastProcessedBlock(toBlock);
+
+  if (trades.length === 0) {
+    return 0;
+  }
+
+  console.log(`⛓️ Detected ${trades.length} trades from followed traders in blocks ${fromBlock}-${toBlock}`);
+  return processDetectedTrades(trades);
+}
+
+/**
+ * Decode an OrderFilled log
+ */
+export function parseOrderFilledLog(log: ethers.providers.Log): OrderFilledEvent | null {
+  try {
+    const parsed = EXCHANGE_INTERFACE.parseLog(log);
+    return {
+      transactionHash: log.transactionHash.toLowerCase(),
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      exchange: log.address.toLowerCase(),
+      orderHash: parsed.args.orderHash,
+      maker: parsed.args.maker.toLowerCase(),
+      taker: parsed.args.taker.toLowerCase(),
+      makerAssetId: parsed.args.makerAssetId.toString(),
+      takerAssetId: parsed.args.takerAssetId.toString(),
+      makerAmountFilled: parsed.args.makerAmountFilled,
+      takerAmountFilled: parsed.args.takerAmountFilled,
+    };
+  } catch (error) {
+    console.warn(`⚠️ Could not decode OrderFilled log in tx ${log.transactionHash}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Convert OrderFilled events into PolymarketTrade objects for followed traders
+ *
+ * When orders are matched, the exchange emits one OrderFilled per maker order
+ * (taker = taker order's maker) plus one for the taker order (taker = exchange).
+ * So each participant normally shows up as maker exactly once per order. We only
+ * fall back to the taker side when a trader never appears as maker in the tx,
+ * which avoids double counting the same fill.
+ *
+ * Fills in the same tx for the same trader/token/side are aggregated into a single
+ * trade (VWAP price), matching how one transaction hash maps to one copied trade.
+ */
+export async function buildTradesFromEvents(
+  events: OrderFilledEvent[],
+  followedTraders: Set<string>
+): Promise<PolymarketTrade[]> {
+  const exchangeAddresses = getExchangeAddresses();
+  const fills = new Map<string, {
+    trader: string;
+    transactionHash: string;
+    blockNumber: number;
+    tokenId: string;
+    side: 'BUY' | 'SELL';
+    shares: ethers.BigNumber;
+    usdc: ethers.BigNumber;
+  }>();
+
+  // Traders seen as maker per transaction
+  const makersByTx = new Map<string, Set<string>>();
+  for (const event of events) {
+    if (!makersByTx.has(event.transactionHash)) {
+      makersByTx.set(event.transactionHash, new Set());
+    }
+    makersByTx.get(event.transactionHash)!.add(event.maker);
+  }
+
+  for (const event of events) {
+    // Maker is buying outcome tokens if they gave USDC (asset ID 0)
+    const makerIsBuying = event.makerAssetId === '0';
+    const tokenId = makerIsBuying ? event.takerAssetId : event.makerAssetId;
+    const shares = makerIsBuying ? event.takerAmountFilled : event.makerAmountFilled;
+    const usdc = makerIsBuying ? event.makerAmountFilled : event.takerAmountFilled;
+
+    const participants: Array<{ trader: string; side: 'BUY' | 'SELL' }> = [];
+
+    if (followedTraders.has(event.maker)) {
+      participants.push({ trader: event.maker, side: makerIsBuying ? 'BUY' : 'SELL' });
+    }
+
+    if (
+      followedTraders.has(event.taker) &&
+      !exchangeAddresses.includes(event.taker) &&
+      !makersByTx.get(event.transactionHash)!.has(event.taker)
+    ) {
+      // Taker takes the opposite side of the maker
+      participants.push({ trader: event.taker, side: makerIsBuying ? 'SELL' : 'BUY' });
+    }
+
+    for (const participant of participants) {
+      const key = `${event.transactionHash}-${participant.trader}-${tokenId}-${participant.side}`;
+      const existing = fills.get(key);
+      if (existing) {
+        existing.shares = existing.shares.add(shares);
+        existing.usdc = existing.usdc.add(usdc);
+      } else {
+        fills.set(key, {
+          trader: participant.trader,
+          transactionHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+          tokenId,
+          side: participant.side,
+          shares,
+          usdc,
+        });
+      }
+    }
+  }
+
+  const trades: PolymarketTrade[] = [];
+
+  for (const fill of fills.values()) {
+    if (fill.shares.isZero()) {
+      continue;
+    }
+
+    const marketInfo = await getTokenMarketInfo(fill.tokenId);
+    if (!marketInfo) {
+      console.warn(`⚠️ Could not resolve market for token ${fill.tokenId} (tx ${fill.transactionHash}), leaving it to polling`);
+      continue;
+    }
+
+    const size = ethers.utils.formatUnits(fill.shares, AMOUNT_DECIMALS);
+    const usdcSize = ethers.utils.formatUnits(fill.usdc, AMOUNT_DECIMALS);
+    const timestamp = await getBlockTimestamp(fill.blockNumber);
+
+    trades.push({
+      proxyWallet: fill.trader,
+      timestamp: timestamp.toString(),
+      conditionId: marketInfo.conditionId,
+      type: 'TRADE',
+      size,
+      usdcSize,
+      transactionHash: fill.transactionHash,
+      price: parseFloat(usdcSize) / parseFloat(size),
+      asset: fill.tokenId,
+      side: fill.side,
+      outcomeIndex: marketInfo.outcomeIndex,
+      title: marketInfo.title,
+      slug: marketInfo.slug,
+      eventSlug: marketInfo.eventSlug,
+      outcome: marketInfo.outcome,
+    });
+  }
+
+  return trades;
+}
+
+/**
+ * Get the set of trader addresses followed by enabled, authorized configs
+ */
+async function getFollowedTraderAddresses(): Promise<Set<string>> {
+  const configs = await prisma.copyTradingConfig.findMany({
+    where: {
+      enabled: true,
+      authorized: true,
+    },
+  });
+
+  return new Set(configs.flatMap((c) => getFollowedTraders(c)));
+}
+
+/**
+ * Resolve market details for an outcome token ID via the Gamma API (cached)
+ */
+async function getTokenMarketInfo(tokenId: string): Promise<TokenMarketInfo | null> {
+  const cached = tokenMarketCache.get(tokenId);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const gammaApiUrl = config.polymarket.gammaApiUrl || 'https://gamma-api.polymarket.com';
+    const response = await fetch(`${gammaApiUrl}/markets?clob_token_ids=${tokenId}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const markets = await response.json() as GammaMarket[];
+    const market = Array.isArray(markets) ? markets[0] : null;
+    if (!market) {
+      return null;
+    }
+
+    const tokenIds = parseGammaList(market.clobTokenIds);
+    const outcomes = parseGammaList(market.outcomes);
+
+    const outcomeIndex = tokenIds.indexOf(tokenId);
+    if (outcomeIndex === -1) {
+      return null;
+    }
+
+    const info: TokenMarketInfo = {
+      conditionId: market.conditionId,
+      outcomeIndex,
+      outcome: outcomes[outcomeIndex] || '',
+      title: market.question || '',
+      slug: market.slug || '',
+      eventSlug: market.events?.[0]?.slug || market.slug || '',
+    };
+
+    tokenMarketCache.set(tokenId, info);
+    return info;
+  } catch (error) {
+    console.warn(`⚠️ Error resolving market for token ${tokenId}:`, error);
+    return null;
+  }
+}
+
+function parseGammaList(value: string | string[] | undefined): string[] {
+  return typeof value === 'string' ? JSON.parse(value) : value || [];
+}
+
+/**
+ * Get block timestamp in seconds (cached)
+ */
+async function getBlockTimestamp(blockNumber: number): Promise<number> {
+  const cached = blockTimestampCache.get(blockNumber);
+  if (cached) {
+    return cached;
+  }
+
+  const block = await getProvider().getBlock(blockNumber);
+  blockTimestampCache.set(blockNumber, block.timestamp);
+
+  // Keep the cache small - we only ever look at recent blocks
+  if (blockTimestampCache.size > 1000) {
+    const oldest = blockTimestampCache.keys().next().value;
+    if (oldest !== undefined) {
+      blockTimestampCache.delete(oldest);
+    }
+  }
+
+  return block.timestamp;
+}
+
+async function getLastProcessedBlock(): Promise<number | null> {
+  const stored = await redis.get(LAST_PROCESSED_BLOCK_KEY);
+  const block = stored ? parseInt(stored, 10) : NaN;
+  return Number.isFinite(block) ? block : null;
+}
+
+async function setLastProcessedBlock(block: number): Promise<void> {
+  await redis.set(LAST_PROCESSED_BLOCK_KEY, block.toString());
+}
+
+/**
+ * Reset the RPC connection (e.g. when the worker restarts)
+ * The block cursor is kept, so detection resumes after the last processed block.
+ */
+export function resetOnChainDetector(): void {
+  provider = null;
+}
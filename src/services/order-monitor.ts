@@ -1,6 +1,7 @@
 import { getOrderStatus } from './polymarket-clob';
 import { logger } from '../utils/logger';
 import { prisma } from '../config/database';
+import { publishCopiedSignalEvent, publishCopiedTradeEvent } from './trading-events';
 
 /**
  * Monitor order status and update database when settled
@@ -60,6 +61,10 @@ export async function monitorOrderSettlement(orderId: string, tradeId: string, i
         data: updateData,
       });
     }
+
+    if (updateData.status) {
+      await (isSignal ? publishCopiedSignalEvent(tradeId) : publishCopiedTradeEvent(tradeId));
+    }
   } catch (error) {
     logger.error('Error monitoring order settlement', {
       orderId,
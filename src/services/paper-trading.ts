@@ -0,0 +1,211 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { getMarketInfo, getOrderBook } from './polymarket-clob';
+import { logger } from '../utils/logger';
+import { publishCopiedSignalEvent, publishCopiedTradeEvent } from './trading-events';
+
+export type ConfigMode = 'live' | 'paper';
+
+export const CONFIG_MODES: ConfigMode[] = ['live', 'paper'];
+
+// Status for fills simulated by paper configs (live fills go pending -> settled)
+export const SIMULATED_STATUS = 'simulated';
+
+// Mark-to-market and resolution columns shared by CopiedTrade and CopiedSignal
+type SimulatedPositionUpdate = Pick<
+  Prisma.CopiedTradeUpdateInput & Prisma.CopiedSignalUpdateInput,
+  'outcome' | 'resolutionPrice' | 'pnl' | 'resolvedAt' | 'currentPrice' | 'currentValue' | 'unrealizedPnl' | 'lastPriceUpdate'
+>;
+
+export interface SimulatedFill {
+  shares: string;
+  amount: string; // USDC spent (buy) or received (sell)
+  averagePrice: string;
+  levelsConsumed: number;
+  isPartial: boolean;
+}
+
+/**
+ * Validate a config mode (undefined keeps the current/default mode)
+ */
+export function validateConfigMode(mode: string | undefined): void {
+  if (mode !== undefined && !CONFIG_MODES.includes(mode as ConfigMode)) {
+    throw new Error(`Invalid mode: ${mode}. Must be one of: ${CONFIG_MODES.join(', ')}`);
+  }
+}
+
+/**
+ * Resolve the CLOB token ID for a market outcome
+ */
+export async function getOutcomeTokenId(marketId: string, outcomeIndex: number): Promise<string> {
+  const marketInfo = await getMarketInfo(marketId);
+  const token = marketInfo.tokens?.[outcomeIndex];
+  const tokenId = typeof token === 'object' && token !== null
+    ? token.token_id || token.tokenId
+    : token;
+
+  if (!tokenId) {
+    throw new Error(`Token not found for market ${marketId} outcome ${outcomeIndex}`);
+  }
+
+  return String(tokenId);
+}
+
+/**
+ * Simulate a market order fill by walking the live order book
+ *
+ * Buys spend `size` USDC up the asks; sells sell `size` shares down the bids.
+ * Levels beyond the slippage tolerance from the reference price are not taken,
+ * so thin books produce partial fills the same way a real FOK/FAK order would.
+ */
+export async function simulateFill(
+  tokenId: string,
+  side: 'buy' | 'sell',
+  size: number,
+  referencePrice: number,
+  slippageTolerance: number
+): Promise<SimulatedFill> {
+  const orderBook = await getOrderBook(tokenId);
+  const levels: Array<{ price: number; size: number }> = ((side === 'buy' ? orderBook.asks : orderBook.bids) || [])
+    .map((level: { price: string; size: string }) => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+    .filter((level: { price: number; size: number }) => level.price > 0 && level.size > 0)
+    .sort((a: { price: number }, b: { price: number }) => side === 'buy' ? a.price - b.price : b.price - a.price);
+
+  const limitPrice = side === 'buy'
+    ? Math.min(referencePrice * (1 + slippageTolerance), 1)
+    : referencePrice * (1 - slippageTolerance);
+
+  let remaining = size;
+  let filledShares = 0;
+  let filledAmount = 0;
+  let levelsConsumed = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) {
+      break;
+    }
+    if (side === 'buy' ? level.price > limitPrice : level.price < limitPrice) {
+      break;
+    }
+
+    // Buys are sized in USDC, sells in shares
+    const levelShares = side === 'buy'
+      ? Math.min(level.size, remaining / level.price)
+      : Math.min(level.size, remaining);
+
+    filledShares += levelShares;
+    filledAmount += levelShares * level.price;
+    remaining -= side === 'buy' ? levelShares * level.price : levelShares;
+    levelsConsumed++;
+  }
+
+  if (filledShares <= 0) {
+    throw new Error(`Simulated fill failed: no liquidity within slippage tolerance (limit price ${limitPrice.toFixed(4)})`);
+  }
+
+  return {
+    shares: filledShares.toFixed(6),
+    amount: filledAmount.toFixed(6),
+    averagePrice: (filledAmount / filledShares).toFixed(6),
+    levelsConsumed,
+    isPartial: remaining > size * 0.0001,
+  };
+}
+
+/**
+ * Mark open simulated positions to market and resolve them once their market closes
+ * Covers both copied trades and copied signals from paper configs.
+ *
+ * @returns Number of simulated positions resolved
+ */
+export async function updateSimulatedPositions(): Promise<number> {
+  const where = {
+    isPaper: true,
+    status: SIMULATED_STATUS,
+    tradeType: 'buy',
+    outcome: null,
+  };
+
+  const [trades, signals] = await Promise.all([
+    prisma.copiedTrade.findMany({ where }),
+    prisma.copiedSignal.findMany({ where }),
+  ]);
+
+  const marketCache = new Map<string, any>();
+  let resolved = 0;
+
+  // Copied trades and signals share the position columns, only the table differs
+  const rows = [
+    ...trades.map((row) => ({
+      row,
+      update: (data: SimulatedPositionUpdate) => prisma.copiedTrade.update({ where: { id: row.id }, data }),
+      publish: publishCopiedTradeEvent,
+    })),
+    ...signals.map((row) => ({
+      row,
+      update: (data: SimulatedPositionUpdate) => prisma.copiedSignal.update({ where: { id: row.id }, data }),
+      publish: publishCopiedSignalEvent,
+    })),
+  ];
+
+  for (const { row, update, publish } of rows) {
+    try {
+      if (!row.copiedShares) {
+        continue;
+      }
+
+      if (!marketCache.has(row.marketId)) {
+        marketCache.set(row.marketId, await getMarketInfo(row.marketId));
+      }
+      const marketInfo = marketCache.get(row.marketId);
+      const token = marketInfo.tokens?.[row.outcomeIndex];
+      const shares = parseFloat(row.copiedShares);
+      const costBasis = parseFloat(row.costBasis || row.copiedAmount || '0');
+
+      // Resolved market: the winning outcome pays out 1 USDC per share
+      const hasWinner = Array.isArray(marketInfo.tokens) && marketInfo.tokens.some((t: any) => t?.winner === true);
+      if (marketInfo.closed && hasWinner && token) {
+        const resolutionPrice = token.winner ? 1 : 0;
+        const pnl = shares * resolutionPrice - costBasis;
+
+        await update({
+          outcome: token.winner ? 'win' : 'loss',
+          resolutionPrice: resolutionPrice.toFixed(6),
+          pnl: pnl.toFixed(6),
+          resolvedAt: new Date(),
+          currentPrice: resolutionPrice.toFixed(6),
+          currentValue: (shares * resolutionPrice).toFixed(6),
+          unrealizedPnl: '0',
+          lastPriceUpdate: new Date(),
+        });
+        await publish(row.id);
+        resolved++;
+        continue;
+      }
+
+      const currentPrice = token && typeof token === 'object' && 'price' in token
+        ? parseFloat(token.price)
+        : null;
+      if (!currentPrice || currentPrice <= 0) {
+        continue;
+      }
+
+      const currentValue = shares * currentPrice;
+      await update({
+        currentPrice: currentPrice.toFixed(6),
+        currentValue: currentValue.toFixed(6),
+        unrealizedPnl: (currentValue - costBasis).toFixed(6),
+        lastPriceUpdate: new Date(),
+      });
+      await publish(row.id, 'price-update');
+    } catch (error) {
+      logger.warn('Error updating simulated position', {
+        id: row.id,
+        marketId: row.marketId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return resolved;
+}
@@ -1,6 +1,7 @@
 import { ClobClient, Side, OrderType } from '@polymarket/clob-client';
 import { config } from '../config/env';
 import { logger } from '../utils/logger';
+import { toOrderSubmissionError } from './execution-failures';
 import { getClobProxyAgent, isClobProxyEnabled } from '../utils/proxy-agent';
 import { createProxyDataTracker, ProxyDataUsage } from '../utils/proxy-data-tracker';
 import type { ProxyDataTracker } from '../utils/proxy-data-tracker';
@@ -95,16 +96,36 @@ export async function getOrderBook(tokenId: string): Promise<any> {
   return await response.json();
 }
 
+/**
+ * Base fee rate (bps) a token's orders are signed with
+ * Uses the market info rate limit
+ */
+export async function getFeeRateBps(tokenId: string): Promise<number> {
+  const { waitForRateLimit } = await import('./rate-limiter');
+  await waitForRateLimit('clob-markets');
+
+  const response = await fetch(`${CLOB_API_URL}/fee-rate?token_id=${tokenId}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch fee rate for token ${tokenId}: ${response.statusText}`);
+  }
+
+  const data = await response.json() as { base_fee?: number | string };
+  return Number(data.base_fee) || 0;
+}
+
 /**
  * Create a buy order
  * @param negRisk Set to false for negrisk markets (required by Polymarket)
+ * @param expiration Unix timestamp (seconds) the order expires at, GTD orders only
  */
 export async function createBuyOrder(
   clobClient: ClobClient,
   tokenId: string,
   price: number,
   size: string,
-  negRisk?: boolean
+  negRisk?: boolean,
+  expiration?: number
 ): Promise<any> {
   // negRisk is passed in options, not in userOrder
   const options: any = {};
@@ -118,6 +139,7 @@ export async function createBuyOrder(
     side: Side.BUY,
     size: parseFloat(size), // Convert string to number
     tokenID: tokenId,
+    ...(expiration !== undefined && { expiration }),
     },
     options // negRisk flag goes in options
   );
@@ -126,13 +148,15 @@ export async function createBuyOrder(
 /**
  * Create a sell order
  * @param negRisk Set to false for negrisk markets (required by Polymarket)
+ * @param expiration Unix timestamp (seconds) the order expires at, GTD orders only
  */
 export async function createSellOrder(
   clobClient: ClobClient,
   tokenId: string,
   price: number,
   size: string,
-  negRisk?: boolean
+  negRisk?: boolean,
+  expiration?: number
 ): Promise<any> {
   // negRisk is passed in options (CreateOrderOptions), not in userOrder
   // The library will auto-detect tickSize if not provided
@@ -148,6 +172,7 @@ export async function createSellOrder(
     side: Side.SELL,
     size: parseFloat(size), // Convert string to number
     tokenID: tokenId,
+    ...(expiration !== undefined && { expiration }),
     },
     Object.keys(options).length > 0 ? options : undefined // Only pass options if negRisk is set
   );
@@ -291,10 +316,13 @@ export function applyClobProxyPatch(): { cleanup: () => void } | null {
  * Returns order response and proxy data usage if proxy was used
  * 
  * NOTE: Proxy is ONLY used for BUY orders, not for SELL orders or other CLOB requests
+ *
+ * @param orderType FOK for copies that cross the spread, GTC/GTD for resting limit orders
  */
 export async function submitOrder(
   clobClient: ClobClient,
-  order: any
+  order: any,
+  orderType: OrderType = OrderType.FOK
 ): Promise<{ orderId: string; status: string; proxyDataUsage?: ProxyDataUsage; proxyType?: string }> {
   try {
     // Rate limit order submission
@@ -771,15 +799,15 @@ export async function submitOrder(
       }
       
       try {
-        // Use FOK (Fill-or-Kill) order type to ensure orders are filled immediately or cancelled
-        // FOK orders must be filled entirely or not at all - no partial fills, no limit orders
+        // Market-style copies use FOK (Fill-or-Kill): filled entirely or not at all
+        // Limit-order copies rest on the book as GTC/GTD and can fill partially
         const axios = require('axios');
-        logger.info('Submitting order with FOK (Fill-or-Kill) order type', {
+        logger.info(`Submitting order with ${orderType} order type`, {
           orderId: order.orderId || 'pending',
           side: order.side,
           price: order.price,
           size: order.size,
-          orderType: 'FOK',
+          orderType,
           proxyEnabled: isBuyOrder && isClobProxyEnabled(),
           axiosState: {
             maxRedirects: axios.defaults?.maxRedirects,
@@ -798,7 +826,7 @@ export async function submitOrder(
         
         // Wrap the postOrder call to capture detailed error information
         try {
-          response = await clobClient.postOrder(order, OrderType.FOK);
+          response = await clobClient.postOrder(order, orderType);
           console.log('Buy order response', response);
         } catch (orderError: any) {
           // Log comprehensive error details for redirect issues
@@ -930,8 +958,8 @@ export async function submitOrder(
             });
           }
           
-          // Re-throw the error
-          throw orderError;
+          // Re-throw the error (network errors here leave the order's fate unknown)
+          throw toOrderSubmissionError(orderError);
         }
         
         // Wait a bit for all response data to be received before getting usage stats
@@ -1104,30 +1132,30 @@ export async function submitOrder(
         );
       }
       
-      throw new Error(
+      throw toOrderSubmissionError(new Error(
         `Order submission failed: ${errorMsg} (status: ${status})`
-      );
+      ));
     }
     
     // Log successful order submission with full response details
-    logger.info('Order submitted to CLOB successfully with FOK (Fill-or-Kill) order type', {
+    logger.info(`Order submitted to CLOB successfully with ${orderType} order type`, {
       orderId: response.orderId,
       status: response.status,
       side: order.side,
       price: order.price,
       size: order.size,
-      orderType: 'FOK',
+      orderType,
       fullResponse: response, // Include full response for debugging
     });
     
     // Also log to console for visibility
-    console.log('✅ Order successfully submitted to CLOB with FOK (Fill-or-Kill) order type:', {
+    console.log(`✅ Order successfully submitted to CLOB with ${orderType} order type:`, {
       orderId: response.orderId,
       status: response.status,
       side: order.side,
       price: order.price,
       size: order.size,
-      orderType: 'FOK',
+      orderType,
       fullResponse: JSON.stringify(response, null, 2),
     });
     
@@ -1229,6 +1257,41 @@ export async function getOrderStatus(orderId: string): Promise<any> {
   return await response.json();
 }
 
+/**
+ * Shares and USDC an order actually filled, from the trades it was matched in
+ * As a maker the order fills at its own price; as a taker at each maker's price
+ * (one minus it when the maker was on the other outcome).
+ */
+export async function getOrderFills(
+  clobClient: ClobClient,
+  order: { id: string; associate_trades?: string[] }
+): Promise<{ shares: number; amount: number }> {
+  let shares = 0;
+  let amount = 0;
+
+  for (const tradeId of order.associate_trades || []) {
+    const [trade] = await clobClient.getTrades({ id: tradeId }, true);
+    if (!trade) {
+      continue;
+    }
+
+    const ownMakerOrder = trade.maker_orders.find((makerOrder) => makerOrder.order_id === order.id);
+    const matches = ownMakerOrder
+      ? [ownMakerOrder]
+      : trade.taker_order_id === order.id ? trade.maker_orders : [];
+
+    for (const match of matches) {
+      const matchedShares = parseFloat(match.matched_amount) || 0;
+      const makerPrice = parseFloat(match.price) || 0;
+      const price = ownMakerOrder || match.asset_id === trade.asset_id ? makerPrice : 1 - makerPrice;
+      shares += matchedShares;
+      amount += matchedShares * price;
+    }
+  }
+
+  return { shares, amount };
+}
+
 /**
  * Cancel an order
  * Respects rate limits: 2400 req/10s burst, 24000 req/10min sustained (40/s)
@@ -1,4 +1,5 @@
 import { ethers } from 'ethers';
+import { OrderType } from '@polymarket/clob-client';
 import { config } from '../config/env';
 import { logger } from '../utils/logger';
 import {
@@ -10,9 +11,16 @@ import {
 } from './polymarket-clob';
 import { getClobClientForUser } from './clob-client-cache';
 import { saveProxyDataUsage } from './proxy-data-usage';
+import { withUserWalletLock } from './wallet-mutex';
 
 // Removed USDC approval logic - CLOB handles approvals automatically via Safe wallets
 
+export interface LimitOrderParams {
+  orderType: 'GTC' | 'GTD';
+  price: number; // Price the order rests at instead of crossing the spread
+  expiration?: number; // Unix timestamp (seconds), GTD only
+}
+
 /**
  * Execute a buy trade on Polymarket via CLOB with Builder Program attribution
  * Returns orderId immediately, txHash available after settlement
@@ -23,6 +31,7 @@ import { saveProxyDataUsage } from './proxy-data-usage';
  * @param amountWei The amount to trade in wei (USDC has 6 decimals)
  * @param maxPrice Maximum price willing to pay
  * @param slippageTolerance Slippage tolerance (e.g., 0.05 for 5%)
+ * @param limitOrder Post a resting GTC/GTD limit order instead of a FOK order
  */
 export async function executeBuyTrade(
   userAddress: string,
@@ -30,7 +39,26 @@ export async function executeBuyTrade(
   outcomeIndex: number,
   amountWei: string,
   maxPrice: number,
-  slippageTolerance: number
+  slippageTolerance: number,
+  limitOrder?: LimitOrderParams
+): Promise<{ orderId: string; status: string; txHash?: string }> {
+  // One order per proxy wallet at a time, so concurrent buys can't spend the same balance
+  return withUserWalletLock(userAddress, () =>
+    placeBuyOrder(userAddress, marketId, outcomeIndex, amountWei, maxPrice, slippageTolerance, limitOrder)
+  );
+}
+
+/**
+ * Place a buy order (caller holds the wallet lock)
+ */
+async function placeBuyOrder(
+  userAddress: string,
+  marketId: string,
+  outcomeIndex: number,
+  amountWei: string,
+  maxPrice: number,
+  slippageTolerance: number,
+  limitOrder?: LimitOrderParams
 ): Promise<{ orderId: string; status: string; txHash?: string }> {
   // Apply proxy patch for all CLOB API calls during buy trade execution
   // This ensures createBuyOrder and submitOrder both use the proxy
@@ -237,8 +265,8 @@ export async function executeBuyTrade(
 
     // Orderbook already validated above, so we can proceed with order creation
 
-    // Calculate price with slippage
-    let priceWithSlippage = maxPrice * (1 + slippageTolerance);
+    // Calculate price with slippage (limit orders rest at their own price)
+    let priceWithSlippage = limitOrder ? limitOrder.price : maxPrice * (1 + slippageTolerance);
     
     // Cap price at maximum allowed (0.999 for binary markets)
     // Polymarket binary markets have a maximum price of 0.999 (or 1.0)
@@ -258,10 +286,15 @@ export async function executeBuyTrade(
     
     // Convert amount from wei to decimal string
     const amountDecimal = ethers.utils.formatUnits(amountWei, 6); // USDC has 6 decimals
+
+    // Limit orders are sized in shares, truncated so the order never costs more than the amount
+    const orderSize = limitOrder
+      ? (Math.floor((parseFloat(amountDecimal) / priceWithSlippage) * 100) / 100).toFixed(2)
+      : amountDecimal;
     
     // Validate minimum order size: $1 for marketable orders
     // According to Polymarket docs: marketable orders must be at least $1
-    const orderValue = parseFloat(amountDecimal) * priceWithSlippage;
+    const orderValue = parseFloat(orderSize) * priceWithSlippage;
     const MIN_ORDER_VALUE = 1.0; // $1 minimum
     
     if (orderValue < MIN_ORDER_VALUE) {
@@ -284,16 +317,18 @@ export async function executeBuyTrade(
     logger.executor('Creating buy order', {
       tokenId,
       price: priceWithSlippage,
-      size: amountDecimal,
+      size: orderSize,
       negrisk: isNegrisk ? false : undefined, // Only set if negrisk market
+      orderType: limitOrder?.orderType || 'FOK',
     });
 
     const order = await createBuyOrder(
       clobClient,
       tokenId,
       priceWithSlippage,
-      amountDecimal,
-      isNegrisk ? false : false // Set to false for negrisk markets, false otherwise (explicit)
+      orderSize,
+      isNegrisk ? false : false, // Set to false for negrisk markets, false otherwise (explicit)
+      limitOrder?.expiration
     );
 
     // Submit order to CLOB (automatically adds builder headers)
@@ -301,7 +336,7 @@ export async function executeBuyTrade(
       orderId: order.orderId || 'pending',
     });
 
-    const response = await submitOrder(clobClient, order);
+    const response = await submitOrder(clobClient, order, getOrderType(limitOrder));
 
     // Validate response
     if (!response || !response.orderId) {
@@ -397,6 +432,7 @@ export async function executeBuyTrade(
  * @param sharesWei The shares to sell in wei (shares typically have 18 decimals)
  * @param minPrice Minimum price willing to accept
  * @param slippageTolerance Slippage tolerance (e.g., 0.05 for 5%)
+ * @param limitOrder Post a resting GTC/GTD limit order instead of a FOK order
  */
 export async function executeSellTrade(
   userAddress: string,
@@ -404,7 +440,26 @@ export async function executeSellTrade(
   outcomeIndex: number,
   sharesWei: string,
   minPrice: number,
-  slippageTolerance: number
+  slippageTolerance: number,
+  limitOrder?: LimitOrderParams
+): Promise<{ orderId: string; status: string; txHash?: string }> {
+  // One order per proxy wallet at a time, so concurrent sells can't sell the same shares
+  return withUserWalletLock(userAddress, () =>
+    placeSellOrder(userAddress, marketId, outcomeIndex, sharesWei, minPrice, slippageTolerance, limitOrder)
+  );
+}
+
+/**
+ * Place a sell order (caller holds the wallet lock)
+ */
+async function placeSellOrder(
+  userAddress: string,
+  marketId: string,
+  outcomeIndex: number,
+  sharesWei: string,
+  minPrice: number,
+  slippageTolerance: number,
+  limitOrder?: LimitOrderParams
 ): Promise<{ orderId: string; status: string; txHash?: string }> {
   try {
     // Initialize CLOB client for this user (gets proxy wallet from database)
@@ -614,8 +669,8 @@ export async function executeSellTrade(
       isNegrisk = false;
     }
 
-    // Calculate min price with slippage
-    let minPriceWithSlippage = minPrice * (1 - slippageTolerance);
+    // Calculate min price with slippage (limit orders rest at their own price)
+    let minPriceWithSlippage = limitOrder ? limitOrder.price : minPrice * (1 - slippageTolerance);
     
     // Cap price at minimum allowed (0.001 for binary markets)
     // Polymarket binary markets have a minimum price of 0.001 (or 0.0)
@@ -643,6 +698,7 @@ export async function executeSellTrade(
       price: minPriceWithSlippage,
       size: sharesDecimal,
       negrisk: isNegrisk ? false : undefined, // Only set if negrisk market
+      orderType: limitOrder?.orderType || 'FOK',
     });
 
     const order = await createSellOrder(
@@ -650,7 +706,8 @@ export async function executeSellTrade(
       tokenId,
       minPriceWithSlippage,
       sharesDecimal,
-      isNegrisk ? false : undefined // Set to false for negrisk markets, undefined otherwise (library will auto-detect)
+      isNegrisk ? false : undefined, // Set to false for negrisk markets, undefined otherwise (library will auto-detect)
+      limitOrder?.expiration
     );
 
     // Submit order to CLOB (automatically adds builder headers)
@@ -658,7 +715,7 @@ export async function executeSellTrade(
       orderId: order.orderId || 'pending',
     });
 
-    const response = await submitOrder(clobClient, order);
+    const response = await submitOrder(clobClient, order, getOrderType(limitOrder));
 
     // Validate response
     if (!response || !response.orderId) {
@@ -730,4 +787,12 @@ export async function executeSellTrade(
   }
 }
 
-
+/**
+ * CLOB order type for a copy: FOK unless it's a resting limit order
+ */
+function getOrderType(limitOrder?: LimitOrderParams): OrderType {
+  if (!limitOrder) {
+    return OrderType.FOK;
+  }
+  return limitOrder.orderType === 'GTD' ? OrderType.GTD : OrderType.GTC;
+}
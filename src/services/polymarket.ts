@@ -38,37 +38,12 @@ export async function verifyTrader(address: string): Promise<TraderInfo> {
     const normalizedAddress = ethers.utils.getAddress(address.toLowerCase());
 
     // Use Polymarket Data API - fetch both activity and positions
-    const apiUrl = config.polymarket.dataApiUrl;
-    
-    // Fetch activity (trades)
-    const activityUrl = `${apiUrl}/activity?user=${normalizedAddress}&limit=1000`;
-    const activityResponse = await fetch(activityUrl, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!activityResponse.ok) {
-      throw new Error(`Activity API request failed: ${activityResponse.status} ${activityResponse.statusText}`);
-    }
-
-    const activities = await activityResponse.json();
+    const activities = await fetchTraderActivities(normalizedAddress);
 
     // Fetch positions (current holdings)
-    const positionsUrl = `${apiUrl}/positions?user=${normalizedAddress}&limit=1000`;
     let positions: any[] = [];
     try {
-      const positionsResponse = await fetch(positionsUrl, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (positionsResponse.ok) {
-        positions = await positionsResponse.json() as any[];
-      }
+      positions = await fetchTraderPositions(normalizedAddress);
     } catch (error) {
       // Positions endpoint might fail, but that's okay - we can still use activity data
       console.warn('Could not fetch positions:', error);
@@ -185,21 +160,7 @@ export async function getTraderStats(address: string): Promise<{
 }> {
   try {
     const normalizedAddress = ethers.utils.getAddress(address.toLowerCase());
-    const apiUrl = `${config.polymarket.dataApiUrl}/activity`;
-    const url = `${apiUrl}?user=${normalizedAddress}&limit=1000`;
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
-    }
-
-    const activities = await response.json();
+    const activities = await fetchTraderActivities(normalizedAddress);
 
     if (!Array.isArray(activities)) {
       return {
@@ -260,6 +221,68 @@ export async function getTraderStats(address: string): Promise<{
   }
 }
 
+/**
+ * Fetch an address's most recent activity (trades, redemptions, ...) from the Polymarket Data API
+ * Newest first, up to 1000 entries.
+ */
+export async function fetchTraderActivities(address: string): Promise<any[]> {
+  const activityUrl = `${config.polymarket.dataApiUrl}/activity?user=${address}&limit=1000`;
+
+  const response = await fetch(activityUrl, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Activity API request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const activities = await response.json();
+  return Array.isArray(activities) ? activities : [];
+}
+
+/**
+ * Fetch current positions (holdings) for an address from the Polymarket Data API
+ */
+export async function fetchTraderPositions(address: string): Promise<any[]> {
+  const normalizedAddress = ethers.utils.getAddress(address.toLowerCase());
+  const positionsUrl = `${config.polymarket.dataApiUrl}/positions?user=${normalizedAddress}&limit=1000`;
+
+  const response = await fetch(positionsUrl, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Positions API request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const positions = await response.json();
+  return Array.isArray(positions) ? positions : [];
+}
+
+/**
+ * Get the total current value (in USDC) of an address's open positions
+ * Sums `currentValue` from the Data API positions endpoint
+ */
+export async function getPortfolioValue(address: string): Promise<string> {
+  const positions = await fetchTraderPositions(address);
+
+  let totalValue = ethers.BigNumber.from(0);
+  positions.forEach((position: any) => {
+    const currentValue = parseFloat(position.currentValue);
+    if (!isNaN(currentValue) && currentValue > 0) {
+      totalValue = totalValue.add(ethers.utils.parseUnits(currentValue.toFixed(6), 6));
+    }
+  });
+
+  return ethers.utils.formatUnits(totalValue, 6);
+}
+
 /**
  * Validate Ethereum address format
  */
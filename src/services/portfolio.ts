@@ -0,0 +1,466 @@
+import { CopiedSignal, CopiedTrade } from '@prisma/client';
+import { prisma } from '../config/database';
+import { fetchTraderPositions } from './polymarket';
+import { logger } from '../utils/logger';
+
+// Statuses of copies that actually filled
+export const FILLED_STATUSES = ['executed', 'settled', 'simulated'];
+
+// Share amounts below this are rounding dust
+const SHARE_EPSILON = 0.000001;
+
+// On-chain and DB share counts within this tolerance (absolute, or relative to the on-chain size) match
+const RECONCILE_ABS_TOLERANCE = 0.01;
+const RECONCILE_REL_TOLERANCE = 0.01;
+
+export interface FifoLot {
+  shares: number;
+  price: number; // Entry price per share
+}
+
+export type PositionStatus = 'open' | 'closed' | 'resolved' | 'redeemed';
+
+export type PositionReconciliation =
+  | 'matched'
+  | 'missing_on_chain' // DB holds shares the proxy wallet doesn't
+  | 'size_mismatch'
+  | 'not_checked'; // Paper position, or the on-chain lookup failed
+
+export interface PositionLot {
+  source: 'copy_trading' | 'signal';
+  rowId: string;
+  configId: string;
+  shares: string; // Shares still held from this buy
+  price: string; // Entry price per share
+  openedAt: Date;
+}
+
+export interface PositionContributor {
+  configId: string;
+  source: 'copy_trading' | 'signal';
+  label: string; // Copied trader address or signal category
+  boughtShares: string;
+  soldShares: string;
+}
+
+export interface PortfolioPosition {
+  marketId: string;
+  outcomeIndex: number;
+  marketQuestion: string | null;
+  isPaper: boolean;
+  status: PositionStatus;
+  netShares: string;
+  averageEntryPrice: string | null;
+  costBasis: string; // Cost of the open lots
+  currentPrice: string | null;
+  currentValue: string | null;
+  realizedPnl: string; // FIFO sells, plus the payout of resolved lots
+  unrealizedPnl: string | null;
+  lots: PositionLot[]; // Open lots, oldest first
+  contributors: PositionContributor[];
+  onChainShares: string | null;
+  reconciliation: PositionReconciliation;
+}
+
+export interface UntrackedPosition {
+  marketId: string;
+  outcomeIndex: number;
+  title: string | null;
+  shares: string;
+  currentPrice: string | null;
+  currentValue: string | null;
+}
+
+export interface PortfolioPositions {
+  positions: PortfolioPosition[];
+  untrackedOnChain: UntrackedPosition[]; // Held by the proxy wallet with no copied trade behind it
+  onChainChecked: boolean;
+  totals: {
+    costBasis: string;
+    currentValue: string;
+    realizedPnl: string;
+    unrealizedPnl: string;
+  };
+}
+
+interface PositionRow {
+  source: 'copy_trading' | 'signal';
+  id: string;
+  configId: string;
+  label: string;
+  marketId: string;
+  marketQuestion: string | null;
+  outcomeIndex: number;
+  tradeType: string;
+  isPaper: boolean;
+  copiedAmount: string;
+  copiedPrice: string | null;
+  copiedShares: string | null;
+  costBasis: string | null;
+  currentPrice: string | null;
+  lastPriceUpdate: Date | null;
+  resolutionPrice: string | null;
+  redemptionStatus: string | null;
+  filledAt: Date;
+}
+
+interface OnChainPosition {
+  shares: number;
+  title: string | null;
+  currentPrice: number | null;
+  currentValue: number | null;
+}
+
+/**
+ * Net positions per token (market + outcome) across a user's copied trades and signals
+ *
+ * Buys open lots, sells and exits close them first-in first-out. Live positions
+ * are reconciled against the proxy wallet's holdings from the Data API.
+ */
+export async function getUserPositions(
+  userId: string,
+  options: { mode?: 'live' | 'paper'; includeClosed?: boolean } = {}
+): Promise<PortfolioPositions> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const isPaperFilter = options.mode ? { isPaper: options.mode === 'paper' } : {};
+  const [trades, signals] = await Promise.all([
+    prisma.copiedTrade.findMany({
+      where: { config: { userId }, status: { in: FILLED_STATUSES }, ...isPaperFilter },
+      include: { config: true },
+    }),
+    prisma.copiedSignal.findMany({
+      where: { config: { userId }, status: { in: FILLED_STATUSES }, ...isPaperFilter },
+    }),
+  ]);
+
+  const rows: PositionRow[] = [
+    ...trades.map((trade) => toPositionRow('copy_trading', trade, trade.config.targetTraderAddress)),
+    ...signals.map((signal) => toPositionRow('signal', signal, signal.category)),
+  ];
+
+  const groups = new Map<string, PositionRow[]>();
+  for (const row of rows) {
+    const key = getPositionKey(row.marketId, row.outcomeIndex, row.isPaper);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(row);
+  }
+
+  let onChain: Map<string, OnChainPosition> | null = null;
+  if (options.mode !== 'paper' && user.proxyWallet) {
+    onChain = await getOnChainPositions(user.proxyWallet);
+  }
+
+  const positions: PortfolioPosition[] = [];
+  for (const [key, group] of groups) {
+    const position = buildPosition(group);
+    const onChainPosition = !position.isPaper ? onChain?.get(key) : undefined;
+
+    if (onChain && !position.isPaper) {
+      applyReconciliation(position, onChainPosition);
+      onChain.delete(key);
+    }
+
+    const isFlagged = position.reconciliation === 'missing_on_chain' || position.reconciliation === 'size_mismatch';
+    if (position.status !== 'open' && !options.includeClosed && !isFlagged) {
+      continue;
+    }
+    positions.push(position);
+  }
+
+  const untrackedOnChain: UntrackedPosition[] = [];
+  for (const [key, position] of onChain || []) {
+    const [, marketId, outcomeIndex] = key.split(':');
+    untrackedOnChain.push({
+      marketId,
+      outcomeIndex: parseInt(outcomeIndex, 10),
+      title: position.title,
+      shares: position.shares.toFixed(6),
+      currentPrice: position.currentPrice !== null ? position.currentPrice.toFixed(6) : null,
+      currentValue: position.currentValue !== null ? position.currentValue.toFixed(6) : null,
+    });
+  }
+
+  positions.sort((a, b) => parseFloat(b.currentValue || b.costBasis) - parseFloat(a.currentValue || a.costBasis));
+
+  const sum = (values: Array<string | null>) =>
+    values.reduce((total, value) => total + (value ? parseFloat(value) : 0), 0).toFixed(6);
+
+  return {
+    positions,
+    untrackedOnChain,
+    onChainChecked: onChain !== null,
+    totals: {
+      costBasis: sum(positions.map((p) => p.costBasis)),
+      currentValue: sum(positions.map((p) => p.currentValue)),
+      realizedPnl: sum(positions.map((p) => p.realizedPnl)),
+      unrealizedPnl: sum(positions.map((p) => p.unrealizedPnl)),
+    },
+  };
+}
+
+/**
+ * Realized and unrealized PnL of a set of copied trades and signals, per token FIFO
+ *
+ * Realized PnL covers sells, exits and resolved or redeemed lots; the remaining
+ * shares are marked at their last price (at cost if never marked).
+ */
+export function calculateFifoPnl(
+  trades: CopiedTrade[],
+  signals: CopiedSignal[]
+): { realizedPnl: number; unrealizedPnl: number; positionsValue: number } {
+  const isFilled = (row: { status: string }) => FILLED_STATUSES.includes(row.status);
+  const rows: PositionRow[] = [
+    ...trades.filter(isFilled).map((trade) => toPositionRow('copy_trading', trade, '')),
+    ...signals.filter(isFilled).map((signal) => toPositionRow('signal', signal, signal.category)),
+  ];
+
+  const groups = new Map<string, PositionRow[]>();
+  for (const row of rows) {
+    const key = getPositionKey(row.marketId, row.outcomeIndex, row.isPaper);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(row);
+  }
+
+  const totals = { realizedPnl: 0, unrealizedPnl: 0, positionsValue: 0 };
+  for (const group of groups.values()) {
+    const position = buildPosition(group);
+    totals.realizedPnl += parseFloat(position.realizedPnl);
+    totals.unrealizedPnl += position.unrealizedPnl !== null ? parseFloat(position.unrealizedPnl) : 0;
+    totals.positionsValue += parseFloat(position.currentValue ?? position.costBasis);
+  }
+
+  return totals;
+}
+
+/**
+ * Close shares against the oldest lots first; lots are consumed in place
+ *
+ * @returns Shares matched to lots (less than requested if the lots run out) and their entry cost
+ */
+export function closeFifoLots(lots: FifoLot[], shares: number): { closedShares: number; costBasis: number } {
+  let remaining = shares;
+  let costBasis = 0;
+
+  while (remaining > SHARE_EPSILON && lots.length > 0) {
+    const lot = lots[0];
+    const matched = Math.min(lot.shares, remaining);
+    costBasis += matched * lot.price;
+    lot.shares -= matched;
+    remaining -= matched;
+    if (lot.shares <= SHARE_EPSILON) {
+      lots.shift();
+    }
+  }
+
+  return { closedShares: shares - Math.max(remaining, 0), costBasis };
+}
+
+/**
+ * Replay a token's fills in order: buys open lots, sells close the oldest lots first
+ */
+function buildPosition(group: PositionRow[]): PortfolioPosition {
+  const rows = [...group].sort((a, b) => a.filledAt.getTime() - b.filledAt.getTime());
+  const lots: Array<FifoLot & { row: PositionRow }> = [];
+  const contributors = new Map<string, { row: PositionRow; bought: number; sold: number }>();
+  let realizedPnl = 0;
+
+  for (const row of rows) {
+    const shares = parseFloat(row.copiedShares || '0') || 0;
+    if (shares <= SHARE_EPSILON) {
+      continue;
+    }
+
+    if (!contributors.has(row.configId)) {
+      contributors.set(row.configId, { row, bought: 0, sold: 0 });
+    }
+    const contributor = contributors.get(row.configId)!;
+
+    if (row.tradeType === 'buy') {
+      const cost = parseFloat(row.costBasis || row.copiedAmount || '0') || 0;
+      lots.push({ row, shares, price: cost > 0 ? cost / shares : parseFloat(row.copiedPrice || '0') || 0 });
+      contributor.bought += shares;
+      continue;
+    }
+
+    // Sells and exits
+    const proceeds = parseFloat(row.copiedAmount || '0') || 0;
+    const sellPrice = proceeds > 0 ? proceeds / shares : parseFloat(row.copiedPrice || '0') || 0;
+    contributor.sold += shares;
+
+    const { closedShares, costBasis } = closeFifoLots(lots, shares);
+    realizedPnl += closedShares * sellPrice - costBasis;
+  }
+
+  const latest = rows[rows.length - 1];
+  const resolutionRow = rows.find((row) => row.resolutionPrice !== null);
+  const isRedeemed = rows.some((row) => row.tradeType === 'buy' && row.redemptionStatus === 'redeemed');
+  const pricedRow = rows
+    .filter((row) => row.currentPrice !== null)
+    .sort((a, b) => (b.lastPriceUpdate?.getTime() || 0) - (a.lastPriceUpdate?.getTime() || 0))[0];
+
+  let currentPrice = pricedRow ? parseFloat(pricedRow.currentPrice!) : null;
+  let status: PositionStatus = 'open';
+  if (resolutionRow) {
+    status = 'resolved';
+    currentPrice = parseFloat(resolutionRow.resolutionPrice!);
+  } else if (isRedeemed) {
+    status = 'redeemed';
+  }
+
+  let netShares = lots.reduce((total, lot) => total + lot.shares, 0);
+  let openCost = lots.reduce((total, lot) => total + lot.shares * lot.price, 0);
+
+  // Resolved or redeemed lots are paid out (at 1 or 0 per share) rather than held
+  if (status !== 'open') {
+    if (currentPrice !== null) {
+      realizedPnl += netShares * currentPrice - openCost;
+    }
+    lots.length = 0;
+    netShares = 0;
+    openCost = 0;
+  } else if (netShares <= SHARE_EPSILON) {
+    status = 'closed';
+  }
+
+  const currentValue = status === 'open' && currentPrice !== null ? netShares * currentPrice : null;
+
+  return {
+    marketId: latest.marketId,
+    outcomeIndex: latest.outcomeIndex,
+    marketQuestion: rows.find((row) => row.marketQuestion)?.marketQuestion || null,
+    isPaper: latest.isPaper,
+    status,
+    netShares: netShares.toFixed(6),
+    averageEntryPrice: netShares > SHARE_EPSILON ? (openCost / netShares).toFixed(6) : null,
+    costBasis: openCost.toFixed(6),
+    currentPrice: currentPrice !== null ? currentPrice.toFixed(6) : null,
+    currentValue: currentValue !== null ? currentValue.toFixed(6) : null,
+    realizedPnl: realizedPnl.toFixed(6),
+    unrealizedPnl: currentValue !== null ? (currentValue - openCost).toFixed(6) : null,
+    lots: lots.map((lot) => ({
+      source: lot.row.source,
+      rowId: lot.row.id,
+      configId: lot.row.configId,
+      shares: lot.shares.toFixed(6),
+      price: lot.price.toFixed(6),
+      openedAt: lot.row.filledAt,
+    })),
+    contributors: Array.from(contributors.entries()).map(([configId, contributor]) => ({
+      configId,
+      source: contributor.row.source,
+      label: contributor.row.label,
+      boughtShares: contributor.bought.toFixed(6),
+      soldShares: contributor.sold.toFixed(6),
+    })),
+    onChainShares: null,
+    reconciliation: 'not_checked',
+  };
+}
+
+/**
+ * Compare a live position's net shares with what the proxy wallet holds
+ * Uses the on-chain price when the DB has no fresher one.
+ */
+function applyReconciliation(position: PortfolioPosition, onChainPosition: OnChainPosition | undefined): void {
+  const dbShares = parseFloat(position.netShares);
+  const chainShares = onChainPosition?.shares || 0;
+  position.onChainShares = chainShares.toFixed(6);
+
+  if (dbShares <= SHARE_EPSILON && chainShares <= SHARE_EPSILON) {
+    position.reconciliation = 'matched';
+  } else if (chainShares <= SHARE_EPSILON) {
+    position.reconciliation = 'missing_on_chain';
+  } else {
+    const tolerance = Math.max(RECONCILE_ABS_TOLERANCE, chainShares * RECONCILE_REL_TOLERANCE);
+    position.reconciliation = Math.abs(dbShares - chainShares) <= tolerance ? 'matched' : 'size_mismatch';
+  }
+
+  if (position.status === 'open' && position.currentPrice === null && onChainPosition?.currentPrice != null) {
+    const currentValue = dbShares * onChainPosition.currentPrice;
+    position.currentPrice = onChainPosition.currentPrice.toFixed(6);
+    position.currentValue = currentValue.toFixed(6);
+    position.unrealizedPnl = (currentValue - parseFloat(position.costBasis)).toFixed(6);
+  }
+}
+
+/**
+ * Proxy wallet holdings keyed like DB positions; null if the Data API can't be reached
+ */
+async function getOnChainPositions(proxyWallet: string): Promise<Map<string, OnChainPosition> | null> {
+  try {
+    const holdings = await fetchTraderPositions(proxyWallet);
+    const positions = new Map<string, OnChainPosition>();
+
+    for (const holding of holdings) {
+      const shares = parseFloat(holding.size);
+      const outcomeIndex = parseInt(holding.outcomeIndex, 10);
+      if (!holding.conditionId || isNaN(outcomeIndex) || !(shares > RECONCILE_ABS_TOLERANCE)) {
+        continue;
+      }
+
+      const currentPrice = parseFloat(holding.curPrice);
+      const currentValue = parseFloat(holding.currentValue);
+      positions.set(getPositionKey(holding.conditionId, outcomeIndex, false), {
+        shares,
+        title: holding.title || null,
+        currentPrice: isNaN(currentPrice) ? null : currentPrice,
+        currentValue: isNaN(currentValue) ? null : currentValue,
+      });
+    }
+
+    return positions;
+  } catch (error) {
+    logger.warn('Could not fetch on-chain positions for reconciliation', {
+      proxyWallet,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+function getPositionKey(marketId: string, outcomeIndex: number, isPaper: boolean): string {
+  return `${isPaper ? 'paper' : 'live'}:${marketId.toLowerCase()}:${outcomeIndex}`;
+}
+
+function toPositionRow(source: PositionRow['source'], row: any, label: string): PositionRow {
+  return {
+    source,
+    id: row.id,
+    configId: row.configId,
+    label,
+    marketId: row.marketId,
+    marketQuestion: row.marketQuestion,
+    outcomeIndex: row.outcomeIndex,
+    tradeType: row.tradeType,
+    isPaper: !!row.isPaper,
+    copiedAmount: row.copiedAmount,
+    copiedPrice: row.copiedPrice,
+    copiedShares: row.copiedShares,
+    costBasis: row.costBasis,
+    currentPrice: row.currentPrice,
+    lastPriceUpdate: row.lastPriceUpdate,
+    resolutionPrice: row.resolutionPrice,
+    redemptionStatus: row.redemptionStatus,
+    filledAt: getFilledAt(row),
+  };
+}
+
+/**
+ * When a copied trade or signal filled, falling back to when it was placed
+ */
+export function getFilledAt(row: {
+  executedAt: Date | null;
+  settledAt: Date | null;
+  submittedAt: Date | null;
+  createdAt: Date;
+}): Date {
+  return row.executedAt || row.settledAt || row.submittedAt || row.createdAt;
+}
@@ -0,0 +1,326 @@
+import { randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import { prisma } from '../config/database';
+import { updateTradeCurrentValue } from './trade-history';
+import { getNetCopiedShares } from './position-sizer';
+import { executeSellTrade } from './polymarket-executor';
+import { monitorOrderSettlement } from './order-monitor';
+import { SIMULATED_STATUS, getOutcomeTokenId, simulateFill } from './paper-trading';
+import { logger } from '../utils/logger';
+import { publishCopiedTradeEvent } from './trading-events';
+
+export type ExitReason = 'stop_loss' | 'take_profit' | 'trailing_stop';
+
+// Don't retry a failed exit for the same position more often than this
+const EXIT_RETRY_COOLDOWN_MS = 5 * 60 * 1000;
+
+interface OpenPosition {
+  marketId: string;
+  outcomeIndex: number;
+  marketQuestion: string | null;
+  buyTrades: any[];
+}
+
+/**
+ * Check open copied positions against each config's stop-loss, take-profit
+ * and trailing stop thresholds, and sell positions that cross them
+ *
+ * Runs for authorized configs even when copying is paused, so exits keep
+ * protecting positions that are already open.
+ *
+ * @returns Number of exits submitted
+ */
+export async function checkPositionExits(): Promise<number> {
+  const configs = await prisma.copyTradingConfig.findMany({
+    where: {
+      authorized: true,
+    },
+    include: {
+      user: true,
+    },
+  });
+
+  const exitConfigs = configs.filter((c: any) =>
+    c.stopLossPercent || c.takeProfitPercent || c.trailingStopPercent
+  );
+
+  let exitsSubmitted = 0;
+
+  for (const copyConfig of exitConfigs) {
+    try {
+      exitsSubmitted += await checkConfigPositionExits(copyConfig);
+    } catch (error) {
+      logger.error('Error checking position exits for config', {
+        configId: copyConfig.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return exitsSubmitted;
+}
+
+/**
+ * Check all open positions of a single config
+ */
+async function checkConfigPositionExits(copyConfig: any): Promise<number> {
+  // Open positions are settled buys in markets that haven't resolved yet
+  // (simulated buys for paper configs)
+  const isPaper = copyConfig.mode === 'paper';
+  const buyTrades = await prisma.copiedTrade.findMany({
+    where: {
+      configId: copyConfig.id,
+      tradeType: 'buy',
+      status: isPaper ? SIMULATED_STATUS : 'settled',
+      isPaper,
+      outcome: null,
+    },
+  });
+
+  const positions = new Map<string, OpenPosition>();
+  for (const trade of buyTrades) {
+    if (trade.redemptionStatus) {
+      continue; // Market closed, redemption takes over
+    }
+    const key = `${trade.marketId}-${trade.outcomeIndex}`;
+    if (!positions.has(key)) {
+      positions.set(key, {
+        marketId: trade.marketId,
+        outcomeIndex: trade.outcomeIndex,
+        marketQuestion: trade.marketQuestion,
+        buyTrades: [],
+      });
+    }
+    positions.get(key)!.buyTrades.push(trade);
+  }
+
+  let exitsSubmitted = 0;
+
+  for (const position of positions.values()) {
+    try {
+      if (await checkPositionExit(copyConfig, position)) {
+        exitsSubmitted++;
+      }
+    } catch (error) {
+      logger.error('Error checking position exit', {
+        configId: copyConfig.id,
+        marketId: position.marketId,
+        outcomeIndex: position.outcomeIndex,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return exitsSubmitted;
+}
+
+/**
+ * Refresh prices for a position and submit an exit if a threshold is crossed
+ *
+ * @returns true if an exit order was submitted
+ */
+async function checkPositionExit(copyConfig: any, position: OpenPosition): Promise<boolean> {
+  // Filled sells and exits, plus pending ones already submitted to the CLOB, are
+  // netted out, so a position that's already being exited won't trigger a second exit
+  const netShares = await getNetCopiedShares(copyConfig.id, position.marketId, position.outcomeIndex);
+  const heldShares = position.buyTrades.reduce((sum, t) => sum + parseFloat(t.copiedShares || '0'), 0);
+  const sharesToSell = Math.min(netShares, heldShares);
+
+  if (sharesToSell <= 0) {
+    return false;
+  }
+
+  if (await hasRecentFailedExit(copyConfig.id, position)) {
+    return false;
+  }
+
+  // Refresh current prices using the same pricing as trade history
+  for (const trade of position.buyTrades) {
+    await updateTradeCurrentValue(trade.id);
+  }
+
+  const buyTrades = await prisma.copiedTrade.findMany({
+    where: {
+      id: { in: position.buyTrades.map((t) => t.id) },
+    },
+  });
+
+  const currentPrice = Math.max(...buyTrades.map((t) => parseFloat(t.currentPrice || '0')));
+  if (!currentPrice || currentPrice <= 0) {
+    return false;
+  }
+
+  const totalCost = buyTrades.reduce((sum, t) => sum + parseFloat(t.costBasis || t.copiedAmount || '0'), 0);
+  const totalShares = buyTrades.reduce((sum, t) => sum + parseFloat(t.copiedShares || '0'), 0);
+  if (totalShares <= 0 || totalCost <= 0) {
+    return false;
+  }
+
+  const averageEntryPrice = totalCost / totalShares;
+  const pnlPercent = ((currentPrice - averageEntryPrice) / averageEntryPrice) * 100;
+
+  // Highest price seen since entry, starting from the entry price
+  const previousPeak = Math.max(
+    averageEntryPrice,
+    ...buyTrades.map((t) => parseFloat(t.peakPrice || '0'))
+  );
+  const peakPrice = Math.max(previousPeak, currentPrice);
+
+  if (copyConfig.trailingStopPercent && peakPrice > previousPeak) {
+    await prisma.copiedTrade.updateMany({
+      where: {
+        id: { in: buyTrades.map((t) => t.id) },
+      },
+      data: {
+        peakPrice: peakPrice.toFixed(6),
+      },
+    });
+  }
+
+  let exitReason: ExitReason | null = null;
+
+  if (copyConfig.stopLossPercent && pnlPercent <= -parseFloat(copyConfig.stopLossPercent)) {
+    exitReason = 'stop_loss';
+  } else if (copyConfig.takeProfitPercent && pnlPercent >= parseFloat(copyConfig.takeProfitPercent)) {
+    exitReason = 'take_profit';
+  } else if (
+    copyConfig.trailingStopPercent &&
+    currentPrice <= peakPrice * (1 - parseFloat(copyConfig.trailingStopPercent) / 100)
+  ) {
+    exitReason = 'trailing_stop';
+  }
+
+  if (!exitReason) {
+    return false;
+  }
+
+  console.log(`🚪 ${exitReason} triggered for config ${copyConfig.id} (${position.marketId}/${position.outcomeIndex}): entry ${averageEntryPrice.toFixed(4)}, peak ${peakPrice.toFixed(4)}, now ${currentPrice.toFixed(4)} (${pnlPercent.toFixed(2)}%)`);
+
+  return submitExit(copyConfig, position, exitReason, sharesToSell, currentPrice);
+}
+
+/**
+ * Check whether an exit for this position failed recently
+ */
+async function hasRecentFailedExit(configId: string, position: OpenPosition): Promise<boolean> {
+  const failedExits = await prisma.copiedTrade.findMany({
+    where: {
+      configId,
+      marketId: position.marketId,
+      outcomeIndex: position.outcomeIndex,
+      tradeType: 'exit',
+      status: 'failed',
+    },
+  });
+
+  const cutoff = Date.now() - EXIT_RETRY_COOLDOWN_MS;
+  return failedExits.some((t: any) => new Date(t.createdAt).getTime() > cutoff);
+}
+
+/**
+ * Record an exit trade and sell the whole position via the CLOB
+ */
+async function submitExit(
+  copyConfig: any,
+  position: OpenPosition,
+  exitReason: ExitReason,
+  shares: number,
+  currentPrice: number
+): Promise<boolean> {
+  const sharesString = shares.toFixed(6);
+  const amount = (shares * currentPrice).toFixed(6);
+
+  const exitTrade = await prisma.copiedTrade.create({
+    data: {
+      configId: copyConfig.id,
+      originalTrader: copyConfig.targetTraderAddress,
+      originalTxHash: `exit:${randomUUID()}`,
+      marketId: position.marketId,
+      marketQuestion: position.marketQuestion,
+      outcomeIndex: position.outcomeIndex,
+      tradeType: 'exit',
+      exitReason,
+      originalAmount: amount,
+      originalPrice: currentPrice.toFixed(6),
+      originalShares: sharesString,
+      copiedAmount: amount,
+      copiedPrice: currentPrice.toFixed(6),
+      copiedShares: sharesString,
+      status: 'pending',
+      isPaper: copyConfig.mode === 'paper',
+    },
+  });
+
+  try {
+    if (copyConfig.mode === 'paper') {
+      const tokenId = await getOutcomeTokenId(position.marketId, position.outcomeIndex);
+      const fill = await simulateFill(
+        tokenId,
+        'sell',
+        shares,
+        currentPrice,
+        parseFloat(copyConfig.slippageTolerance || '0.05')
+      );
+
+      await prisma.copiedTrade.update({
+        where: { id: exitTrade.id },
+        data: {
+          status: SIMULATED_STATUS,
+          orderStatus: 'SIMULATED',
+          copiedAmount: fill.amount,
+          copiedPrice: fill.averagePrice,
+          copiedShares: fill.shares,
+          submittedAt: new Date(),
+          executedAt: new Date(),
+          settledAt: new Date(),
+        },
+      });
+
+      console.log(`📝 Paper exit ${exitTrade.id} (${exitReason}) simulated: ${fill.shares} shares @ ${fill.averagePrice}`);
+      return true;
+    }
+
+    const executionResult = await executeSellTrade(
+      copyConfig.user.address,
+      position.marketId,
+      position.outcomeIndex,
+      ethers.utils.parseUnits(sharesString, 18).toString(),
+      currentPrice,
+      parseFloat(copyConfig.slippageTolerance || '0.05')
+    );
+
+    await prisma.copiedTrade.update({
+      where: { id: exitTrade.id },
+      data: {
+        orderId: executionResult.orderId,
+        orderStatus: executionResult.status,
+        submittedAt: new Date(),
+      },
+    });
+
+    console.log(`✅ Exit ${exitTrade.id} (${exitReason}) order submitted to CLOB: ${executionResult.orderId}`);
+
+    monitorOrderSettlement(executionResult.orderId, exitTrade.id).catch((error) => {
+      console.error(`⚠️ Error monitoring order settlement for ${executionResult.orderId}:`, error);
+    });
+
+    return true;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`❌ Exit ${exitTrade.id} (${exitReason}) failed:`, errorMessage);
+
+    await prisma.copiedTrade.update({
+      where: { id: exitTrade.id },
+      data: {
+        status: 'failed',
+        errorMessage,
+        failureReason: 'exit_order_failed',
+        failureCategory: 'execution',
+      },
+    });
+
+    return false;
+  } finally {
+    await publishCopiedTradeEvent(exitTrade.id);
+  }
+}
@@ -6,6 +6,9 @@ import { config } from '../config/env';
 import { prisma } from '../config/database';
 import { checkMarketStatus } from './market-status';
 import { logger } from '../utils/logger';
+import { withWalletLock } from './wallet-mutex';
+import { emitUserEvent } from './notifications';
+import { publishCopiedSignalEvent, publishCopiedTradeEvent } from './trading-events';
 
 // CTF (Conditional Token Framework) Interface for redeemPositions
 const CTF_INTERFACE = new Interface([
@@ -199,8 +202,10 @@ export async function redeemPositions(
 
     // Execute redemption via relayer
     const relayerClient = createRelayerClientForUser(user.address);
-    const response = await relayerClient.execute([redeemTx], 'Redeem position');
-    const result = await response.wait();
+    const result = await withWalletLock(user.proxyWallet, async () => {
+      const response = await relayerClient.execute([redeemTx], 'Redeem position');
+      return response.wait();
+    });
 
     if (result && result.transactionHash) {
       // Update trade with redemption info
@@ -218,6 +223,17 @@ export async function redeemPositions(
         txHash: result.transactionHash,
       });
 
+      await publishCopiedTradeEvent(copiedTradeId);
+      await emitUserEvent(user.id, 'position.redeemed', `position.redeemed:${copiedTradeId}`, {
+        source: 'copy_trading',
+        tradeId: copiedTradeId,
+        configId: trade.configId,
+        marketId: trade.marketId,
+        marketQuestion: trade.marketQuestion,
+        outcomeIndex: trade.outcomeIndex,
+        txHash: result.transactionHash,
+      });
+
       return {
         success: true,
         txHash: result.transactionHash,
@@ -400,8 +416,10 @@ export async function redeemSignalPositions(
 
     // Execute redemption via relayer
     const relayerClient = createRelayerClientForUser(user.address);
-    const response = await relayerClient.execute([redeemTx], 'Redeem signal position');
-    const result = await response.wait();
+    const result = await withWalletLock(user.proxyWallet, async () => {
+      const response = await relayerClient.execute([redeemTx], 'Redeem signal position');
+      return response.wait();
+    });
 
     if (result && result.transactionHash) {
       // Update signal with redemption info
@@ -419,6 +437,17 @@ export async function redeemSignalPositions(
         txHash: result.transactionHash,
       });
 
+      await publishCopiedSignalEvent(copiedSignalId);
+      await emitUserEvent(user.id, 'position.redeemed', `position.redeemed:${copiedSignalId}`, {
+        source: 'signal',
+        signalId: copiedSignalId,
+        configId: signal.configId,
+        marketId: signal.marketId,
+        marketQuestion: signal.marketQuestion,
+        outcomeIndex: signal.outcomeIndex,
+        txHash: result.transactionHash,
+      });
+
       return {
         success: true,
         txHash: result.transactionHash,
@@ -2,6 +2,8 @@ import { ethers } from 'ethers';
 import { prisma } from '../config/database';
 import { config } from '../config/env';
 import { matchesCategory } from './category-inference';
+import { getPortfolioValue, fetchTraderActivities, fetchTraderPositions } from './polymarket';
+import { FILLED_STATUSES } from './portfolio';
 
 export interface PositionSizeResult {
   amount: string; // Amount in USDC (as string to preserve precision)
@@ -10,6 +12,15 @@ export interface PositionSizeResult {
   balance: string; // User's current balance in USDC
 }
 
+export interface SellPositionSizeResult {
+  sellFraction: number; // Fraction (0-1) of the trader's holding that was sold
+  isFullExit: boolean; // Whether the trader fully exited the position
+  netShares: string; // Our net shares held for this market/outcome
+  shares: string; // Shares we should sell
+  sharesWei: string; // Shares in wei (18 decimals, matching executeSellTrade)
+  amount: string; // Estimated USDC value of the sell (shares * price)
+}
+
 /**
  * Calculate position size for a copied trade
  */
@@ -38,7 +49,51 @@ export async function calculatePositionSize(
   }
 
   // Get user's USDC balance
-  const balance = await getUserUSDCBalance(copyConfig.user.proxyWallet);
+  // Paper configs trade against their unused allocation instead of the Safe's real balance
+  const balance = copyConfig.mode === 'paper'
+    ? Math.max(parseFloat(copyConfig.allocatedUSDCAmount || '0') - parseFloat(copyConfig.usedUSDCAmount || '0'), 0).toFixed(6)
+    : await getUserUSDCBalance(copyConfig.user.proxyWallet);
+
+  // Portfolio values are only needed for proportional sizing
+  let portfolio: { traderPortfolioValue: string; ourPositionsValue: string } | undefined;
+  if (copyConfig.amountType === 'proportionalToPortfolio') {
+    portfolio = {
+      traderPortfolioValue: await getTraderPortfolioValue(copyConfig.targetTraderAddress),
+      ourPositionsValue: copyConfig.mode === 'paper'
+        ? '0'
+        : await getPortfolioValue(copyConfig.user.proxyWallet),
+    };
+  }
+
+  return calculatePositionAmount(copyConfig, originalAmount, tradeType, balance, portfolio);
+}
+
+/**
+ * A trader's portfolio value for proportional sizing: USDC balance plus open positions
+ * Measured the same way as ours, so a trader sitting mostly in cash isn't sized as all-in.
+ */
+export async function getTraderPortfolioValue(traderAddress: string): Promise<string> {
+  const [positionsValue, balance] = await Promise.all([
+    getPortfolioValue(traderAddress),
+    getUserUSDCBalance(traderAddress),
+  ]);
+  const totalWei = ethers.utils.parseUnits(positionsValue, 6).add(ethers.utils.parseUnits(balance, 6));
+  return ethers.utils.formatUnits(totalWei, 6);
+}
+
+/**
+ * Apply a config's sizing rules to a trade, given the balance (and portfolio
+ * values for proportionalToPortfolio) to size against
+ *
+ * Shared by live sizing and backtests, which supply simulated balances.
+ */
+export function calculatePositionAmount(
+  sizing: { amountType: string; buyAmount: string; sellAmount: string },
+  originalAmount: string,
+  tradeType: 'buy' | 'sell',
+  balance: string,
+  portfolio?: { traderPortfolioValue: string; ourPositionsValue: string }
+): PositionSizeResult {
   const balanceWei = ethers.utils.parseUnits(balance, 6); // USDC has 6 decimals
 
   let amount: ethers.BigNumber;
@@ -46,26 +101,55 @@ export async function calculatePositionSize(
   const originalAmountStr = String(originalAmount);
   const originalAmountWei = ethers.utils.parseUnits(originalAmountStr, 6);
 
-  if (copyConfig.amountType === 'fixed') {
+  if (sizing.amountType === 'fixed') {
     // Fixed amount: use the configured amount
     // Ensure it's a string (parseUnits requires string)
-    const fixedAmount = String(tradeType === 'buy' ? copyConfig.buyAmount : copyConfig.sellAmount);
+    const fixedAmount = String(tradeType === 'buy' ? sizing.buyAmount : sizing.sellAmount);
     amount = ethers.utils.parseUnits(fixedAmount, 6);
-  } else if (copyConfig.amountType === 'percentage') {
+  } else if (sizing.amountType === 'percentage') {
     // Percentage: calculate percentage of user's balance
     // Ensure it's a string before parsing
-    const percentage = String(tradeType === 'buy' ? copyConfig.buyAmount : copyConfig.sellAmount);
+    const percentage = String(tradeType === 'buy' ? sizing.buyAmount : sizing.sellAmount);
     const percentageDecimal = parseFloat(percentage) / 100;
     amount = balanceWei.mul(Math.floor(percentageDecimal * 10000)).div(10000); // Preserve precision
-  } else if (copyConfig.amountType === 'percentageOfOriginal') {
+  } else if (sizing.amountType === 'percentageOfOriginal') {
     // Percentage of original: calculate percentage of the original trader's trade amount
     // Ensure it's a string before parsing
-    const percentage = String(tradeType === 'buy' ? copyConfig.buyAmount : copyConfig.sellAmount);
+    const percentage = String(tradeType === 'buy' ? sizing.buyAmount : sizing.sellAmount);
     const percentageDecimal = parseFloat(percentage) / 100;
     // Calculate: originalAmount * (percentage / 100)
     amount = originalAmountWei.mul(Math.floor(percentageDecimal * 10000)).div(10000); // Preserve precision
+  } else if (sizing.amountType === 'proportionalToPortfolio') {
+    // Proportional to portfolio: mirror the trader's conviction rather than their ticket size
+    // copied = (originalAmount / traderPortfolioValue) * ourPortfolioValue * (percentage / 100)
+    const percentage = String(tradeType === 'buy' ? sizing.buyAmount : sizing.sellAmount);
+    const percentageDecimal = parseFloat(percentage) / 100;
+
+    if (!portfolio) {
+      throw new Error('Portfolio values are required for proportionalToPortfolio sizing');
+    }
+
+    const traderPortfolioWei = ethers.utils.parseUnits(portfolio.traderPortfolioValue, 6);
+
+    // Both portfolios are idle USDC + open positions value (see getTraderPortfolioValue)
+    // The trader's portfolio should include the position they just opened/closed;
+    // if the Data API hasn't caught up yet, fall back to the trade amount itself
+    const traderValueWei = traderPortfolioWei.gt(originalAmountWei) ? traderPortfolioWei : originalAmountWei;
+
+    if (traderValueWei.isZero()) {
+      throw new Error('Unable to determine trader portfolio value');
+    }
+
+    // Our portfolio = idle USDC in the Safe + current value of open positions
+    const ourPortfolioWei = balanceWei.add(ethers.utils.parseUnits(portfolio.ourPositionsValue, 6));
+
+    amount = originalAmountWei
+      .mul(ourPortfolioWei)
+      .div(traderValueWei)
+      .mul(Math.floor(percentageDecimal * 10000))
+      .div(10000); // Preserve precision
   } else {
-    throw new Error(`Invalid amount type: ${copyConfig.amountType}`);
+    throw new Error(`Invalid amount type: ${sizing.amountType}`);
   }
 
   // Check if user has sufficient balance
@@ -79,6 +163,178 @@ export async function calculatePositionSize(
   };
 }
 
+/**
+ * Get our net shares for a market outcome from copied trades (buys minus sells and exits)
+ * Only filled buys add shares: a buy that never fills holds nothing to sell. Sells and
+ * exits already submitted to the CLOB (pending with an orderId) are subtracted, so
+ * the same shares aren't sold twice while an earlier order settles.
+ */
+export async function getNetCopiedShares(
+  configId: string,
+  marketId: string,
+  outcomeIndex: number,
+  excludeTradeId?: string
+): Promise<number> {
+  const copyConfig = await prisma.copyTradingConfig.findUnique({
+    where: { id: configId },
+  });
+  // Paper and live positions are tracked separately, even if the config switched modes
+  const isPaper = copyConfig?.mode === 'paper';
+
+  const trades = await prisma.copiedTrade.findMany({
+    where: {
+      configId,
+      marketId,
+      outcomeIndex,
+    },
+  });
+
+  let netShares = 0;
+  for (const trade of trades) {
+    const isBuy = trade.tradeType === 'buy';
+    const isSubmittedSell = !isBuy && trade.status === 'pending' && !!trade.orderId;
+    if (
+      trade.id === excludeTradeId ||
+      (!FILLED_STATUSES.includes(trade.status) && !isSubmittedSell) ||
+      !!trade.isPaper !== isPaper
+    ) {
+      continue;
+    }
+    const shares = trade.copiedShares ? parseFloat(trade.copiedShares) : 0;
+    if (isNaN(shares)) {
+      continue;
+    }
+    netShares += isBuy ? shares : -shares;
+  }
+
+  return Math.max(netShares, 0);
+}
+
+/**
+ * Determine what fraction of their holding a trader sold in a given trade
+ *
+ * The Data API positions endpoint reports the trader's holding now, which can be
+ * after later trades (another sell, a re-buy, or a backlog we're catching up on).
+ * So the holding right after this sell is the current holding with the trader's
+ * newer activity on the outcome rolled back; the holding before the sell is that
+ * plus the shares sold. If nothing is left after the sell, this is a full exit.
+ */
+export async function getTraderSellFraction(
+  traderAddress: string,
+  trade: {
+    conditionId: string;
+    outcomeIndex: number;
+    size: string | number;
+    asset?: string;
+    transactionHash?: string;
+  }
+): Promise<{ sellFraction: number; isFullExit: boolean; traderRemainingShares: number }> {
+  const soldShares = parseFloat(String(trade.size));
+  if (isNaN(soldShares) || soldShares <= 0) {
+    throw new Error('Invalid sell size on original trade');
+  }
+
+  const [positions, activities] = await Promise.all([
+    fetchTraderPositions(traderAddress),
+    trade.transactionHash ? fetchTraderActivities(traderAddress) : Promise.resolve([]),
+  ]);
+  const position = positions.find((p: any) => isSameOutcome(p, trade));
+  const currentShares = position?.size ? Math.max(parseFloat(position.size), 0) : 0;
+
+  const laterChange = getHoldingChangeAfter(activities, trade);
+  if (laterChange === null) {
+    console.warn(`⚠️ Sell ${trade.transactionHash || '(no tx hash)'} not in ${traderAddress}'s recent activity, sizing against their current holding`);
+  }
+  const traderRemainingShares = Math.max(currentShares - (laterChange ?? 0), 0);
+
+  // Dust left behind counts as a full exit
+  if (!traderRemainingShares || traderRemainingShares < 0.01) {
+    return { sellFraction: 1, isFullExit: true, traderRemainingShares: 0 };
+  }
+
+  const sellFraction = soldShares / (traderRemainingShares + soldShares);
+  return { sellFraction, isFullExit: false, traderRemainingShares };
+}
+
+function isSameOutcome(
+  entry: { asset?: string; conditionId?: string; outcomeIndex?: number | string },
+  trade: { asset?: string; conditionId: string; outcomeIndex: number }
+): boolean {
+  return trade.asset
+    ? entry.asset === trade.asset
+    : entry.conditionId === trade.conditionId && Number(entry.outcomeIndex) === Number(trade.outcomeIndex);
+}
+
+/**
+ * Net shares of the trade's outcome the trader gained in activity newer than the trade
+ * Activity is newest first. Splits add shares to every outcome of the market; merges
+ * and redemptions remove them.
+ *
+ * @returns null if the trade isn't in the activity (too old, or no tx hash)
+ */
+function getHoldingChangeAfter(
+  activities: any[],
+  trade: { asset?: string; conditionId: string; outcomeIndex: number; transactionHash?: string }
+): number | null {
+  const txHash = trade.transactionHash?.toLowerCase();
+  const tradeIndex = txHash
+    ? activities.findIndex((a) => String(a.transactionHash || '').toLowerCase() === txHash)
+    : -1;
+  if (tradeIndex === -1) {
+    return null;
+  }
+
+  let change = 0;
+  for (const activity of activities.slice(0, tradeIndex)) {
+    if (String(activity.transactionHash || '').toLowerCase() === txHash) {
+      continue;
+    }
+    const size = parseFloat(activity.size) || 0;
+
+    if (activity.type === 'TRADE' && isSameOutcome(activity, trade)) {
+      change += activity.side === 'BUY' ? size : -size;
+    } else if (activity.conditionId === trade.conditionId) {
+      if (activity.type === 'SPLIT') {
+        change += size;
+      } else if (activity.type === 'MERGE' || activity.type === 'REDEEM') {
+        change -= size;
+      }
+    }
+  }
+
+  return change;
+}
+
+/**
+ * Calculate sell size by mirroring the fraction of the position the trader sold
+ * "Trader sold X% of their holding in this outcome, so sell X% of ours"
+ */
+export async function calculateSellPositionSize(
+  configId: string,
+  marketId: string,
+  outcomeIndex: number,
+  sellFraction: number,
+  price: number,
+  excludeTradeId?: string
+): Promise<SellPositionSizeResult> {
+  const netShares = await getNetCopiedShares(configId, marketId, outcomeIndex, excludeTradeId);
+  const fraction = Math.min(Math.max(sellFraction, 0), 1);
+  const isFullExit = fraction >= 1;
+
+  // Truncate (rather than round) so we never try to sell more than we hold
+  const shares = isFullExit ? netShares : Math.floor(netShares * fraction * 1e6) / 1e6;
+  const sharesStr = shares.toFixed(6);
+
+  return {
+    sellFraction: fraction,
+    isFullExit,
+    netShares: netShares.toFixed(6),
+    shares: sharesStr,
+    sharesWei: ethers.utils.parseUnits(sharesStr, 18).toString(),
+    amount: (shares * (price > 0 ? price : 0)).toFixed(6),
+  };
+}
+
 /**
  * Get user's USDC balance from their Safe wallet
  * 
@@ -160,6 +416,56 @@ export function validateTradeAmount(
   return { isValid: true };
 }
 
+/**
+ * Validate that the market hasn't moved too far from the trader's fill price
+ *
+ * Compares the trader's fill price with the current best ask (buys) or best bid (sells)
+ * from the CLOB order book. Only adverse moves count: paying more on a buy,
+ * or receiving less on a sell. maxPriceDeviation is a fraction (e.g. "0.05" = 5%).
+ */
+export function validatePriceDeviation(
+  traderPrice: number,
+  tradeType: 'buy' | 'sell',
+  orderBook: { bids?: Array<{ price: string }>; asks?: Array<{ price: string }> },
+  maxPriceDeviation?: string | null
+): { isValid: boolean; reason?: string; currentPrice?: number; deviation?: number } {
+  if (!maxPriceDeviation || !traderPrice || traderPrice <= 0) {
+    return { isValid: true };
+  }
+
+  const maxDeviation = parseFloat(maxPriceDeviation);
+  if (isNaN(maxDeviation) || maxDeviation <= 0) {
+    return { isValid: true };
+  }
+
+  // Best ask = lowest ask, best bid = highest bid (don't rely on the book's sort order)
+  const levels = tradeType === 'buy' ? orderBook.asks : orderBook.bids;
+  const prices = (levels || [])
+    .map((level) => parseFloat(level.price))
+    .filter((price) => !isNaN(price));
+
+  if (prices.length === 0) {
+    // No liquidity on our side - leave it to the executor's order book checks
+    return { isValid: true };
+  }
+
+  const currentPrice = tradeType === 'buy' ? Math.min(...prices) : Math.max(...prices);
+  const deviation = tradeType === 'buy'
+    ? (currentPrice - traderPrice) / traderPrice
+    : (traderPrice - currentPrice) / traderPrice;
+
+  if (deviation > maxDeviation) {
+    return {
+      isValid: false,
+      reason: `Price deviation ${(deviation * 100).toFixed(2)}% exceeds max ${(maxDeviation * 100).toFixed(2)}% (trader price ${traderPrice}, best ${tradeType === 'buy' ? 'ask' : 'bid'} ${currentPrice})`,
+      currentPrice,
+      deviation,
+    };
+  }
+
+  return { isValid: true, currentPrice, deviation };
+}
+
 /**
  * Validate market category against configuration
  * 
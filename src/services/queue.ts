@@ -1,6 +1,7 @@
 import Queue from 'bull';
 import { config } from '../config/env';
 import { isProduction } from '../config/env';
+import { categorizeFailure, isRetryableFailure } from './execution-failures';
 
 // Create Redis connection for Bull
 // Bull requires a real Redis connection (cannot use in-memory mock)
@@ -47,11 +48,12 @@ const getRedisConnection = () => {
 // To be safe, we'll process max 1 trade every 50ms = 20 trades/second
 // This leaves headroom for other API calls (market info, orderbook, etc.)
 // The limiter coordinates across ALL workers via Redis, ensuring global rate limit compliance
+// Jobs are added through execution-scheduler.ts, which prioritizes sells and takes users in turns
 export const tradeExecutionQueue = new Queue('trade-execution', {
   redis: getRedisConnection(),
   defaultJobOptions: {
-    // TEMPORARILY DISABLED: Set to 1 to disable retries
-    attempts: 1, // config.workers.maxRetries,
+    // Only transient failures use the extra attempts, the worker discards jobs that fail permanently
+    attempts: config.workers.maxRetries,
     backoff: {
       type: 'exponential',
       delay: 2000, // Start with 2 seconds
@@ -72,6 +74,15 @@ export const tradeExecutionQueue = new Queue('trade-execution', {
   },
 });
 
+/**
+ * Execution job ID for a copied trader fill
+ * Derived from the config and the fill's tx hash, so every process that detects
+ * the same fill (polling, on-chain logs) queues the same job.
+ */
+export function getTradeJobId(configId: string, originalTxHash: string): string {
+  return `trade-${originalTxHash.toLowerCase()}-${configId}`;
+}
+
 // Trade monitoring queue (for periodic checks)
 export const tradeMonitoringQueue = new Queue('trade-monitoring', {
   redis: getRedisConnection(),
@@ -81,6 +92,44 @@ export const tradeMonitoringQueue = new Queue('trade-monitoring', {
   },
 });
 
+// Dead-letter queue for execution jobs that ran out of retries
+// Nothing processes it: jobs wait here until an admin requeues them
+export const deadLetterQueue = new Queue('trade-execution-dead-letter', {
+  redis: getRedisConnection(),
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: false,
+  },
+});
+
+// Outbound notification webhooks (one job per WebhookDelivery row)
+// Retried with exponential backoff (5s, 10s, 20s, ...) until the endpoint answers 2xx
+export const webhookDeliveryQueue = new Queue('webhook-delivery', {
+  redis: getRedisConnection(),
+  defaultJobOptions: {
+    attempts: config.notifications.webhookMaxAttempts,
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+    removeOnComplete: true,
+    removeOnFail: true, // The delivery log keeps the outcome
+  },
+});
+
+export interface WebhookDeliveryJobData {
+  deliveryId: string; // WebhookDelivery row to post
+}
+
+export interface DeadLetterJobData {
+  jobName: string; // 'execute-trade' or 'execute-signal'
+  jobId: string; // ID of the failed job in the trade execution queue
+  data: any;
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+}
+
 // Handle Redis connection events for trade execution queue
 tradeExecutionQueue.on('error', (error) => {
   if (error.message?.includes('MaxRetriesPerRequestError') || 
@@ -118,8 +167,31 @@ tradeExecutionQueue.on('completed', (job) => {
   console.log(`✅ Trade execution job ${job.id} completed`);
 });
 
-tradeExecutionQueue.on('failed', (job, err) => {
+tradeExecutionQueue.on('failed', async (job, err) => {
   console.error(`❌ Trade execution job ${job?.id || 'unknown'} failed:`, err);
+
+  // Transient failures that used up every attempt go to the dead-letter queue
+  if (!job || job.attemptsMade < (job.opts.attempts || 1)) {
+    return;
+  }
+  if (!isRetryableFailure(categorizeFailure(err?.message || '').failureReason)) {
+    return;
+  }
+
+  try {
+    const deadLetterData: DeadLetterJobData = {
+      jobName: job.name,
+      jobId: String(job.id),
+      data: job.data,
+      failedReason: err?.message || 'Unknown error',
+      attemptsMade: job.attemptsMade,
+      failedAt: new Date().toISOString(),
+    };
+    await deadLetterQueue.add(deadLetterData, { jobId: `dead-${job.id}` });
+    console.warn(`🪦 Trade execution job ${job.id} moved to dead-letter queue after ${job.attemptsMade} attempts`);
+  } catch (error) {
+    console.error(`❌ Failed to move job ${job.id} to dead-letter queue:`, error);
+  }
 });
 
 tradeMonitoringQueue.on('completed', (job) => {
@@ -130,12 +202,18 @@ tradeMonitoringQueue.on('failed', (job, err) => {
   console.error(`❌ Trade monitoring job ${job?.id || 'unknown'} failed:`, err);
 });
 
+webhookDeliveryQueue.on('error', (error) => {
+  console.error('❌ Webhook delivery queue error:', error.message);
+});
+
 // Close queues gracefully
 export async function closeQueues(): Promise<void> {
   console.log('🛑 Closing queues...');
   await Promise.all([
     tradeExecutionQueue.close(),
     tradeMonitoringQueue.close(),
+    deadLetterQueue.close(),
+    webhookDeliveryQueue.close(),
   ]);
   console.log('✅ Queues closed');
 }
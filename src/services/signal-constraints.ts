@@ -0,0 +1,98 @@
+/**
+ * Whether a signal's validUntil has passed
+ */
+export function isSignalExpired(validUntil: string | Date | null | undefined, now: number = Date.now()): boolean {
+  if (!validUntil) {
+    return false;
+  }
+  const expiresAt = new Date(validUntil).getTime();
+  return !isNaN(expiresAt) && expiresAt <= now;
+}
+
+/**
+ * Price and slippage to send to the executor so the order never fills past the limit price
+ *
+ * Without a limit (or when the slippage band is already inside it) the signal price and
+ * slippage tolerance are used as-is. Otherwise the limit itself becomes the worst price.
+ */
+export function applyLimitPrice(
+  tradeType: 'buy' | 'sell',
+  price: number,
+  slippageTolerance: number,
+  limitPrice?: number | null
+): { price: number; slippageTolerance: number } {
+  if (!limitPrice || limitPrice <= 0) {
+    return { price, slippageTolerance };
+  }
+
+  if (tradeType === 'buy' && price * (1 + slippageTolerance) > limitPrice) {
+    return { price: limitPrice, slippageTolerance: 0 };
+  }
+  if (tradeType === 'sell' && price * (1 - slippageTolerance) < limitPrice) {
+    return { price: limitPrice, slippageTolerance: 0 };
+  }
+
+  return { price, slippageTolerance };
+}
+
+/**
+ * Check the current best ask (buys) or best bid (sells) against the signal's limit price
+ */
+export function validateLimitPrice(
+  tradeType: 'buy' | 'sell',
+  orderBook: { bids?: Array<{ price: string }>; asks?: Array<{ price: string }> },
+  limitPrice?: number | null
+): { isValid: boolean; reason?: string } {
+  if (!limitPrice || limitPrice <= 0) {
+    return { isValid: true };
+  }
+
+  const levels = tradeType === 'buy' ? orderBook.asks : orderBook.bids;
+  const prices = (levels || [])
+    .map((level) => parseFloat(level.price))
+    .filter((price) => !isNaN(price));
+
+  if (prices.length === 0) {
+    // No liquidity on our side - leave it to the executor's order book checks
+    return { isValid: true };
+  }
+
+  const bestPrice = tradeType === 'buy' ? Math.min(...prices) : Math.max(...prices);
+  if (tradeType === 'buy' ? bestPrice > limitPrice : bestPrice < limitPrice) {
+    return {
+      isValid: false,
+      reason: `Best ${tradeType === 'buy' ? 'ask' : 'bid'} ${bestPrice} is ${tradeType === 'buy' ? 'above' : 'below'} the signal's limit price ${limitPrice}`,
+    };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Scale a copied amount by signal confidence (0-1), keeping it within the config's min and max for the side
+ */
+export function scaleAmountByConfidence(
+  amount: number,
+  confidence: number,
+  tradeType: 'buy' | 'sell',
+  signalConfig: {
+    minBuyAmount?: string | null;
+    maxBuyAmount?: string | null;
+    minSellAmount?: string | null;
+    maxSellAmount?: string | null;
+  }
+): number {
+  const clampedConfidence = Math.min(Math.max(confidence, 0), 1);
+  let scaled = amount * clampedConfidence;
+
+  const min = parseFloat((tradeType === 'buy' ? signalConfig.minBuyAmount : signalConfig.minSellAmount) || '');
+  const max = parseFloat((tradeType === 'buy' ? signalConfig.maxBuyAmount : signalConfig.maxSellAmount) || '');
+  if (!isNaN(min) && scaled < min) {
+    scaled = min;
+  }
+  if (!isNaN(max) && scaled > max) {
+    scaled = max;
+  }
+
+  return scaled;
+}
@@ -3,18 +3,45 @@ import { calculatePositionSize } from './position-sizer';
 import { ethers } from 'ethers';
 import { executeBuyTrade, executeSellTrade } from './polymarket-executor';
 import { monitorOrderSettlement } from './order-monitor';
+import { SIMULATED_STATUS, getOutcomeTokenId, simulateFill } from './paper-trading';
+import { categorizeFailure, isRetryableFailure } from './execution-failures';
+import { getOrderBook } from './polymarket-clob';
+import { applyExposureCaps, withUserExposureLock } from './exposure-limits';
+import { applyLimitPrice, isSignalExpired, scaleAmountByConfidence, validateLimitPrice } from './signal-constraints';
+import { notifyCopiedSignalOutcome } from './notifications';
+import { publishCopiedSignalEvent } from './trading-events';
 
 export interface SignalExecutionJob {
   signalId: string;
   configId: string;
   originalSignal: any;
+  hasAttemptsLeft?: boolean; // The queue retries this job if the attempt fails transiently
 }
 
 /**
  * Execute a copied signal automatically
  * Reuses the same execution logic as trade executor
+ * Buys run one at a time per user so their exposure cap checks see each other.
  */
 export async function executeSignal(jobData: SignalExecutionJob): Promise<void> {
+  try {
+    const copiedSignal = await prisma.copiedSignal.findUnique({
+      where: { id: jobData.signalId },
+      include: { config: true },
+    });
+
+    if (copiedSignal?.tradeType === 'buy' && copiedSignal.config) {
+      await withUserExposureLock(copiedSignal.config.userId, () => runSignal(jobData));
+    } else {
+      await runSignal(jobData);
+    }
+  } finally {
+    await notifyCopiedSignalOutcome(jobData.signalId);
+    await publishCopiedSignalEvent(jobData.signalId);
+  }
+}
+
+async function runSignal(jobData: SignalExecutionJob): Promise<void> {
   const { signalId, configId, originalSignal } = jobData;
 
   try {
@@ -42,6 +69,13 @@ export async function executeSignal(jobData: SignalExecutionJob): Promise<void>
       throw new Error(errorMsg);
     }
 
+    // A job can be delivered more than once (stalled jobs, requeues), so never
+    // place a second order for the same signal
+    if (copiedSignal.orderId || copiedSignal.status !== 'pending') {
+      console.log(`⏭️ Signal ${signalId} already ${copiedSignal.status}${copiedSignal.orderId ? ` (order ${copiedSignal.orderId})` : ''}, skipping`);
+      return;
+    }
+
     const signalConfig = copiedSignal.config;
 
     // Verify config is still enabled and authorized
@@ -83,13 +117,93 @@ export async function executeSignal(jobData: SignalExecutionJob): Promise<void>
       return;
     }
 
+    // A signal can wait in the queue behind a backlog; never act on it past its validUntil
+    const validUntil = originalSignal.validUntil || copiedSignal.validUntil;
+    if (isSignalExpired(validUntil)) {
+      try {
+        await prisma.copiedSignal.update({
+          where: { id: signalId },
+          data: {
+            status: 'skipped',
+            errorMessage: `Signal expired at ${new Date(validUntil).toISOString()}`,
+            failureReason: 'signal_expired',
+            failureCategory: 'validation',
+          },
+        });
+        console.log(`⏭️ Signal ${signalId} skipped: expired at ${new Date(validUntil).toISOString()}`);
+      } catch (updateError) {
+        console.error(`❌ Failed to update signal ${signalId} status to 'skipped':`, updateError);
+      }
+      return;
+    }
+
     // Calculate position size
-    const positionSize = await calculatePositionSize(
+    let positionSize = await calculatePositionSize(
       configId,
       originalSignal.amount,
       copiedSignal.tradeType as 'buy' | 'sell'
     );
 
+    // Optionally size by the provider's confidence, within the config's min and max amounts
+    const confidence = typeof originalSignal.confidence === 'number' ? originalSignal.confidence : undefined;
+    if (signalConfig.scaleByConfidence && confidence !== undefined) {
+      const scaledAmount = scaleAmountByConfidence(
+        parseFloat(positionSize.amount),
+        confidence,
+        copiedSignal.tradeType as 'buy' | 'sell',
+        signalConfig
+      ).toFixed(6);
+      console.log(`🎯 Signal ${signalId}: confidence ${confidence} scales ${positionSize.amount} -> ${scaledAmount} USDC`);
+      positionSize = {
+        ...positionSize,
+        amount: scaledAmount,
+        amountWei: ethers.utils.parseUnits(scaledAmount, 6).toString(),
+        isSufficient: parseFloat(scaledAmount) <= parseFloat(positionSize.balance),
+      };
+    }
+
+    // Keep the buy within the user's per-market / per-event exposure caps
+    if (copiedSignal.tradeType === 'buy') {
+      const capResult = await applyExposureCaps(
+        signalConfig,
+        {
+          marketId: copiedSignal.marketId,
+          eventSlug: copiedSignal.eventSlug || originalSignal.eventSlug,
+          excludeSignalId: signalId,
+        },
+        positionSize.amount
+      );
+
+      if (capResult.isBlocked) {
+        try {
+          await prisma.copiedSignal.update({
+            where: { id: signalId },
+            data: {
+              status: 'skipped',
+              errorMessage: capResult.reason,
+              failureReason: `${capResult.capType}_exposure_cap`,
+              failureCategory: 'validation',
+            },
+          });
+          console.log(`⏭️ Signal ${signalId} skipped: ${capResult.reason}`);
+        } catch (updateError) {
+          console.error(`❌ Failed to update signal ${signalId} status to 'skipped':`, updateError);
+        }
+        return;
+      }
+
+      if (capResult.isCapped) {
+        const cappedAmountWei = ethers.utils.parseUnits(capResult.amount, 6);
+        positionSize = {
+          ...positionSize,
+          amount: capResult.amount,
+          amountWei: cappedAmountWei.toString(),
+          isSufficient: ethers.utils.parseUnits(positionSize.balance, 6).gte(cappedAmountWei),
+        };
+        console.log(`📏 Signal ${signalId}: ${capResult.reason}`);
+      }
+    }
+
     // Check if user has sufficient balance
     if (!positionSize.isSufficient) {
       const errorMsg = `Insufficient balance. Required: ${positionSize.amount} USDC, Available: ${positionSize.balance} USDC`;
@@ -112,9 +226,46 @@ export async function executeSignal(jobData: SignalExecutionJob): Promise<void>
     }
 
     // Get slippage tolerance from config
-    const slippageTolerance = parseFloat(signalConfig.slippageTolerance || '0.05');
+    const configSlippage = parseFloat(signalConfig.slippageTolerance || '0.05');
     const maxRetries = 1; // signalConfig.maxRetries || 3;
 
+    // The signal's limit price is the worst price we accept, whatever the slippage tolerance allows
+    const limitPrice = typeof originalSignal.limitPrice === 'number' ? originalSignal.limitPrice : undefined;
+    const { price: executionPrice, slippageTolerance } = applyLimitPrice(
+      copiedSignal.tradeType as 'buy' | 'sell',
+      parseFloat(originalSignal.price.toString()),
+      configSlippage,
+      limitPrice
+    );
+
+    if (limitPrice !== undefined) {
+      try {
+        const tokenId = await getOutcomeTokenId(copiedSignal.marketId, copiedSignal.outcomeIndex);
+        const limitCheck = validateLimitPrice(
+          copiedSignal.tradeType as 'buy' | 'sell',
+          await getOrderBook(tokenId),
+          limitPrice
+        );
+
+        if (!limitCheck.isValid) {
+          await prisma.copiedSignal.update({
+            where: { id: signalId },
+            data: {
+              status: 'skipped',
+              errorMessage: limitCheck.reason,
+              failureReason: 'limit_price_exceeded',
+              failureCategory: 'market',
+            },
+          });
+          console.log(`⏭️ Signal ${signalId} skipped: ${limitCheck.reason}`);
+          return;
+        }
+      } catch (error) {
+        // The order itself is still capped at the limit price
+        console.warn(`⚠️ Could not check limit price for signal ${signalId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
     // Calculate copied shares based on copied amount and price
     let copiedShares: string | null = null;
     if (originalSignal.price && parseFloat(originalSignal.price.toString()) > 0) {
@@ -145,21 +296,59 @@ export async function executeSignal(jobData: SignalExecutionJob): Promise<void>
       throw new Error(`Failed to update signal record: ${updateError instanceof Error ? updateError.message : 'Unknown error'}`);
     }
 
+    // Paper configs fill against the live order book without submitting an order
+    if (signalConfig.mode === 'paper') {
+      const isBuy = copiedSignal.tradeType === 'buy';
+      const tokenId = await getOutcomeTokenId(copiedSignal.marketId, copiedSignal.outcomeIndex);
+      const fill = await simulateFill(
+        tokenId,
+        isBuy ? 'buy' : 'sell',
+        parseFloat(isBuy ? positionSize.amount : copiedShares || '0'),
+        executionPrice,
+        slippageTolerance
+      );
+
+      await prisma.copiedSignal.update({
+        where: { id: signalId },
+        data: {
+          status: SIMULATED_STATUS,
+          orderStatus: 'SIMULATED',
+          copiedAmount: fill.amount,
+          copiedPrice: fill.averagePrice,
+          copiedShares: fill.shares,
+          costBasis: isBuy ? fill.amount : null,
+          submittedAt: new Date(),
+          executedAt: new Date(),
+          settledAt: new Date(),
+        },
+      });
+
+      if (isBuy) {
+        await prisma.copySignalConfig.update({
+          where: { id: configId },
+          data: {
+            usedUSDCAmount: (usedAmount + parseFloat(fill.amount)).toFixed(6),
+          },
+        });
+      }
+
+      console.log(`📝 Paper signal ${signalId} simulated: ${copiedSignal.tradeType} ${fill.shares} shares @ ${fill.averagePrice} (${fill.amount} USDC${fill.isPartial ? ', partial fill' : ''})`);
+      return;
+    }
+
     // Execute trade via CLOB with Builder Program attribution
     let executionResult: { orderId: string; status: string; txHash?: string } | null = null;
     let lastError: Error | null = null;
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        const originalPrice = parseFloat(originalSignal.price.toString());
-        
         if (copiedSignal.tradeType === 'buy') {
           executionResult = await executeBuyTrade(
             signalConfig.user.address,
             copiedSignal.marketId,
             copiedSignal.outcomeIndex,
             positionSize.amountWei,
-            originalPrice,
+            executionPrice,
             slippageTolerance
           );
         } else {
@@ -172,7 +361,7 @@ export async function executeSignal(jobData: SignalExecutionJob): Promise<void>
             copiedSignal.marketId,
             copiedSignal.outcomeIndex,
             sharesWei,
-            originalPrice,
+            executionPrice,
             slippageTolerance
           );
         }
@@ -182,6 +371,11 @@ export async function executeSignal(jobData: SignalExecutionJob): Promise<void>
         lastError = error instanceof Error ? error : new Error(String(error));
         console.warn(`⚠️ Signal execution attempt ${attempt}/${maxRetries} failed for ${signalId}:`, lastError.message);
         
+        // Don't resubmit an order that may already be on the book
+        if (!isRetryableFailure(categorizeFailure(lastError.message).failureReason)) {
+          break;
+        }
+        
         if (attempt < maxRetries) {
           const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
           await new Promise(resolve => setTimeout(resolve, delay));
@@ -247,17 +441,19 @@ export async function executeSignal(jobData: SignalExecutionJob): Promise<void>
 
       if (existingSignal) {
         const { failureReason, failureCategory } = categorizeFailure(errorMessage);
+        // Transient failures stay pending while the queue still has attempts left
+        const status = jobData.hasAttemptsLeft && isRetryableFailure(failureReason) ? 'pending' : 'failed';
         
         await prisma.copiedSignal.update({
           where: { id: signalId },
           data: {
-            status: 'failed',
+            status,
             errorMessage: errorMessage,
             failureReason: failureReason,
             failureCategory: failureCategory,
           },
         });
-        console.log(`📝 Updated signal ${signalId} status to 'failed' (${failureCategory}: ${failureReason})`);
+        console.log(`📝 Updated signal ${signalId} status to '${status}' (${failureCategory}: ${failureReason})`);
       } else {
         console.warn(`⚠️ Signal ${signalId} not found - cannot update status. Signal may have been deleted.`);
       }
@@ -268,80 +464,3 @@ export async function executeSignal(jobData: SignalExecutionJob): Promise<void>
     throw error;
   }
 }
-
-/**
- * Categorize failure reason from error message
- */
-function categorizeFailure(errorMessage: string): { failureReason: string; failureCategory: string } {
-  const lowerMessage = errorMessage.toLowerCase();
-  
-  if (lowerMessage.includes('not enough balance') || lowerMessage.includes('insufficient balance')) {
-    return {
-      failureReason: 'insufficient_balance',
-      failureCategory: 'balance',
-    };
-  }
-  
-  if (lowerMessage.includes('not enough allowance') || lowerMessage.includes('allowance')) {
-    return {
-      failureReason: 'insufficient_allowance',
-      failureCategory: 'balance',
-    };
-  }
-  
-  if (lowerMessage.includes('min size') || lowerMessage.includes('minimum')) {
-    return {
-      failureReason: 'below_minimum_size',
-      failureCategory: 'validation',
-    };
-  }
-  
-  // Price validation failures
-  if (lowerMessage.includes('invalid price') || (lowerMessage.includes('price') && (lowerMessage.includes('min:') || lowerMessage.includes('max:')))) {
-    return {
-      failureReason: 'invalid_price',
-      failureCategory: 'validation',
-    };
-  }
-  
-  if (lowerMessage.includes('orderbook does not exist') || lowerMessage.includes('orderbook')) {
-    return {
-      failureReason: 'orderbook_unavailable',
-      failureCategory: 'market',
-    };
-  }
-  
-  if (lowerMessage.includes('market is closed') || lowerMessage.includes('market closed')) {
-    return {
-      failureReason: 'market_closed',
-      failureCategory: 'market',
-    };
-  }
-  
-  if (lowerMessage.includes('market is not open') || lowerMessage.includes('not accepting orders')) {
-    return {
-      failureReason: 'market_not_accepting_orders',
-      failureCategory: 'market',
-    };
-  }
-  
-  if (lowerMessage.includes('invalid signature')) {
-    return {
-      failureReason: 'invalid_signature',
-      failureCategory: 'execution',
-    };
-  }
-  
-  if (lowerMessage.includes('rate limit') || lowerMessage.includes('too many requests')) {
-    return {
-      failureReason: 'rate_limited',
-      failureCategory: 'execution',
-    };
-  }
-  
-  return {
-    failureReason: 'unknown_error',
-    failureCategory: 'other',
-  };
-}
-
@@ -0,0 +1,162 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+import { SignalProvider } from '@prisma/client';
+import { redis } from '../config/redis';
+import { config } from '../config/env';
+import { dispatchSignals, ExternalSignal, getSignalKey, normalizeSignal } from './signal-monitor';
+import { getWebhookSignalProvider, providerPublishesCategory } from './signal-providers';
+
+// Signal IDs are remembered for a week so a provider resending old payloads can't requeue them
+const INGESTED_SIGNAL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SignedSignalRequest {
+  providerName?: string;
+  timestamp?: string; // Unix seconds
+  nonce?: string;
+  signature?: string;
+  rawBody?: Buffer;
+}
+
+export interface SignalIngestResult {
+  accepted: number;
+  duplicates: string[];
+  rejected: Array<{ index: number; reason: string }>;
+  queued: number;
+}
+
+/**
+ * Verify a signed push from a registered webhook signal provider
+ *
+ * The provider signs `${timestamp}.${nonce}.${rawBody}`, either with an
+ * HMAC-SHA256 shared secret (hex digest) or with an Ethereum key (personal_sign).
+ * Requests outside the timestamp window or reusing a nonce are rejected as replays.
+ */
+export async function verifySignedSignalRequest(request: SignedSignalRequest): Promise<SignalProvider> {
+  const { providerName, timestamp, nonce, signature, rawBody } = request;
+
+  if (!providerName || !timestamp || !nonce || !signature || !rawBody) {
+    throw new Error('Missing signature headers');
+  }
+
+  const provider = await getWebhookSignalProvider(providerName);
+  if (!provider) {
+    throw new Error('Unknown signal provider');
+  }
+
+  const timestampSeconds = parseInt(timestamp, 10);
+  const skewSeconds = Math.abs(Date.now() / 1000 - timestampSeconds);
+  if (!Number.isFinite(timestampSeconds) || skewSeconds > config.signals.ingestMaxSkewSeconds) {
+    throw new Error('Request timestamp outside the allowed window');
+  }
+
+  const message = `${timestamp}.${nonce}.${rawBody.toString('utf8')}`;
+  if (!isValidSignature(provider, message, signature)) {
+    throw new Error('Invalid signature');
+  }
+
+  // Checked after the signature so unsigned requests can't burn a provider's nonces
+  const nonceKey = `signals:ingest:nonce:${provider.id}:${nonce}`;
+  const fresh = await redis.set(nonceKey, '1', 'EX', config.signals.ingestMaxSkewSeconds * 2, 'NX');
+  if (fresh !== 'OK') {
+    throw new Error('Replayed request: nonce already used');
+  }
+
+  return provider;
+}
+
+/**
+ * Validate, dedupe and queue signals pushed by a provider
+ * Accepts `{ signals: [...] }`, an array, or a single signal object.
+ */
+export async function ingestSignals(provider: SignalProvider, payload: any): Promise<SignalIngestResult> {
+  const rawSignals: any[] = Array.isArray(payload)
+    ? payload
+    : Array.isArray(payload?.signals)
+      ? payload.signals
+      : payload && typeof payload === 'object'
+        ? [payload]
+        : [];
+
+  if (rawSignals.length === 0) {
+    throw new Error('Invalid payload: no signals');
+  }
+
+  const result: SignalIngestResult = { accepted: 0, duplicates: [], rejected: [], queued: 0 };
+  const freshSignals: ExternalSignal[] = [];
+  const seenKeys: string[] = [];
+
+  for (const [index, rawSignal] of rawSignals.entries()) {
+    const signal: ExternalSignal = { ...normalizeSignal(rawSignal ?? {}), providerId: provider.id };
+    const reason = getInvalidSignalReason(provider, signal, rawSignal ?? {});
+    if (reason) {
+      result.rejected.push({ index, reason });
+      continue;
+    }
+
+    const seenKey = `signals:ingested:${getSignalKey(signal.id, provider.id)}`;
+    const seen = await redis.set(seenKey, '1', 'EX', INGESTED_SIGNAL_TTL_SECONDS, 'NX');
+    if (seen !== 'OK') {
+      result.duplicates.push(signal.id);
+      continue;
+    }
+
+    freshSignals.push(signal);
+    seenKeys.push(seenKey);
+  }
+
+  result.accepted = freshSignals.length;
+  if (freshSignals.length > 0) {
+    try {
+      result.queued = await dispatchSignals(freshSignals);
+    } catch (error) {
+      // Forget the signal IDs so the provider's retry isn't reported as a duplicate
+      await Promise.all(seenKeys.map((key) => redis.del(key).catch(() => 0)));
+      throw error;
+    }
+  }
+
+  console.log(
+    `📨 Provider ${provider.name} pushed ${rawSignals.length} signals: ${result.accepted} accepted, ` +
+      `${result.duplicates.length} duplicates, ${result.rejected.length} rejected, ${result.queued} queued`
+  );
+
+  return result;
+}
+
+function isValidSignature(provider: SignalProvider, message: string, signature: string): boolean {
+  if (provider.webhookSecret) {
+    const expected = createHmac('sha256', provider.webhookSecret).update(message).digest('hex');
+    const received = signature.replace(/^sha256=/, '');
+    return (
+      received.length === expected.length &&
+      timingSafeEqual(Buffer.from(received, 'utf8'), Buffer.from(expected, 'utf8'))
+    );
+  }
+
+  if (provider.signerAddress) {
+    try {
+      const recoveredAddress = ethers.utils.verifyMessage(message, signature);
+      return recoveredAddress.toLowerCase() === provider.signerAddress.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  return false;
+}
+
+function getInvalidSignalReason(provider: SignalProvider, signal: ExternalSignal, rawSignal: any): string | null {
+  if (!signal.id) return 'missing id';
+  if (!signal.category) return 'missing category';
+  if (!providerPublishesCategory(provider, signal.category)) return `category ${signal.category} is not one the provider publishes`;
+  if (!signal.marketId) return 'missing marketId';
+  // normalizeSignal defaults a missing tradeType to buy and price to 0.5, so check what was sent
+  const rawTradeType = rawSignal.tradeType ?? rawSignal.side;
+  if (typeof rawTradeType !== 'string' || !['buy', 'sell'].includes(rawTradeType.toLowerCase())) return 'tradeType must be buy or sell';
+  const rawPrice = rawSignal.price === undefined || rawSignal.price === null || rawSignal.price === '' ? NaN : Number(rawSignal.price);
+  if (!(rawPrice > 0 && rawPrice < 1)) return 'price must be between 0 and 1';
+  if ((rawSignal.validUntil || rawSignal.expiresAt) && !signal.validUntil) return 'validUntil must be an ISO timestamp';
+  if (signal.limitPrice !== undefined && !(signal.limitPrice > 0 && signal.limitPrice < 1)) return 'limitPrice must be between 0 and 1';
+  if (signal.confidence !== undefined && !(signal.confidence >= 0 && signal.confidence <= 1)) return 'confidence must be between 0 and 1';
+  return null;
+}
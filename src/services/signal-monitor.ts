@@ -1,11 +1,16 @@
+import { SignalProvider } from '@prisma/client';
 import { prisma } from '../config/database';
-import { config, isProduction } from '../config/env';
-import { tradeExecutionQueue } from './queue';
+import { isProduction } from '../config/env';
+import { scheduleExecutionJob } from './execution-scheduler';
 import { validateTradeAmount } from './position-sizer';
 import { isMarketOpen } from './market-status';
+import { getPollSignalProviders, parseProviderIds, providerPublishesCategory } from './signal-providers';
+import { isSignalExpired } from './signal-constraints';
+import { publishCopiedSignalEvent } from './trading-events';
 
 export interface ExternalSignal {
   id: string;
+  providerId?: string; // Registered provider that published the signal
   category: string;
   marketId: string;
   marketQuestion?: string;
@@ -18,20 +23,17 @@ export interface ExternalSignal {
   timestamp: string;
   slug?: string;
   eventSlug?: string;
+  validUntil?: string; // ISO timestamp after which the signal must not be executed
+  limitPrice?: number; // Worst price to accept: max for buys, min for sells
+  confidence?: number; // 0-1, scales the copied size when the config opts in
 }
 
 /**
- * Monitor external API for new signals
+ * Poll every enabled poll-transport provider for new signals
  */
 export async function monitorSignals(): Promise<number> {
   try {
-    // Get all enabled copy signal configurations
-    const enabledConfigs = await prisma.copySignalConfig.findMany({
-      where: {
-        enabled: true,
-        authorized: true, // Only monitor authorized configs
-      },
-    });
+    const enabledConfigs = await getActiveSignalConfigs();
 
     if (enabledConfigs.length === 0) {
       console.log('No enabled copy signal configurations found');
@@ -40,31 +42,17 @@ export async function monitorSignals(): Promise<number> {
 
     console.log(`Monitoring ${enabledConfigs.length} enabled signal configurations`);
 
-    // Fetch signals from external API
-    const signals = await fetchSignalsFromAPI();
+    const providers = await getPollSignalProviders();
+    const signals: ExternalSignal[] = [];
+    for (const provider of providers) {
+      signals.push(...(await fetchSignalsFromProvider(provider)));
+    }
 
     if (signals.length === 0) {
       return 0;
     }
 
-    let totalSignalsQueued = 0;
-
-    // Process each configuration
-    for (const signalConfig of enabledConfigs) {
-      try {
-        const signalsQueued = await processConfigSignals(signalConfig, signals);
-        totalSignalsQueued += signalsQueued;
-      } catch (error: any) {
-        // Handle Redis connection errors gracefully
-        if (error?.message?.includes('MaxRetriesPerRequestError') || 
-            error?.message?.includes('Redis') ||
-            error?.code === 'ECONNREFUSED') {
-          console.warn(`⚠️ Redis connection issue for config ${signalConfig.id}. Skipping this cycle.`);
-          continue;
-        }
-        console.error(`Error processing config ${signalConfig.id}:`, error);
-      }
-    }
+    const { queued: totalSignalsQueued } = await queueSignalsForConfigs(enabledConfigs, signals);
 
     console.log(`Queued ${totalSignalsQueued} signals for execution`);
     return totalSignalsQueued;
@@ -75,13 +63,107 @@ export async function monitorSignals(): Promise<number> {
 }
 
 /**
- * Fetch signals from external API
+ * Queue signals that arrived outside the polling loop (e.g. pushed by a provider)
+ * for every enabled configuration
+ * Throws if any config couldn't be processed, so the sender can retry; configs
+ * that did queue the signals skip them on the retry.
  */
-async function fetchSignalsFromAPI(): Promise<ExternalSignal[]> {
-  const { signals } = config;
-  
-  if (!signals.apiUrl) {
-    console.warn('⚠️ Signals API URL not configured. Skipping signal fetch.');
+export async function dispatchSignals(signals: ExternalSignal[]): Promise<number> {
+  const enabledConfigs = await getActiveSignalConfigs();
+  if (enabledConfigs.length === 0 || signals.length === 0) {
+    return 0;
+  }
+
+  const { queued, failedConfigs } = await queueSignalsForConfigs(enabledConfigs, signals);
+  if (failedConfigs > 0) {
+    throw new Error(`Failed to queue signals for ${failedConfigs} of ${enabledConfigs.length} configs (${queued} queued), retry the push`);
+  }
+  return queued;
+}
+
+/**
+ * Normalize a signal from the upstream API or a provider push
+ */
+export function normalizeSignal(signal: any): ExternalSignal {
+  return {
+    id: signal.id || signal.signalId,
+    category: signal.category,
+    marketId: signal.marketId || signal.conditionId,
+    marketQuestion: signal.marketQuestion || signal.title,
+    outcomeIndex: signal.outcomeIndex || (signal.side === 'YES' ? 1 : 0),
+    tradeType: (signal.tradeType || signal.side || 'buy').toLowerCase() as 'buy' | 'sell',
+    amount: signal.amount || signal.usdcSize || '0',
+    price: signal.price || 0.5,
+    shares: signal.shares || signal.size,
+    transactionHash: signal.transactionHash,
+    timestamp: signal.timestamp || new Date().toISOString(),
+    slug: signal.slug,
+    eventSlug: signal.eventSlug,
+    validUntil: parseOptionalTimestamp(signal.validUntil || signal.expiresAt),
+    limitPrice: parseOptionalNumber(signal.limitPrice),
+    confidence: parseOptionalNumber(signal.confidence),
+  };
+}
+
+function parseOptionalTimestamp(value: unknown): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value as string | number);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function parseOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+async function getActiveSignalConfigs() {
+  return prisma.copySignalConfig.findMany({
+    where: {
+      enabled: true,
+      authorized: true, // Only monitor authorized configs
+    },
+  });
+}
+
+async function queueSignalsForConfigs(
+  signalConfigs: any[],
+  signals: ExternalSignal[]
+): Promise<{ queued: number; failedConfigs: number }> {
+  let totalSignalsQueued = 0;
+  let failedConfigs = 0;
+
+  // Process each configuration
+  for (const signalConfig of signalConfigs) {
+    try {
+      const signalsQueued = await processConfigSignals(signalConfig, signals);
+      totalSignalsQueued += signalsQueued;
+    } catch (error: any) {
+      failedConfigs++;
+      // Handle Redis connection errors gracefully
+      if (error?.message?.includes('MaxRetriesPerRequestError') || 
+          error?.message?.includes('Redis') ||
+          error?.code === 'ECONNREFUSED') {
+        console.warn(`⚠️ Redis connection issue for config ${signalConfig.id}. Skipping this cycle.`);
+        continue;
+      }
+      console.error(`Error processing config ${signalConfig.id}:`, error);
+    }
+  }
+
+  return { queued: totalSignalsQueued, failedConfigs };
+}
+
+/**
+ * Fetch signals from a poll provider, tagged with the provider's ID
+ */
+async function fetchSignalsFromProvider(provider: SignalProvider): Promise<ExternalSignal[]> {
+  if (!provider.pollUrl) {
+    console.warn(`⚠️ Signal provider ${provider.name} has no poll URL. Skipping signal fetch.`);
     return [];
   }
 
@@ -90,11 +172,11 @@ async function fetchSignalsFromAPI(): Promise<ExternalSignal[]> {
       'Content-Type': 'application/json',
     };
 
-    if (signals.apiKey) {
-      headers['Authorization'] = `Bearer ${signals.apiKey}`;
+    if (provider.apiKey) {
+      headers['Authorization'] = `Bearer ${provider.apiKey}`;
     }
 
-    const response = await fetch(signals.apiUrl, {
+    const response = await fetch(provider.pollUrl, {
       method: 'GET',
       headers,
     });
@@ -110,23 +192,17 @@ async function fetchSignalsFromAPI(): Promise<ExternalSignal[]> {
     const responseData = data as { signals?: any[] } | any[];
     const signalsArray = Array.isArray(responseData) ? responseData : (responseData.signals || []);
     
-    return signalsArray.map((signal: any) => ({
-      id: signal.id || signal.signalId,
-      category: signal.category,
-      marketId: signal.marketId || signal.conditionId,
-      marketQuestion: signal.marketQuestion || signal.title,
-      outcomeIndex: signal.outcomeIndex || (signal.side === 'YES' ? 1 : 0),
-      tradeType: (signal.tradeType || signal.side || 'buy').toLowerCase() as 'buy' | 'sell',
-      amount: signal.amount || signal.usdcSize || '0',
-      price: signal.price || 0.5,
-      shares: signal.shares || signal.size,
-      transactionHash: signal.transactionHash,
-      timestamp: signal.timestamp || new Date().toISOString(),
-      slug: signal.slug,
-      eventSlug: signal.eventSlug,
-    }));
+    return signalsArray
+      .map((signal: any) => ({ ...normalizeSignal(signal), providerId: provider.id }))
+      .filter((signal: ExternalSignal) => {
+        if (providerPublishesCategory(provider, signal.category)) {
+          return true;
+        }
+        console.warn(`⚠️ Ignoring signal ${signal.id} from ${provider.name}: category ${signal.category} is not one it publishes`);
+        return false;
+      });
   } catch (error) {
-    console.error('Error fetching signals from API:', error);
+    console.error(`Error fetching signals from provider ${provider.name}:`, error);
     return [];
   }
 }
@@ -139,17 +215,24 @@ async function processConfigSignals(
   signals: ExternalSignal[]
 ): Promise<number> {
   const configCategories = JSON.parse(signalConfig.signalCategories) as string[];
+  const providerIds = parseProviderIds(signalConfig.providerIds);
   
-  // Filter signals by category
-  const relevantSignals = signals.filter((signal) =>
-    configCategories.includes(signal.category)
-  );
+  // Filter signals by subscribed providers (if any) and category (all of a
+  // subscribed provider's categories when the config lists none)
+  const relevantSignals = signals.filter((signal) => {
+    if (providerIds.length > 0 && !(signal.providerId && providerIds.includes(signal.providerId))) {
+      return false;
+    }
+    return configCategories.length === 0
+      ? providerIds.length > 0
+      : configCategories.includes(signal.category);
+  });
 
   if (relevantSignals.length === 0) {
     return 0;
   }
 
-  console.log(`📊 Config ${signalConfig.id}: Found ${relevantSignals.length} signals matching categories`);
+  console.log(`📊 Config ${signalConfig.id}: Found ${relevantSignals.length} signals matching providers and categories`);
 
   // Get all previously processed signals for this config
   let processedSignalIds = new Set<string>();
@@ -161,11 +244,12 @@ async function processConfigSignals(
       },
       select: {
         signalId: true,
+        providerId: true,
       },
     });
     
     processedSignalIds = new Set(
-      processedSignals.map((s: { signalId: string }) => s.signalId)
+      processedSignals.map((s: { signalId: string; providerId: string | null }) => getSignalKey(s.signalId, s.providerId))
     );
   } else {
     // In development, check recent signals
@@ -180,7 +264,7 @@ async function processConfigSignals(
     });
 
     processedSignalIds = new Set(
-      recentSignals.map((s: any) => s.signalId)
+      recentSignals.map((s: any) => getSignalKey(s.signalId, s.providerId))
     );
   }
 
@@ -191,11 +275,17 @@ async function processConfigSignals(
   // Process each signal
   for (const signal of relevantSignals) {
     // Skip if already processed
-    if (processedSignalIds.has(signal.id)) {
+    const signalKey = getSignalKey(signal.id, signal.providerId);
+    if (processedSignalIds.has(signalKey)) {
       skippedProcessed++;
       continue;
     }
 
+    if (isSignalExpired(signal.validUntil)) {
+      console.log(`⏭️ Skipping signal ${signal.id}: expired at ${signal.validUntil}`);
+      continue;
+    }
+
     // Filter by trade type
     const tradeType = signal.tradeType.toLowerCase() as 'buy' | 'sell';
     if (tradeType === 'buy' && !signalConfig.copyBuyTrades) {
@@ -262,23 +352,30 @@ async function processConfigSignals(
       data: {
         configId: signalConfig.id,
         signalId: signal.id,
+        providerId: signal.providerId || null,
         category: signal.category,
         originalTxHash: signal.transactionHash || null,
         marketId: signal.marketId,
         marketQuestion: signal.marketQuestion || null,
+        eventSlug: signal.eventSlug || null,
         outcomeIndex: signal.outcomeIndex,
         tradeType: tradeType,
         originalAmount: signal.amount,
         originalPrice: signal.price.toString(),
         originalShares: signal.shares || null,
+        validUntil: signal.validUntil ? new Date(signal.validUntil) : null,
+        limitPrice: signal.limitPrice !== undefined ? signal.limitPrice.toString() : null,
+        confidence: signal.confidence !== undefined ? signal.confidence.toString() : null,
         copiedAmount: '0', // Will be calculated during execution
         status: 'pending',
+        isPaper: signalConfig.mode === 'paper',
       },
     });
+    await publishCopiedSignalEvent(copiedSignal.id);
 
     // Queue signal for execution
     try {
-      await tradeExecutionQueue.add(
+      await scheduleExecutionJob(
         'execute-signal',
         {
           signalId: copiedSignal.id,
@@ -286,8 +383,9 @@ async function processConfigSignals(
           originalSignal: signal,
         },
         {
-          jobId: `signal-${signal.id}-${signalConfig.id}`, // Unique job ID
-          removeOnComplete: true,
+          userId: signalConfig.userId,
+          side: tradeType,
+          jobId: `signal-${signalKey}-${signalConfig.id}`, // Unique job ID
         }
       );
       queuedCount++;
@@ -311,3 +409,9 @@ async function processConfigSignals(
   return queuedCount;
 }
 
+/**
+ * Signal IDs are only unique within a provider
+ */
+export function getSignalKey(signalId: string, providerId?: string | null): string {
+  return providerId ? `${providerId}:${signalId}` : signalId;
+}
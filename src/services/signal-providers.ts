@@ -0,0 +1,262 @@
+import { ethers } from 'ethers';
+import { SignalProvider } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config/env';
+
+export type SignalTransport = 'poll' | 'webhook';
+
+export const SIGNAL_TRANSPORTS: SignalTransport[] = ['poll', 'webhook'];
+
+// Name of the provider created from SIGNALS_API_URL for deployments that predate the registry
+export const LEGACY_SIGNAL_PROVIDER_NAME = 'default';
+
+export interface SignalProviderInput {
+  name: string;
+  transport: SignalTransport;
+  pollUrl?: string; // poll: endpoint returning { signals: [...] } or [...]
+  apiKey?: string; // poll: sent as a bearer token
+  webhookSecret?: string; // webhook: HMAC-SHA256 shared secret
+  signerAddress?: string; // webhook: Ethereum address that signs pushes
+  categories: string[]; // Categories the provider publishes (empty = any)
+  enabled?: boolean;
+}
+
+export interface SignalProviderResponse {
+  id: string;
+  name: string;
+  transport: string;
+  pollUrl?: string;
+  signerAddress?: string;
+  hasApiKey: boolean;
+  hasWebhookSecret: boolean;
+  categories: string[];
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * List signal providers (credentials are never returned)
+ */
+export async function listSignalProviders(options: { enabledOnly?: boolean } = {}): Promise<SignalProviderResponse[]> {
+  const providers = await prisma.signalProvider.findMany({
+    where: options.enabledOnly ? { enabled: true } : undefined,
+    orderBy: { name: 'asc' },
+  });
+
+  return providers.map(toSignalProviderResponse);
+}
+
+/**
+ * Register a signal provider
+ */
+export async function createSignalProvider(input: SignalProviderInput): Promise<SignalProviderResponse> {
+  if (!input.name || !input.name.trim()) {
+    throw new Error('Invalid provider name');
+  }
+
+  const existing = await prisma.signalProvider.findUnique({ where: { name: input.name.trim() } });
+  if (existing) {
+    throw new Error(`Invalid provider name: ${input.name} is already registered`);
+  }
+
+  validateProviderSettings(input);
+
+  const provider = await prisma.signalProvider.create({
+    data: {
+      name: input.name.trim(),
+      transport: input.transport,
+      pollUrl: input.pollUrl || null,
+      apiKey: input.apiKey || null,
+      webhookSecret: input.webhookSecret || null,
+      signerAddress: input.signerAddress ? input.signerAddress.toLowerCase() : null,
+      categories: JSON.stringify(input.categories || []),
+      enabled: input.enabled ?? true,
+    },
+  });
+
+  console.log(`📡 Registered ${provider.transport} signal provider ${provider.name}`);
+
+  return toSignalProviderResponse(provider);
+}
+
+/**
+ * Update a signal provider's transport, credentials, categories or enabled flag
+ */
+export async function updateSignalProvider(
+  providerId: string,
+  updates: Partial<SignalProviderInput>
+): Promise<SignalProviderResponse> {
+  const existing = await prisma.signalProvider.findUnique({ where: { id: providerId } });
+  if (!existing) {
+    throw new Error('Signal provider not found');
+  }
+
+  const merged: SignalProviderInput = {
+    name: existing.name,
+    transport: (updates.transport ?? existing.transport) as SignalTransport,
+    pollUrl: updates.pollUrl !== undefined ? updates.pollUrl : existing.pollUrl || undefined,
+    apiKey: updates.apiKey !== undefined ? updates.apiKey : existing.apiKey || undefined,
+    webhookSecret: updates.webhookSecret !== undefined ? updates.webhookSecret : existing.webhookSecret || undefined,
+    signerAddress: updates.signerAddress !== undefined ? updates.signerAddress : existing.signerAddress || undefined,
+    categories: updates.categories ?? parseJsonList(existing.categories),
+  };
+  validateProviderSettings(merged);
+
+  const provider = await prisma.signalProvider.update({
+    where: { id: providerId },
+    data: {
+      transport: merged.transport,
+      pollUrl: merged.pollUrl || null,
+      apiKey: merged.apiKey || null,
+      webhookSecret: merged.webhookSecret || null,
+      signerAddress: merged.signerAddress ? merged.signerAddress.toLowerCase() : null,
+      categories: JSON.stringify(merged.categories),
+      ...(updates.enabled !== undefined ? { enabled: updates.enabled } : {}),
+    },
+  });
+
+  return toSignalProviderResponse(provider);
+}
+
+/**
+ * Enabled providers the signal monitor should poll
+ */
+export async function getPollSignalProviders(): Promise<SignalProvider[]> {
+  return prisma.signalProvider.findMany({
+    where: { enabled: true, transport: 'poll' },
+  });
+}
+
+/**
+ * Enabled webhook provider by name (used to verify pushed signals)
+ */
+export async function getWebhookSignalProvider(name: string): Promise<SignalProvider | null> {
+  const provider = await prisma.signalProvider.findUnique({ where: { name } });
+  return provider && provider.enabled && provider.transport === 'webhook' ? provider : null;
+}
+
+/**
+ * Register SIGNALS_API_URL as the "default" poll provider if it isn't registered yet
+ * Keeps single-upstream deployments working; afterwards the record is managed through the admin API.
+ */
+export async function ensureLegacySignalProvider(): Promise<void> {
+  if (!config.signals.apiUrl) {
+    return;
+  }
+
+  const existing = await prisma.signalProvider.findUnique({ where: { name: LEGACY_SIGNAL_PROVIDER_NAME } });
+  if (existing) {
+    return;
+  }
+
+  // Upsert so processes starting together don't race on the unique name
+  await prisma.signalProvider.upsert({
+    where: { name: LEGACY_SIGNAL_PROVIDER_NAME },
+    update: {},
+    create: {
+      name: LEGACY_SIGNAL_PROVIDER_NAME,
+      transport: 'poll',
+      pollUrl: config.signals.apiUrl,
+      apiKey: config.signals.apiKey || null,
+      categories: '[]',
+    },
+  });
+
+  console.log(`📡 Registered SIGNALS_API_URL as signal provider "${LEGACY_SIGNAL_PROVIDER_NAME}"`);
+}
+
+/**
+ * Check that a copy signal config only subscribes to registered, enabled providers
+ */
+export async function validateProviderIds(providerIds: string[] | undefined): Promise<void> {
+  if (providerIds === undefined) {
+    return;
+  }
+  if (!Array.isArray(providerIds) || providerIds.some((id) => typeof id !== 'string')) {
+    throw new Error('Invalid providerIds: must be an array of provider IDs');
+  }
+  if (providerIds.length === 0) {
+    return;
+  }
+
+  const providers = await prisma.signalProvider.findMany({
+    where: { id: { in: providerIds }, enabled: true },
+    select: { id: true },
+  });
+  const found = new Set(providers.map((provider) => provider.id));
+  const unknown = providerIds.filter((id) => !found.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid signal provider: ${unknown.join(', ')}`);
+  }
+}
+
+/**
+ * Parse a copy signal config's providerIds column; null means no provider filter
+ */
+export function parseProviderIds(value: string | null | undefined): string[] {
+  return parseJsonList(value);
+}
+
+/**
+ * Whether a provider publishes the given category (an empty list publishes any)
+ */
+export function providerPublishesCategory(provider: SignalProvider, category: string): boolean {
+  const categories = parseJsonList(provider.categories);
+  return categories.length === 0 || categories.includes(category);
+}
+
+function validateProviderSettings(input: SignalProviderInput): void {
+  if (!SIGNAL_TRANSPORTS.includes(input.transport)) {
+    throw new Error(`Invalid transport: must be one of ${SIGNAL_TRANSPORTS.join(', ')}`);
+  }
+
+  if (!Array.isArray(input.categories) || input.categories.some((category) => typeof category !== 'string')) {
+    throw new Error('Invalid categories: must be an array of strings');
+  }
+
+  if (input.transport === 'poll') {
+    try {
+      new URL(input.pollUrl || '');
+    } catch {
+      throw new Error('Invalid pollUrl: poll providers need a valid URL');
+    }
+  }
+
+  if (input.transport === 'webhook') {
+    if (!input.webhookSecret && !input.signerAddress) {
+      throw new Error('Invalid credentials: webhook providers need a webhookSecret or signerAddress');
+    }
+    if (input.signerAddress && !ethers.utils.isAddress(input.signerAddress)) {
+      throw new Error('Invalid signerAddress');
+    }
+  }
+}
+
+function parseJsonList(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function toSignalProviderResponse(provider: SignalProvider): SignalProviderResponse {
+  return {
+    id: provider.id,
+    name: provider.name,
+    transport: provider.transport,
+    pollUrl: provider.pollUrl || undefined,
+    signerAddress: provider.signerAddress || undefined,
+    hasApiKey: !!provider.apiKey,
+    hasWebhookSecret: !!provider.webhookSecret,
+    categories: parseJsonList(provider.categories),
+    enabled: provider.enabled,
+    createdAt: provider.createdAt,
+    updatedAt: provider.updatedAt,
+  };
+}
@@ -23,6 +23,7 @@ export interface TradeStatistics {
     marketQuestion: string;
     tradeType: string;
   } | null;
+  paper?: TradeStatistics; // Paper-mode trades, reported separately from live results
 }
 
 export interface TraderStatistics {
@@ -72,6 +73,7 @@ export async function getConfigStatistics(
 
 /**
  * Get trade statistics for all user's copy trading (including deleted configs)
+ * Top-level figures are live trades; paper trades are under `paper`.
  */
 export async function getUserStatistics(userId: string): Promise<TradeStatistics> {
   // Get all trades for user through config relationship
@@ -86,7 +88,10 @@ export async function getUserStatistics(userId: string): Promise<TradeStatistics
     },
   });
 
-  return calculateStatistics(trades);
+  return {
+    ...calculateStatistics(trades.filter((t) => !t.isPaper)),
+    paper: calculateStatistics(trades.filter((t) => t.isPaper)),
+  };
 }
 
 /**
@@ -158,7 +163,7 @@ export async function getTraderStatistics(userId: string): Promise<TraderStatist
  * Calculate statistics from trades
  */
 function calculateStatistics(trades: any[]): TradeStatistics {
-  const executedTrades = trades.filter((t) => t.status === 'executed');
+  const executedTrades = trades.filter((t) => t.status === 'executed' || t.status === 'simulated');
   const pendingTrades = trades.filter((t) => t.status === 'pending');
   const failedTrades = trades.filter((t) => t.status === 'failed');
   
@@ -322,6 +327,9 @@ export async function getConfigTradeHistory(
       marketQuestion: trade.marketQuestion,
       outcomeIndex: trade.outcomeIndex,
       tradeType: trade.tradeType,
+      exitReason: trade.exitReason,
+      consensusSources: trade.consensusSources ? JSON.parse(trade.consensusSources) : null,
+      aggregatedTxHashes: trade.aggregatedTxHashes ? JSON.parse(trade.aggregatedTxHashes) : null,
       originalAmount: trade.originalAmount,
       originalPrice: trade.originalPrice,
       originalShares: trade.originalShares,
@@ -330,6 +338,7 @@ export async function getConfigTradeHistory(
       copiedPrice: trade.copiedPrice,
       copiedShares: trade.copiedShares,
       status: trade.status,
+      isPaper: trade.isPaper,
       outcome: trade.outcome,
       pnl: trade.pnl,
       resolvedAt: trade.resolvedAt,
@@ -438,6 +447,9 @@ export async function getUserTradeHistory(
       marketQuestion: trade.marketQuestion,
       outcomeIndex: trade.outcomeIndex,
       tradeType: trade.tradeType,
+      exitReason: trade.exitReason,
+      consensusSources: trade.consensusSources ? JSON.parse(trade.consensusSources) : null,
+      aggregatedTxHashes: trade.aggregatedTxHashes ? JSON.parse(trade.aggregatedTxHashes) : null,
       originalAmount: trade.originalAmount,
       originalPrice: trade.originalPrice,
       originalShares: trade.originalShares,
@@ -446,6 +458,7 @@ export async function getUserTradeHistory(
       copiedPrice: trade.copiedPrice,
       copiedShares: trade.copiedShares,
       status: trade.status,
+      isPaper: trade.isPaper,
       outcome: trade.outcome,
       pnl: trade.pnl,
       resolvedAt: trade.resolvedAt,
@@ -1,23 +1,64 @@
 import { prisma } from '../config/database';
-import { calculatePositionSize } from './position-sizer';
+import {
+  calculatePositionSize,
+  calculateSellPositionSize,
+  getTraderSellFraction,
+  PositionSizeResult,
+  validatePriceDeviation,
+} from './position-sizer';
 import { executeBuyTrade, executeSellTrade } from './polymarket-executor';
 import { ethers } from 'ethers';
 import { monitorOrderSettlement } from './order-monitor';
+import { getOrderBook } from './polymarket-clob';
 import { getUserLogger } from '../utils/user-logger';
+import { applyExposureCaps, withUserExposureLock } from './exposure-limits';
+import { SIMULATED_STATUS, getOutcomeTokenId, simulateFill } from './paper-trading';
+import { closeAggregate } from './fill-aggregation';
+import { planLimitOrder } from './limit-orders';
+import { categorizeFailure, isRetryableFailure } from './execution-failures';
+import { emitUserEvent, notifyCopiedTradeOutcome } from './notifications';
+import { publishCopiedTradeEvent } from './trading-events';
 
 export interface TradeExecutionJob {
   tradeId: string;
   configId: string;
   originalTrade: any;
+  sellFraction?: number; // Fraction of the trader's position sold (sell trades only)
+  hasAttemptsLeft?: boolean; // The queue retries this job if the attempt fails transiently
 }
 
 /**
  * Execute a copied trade automatically
+ * Webhook subscribers are notified of the outcome (executed, skipped or failed) and the
+ * owner's live event stream gets the trade's new state.
+ * Buys run one at a time per user so their exposure cap checks see each other.
  */
 export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
-  const { tradeId, configId, originalTrade } = jobData;
+  try {
+    const copiedTrade = await prisma.copiedTrade.findUnique({
+      where: { id: jobData.tradeId },
+      include: { config: true },
+    });
+
+    if (copiedTrade?.tradeType === 'buy' && copiedTrade.config) {
+      await withUserExposureLock(copiedTrade.config.userId, () => runTrade(jobData));
+    } else {
+      await runTrade(jobData);
+    }
+  } finally {
+    await notifyCopiedTradeOutcome(jobData.tradeId);
+    await publishCopiedTradeEvent(jobData.tradeId);
+  }
+}
+
+async function runTrade(jobData: TradeExecutionJob): Promise<void> {
+  const { tradeId, configId } = jobData;
+  let { originalTrade, sellFraction } = jobData;
 
   try {
+    // Stop a debounced copy from taking more fills before reading its totals
+    await closeAggregate(tradeId);
+
     // Get the copied trade record
     const copiedTrade = await prisma.copiedTrade.findUnique({
       where: { id: tradeId },
@@ -42,6 +83,25 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
       throw new Error(errorMsg);
     }
 
+    // A job can be delivered more than once (stalled jobs, requeues, another process
+    // detecting the same fill), so never place a second order for the same copy
+    if (copiedTrade.orderId || copiedTrade.status !== 'pending') {
+      console.log(`⏭️ Trade ${tradeId} already ${copiedTrade.status}${copiedTrade.orderId ? ` (order ${copiedTrade.orderId})` : ''}, skipping`);
+      return;
+    }
+
+    // A debounced copy covers several fills: size it on their combined amount at the
+    // volume-weighted price, and re-derive the sell fraction from the combined shares
+    if (copiedTrade.aggregatedTxHashes && JSON.parse(copiedTrade.aggregatedTxHashes).length > 1) {
+      originalTrade = {
+        ...originalTrade,
+        usdcSize: copiedTrade.originalAmount,
+        size: copiedTrade.originalShares,
+        price: parseFloat(copiedTrade.originalPrice || String(originalTrade.price)),
+      };
+      sellFraction = undefined;
+    }
+
     const copyConfig = copiedTrade.config;
     const userAddress = copyConfig.user.address;
     const userLogger = getUserLogger(userAddress);
@@ -80,10 +140,11 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
     }
 
     // Check if config has exceeded allocated USDC amount
+    // Sells return USDC, so they're always allowed (otherwise we could never exit a position)
     const allocatedAmount = parseFloat(copyConfig.allocatedUSDCAmount || '0');
     const usedAmount = parseFloat(copyConfig.usedUSDCAmount || '0');
     
-    if (usedAmount >= allocatedAmount) {
+    if (copiedTrade.tradeType === 'buy' && usedAmount >= allocatedAmount) {
       try {
         await prisma.copiedTrade.update({
           where: { id: tradeId },
@@ -116,6 +177,12 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
               enabled: false,
             },
           });
+          await emitUserEvent(copyConfig.userId, 'config.auto_paused', `config.auto_paused:duration:${configId}:${startDate.getTime()}`, {
+            configId,
+            configType: 'copy_trading',
+            traderAddress: copyConfig.targetTraderAddress,
+            reason: 'duration_expired',
+          });
         } catch (updateError) {
           console.error(`⚠️ Failed to auto-pause config ${configId}:`, updateError);
         }
@@ -209,6 +276,40 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
     //   return;
     // }
 
+    // Re-check price drift right before submitting - the market may have moved while queued
+    if (copyConfig.maxPriceDeviation && originalTrade.asset) {
+      try {
+        const orderBook = await getOrderBook(originalTrade.asset);
+        const deviationCheck = validatePriceDeviation(
+          parseFloat(originalTrade.price.toString()),
+          copiedTrade.tradeType as 'buy' | 'sell',
+          orderBook,
+          copyConfig.maxPriceDeviation
+        );
+
+        if (!deviationCheck.isValid) {
+          try {
+            await prisma.copiedTrade.update({
+              where: { id: tradeId },
+              data: {
+                status: 'skipped',
+                errorMessage: deviationCheck.reason,
+                failureReason: 'price_deviation_exceeded',
+                failureCategory: 'market',
+              },
+            });
+            console.log(`⏭️ Trade ${tradeId} skipped: ${deviationCheck.reason}`);
+          } catch (updateError) {
+            console.error(`❌ Failed to update trade ${tradeId} status to 'skipped':`, updateError);
+          }
+          return;
+        }
+      } catch (error) {
+        // Order book errors are handled by the executor's own checks below
+        console.warn(`⚠️ Could not check price deviation for trade ${tradeId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
     // Log trade execution start
     userLogger.tradeExecutionStart(tradeId, copiedTrade.marketId, copiedTrade.tradeType, {
       configId,
@@ -217,11 +318,101 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
     });
 
     // Calculate position size
-    const positionSize = await calculatePositionSize(
-      configId,
-      originalTrade.usdcSize,
-      copiedTrade.tradeType as 'buy' | 'sell'
-    );
+    // Buys use the configured amount rules; sells mirror the fraction of the position the trader sold
+    let positionSize: PositionSizeResult;
+    let copiedShares: string | null = null;
+    let sellSharesWei: string | null = null;
+    let sizeCapReason: string | null = null;
+
+    if (copiedTrade.tradeType === 'buy') {
+      positionSize = await calculatePositionSize(
+        configId,
+        originalTrade.usdcSize,
+        'buy'
+      );
+
+      // Keep the buy within per-market / per-event exposure caps
+      const capResult = await applyExposureCaps(
+        copyConfig,
+        {
+          marketId: copiedTrade.marketId,
+          eventSlug: copiedTrade.eventSlug || originalTrade.eventSlug,
+          excludeTradeId: tradeId,
+        },
+        positionSize.amount
+      );
+
+      if (capResult.isBlocked) {
+        try {
+          await prisma.copiedTrade.update({
+            where: { id: tradeId },
+            data: {
+              status: 'skipped',
+              errorMessage: capResult.reason,
+              failureReason: `${capResult.capType}_exposure_cap`,
+              failureCategory: 'validation',
+            },
+          });
+          console.log(`⏭️ Trade ${tradeId} skipped: ${capResult.reason}`);
+        } catch (updateError) {
+          console.error(`❌ Failed to update trade ${tradeId} status to 'skipped':`, updateError);
+        }
+        return;
+      }
+
+      if (capResult.isCapped) {
+        const cappedAmountWei = ethers.utils.parseUnits(capResult.amount, 6);
+        positionSize = {
+          ...positionSize,
+          amount: capResult.amount,
+          amountWei: cappedAmountWei.toString(),
+          isSufficient: ethers.utils.parseUnits(positionSize.balance, 6).gte(cappedAmountWei),
+        };
+        sizeCapReason = capResult.reason || null;
+        console.log(`📏 Trade ${tradeId}: ${capResult.reason}`);
+      }
+    } else {
+      const fraction = sellFraction !== undefined
+        ? sellFraction
+        : (await getTraderSellFraction(copiedTrade.originalTrader, originalTrade)).sellFraction;
+
+      const sellSize = await calculateSellPositionSize(
+        configId,
+        copiedTrade.marketId,
+        copiedTrade.outcomeIndex,
+        fraction,
+        parseFloat(originalTrade.price.toString()),
+        tradeId
+      );
+
+      if (parseFloat(sellSize.shares) <= 0) {
+        try {
+          await prisma.copiedTrade.update({
+            where: { id: tradeId },
+            data: {
+              status: 'skipped',
+              errorMessage: `No copied position to sell (net shares: ${sellSize.netShares})`,
+              failureReason: 'no_position_to_sell',
+              failureCategory: 'balance',
+            },
+          });
+        } catch (updateError) {
+          console.error(`❌ Failed to update trade ${tradeId} status to 'skipped':`, updateError);
+        }
+        return;
+      }
+
+      console.log(`📉 Trade ${tradeId}: Selling ${sellSize.shares}/${sellSize.netShares} shares (${(sellSize.sellFraction * 100).toFixed(2)}% of position${sellSize.isFullExit ? ', full exit' : ''})`);
+
+      copiedShares = sellSize.shares;
+      sellSharesWei = sellSize.sharesWei;
+      positionSize = {
+        amount: sellSize.amount,
+        amountWei: ethers.utils.parseUnits(sellSize.amount, 6).toString(),
+        isSufficient: true, // Sells don't consume USDC; token balance is checked by the executor
+        balance: '0',
+      };
+    }
 
     // Check if user has sufficient balance
     if (!positionSize.isSufficient) {
@@ -247,23 +438,16 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
 
     // Get slippage tolerance from config
     const slippageTolerance = parseFloat(copyConfig.slippageTolerance || '0.05');
-    // TEMPORARILY DISABLED: Set to 1 to disable retries
+    // Retries happen at the queue level for transient failures (see execution-failures.ts)
     const maxRetries = 1; // copyConfig.maxRetries || 3;
 
     // Calculate copied shares based on copied amount and price
     // Shares = Amount / Price (for buy trades)
-    // For sell trades, shares are the amount being sold
-    let copiedShares: string | null = null;
-    if (originalTrade.price && parseFloat(originalTrade.price.toString()) > 0) {
+    // For sell trades, shares come from the mirrored position size above
+    if (copiedTrade.tradeType === 'buy' && originalTrade.price && parseFloat(originalTrade.price.toString()) > 0) {
       const price = parseFloat(originalTrade.price.toString());
       const amount = parseFloat(positionSize.amount);
-      if (copiedTrade.tradeType === 'buy') {
-        // For buy: shares = amount / price
-        copiedShares = (amount / price).toFixed(6);
-      } else {
-        // For sell: shares = amount / price (amount is the value being sold)
-        copiedShares = (amount / price).toFixed(6);
-      }
+      copiedShares = (amount / price).toFixed(6);
     }
 
     // Update copied trade with calculated amount and shares
@@ -278,6 +462,7 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
           copiedPrice: originalTrade.price.toString(),
           copiedShares: copiedShares,
           costBasis: costBasis,
+          sizeCapReason: sizeCapReason,
         },
       });
     } catch (updateError) {
@@ -285,6 +470,17 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
       throw new Error(`Failed to update trade record: ${updateError instanceof Error ? updateError.message : 'Unknown error'}`);
     }
 
+    // Paper configs fill against the live order book without submitting an order
+    if (copyConfig.mode === 'paper') {
+      await executePaperTrade(copyConfig, copiedTrade, originalTrade, positionSize, copiedShares, slippageTolerance);
+      return;
+    }
+
+    // Limit-mode configs rest an order near the trader's price instead of crossing the spread
+    const limitOrder = copyConfig.executionStyle === 'limit'
+      ? planLimitOrder(copyConfig, copiedTrade.tradeType, parseFloat(originalTrade.price.toString()))
+      : null;
+
     // Execute trade via CLOB with Builder Program attribution
     let executionResult: { orderId: string; status: string; txHash?: string } | null = null;
     let lastError: Error | null = null;
@@ -300,22 +496,19 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
             copiedTrade.outcomeIndex,
             positionSize.amountWei,
             originalPrice,
-            slippageTolerance
+            slippageTolerance,
+            limitOrder?.params
           );
         } else {
           // For sell trades, we need shares, not amount
-          // Calculate shares from amount and price
-          const sharesWei = copiedShares 
-            ? ethers.utils.parseUnits(copiedShares, 18).toString()
-            : positionSize.amountWei; // Fallback if shares not calculated
-          
           executionResult = await executeSellTrade(
             copyConfig.user.address,
             copiedTrade.marketId,
             copiedTrade.outcomeIndex,
-            sharesWei,
+            sellSharesWei!,
             originalPrice,
-            slippageTolerance
+            slippageTolerance,
+            limitOrder?.params
           );
         }
         
@@ -332,6 +525,11 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
           error: lastError.message,
         });
         
+        // Don't resubmit an order that may already be on the book
+        if (!isRetryableFailure(categorizeFailure(lastError.message).failureReason)) {
+          break;
+        }
+        
         if (attempt < maxRetries) {
           // Wait before retry (exponential backoff)
           const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
@@ -378,6 +576,13 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
         // executedAt will be set when order settles
       };
 
+      // Open limit orders are finalized (filled or cancelled) by the limit order worker
+      if (limitOrder) {
+        updateData.orderType = limitOrder.params.orderType;
+        updateData.limitPrice = limitOrder.params.price.toFixed(6);
+        updateData.orderExpiresAt = limitOrder.expiresAt;
+      }
+
       // Only increment usedUSDCAmount for buy trades
       if (copiedTrade.tradeType === 'buy') {
         const newUsedAmount = (currentUsedAmount + tradeAmount).toFixed(6);
@@ -466,17 +671,19 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
       if (existingTrade) {
         // Categorize failure reason
         const { failureReason, failureCategory } = categorizeFailure(errorMessage);
+        // Transient failures stay pending while the queue still has attempts left
+        const status = jobData.hasAttemptsLeft && isRetryableFailure(failureReason) ? 'pending' : 'failed';
         
         await prisma.copiedTrade.update({
           where: { id: tradeId },
           data: {
-            status: 'failed',
+            status,
             errorMessage: errorMessage,
             failureReason: failureReason,
             failureCategory: failureCategory,
           },
         });
-        console.log(`📝 Updated trade ${tradeId} status to 'failed' (${failureCategory}: ${failureReason})`);
+        console.log(`📝 Updated trade ${tradeId} status to '${status}' (${failureCategory}: ${failureReason})`);
       } else {
         console.warn(`⚠️ Trade ${tradeId} not found - cannot update status. Trade may have been deleted.`);
       }
@@ -491,85 +698,55 @@ export async function executeTrade(jobData: TradeExecutionJob): Promise<void> {
 }
 
 /**
- * Categorize failure reason from error message
+ * Simulate a paper config's trade by walking the order book and record the fill
  */
-function categorizeFailure(errorMessage: string): { failureReason: string; failureCategory: string } {
-  const lowerMessage = errorMessage.toLowerCase();
-  
-  // Balance-related failures
-  if (lowerMessage.includes('not enough balance') || lowerMessage.includes('insufficient balance')) {
-    return {
-      failureReason: 'insufficient_balance',
-      failureCategory: 'balance',
-    };
-  }
-  
-  // Allowance-related failures
-  if (lowerMessage.includes('not enough allowance') || lowerMessage.includes('allowance')) {
-    return {
-      failureReason: 'insufficient_allowance',
-      failureCategory: 'balance',
-    };
-  }
-  
-  // Validation failures
-  if (lowerMessage.includes('min size') || lowerMessage.includes('minimum')) {
-    return {
-      failureReason: 'below_minimum_size',
-      failureCategory: 'validation',
-    };
-  }
-  
-  // Price validation failures
-  if (lowerMessage.includes('invalid price') || (lowerMessage.includes('price') && (lowerMessage.includes('min:') || lowerMessage.includes('max:')))) {
-    return {
-      failureReason: 'invalid_price',
-      failureCategory: 'validation',
-    };
-  }
-  
-  if (lowerMessage.includes('orderbook does not exist') || lowerMessage.includes('orderbook')) {
-    return {
-      failureReason: 'orderbook_unavailable',
-      failureCategory: 'market',
-    };
-  }
-  
-  // Market status failures
-  if (lowerMessage.includes('market is closed') || lowerMessage.includes('market closed')) {
-    return {
-      failureReason: 'market_closed',
-      failureCategory: 'market',
-    };
-  }
-  
-  if (lowerMessage.includes('market is not open') || lowerMessage.includes('not accepting orders')) {
-    return {
-      failureReason: 'market_not_accepting_orders',
-      failureCategory: 'market',
-    };
-  }
-  
-  // Execution failures
-  if (lowerMessage.includes('invalid signature')) {
-    return {
-      failureReason: 'invalid_signature',
-      failureCategory: 'execution',
-    };
-  }
-  
-  if (lowerMessage.includes('rate limit') || lowerMessage.includes('too many requests')) {
-    return {
-      failureReason: 'rate_limited',
-      failureCategory: 'execution',
-    };
-  }
-  
-  // Default
-  return {
-    failureReason: 'unknown_error',
-    failureCategory: 'other',
-  };
-}
+async function executePaperTrade(
+  copyConfig: any,
+  copiedTrade: any,
+  originalTrade: any,
+  positionSize: PositionSizeResult,
+  copiedShares: string | null,
+  slippageTolerance: number
+): Promise<void> {
+  const tokenId = originalTrade.asset || await getOutcomeTokenId(copiedTrade.marketId, copiedTrade.outcomeIndex);
+  const isBuy = copiedTrade.tradeType === 'buy';
 
+  const fill = await simulateFill(
+    tokenId,
+    isBuy ? 'buy' : 'sell',
+    parseFloat(isBuy ? positionSize.amount : copiedShares || '0'),
+    parseFloat(originalTrade.price.toString()),
+    slippageTolerance
+  );
 
+  await prisma.copiedTrade.update({
+    where: { id: copiedTrade.id },
+    data: {
+      status: SIMULATED_STATUS,
+      orderStatus: 'SIMULATED',
+      copiedAmount: fill.amount,
+      copiedPrice: fill.averagePrice,
+      copiedShares: fill.shares,
+      costBasis: isBuy ? fill.amount : null,
+      submittedAt: new Date(),
+      executedAt: new Date(),
+      settledAt: new Date(),
+    },
+  });
+
+  if (isBuy) {
+    // Paper buys draw down the allocation the same way live buys do
+    await prisma.copyTradingConfig.update({
+      where: { id: copyConfig.id },
+      data: {
+        usedUSDCAmount: (parseFloat(copyConfig.usedUSDCAmount || '0') + parseFloat(fill.amount)).toFixed(6),
+        ...(copyConfig.maxBuyTradesPerDay && {
+          tradesCountToday: { increment: 1 },
+          lastResetDate: copyConfig.lastResetDate || new Date(),
+        }),
+      },
+    });
+  }
+
+  console.log(`📝 Paper trade ${copiedTrade.id} simulated: ${copiedTrade.tradeType} ${fill.shares} shares @ ${fill.averagePrice} (${fill.amount} USDC, ${fill.levelsConsumed} levels${fill.isPartial ? ', partial fill' : ''})`);
+}
@@ -1,6 +1,11 @@
 import { prisma } from '../config/database';
 import { getMarketInfo } from './polymarket-clob';
 import { logger } from '../utils/logger';
+import { publishCopiedTradeEvent } from './trading-events';
+import { FILLED_STATUSES } from './portfolio';
+
+// Trades whose fill is final and can be valued: settled on-chain, or simulated by a paper config
+const SETTLED_STATUSES = ['settled', 'simulated'];
 
 /**
  * Calculate current value and unrealized PnL for a trade
@@ -11,8 +16,8 @@ export async function updateTradeCurrentValue(tradeId: string): Promise<void> {
       where: { id: tradeId },
     });
 
-    if (!trade || !trade.copiedShares || !trade.marketId || trade.status !== 'settled') {
-      return; // Only update settled trades with shares
+    if (!trade || !trade.copiedShares || !trade.marketId || !SETTLED_STATUSES.includes(trade.status)) {
+      return; // Only update settled (or simulated) trades with shares
     }
 
     // Get current market price
@@ -55,6 +60,7 @@ export async function updateTradeCurrentValue(tradeId: string): Promise<void> {
         lastPriceUpdate: new Date(),
       },
     });
+    await publishCopiedTradeEvent(tradeId, 'price-update');
   } catch (error) {
     logger.error('Error updating trade current value', {
       tradeId,
@@ -63,6 +69,18 @@ export async function updateTradeCurrentValue(tradeId: string): Promise<void> {
   }
 }
 
+/**
+ * Count non-failed exit trades by exit reason
+ */
+export function countExitsByReason(trades: Array<{ tradeType: string; status: string; exitReason: string | null }>) {
+  const exits = trades.filter(t => t.tradeType === 'exit' && t.status !== 'failed');
+  return {
+    stopLoss: exits.filter(t => t.exitReason === 'stop_loss').length,
+    takeProfit: exits.filter(t => t.exitReason === 'take_profit').length,
+    trailingStop: exits.filter(t => t.exitReason === 'trailing_stop').length,
+  };
+}
+
 /**
  * Get trade history for a specific config
  */
@@ -164,14 +182,19 @@ export async function getTradeHistoryForUser(
 }
 
 /**
- * Calculate trade statistics for a config
+ * Summarize a set of copied trades (counts, PnL, invested/returned, exits)
  */
-export async function getTradeStatsForConfig(configId: string) {
-  const trades = await prisma.copiedTrade.findMany({
-    where: { configId },
-  });
-
-  const successful = trades.filter(t => t.status === 'settled' || t.status === 'executed');
+function summarizeTrades(trades: Array<{
+  status: string;
+  tradeType: string;
+  outcome: string | null;
+  pnl: string | null;
+  unrealizedPnl: string | null;
+  costBasis: string | null;
+  copiedAmount: string;
+  exitReason: string | null;
+}>) {
+  const successful = trades.filter(t => FILLED_STATUSES.includes(t.status));
   const failed = trades.filter(t => t.status === 'failed');
   const pending = trades.filter(t => t.status === 'pending' || t.status === 'executed');
 
@@ -183,7 +206,7 @@ export async function getTradeStatsForConfig(configId: string) {
 
   // Calculate unrealized PnL (from open positions)
   const openTrades = trades.filter(t => 
-    t.status === 'settled' && 
+    SETTLED_STATUSES.includes(t.status) && 
     t.tradeType === 'buy' && 
     !t.outcome && 
     t.unrealizedPnl
@@ -197,14 +220,14 @@ export async function getTradeStatsForConfig(configId: string) {
   const buyTrades = trades.filter(t => 
     t.tradeType === 'buy' && 
     t.costBasis && 
-    (t.status === 'settled' || t.status === 'executed')
+    FILLED_STATUSES.includes(t.status)
   );
   const totalInvested = buyTrades.reduce((sum, t) => {
     return sum + parseFloat(t.costBasis || t.copiedAmount || '0');
   }, 0);
 
-  // Calculate total returned (from sell trades)
-  const sellTrades = trades.filter(t => t.tradeType === 'sell' && t.copiedAmount);
+  // Calculate total returned (from sell and exit trades)
+  const sellTrades = trades.filter(t => (t.tradeType === 'sell' || t.tradeType === 'exit') && t.copiedAmount);
   const totalReturned = sellTrades.reduce((sum, t) => {
     return sum + parseFloat(t.copiedAmount || '0');
   }, 0);
@@ -222,11 +245,24 @@ export async function getTradeStatsForConfig(configId: string) {
     winRate: resolvedTrades.length > 0 
       ? (resolvedTrades.filter(t => parseFloat(t.pnl || '0') > 0).length / resolvedTrades.length * 100).toFixed(2)
       : '0.00',
+    exits: countExitsByReason(trades),
   };
 }
 
+/**
+ * Calculate trade statistics for a config
+ */
+export async function getTradeStatsForConfig(configId: string) {
+  const trades = await prisma.copiedTrade.findMany({
+    where: { configId },
+  });
+
+  return summarizeTrades(trades);
+}
+
 /**
  * Calculate overall trade statistics for a user
+ * Top-level figures cover live trades only; paper trades are reported under `paper`.
  */
 export async function getTradeStatsForUser(userId: string) {
   const configs = await prisma.copyTradingConfig.findMany({
@@ -236,64 +272,11 @@ export async function getTradeStatsForUser(userId: string) {
     },
   });
 
-  let totalTrades = 0;
-  let totalSuccessful = 0;
-  let totalFailed = 0;
-  let totalPending = 0;
-  let totalRealizedPnl = 0;
-  let totalUnrealizedPnl = 0;
-  let totalInvested = 0;
-  let totalReturned = 0;
-  let totalResolvedTrades = 0;
-  let totalWinningTrades = 0;
-
-  for (const config of configs) {
-    const trades = config.copiedTrades;
-    totalTrades += trades.length;
-    
-    totalSuccessful += trades.filter(t => t.status === 'settled' || t.status === 'executed').length;
-    totalFailed += trades.filter(t => t.status === 'failed').length;
-    totalPending += trades.filter(t => t.status === 'pending' || t.status === 'executed').length;
-
-    const resolvedTrades = trades.filter(t => t.outcome && t.pnl);
-    totalResolvedTrades += resolvedTrades.length;
-    totalWinningTrades += resolvedTrades.filter(t => parseFloat(t.pnl || '0') > 0).length;
-    
-    totalRealizedPnl += resolvedTrades.reduce((sum, t) => sum + parseFloat(t.pnl || '0'), 0);
-
-    const openTrades = trades.filter(t => 
-      t.status === 'settled' && 
-      t.tradeType === 'buy' && 
-      !t.outcome && 
-      t.unrealizedPnl
-    );
-    totalUnrealizedPnl += openTrades.reduce((sum, t) => sum + parseFloat(t.unrealizedPnl || '0'), 0);
-
-    // Only count successful buy trades (settled or executed, not failed)
-    const buyTrades = trades.filter(t => 
-      t.tradeType === 'buy' && 
-      t.costBasis && 
-      (t.status === 'settled' || t.status === 'executed')
-    );
-    totalInvested += buyTrades.reduce((sum, t) => sum + parseFloat(t.costBasis || t.copiedAmount || '0'), 0);
-
-    const sellTrades = trades.filter(t => t.tradeType === 'sell' && t.copiedAmount);
-    totalReturned += sellTrades.reduce((sum, t) => sum + parseFloat(t.copiedAmount || '0'), 0);
-  }
+  const trades = configs.flatMap(config => config.copiedTrades);
 
   return {
-    totalTrades,
-    successful: totalSuccessful,
-    failed: totalFailed,
-    pending: totalPending,
-    realizedPnl: totalRealizedPnl.toFixed(6),
-    unrealizedPnl: totalUnrealizedPnl.toFixed(6),
-    totalPnl: (totalRealizedPnl + totalUnrealizedPnl).toFixed(6),
-    totalInvested: totalInvested.toFixed(6),
-    totalReturned: totalReturned.toFixed(6),
-    winRate: totalResolvedTrades > 0 
-      ? ((totalWinningTrades / totalResolvedTrades) * 100).toFixed(2)
-      : '0.00',
+    ...summarizeTrades(trades.filter(t => !t.isPaper)),
+    paper: summarizeTrades(trades.filter(t => t.isPaper)),
     totalConfigs: configs.length,
   };
 }
@@ -1,4 +1,5 @@
 import { prisma } from '../config/database';
+import { countExitsByReason } from './trade-history';
 
 /**
  * Complete lifecycle view of a trade from start to finish
@@ -364,12 +365,22 @@ export interface EnhancedTradeStatistics {
   totalInvested: string;
   totalReturned: string;
   
+  // Exit stats (positions closed by stop-loss / take-profit / trailing stop)
+  exits: {
+    stopLoss: number;
+    takeProfit: number;
+    trailingStop: number;
+  };
+  
   // Performance stats
   winRate: string;
   roi: string; // Return on investment (totalPnl / totalInvested * 100)
   
   // Time stats
   averageHoldTime: string | null; // Average time from settlement to resolution (in hours)
+
+  // Paper-mode trades (user-level stats only; top-level figures are live)
+  paper?: EnhancedTradeStatistics;
 }
 
 /**
@@ -401,11 +412,29 @@ export async function getEnhancedStatistics(
     where,
   });
 
+  // A single config reports whatever it traded; user-level stats split live and paper
+  if (configId) {
+    return calculateEnhancedStatistics(trades);
+  }
+
+  return {
+    ...calculateEnhancedStatistics(trades.filter(t => !t.isPaper)),
+    paper: calculateEnhancedStatistics(trades.filter(t => t.isPaper)),
+  };
+}
+
+/**
+ * Calculate enhanced statistics from a set of copied trades
+ * Simulated (paper) fills count as settled.
+ */
+function calculateEnhancedStatistics(trades: any[]): EnhancedTradeStatistics {
+  const isFilled = (t: any) => t.status === 'settled' || t.status === 'simulated';
+
   // Basic counts
-  const successfulTrades = trades.filter(t => t.status === 'settled' || t.status === 'executed');
+  const successfulTrades = trades.filter(t => isFilled(t) || t.status === 'executed');
   const failedTrades = trades.filter(t => t.status === 'failed');
   const pendingTrades = trades.filter(t => t.status === 'pending');
-  const settledTrades = trades.filter(t => t.status === 'settled' && t.orderStatus === 'SETTLED');
+  const settledTrades = trades.filter(t => (t.status === 'settled' && t.orderStatus === 'SETTLED') || t.status === 'simulated');
 
   // Outcome stats
   const resolvedTrades = trades.filter(t => t.outcome && t.pnl);
@@ -417,7 +446,7 @@ export async function getEnhancedStatistics(
   // PnL stats
   const realizedPnl = resolvedTrades.reduce((sum, t) => sum + parseFloat(t.pnl || '0'), 0);
   const openTrades = trades.filter(t => 
-    t.status === 'settled' && 
+    isFilled(t) && 
     t.tradeType === 'buy' && 
     !t.outcome && 
     t.unrealizedPnl
@@ -463,11 +492,11 @@ export async function getEnhancedStatistics(
   const buyTrades = trades.filter(t => 
     t.tradeType === 'buy' && 
     t.costBasis && 
-    (t.status === 'settled' || t.status === 'executed')
+    (isFilled(t) || t.status === 'executed')
   );
   const totalInvested = buyTrades.reduce((sum, t) => sum + parseFloat(t.costBasis || t.copiedAmount || '0'), 0);
   
-  const sellTrades = trades.filter(t => t.tradeType === 'sell' && t.copiedAmount);
+  const sellTrades = trades.filter(t => (t.tradeType === 'sell' || t.tradeType === 'exit') && t.copiedAmount);
   const totalReturned = sellTrades.reduce((sum, t) => sum + parseFloat(t.copiedAmount || '0'), 0);
 
   // Performance stats
@@ -522,6 +551,8 @@ export async function getEnhancedStatistics(
     totalInvested: totalInvested.toFixed(6),
     totalReturned: totalReturned.toFixed(6),
     
+    exits: countExitsByReason(trades),
+    
     winRate,
     roi,
     
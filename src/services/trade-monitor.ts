@@ -1,10 +1,24 @@
 import { prisma } from '../config/database';
-import { config, isProduction } from '../config/env';
-import { tradeExecutionQueue } from './queue';
-import { validateTradeAmount, validateMarketCategory } from './position-sizer';
+import { config } from '../config/env';
+import { getTradeJobId, tradeExecutionQueue } from './queue';
+import { scheduleExecutionJob } from './execution-scheduler';
+import {
+  validateTradeAmount,
+  validateMarketCategory,
+  validatePriceDeviation,
+  getTraderSellFraction,
+  calculateSellPositionSize,
+} from './position-sizer';
 import { isMarketOpen } from './market-status';
-import { ethers } from 'ethers';
+import { getFollowedTraders, recordConsensusBuy, releaseConsensusClaim, ConsensusCheck } from './consensus';
+import { mergeIntoOpenAggregate } from './fill-aggregation';
 import { getUserLogger } from '../utils/user-logger';
+import { emitUserEvent, notifyCopiedTradeOutcome } from './notifications';
+import { publishCopiedTradeEvent } from './trading-events';
+
+// Data API page size and max pages fetched per trader per cycle
+const ACTIVITY_PAGE_SIZE = 500;
+const MAX_ACTIVITY_PAGES = 20;
 
 export interface PolymarketTrade {
   proxyWallet: string;
@@ -53,6 +67,12 @@ async function isConfigActive(copyConfig: any): Promise<{ isActive: boolean; rea
           },
         });
         console.log(`⏸️ Config ${copyConfig.id} auto-paused: duration expired (${copyConfig.durationDays} days)`);
+        await emitUserEvent(copyConfig.userId, 'config.auto_paused', `config.auto_paused:duration:${copyConfig.id}:${startDate.getTime()}`, {
+          configId: copyConfig.id,
+          configType: 'copy_trading',
+          traderAddress: copyConfig.targetTraderAddress,
+          reason: 'duration_expired',
+        });
       } catch (error) {
         console.error(`⚠️ Failed to auto-pause config ${copyConfig.id}:`, error);
       }
@@ -111,33 +131,44 @@ export async function monitorTrades(): Promise<number> {
       return 0;
     }
 
-    console.log(`Monitoring ${enabledConfigs.length} enabled configurations`);
-
-    let totalTradesQueued = 0;
+    // Group active configs by followed trader so each trader is fetched once per cycle
+    // Consensus configs are subscribed to every trader in their group
+    const configsByTrader = new Map<string, any[]>();
 
-    // Process each configuration
     for (const copyConfig of enabledConfigs) {
-      try {
-        // Check if config is active and within limits
-        const activeCheck = await isConfigActive(copyConfig);
-        if (!activeCheck.isActive) {
-          console.log(`⏭️ Config ${copyConfig.id} skipped: ${activeCheck.reason}`);
-          continue;
+      // Check if config is active and within limits
+      const activeCheck = await isConfigActive(copyConfig);
+      if (!activeCheck.isActive) {
+        console.log(`⏭️ Config ${copyConfig.id} skipped: ${activeCheck.reason}`);
+        continue;
+      }
+
+      for (const traderAddress of getFollowedTraders(copyConfig)) {
+        if (!configsByTrader.has(traderAddress)) {
+          configsByTrader.set(traderAddress, []);
         }
+        configsByTrader.get(traderAddress)!.push(copyConfig);
+      }
+    }
 
-        const tradesQueued = await processConfigTrades(copyConfig);
+    console.log(`Monitoring ${configsByTrader.size} traders for ${enabledConfigs.length} enabled configurations`);
+
+    let totalTradesQueued = 0;
+
+    // Process each followed trader
+    for (const [traderAddress, traderConfigs] of configsByTrader.entries()) {
+      try {
+        const tradesQueued = await processTraderTrades(traderAddress, traderConfigs);
         totalTradesQueued += tradesQueued;
       } catch (error: any) {
         // Handle Redis connection errors gracefully
-        if (error?.message?.includes('MaxRetriesPerRequestError') || 
-            error?.message?.includes('Redis') ||
-            error?.code === 'ECONNREFUSED') {
-          console.warn(`⚠️ Redis connection issue for config ${copyConfig.id}. Skipping this cycle.`);
-          // Continue processing other configs
+        if (isRedisError(error)) {
+          console.warn(`⚠️ Redis connection issue for trader ${traderAddress}. Skipping this cycle.`);
+          // Continue processing other traders
           continue;
         }
-        console.error(`Error processing config ${copyConfig.id}:`, error);
-        // Continue with other configs
+        console.error(`Error processing trader ${traderAddress}:`, error);
+        // Continue with other traders
       }
     }
 
@@ -150,104 +181,297 @@ export async function monitorTrades(): Promise<number> {
 }
 
 /**
- * Process trades for a specific configuration
+ * Process trades for a followed trader and fan them out to every subscribed config
+ *
+ * Trades are fetched once per trader starting from a cursor persisted in TraderCursor,
+ * so a restart catches up on trades missed while the service was down. Caught-up trades
+ * older than MAX_TRADE_AGE_SECONDS are recorded as skipped instead of copied.
  */
-async function processConfigTrades(copyConfig: any): Promise<number> {
-  const traderAddress = copyConfig.targetTraderAddress.toLowerCase();
-  
-  // Only fetch trades that occurred after the config was created
+async function processTraderTrades(traderAddress: string, traderConfigs: any[]): Promise<number> {
+  // Resume from the persisted cursor; a new trader starts from its earliest subscriber's creation
   // This ensures we don't copy trades from before the user started copying this trader
-  const configCreatedAt = copyConfig.createdAt;
-  const configCreatedTimestamp = Math.floor(new Date(configCreatedAt).getTime() / 1000);
-  
-  // Fetch recent trades from Polymarket Data API
-  const apiUrl = `${config.polymarket.dataApiUrl}/activity`;
-  // Add timestamp filter to only get trades after config creation
-  const url = `${apiUrl}?user=${traderAddress}&limit=100&from=${configCreatedTimestamp}`;
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+  const cursor = await prisma.traderCursor.findUnique({
+    where: { traderAddress },
   });
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch trades: ${response.status} ${response.statusText}`);
-  }
+  const earliestConfigTimestamp = Math.min(
+    ...traderConfigs.map((c) => Math.floor(new Date(c.createdAt).getTime() / 1000))
+  );
+  const startTimestamp = cursor ? cursor.lastTimestamp : earliestConfigTimestamp;
+  const boundaryTxHashes = new Set<string>(
+    cursor?.lastTxHashes ? JSON.parse(cursor.lastTxHashes) : []
+  );
 
-  const activities = await response.json() as PolymarketTrade[];
+  const { trades: fetchedTrades } = await fetchTraderActivity(traderAddress, startTimestamp);
 
-  // Filter for TRADE type activities
-  let trades = activities.filter((activity) => activity.type === 'TRADE');
+  // The cursor is inclusive (several trades can share a second), so drop the ones already handled
+  const trades = fetchedTrades.filter(
+    (trade) =>
+      !(parseInt(trade.timestamp) === startTimestamp &&
+        boundaryTxHashes.has(trade.transactionHash.toLowerCase()))
+  );
 
   if (trades.length === 0) {
     return 0;
   }
 
-  // Filter trades to only include those that occurred after the config was created
-  // This ensures we only copy trades from after the user started copying this trader
-  trades = trades.filter((trade) => {
-    const tradeTimestamp = parseInt(trade.timestamp);
-    return tradeTimestamp >= configCreatedTimestamp;
-  });
+  console.log(`📊 Trader ${traderAddress}: Found ${trades.length} new trades since ${new Date(startTimestamp * 1000).toISOString()} for ${traderConfigs.length} configs`);
 
-  if (trades.length === 0) {
-    console.log(`📊 Config ${copyConfig.id}: No trades found after config creation (${new Date(configCreatedAt).toISOString()})`);
-    return 0;
+  // One FetchedTrade lookup for all subscribed configs
+  const fetchedTxHashesByConfig = await getFetchedTxHashesByConfig(
+    traderConfigs.map((c) => c.id),
+    trades
+  );
+
+  let queuedCount = 0;
+  let advanceCursor = true;
+
+  for (const copyConfig of traderConfigs) {
+    // Only copy trades that occurred after this config was created
+    const configCreatedTimestamp = Math.floor(new Date(copyConfig.createdAt).getTime() / 1000);
+    const configTrades = trades.filter((trade) => parseInt(trade.timestamp) >= configCreatedTimestamp);
+
+    if (configTrades.length === 0) {
+      continue;
+    }
+
+    try {
+      queuedCount += await processTradesForConfig(
+        copyConfig,
+        traderAddress,
+        configTrades,
+        fetchedTxHashesByConfig.get(copyConfig.id)
+      );
+    } catch (error: any) {
+      if (isRedisError(error)) {
+        // Leave the cursor where it is so these trades are retried next cycle
+        console.warn(`⚠️ Redis connection issue for config ${copyConfig.id}. Cursor for ${traderAddress} not advanced.`);
+        advanceCursor = false;
+        continue;
+      }
+      console.error(`Error processing config ${copyConfig.id}:`, error);
+    }
   }
 
-  // Sort by timestamp (newest first)
-  trades = trades
-    .sort((a, b) => {
-      const timeA = parseInt(a.timestamp);
-      const timeB = parseInt(b.timestamp);
-      return timeB - timeA; // Descending order (newest first)
-    })
-    .slice(0, 100); // Limit to latest 100 trades per cycle
-
-  console.log(`📊 Config ${copyConfig.id}: Found ${trades.length} trades after config creation (${new Date(configCreatedAt).toISOString()})`);
-
-  // Get all previously fetched trades for this config (only in production)
-  // In development, we skip persistence to allow testing with same trades
-  let fetchedTxHashes = new Set<string>();
-  
-  if (isProduction) {
-    const fetchedTrades = await prisma.fetchedTrade.findMany({
-      where: {
-        configId: copyConfig.id,
-      },
-      select: {
-        originalTxHash: true,
+  if (advanceCursor) {
+    await saveTraderCursor(traderAddress, trades, startTimestamp, boundaryTxHashes);
+  }
+
+  return queuedCount;
+}
+
+/**
+ * Fetch a trader's trades from the Data API starting at a timestamp (inclusive)
+ * Pages through results oldest-first so catch-up after downtime isn't capped at one page.
+ * Stops after MAX_ACTIVITY_PAGES and reports it as truncated; the monitor's cursor picks
+ * up the rest next cycle.
+ */
+export async function fetchTraderActivity(
+  traderAddress: string,
+  startTimestamp: number
+): Promise<{ trades: PolymarketTrade[]; truncated: boolean }> {
+  const apiUrl = `${config.polymarket.dataApiUrl}/activity`;
+  const trades: PolymarketTrade[] = [];
+  let truncated = false;
+
+  for (let page = 0; page < MAX_ACTIVITY_PAGES; page++) {
+    const offset = page * ACTIVITY_PAGE_SIZE;
+    const url = `${apiUrl}?user=${traderAddress}&type=TRADE&start=${startTimestamp}&sortBy=TIMESTAMP&sortDirection=ASC&limit=${ACTIVITY_PAGE_SIZE}&offset=${offset}`;
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
       },
     });
-    
-    fetchedTxHashes = new Set(
-      fetchedTrades.map((t: { originalTxHash: string }) => t.originalTxHash.toLowerCase())
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch trades: ${response.status} ${response.statusText}`);
+    }
+
+    const activities = await response.json() as PolymarketTrade[];
+    if (!Array.isArray(activities) || activities.length === 0) {
+      break;
+    }
+
+    // Filter for TRADE type activities at or after the cursor
+    trades.push(
+      ...activities.filter(
+        (activity) => activity.type === 'TRADE' && parseInt(activity.timestamp) >= startTimestamp
+      )
     );
-    
-    console.log(`📋 Config ${copyConfig.id}: Found ${fetchedTxHashes.size} previously fetched trades`);
-  } else {
-    // In development, still check CopiedTrade for basic deduplication
-  const recentTrades = await prisma.copiedTrade.findMany({
+
+    if (activities.length < ACTIVITY_PAGE_SIZE) {
+      break;
+    }
+    truncated = page === MAX_ACTIVITY_PAGES - 1;
+  }
+
+  // Oldest first, so e.g. a buy is copied before the sell that follows it
+  return {
+    trades: trades.sort((a, b) => parseInt(a.timestamp) - parseInt(b.timestamp)),
+    truncated,
+  };
+}
+
+/**
+ * Look up which of these trades were already fetched, per config
+ */
+async function getFetchedTxHashesByConfig(
+  configIds: string[],
+  trades: PolymarketTrade[]
+): Promise<Map<string, Set<string>>> {
+  const fetchedByConfig = new Map<string, Set<string>>();
+  configIds.forEach((configId) => fetchedByConfig.set(configId, new Set()));
+
+  const fetchedTrades = await prisma.fetchedTrade.findMany({
     where: {
-      configId: copyConfig.id,
+      configId: { in: configIds },
+      originalTxHash: { in: trades.map((t) => t.transactionHash) },
     },
-    orderBy: {
-      createdAt: 'desc',
+    select: {
+      configId: true,
+      originalTxHash: true,
     },
-    take: 10,
   });
 
-    fetchedTxHashes = new Set(
-      recentTrades.map((t: any) => t.originalTxHash.toLowerCase())
+  fetchedTrades.forEach((t: { configId: string; originalTxHash: string }) => {
+    fetchedByConfig.get(t.configId)?.add(t.originalTxHash.toLowerCase());
+  });
+
+  return fetchedByConfig;
+}
+
+/**
+ * Advance a trader's cursor to the newest trade processed
+ * Keeps the tx hashes at that timestamp so the next (inclusive) fetch can skip them
+ */
+async function saveTraderCursor(
+  traderAddress: string,
+  trades: PolymarketTrade[],
+  previousTimestamp: number,
+  previousBoundaryTxHashes: Set<string>
+): Promise<void> {
+  const lastTimestamp = Math.max(...trades.map((t) => parseInt(t.timestamp)));
+  const lastTxHashes = new Set(
+    trades
+      .filter((t) => parseInt(t.timestamp) === lastTimestamp)
+      .map((t) => t.transactionHash.toLowerCase())
   );
+
+  if (lastTimestamp === previousTimestamp) {
+    previousBoundaryTxHashes.forEach((hash) => lastTxHashes.add(hash));
+  }
+
+  try {
+    await prisma.traderCursor.upsert({
+      where: { traderAddress },
+      create: {
+        traderAddress,
+        lastTimestamp,
+        lastTxHashes: JSON.stringify(Array.from(lastTxHashes)),
+      },
+      update: {
+        lastTimestamp,
+        lastTxHashes: JSON.stringify(Array.from(lastTxHashes)),
+      },
+    });
+  } catch (error) {
+    // FetchedTrade/CopiedTrade dedupe still protects against re-copying if this fails
+    console.warn(`⚠️ Failed to save cursor for trader ${traderAddress}:`, error);
+  }
+}
+
+function isRedisError(error: any): boolean {
+  return error?.message?.includes('MaxRetriesPerRequestError') ||
+    error?.message?.includes('Redis') ||
+    error?.code === 'ECONNREFUSED';
+}
+
+/**
+ * Process on-chain detected trades (e.g. from OrderFilled logs)
+ * Matches each trade's wallet against followed traders and feeds the same
+ * filtering pipeline as Data API polling. Polling remains as a gap-filler,
+ * and FetchedTrade/CopiedTrade dedupe prevents double copies between sources.
+ */
+export async function processDetectedTrades(detectedTrades: PolymarketTrade[]): Promise<number> {
+  if (detectedTrades.length === 0) {
+    return 0;
+  }
+
+  const traderAddresses = Array.from(
+    new Set(detectedTrades.map((trade) => trade.proxyWallet.toLowerCase()))
+  );
+
+  const enabledConfigs = await prisma.copyTradingConfig.findMany({
+    where: {
+      enabled: true,
+      authorized: true,
+    },
+    include: {
+      user: true,
+    },
+  });
+
+  let totalTradesQueued = 0;
+
+  for (const copyConfig of enabledConfigs) {
+    const followedTraders = getFollowedTraders(copyConfig).filter((address) => traderAddresses.includes(address));
+    if (followedTraders.length === 0) {
+      continue;
+    }
+
+    try {
+      const activeCheck = await isConfigActive(copyConfig);
+      if (!activeCheck.isActive) {
+        continue;
+      }
+
+      // Only copy trades that happened after the config was created
+      const configCreatedTimestamp = Math.floor(new Date(copyConfig.createdAt).getTime() / 1000);
+
+      for (const traderAddress of followedTraders) {
+        const trades = detectedTrades.filter(
+          (trade) =>
+            trade.proxyWallet.toLowerCase() === traderAddress &&
+            parseInt(trade.timestamp) >= configCreatedTimestamp
+        );
+
+        if (trades.length === 0) {
+          continue;
+        }
+
+        console.log(`⛓️ Config ${copyConfig.id}: Detected ${trades.length} on-chain trades from ${traderAddress}`);
+        totalTradesQueued += await processTradesForConfig(copyConfig, traderAddress, trades);
+      }
+    } catch (error) {
+      console.error(`Error processing detected trades for config ${copyConfig.id}:`, error);
+    }
+  }
+
+  return totalTradesQueued;
+}
+
+/**
+ * Run one followed trader's trades for a config through the filtering pipeline
+ * and queue them for execution
+ */
+async function processTradesForConfig(
+  copyConfig: any,
+  traderAddress: string,
+  trades: PolymarketTrade[],
+  fetchedTxHashes?: Set<string>
+): Promise<number> {
+  // Look up previously fetched trades if the caller didn't already
+  if (!fetchedTxHashes) {
+    fetchedTxHashes = (await getFetchedTxHashesByConfig([copyConfig.id], trades)).get(copyConfig.id)!;
   }
 
   let queuedCount = 0;
   let skippedOld = 0;
   let skippedClosed = 0;
   let skippedProcessed = 0;
+  let mergedCount = 0;
 
   // Process each trade
   for (const trade of trades) {
@@ -259,43 +483,57 @@ async function processConfigTrades(copyConfig: any): Promise<number> {
       continue;
     }
     
-    // Persist this trade as fetched BEFORE processing (only in production)
+    // Persist this trade as fetched BEFORE processing
     // This ensures even if processing fails, we won't fetch it again
-    if (isProduction) {
+    try {
+      await prisma.fetchedTrade.upsert({
+        where: {
+          configId_originalTxHash: {
+            configId: copyConfig.id,
+            originalTxHash: trade.transactionHash,
+          },
+        },
+        create: {
+          configId: copyConfig.id,
+          originalTxHash: trade.transactionHash,
+          traderAddress: traderAddress,
+          marketId: trade.conditionId,
+          timestamp: trade.timestamp?.toString(),
+          side: trade.side,
+          processed: false, // Will be updated when processed
+        },
+        update: {
+          // If it already exists, just update timestamp
+          timestamp: trade.timestamp?.toString(),
+        },
+      });
+    } catch (error) {
+      // Log but continue - don't block processing
+      console.warn(`⚠️ Failed to persist fetched trade ${trade.transactionHash}:`, error);
+    }
+
+    // Don't copy stale trades, e.g. ones caught up on after downtime; the price has moved on
+    const tradeAgeSeconds = Math.floor(Date.now() / 1000) - parseInt(trade.timestamp);
+    if (config.workers.maxTradeAgeSeconds > 0 && tradeAgeSeconds > config.workers.maxTradeAgeSeconds) {
+      skippedOld++;
+
       try {
-        await prisma.fetchedTrade.upsert({
+        await prisma.fetchedTrade.updateMany({
           where: {
-            configId_originalTxHash: {
-              configId: copyConfig.id,
-              originalTxHash: trade.transactionHash,
-            },
-          },
-          create: {
             configId: copyConfig.id,
             originalTxHash: trade.transactionHash,
-            traderAddress: traderAddress,
-            marketId: trade.conditionId,
-            timestamp: trade.timestamp?.toString(),
-            side: trade.side,
-            processed: false, // Will be updated when processed
           },
-          update: {
-            // If it already exists, just update timestamp
-            timestamp: trade.timestamp?.toString(),
+          data: {
+            processed: true,
+            skippedReason: `trade is ${tradeAgeSeconds}s old (max ${config.workers.maxTradeAgeSeconds}s)`,
           },
         });
       } catch (error) {
-        // Log but continue - don't block processing
-        console.warn(`⚠️ Failed to persist fetched trade ${trade.transactionHash}:`, error);
+        console.warn(`⚠️ Failed to update skipped reason for trade ${trade.transactionHash}:`, error);
       }
-    }
 
-    // TEMPORARILY DISABLED FOR TESTING: Filter out trades older than config creation timestamp
-    // const tradeTimestamp = new Date(trade.timestamp).getTime();
-    // if (tradeTimestamp < configCreatedAt) {
-    //   skippedOld++;
-    //   continue;
-    // }
+      continue;
+    }
 
     // Filter by trade type
     const tradeType = trade.side.toLowerCase() as 'buy' | 'sell';
@@ -366,22 +604,20 @@ async function processConfigTrades(copyConfig: any): Promise<number> {
       const skipReason = `market ${marketSlug} is closed or not accepting orders`;
       skippedClosed++;
       
-      // Mark as processed with skip reason (only in production)
-      if (isProduction) {
-        try {
-          await prisma.fetchedTrade.updateMany({
-            where: {
-              configId: copyConfig.id,
-              originalTxHash: trade.transactionHash,
-            },
-            data: {
-              processed: true,
-              skippedReason: skipReason,
-            },
-          });
-        } catch (error) {
-          console.warn(`⚠️ Failed to update skipped reason for trade ${trade.transactionHash}:`, error);
-        }
+      // Mark as processed with skip reason
+      try {
+        await prisma.fetchedTrade.updateMany({
+          where: {
+            configId: copyConfig.id,
+            originalTxHash: trade.transactionHash,
+          },
+          data: {
+            processed: true,
+            skippedReason: skipReason,
+          },
+        });
+      } catch (error) {
+        console.warn(`⚠️ Failed to update skipped reason for trade ${trade.transactionHash}:`, error);
       }
       
       continue;
@@ -390,10 +626,11 @@ async function processConfigTrades(copyConfig: any): Promise<number> {
     // Validate that orderbook exists for this market before queuing
     // This prevents "orderbook does not exist" errors during execution
     // Use the asset field (tokenId) for orderbook validation, not conditionId
+    let orderBook: any = null;
     if (trade.asset) {
       try {
         const { getOrderBook } = await import('./polymarket-clob');
-        await getOrderBook(trade.asset); // This will throw if orderbook doesn't exist
+        orderBook = await getOrderBook(trade.asset); // This will throw if orderbook doesn't exist
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         if (errorMessage.includes('orderbook') && errorMessage.includes('does not exist')) {
@@ -407,98 +644,171 @@ async function processConfigTrades(copyConfig: any): Promise<number> {
       console.warn(`⚠️ Trade ${trade.transactionHash} missing asset (tokenId), skipping orderbook validation`);
     }
 
+    // Skip if the market has moved too far from the trader's fill price
+    if (orderBook && copyConfig.maxPriceDeviation) {
+      const deviationCheck = validatePriceDeviation(
+        trade.price,
+        tradeType,
+        orderBook,
+        copyConfig.maxPriceDeviation
+      );
+
+      if (!deviationCheck.isValid) {
+        console.log(`⏭️ Config ${copyConfig.id}: Skipping trade ${trade.transactionHash}: ${deviationCheck.reason}`);
+        skippedClosed++; // Reuse skippedClosed counter for market moves
+        await recordSkippedTrade(copyConfig, traderAddress, trade, tradeType, deviationCheck.reason!, 'price_deviation_exceeded', 'market');
+        continue;
+      }
+    }
+
     // Validate market category
     if (!validateMarketCategory(trade.eventSlug, copyConfig)) {
       continue;
     }
 
-    // For SELL trades, check if user has sufficient token balance BEFORE queuing
-    if (tradeType === 'sell' && trade.asset) {
-      try {
-        // Get user from config to check their token balance
-        const user = await prisma.user.findUnique({
-          where: { id: copyConfig.userId },
-        });
+    // Consensus configs hold group buys until enough traders agree, then copy the combined buy
+    let consensus: ConsensusCheck | null = null;
+    if (copyConfig.configType === 'consensus' && tradeType === 'buy') {
+      consensus = await recordConsensusBuy(copyConfig, traderAddress, trade);
+      if (!consensus) {
+        skippedProcessed++;
+        continue;
+      }
 
-        if (!user || !user.proxyWallet) {
-          continue;
-        }
+      if (!consensus.reached) {
+        console.log(`🤝 Config ${copyConfig.id}: ${consensus.traderCount}/${copyConfig.consensusThreshold} traders bought ${trade.conditionId} outcome ${trade.outcomeIndex}, waiting for consensus`);
 
-        // Calculate required shares based on config
-        // The original trade.size is in shares (already in decimal format, e.g., "57291.108332")
-        // We need to calculate the copied shares amount based on the config
-        const originalShares = trade.size ? parseFloat(trade.size) : 0;
-        let requiredSharesWei: string;
-
-        if (copyConfig.amountType === 'percentageOfOriginal') {
-          // Percentage of original shares
-          const percentage = parseFloat(copyConfig.sellAmount) / 100;
-          const copiedShares = originalShares * percentage;
-          requiredSharesWei = ethers.utils.parseUnits(copiedShares.toFixed(18), 18).toString();
-        } else if (copyConfig.amountType === 'fixed') {
-          // Fixed amount in USDC - need to convert to shares using price
-          // For sell, we're selling shares, so we need to calculate shares from USDC amount
-          const fixedAmountUSDC = parseFloat(copyConfig.sellAmount);
-          const price = trade.price || 0.5; // Use trade price or default
-          const sharesFromUSDC = fixedAmountUSDC / price;
-          requiredSharesWei = ethers.utils.parseUnits(sharesFromUSDC.toFixed(18), 18).toString();
-        } else {
-          // Percentage of balance - for sell orders, use percentage of original shares as approximation
-          // (Full calculation would require knowing current holdings, which is complex)
-          const percentage = parseFloat(copyConfig.sellAmount) / 100;
-          const copiedShares = originalShares * percentage;
-          requiredSharesWei = ethers.utils.parseUnits(copiedShares.toFixed(18), 18).toString();
+        try {
+          await prisma.fetchedTrade.updateMany({
+            where: {
+              configId: copyConfig.id,
+              originalTxHash: trade.transactionHash,
+            },
+            data: {
+              processed: true,
+              skippedReason: `awaiting consensus (${consensus.traderCount}/${copyConfig.consensusThreshold} traders)`,
+            },
+          });
+        } catch (error) {
+          console.warn(`⚠️ Failed to update skipped reason for trade ${trade.transactionHash}:`, error);
         }
 
-        // Check token balance
-        const { hasSufficientTokenBalance } = await import('./token-balance');
-        const balanceCheck = await hasSufficientTokenBalance(
-          user.address,
-          trade.asset,
-          requiredSharesWei
+        continue;
+      }
+
+      console.log(`🤝 Config ${copyConfig.id}: Consensus reached on ${trade.conditionId} outcome ${trade.outcomeIndex} (${consensus.traderCount} traders, ${consensus.trade!.usdcSize} USDC combined)`);
+    }
+
+    // Consensus copies are sized on the group's combined buy
+    const copyTrade = consensus?.trade || trade;
+
+    // For SELL trades, mirror the fraction of the position the trader sold
+    // and check the user holds enough tokens BEFORE queuing
+    let sellFraction: number | undefined;
+    if (tradeType === 'sell') {
+      try {
+        const fractionResult = await getTraderSellFraction(traderAddress, trade);
+        const sellSize = await calculateSellPositionSize(
+          copyConfig.id,
+          trade.conditionId,
+          trade.outcomeIndex,
+          fractionResult.sellFraction,
+          trade.price
         );
 
-        if (!balanceCheck.hasBalance) {
-          skippedClosed++; // Reuse skippedClosed counter for balance issues
+        if (parseFloat(sellSize.shares) <= 0) {
+          const skipReason = `no copied position in market ${trade.conditionId} outcome ${trade.outcomeIndex} to sell`;
+          skippedClosed++; // Reuse skippedClosed counter for nothing-to-sell
+
+          try {
+            await prisma.fetchedTrade.updateMany({
+              where: {
+                configId: copyConfig.id,
+                originalTxHash: trade.transactionHash,
+              },
+              data: {
+                processed: true,
+                skippedReason: skipReason,
+              },
+            });
+          } catch (error) {
+            console.warn(`⚠️ Failed to update skipped reason for trade ${trade.transactionHash}:`, error);
+          }
+
           continue;
         }
+
+        sellFraction = fractionResult.sellFraction;
+        console.log(`📉 Config ${copyConfig.id}: Trader sold ${(sellFraction * 100).toFixed(2)}% of position${fractionResult.isFullExit ? ' (full exit)' : ''}, selling ${sellSize.shares}/${sellSize.netShares} shares`);
+
+        // Check token balance (paper configs hold no real tokens)
+        if (trade.asset && copyConfig.mode !== 'paper') {
+          const { hasSufficientTokenBalance } = await import('./token-balance');
+          const balanceCheck = await hasSufficientTokenBalance(
+            copyConfig.user.address,
+            trade.asset,
+            sellSize.sharesWei
+          );
+
+          if (!balanceCheck.hasBalance) {
+            skippedClosed++; // Reuse skippedClosed counter for balance issues
+            continue;
+          }
+        }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.warn(`⚠️ Could not check token balance for sell trade ${trade.transactionHash}: ${errorMessage}`);
-        // Continue anyway - the balance check in executor will catch it
+        console.warn(`⚠️ Could not size sell trade ${trade.transactionHash}: ${errorMessage}`);
+        // Continue anyway - the executor will size the sell and check balance again
       }
     }
 
     // Check if this trade has already been copied (race condition protection)
     // This prevents duplicate trades if two monitor runs happen simultaneously
+    // Fills merged into a debounced copy are only listed in its aggregatedTxHashes
     const existingCopiedTrade = await prisma.copiedTrade.findFirst({
       where: {
         configId: copyConfig.id,
-        originalTxHash: trade.transactionHash.toLowerCase(),
+        OR: [
+          { originalTxHash: trade.transactionHash.toLowerCase() },
+          { aggregatedTxHashes: { contains: trade.transactionHash.toLowerCase() } },
+        ],
       },
     });
 
     if (existingCopiedTrade) {
       // Trade already exists - skip creating duplicate
+      if (consensus?.copiedTradeId) {
+        await releaseConsensusClaim(consensus.copiedTradeId);
+      }
       skippedProcessed++;
       continue;
     }
 
-    // Mark fetched trade as processed (only in production)
-    if (isProduction) {
-      try {
-        await prisma.fetchedTrade.updateMany({
-          where: {
-            configId: copyConfig.id,
-            originalTxHash: trade.transactionHash,
-          },
-          data: {
-            processed: true,
-          },
-        });
-      } catch (error) {
-        // Log but continue - don't block processing
-        console.warn(`⚠️ Failed to mark fetched trade as processed ${trade.transactionHash}:`, error);
+    // Mark fetched trade as processed
+    try {
+      await prisma.fetchedTrade.updateMany({
+        where: {
+          configId: copyConfig.id,
+          originalTxHash: trade.transactionHash,
+        },
+        data: {
+          processed: true,
+        },
+      });
+    } catch (error) {
+      // Log but continue - don't block processing
+      console.warn(`⚠️ Failed to mark fetched trade as processed ${trade.transactionHash}:`, error);
+    }
+
+    // Debounced configs merge a trader's burst of same-side fills on one token into a single copy
+    // (consensus copies are already a combined buy)
+    const debounceSeconds: number | null = consensus ? null : copyConfig.debounceSeconds;
+    if (debounceSeconds) {
+      const mergedTradeId = await mergeIntoOpenAggregate(copyConfig.id, traderAddress, trade, tradeType);
+      if (mergedTradeId) {
+        console.log(`🧩 Config ${copyConfig.id}: Merged fill ${trade.transactionHash} into pending copy ${mergedTradeId}`);
+        mergedCount++;
+        continue;
       }
     }
 
@@ -508,21 +818,31 @@ async function processConfigTrades(copyConfig: any): Promise<number> {
     try {
       copiedTrade = await prisma.copiedTrade.create({
         data: {
+          ...(consensus?.copiedTradeId ? { id: consensus.copiedTradeId } : {}),
           configId: copyConfig.id,
           originalTrader: traderAddress,
           originalTxHash: trade.transactionHash.toLowerCase(),
           marketId: trade.conditionId,
           marketQuestion: trade.title,
+          eventSlug: trade.eventSlug || null,
           outcomeIndex: trade.outcomeIndex,
           tradeType: tradeType,
-          originalAmount: typeof trade.usdcSize === 'string' ? trade.usdcSize : String(trade.usdcSize),
-          originalPrice: trade.price.toString(),
-          originalShares: trade.size ? String(trade.size) : null, // Number of shares in original trade
+          originalAmount: typeof copyTrade.usdcSize === 'string' ? copyTrade.usdcSize : String(copyTrade.usdcSize),
+          originalPrice: copyTrade.price.toString(),
+          originalShares: copyTrade.size ? String(copyTrade.size) : null, // Number of shares in original trade
           copiedAmount: '0', // Will be calculated during execution
           status: 'pending',
+          isPaper: copyConfig.mode === 'paper',
+          consensusSources: consensus?.sources ? JSON.stringify(consensus.sources) : null,
+          // Open for further fills until the delayed execution job picks it up
+          aggregatedTxHashes: debounceSeconds ? JSON.stringify([trade.transactionHash.toLowerCase()]) : null,
+          aggregateUntil: debounceSeconds ? new Date(Date.now() + debounceSeconds * 1000) : null,
         },
       });
     } catch (createError: any) {
+      if (consensus?.copiedTradeId) {
+        await releaseConsensusClaim(consensus.copiedTradeId);
+      }
       // If trade was created by another concurrent run, skip it
       if (createError?.code === 'P2002') { // Prisma unique constraint violation
         skippedProcessed++;
@@ -543,6 +863,8 @@ async function processConfigTrades(copyConfig: any): Promise<number> {
       throw createError;
     }
 
+    await publishCopiedTradeEvent(copiedTrade.id);
+
     // Log trade copy event
     const userLogger = getUserLogger(copyConfig.user.address);
     userLogger.tradeCopied(
@@ -554,15 +876,15 @@ async function processConfigTrades(copyConfig: any): Promise<number> {
         traderAddress,
         marketQuestion: trade.title,
         tradeType,
-        originalAmount: trade.usdcSize,
-        originalPrice: trade.price.toString(),
+        originalAmount: copyTrade.usdcSize,
+        originalPrice: copyTrade.price.toString(),
       }
     );
 
     // Queue trade for execution with race condition protection
     // Bull queue will automatically handle duplicate jobIds, but we check anyway
     try {
-      const jobId = `trade-${trade.transactionHash.toLowerCase()}-${copyConfig.id}`;
+      const jobId = getTradeJobId(copyConfig.id, copiedTrade.originalTxHash);
       
       // Check if job already exists in queue
       const existingJob = await tradeExecutionQueue.getJob(jobId);
@@ -572,16 +894,19 @@ async function processConfigTrades(copyConfig: any): Promise<number> {
         continue;
       }
 
-      await tradeExecutionQueue.add(
+      await scheduleExecutionJob(
         'execute-trade',
         {
           tradeId: copiedTrade.id,
           configId: copyConfig.id,
-          originalTrade: trade,
+          originalTrade: copyTrade,
+          sellFraction,
         },
         {
+          userId: copyConfig.userId,
+          side: tradeType,
           jobId: jobId, // Unique job ID - Bull will prevent duplicates
-          removeOnComplete: true,
+          ...(debounceSeconds ? { delay: debounceSeconds * 1000 } : {}),
         }
       );
       queuedCount++;
@@ -608,13 +933,82 @@ async function processConfigTrades(copyConfig: any): Promise<number> {
   }
 
   // Log summary
-  if (queuedCount > 0 || skippedOld > 0 || skippedClosed > 0 || skippedProcessed > 0) {
-    console.log(`📊 Config ${copyConfig.id}: Queued ${queuedCount}, Skipped: ${skippedOld} old, ${skippedClosed} closed, ${skippedProcessed} processed`);
+  if (queuedCount > 0 || mergedCount > 0 || skippedOld > 0 || skippedClosed > 0 || skippedProcessed > 0) {
+    console.log(`📊 Config ${copyConfig.id}: Queued ${queuedCount}, Merged ${mergedCount}, Skipped: ${skippedOld} old, ${skippedClosed} closed, ${skippedProcessed} processed`);
   }
 
   return queuedCount;
 }
 
+/**
+ * Record a trade we deliberately didn't copy
+ * Marks the FetchedTrade with the skip reason and creates a skipped
+ * CopiedTrade with a failure category so it shows up in failure stats
+ */
+async function recordSkippedTrade(
+  copyConfig: any,
+  traderAddress: string,
+  trade: PolymarketTrade,
+  tradeType: 'buy' | 'sell',
+  skipReason: string,
+  failureReason: string,
+  failureCategory: string
+): Promise<void> {
+  try {
+    await prisma.fetchedTrade.updateMany({
+      where: {
+        configId: copyConfig.id,
+        originalTxHash: trade.transactionHash,
+      },
+      data: {
+        processed: true,
+        skippedReason: skipReason,
+      },
+    });
+  } catch (error) {
+    console.warn(`⚠️ Failed to update skipped reason for trade ${trade.transactionHash}:`, error);
+  }
+
+  try {
+    const existingCopiedTrade = await prisma.copiedTrade.findFirst({
+      where: {
+        configId: copyConfig.id,
+        originalTxHash: trade.transactionHash.toLowerCase(),
+      },
+    });
+
+    if (existingCopiedTrade) {
+      return;
+    }
+
+    const skippedTrade = await prisma.copiedTrade.create({
+      data: {
+        configId: copyConfig.id,
+        originalTrader: traderAddress,
+        originalTxHash: trade.transactionHash.toLowerCase(),
+        marketId: trade.conditionId,
+        marketQuestion: trade.title,
+        eventSlug: trade.eventSlug || null,
+        outcomeIndex: trade.outcomeIndex,
+        tradeType,
+        originalAmount: String(trade.usdcSize),
+        originalPrice: trade.price.toString(),
+        originalShares: trade.size ? String(trade.size) : null,
+        copiedAmount: '0',
+        status: 'skipped',
+        isPaper: copyConfig.mode === 'paper',
+        errorMessage: skipReason,
+        failureReason,
+        failureCategory,
+      },
+    });
+    await notifyCopiedTradeOutcome(skippedTrade.id);
+    await publishCopiedTradeEvent(skippedTrade.id);
+  } catch (error) {
+    console.warn(`⚠️ Failed to record skipped trade ${trade.transactionHash}:`, error);
+  }
+}
+
 /**
  * Get last processed timestamp for a configuration
  * This helps avoid reprocessing old trades
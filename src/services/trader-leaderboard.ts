@@ -0,0 +1,404 @@
+import { ethers } from 'ethers';
+import { prisma } from '../config/database';
+import { config } from '../config/env';
+import { fetchTraderActivities, fetchTraderPositions } from './polymarket';
+import { inferCategories, getSupportedCategories } from './category-inference';
+import { logger } from '../utils/logger';
+
+// Cap on traders refreshed per run (followed + seeded + discovered)
+const MAX_LEADERBOARD_TRADERS = parseInt(process.env.LEADERBOARD_MAX_TRADERS || '200', 10);
+
+// Entries not refreshed for this long (trader went quiet, or dropped out of discovery) are removed
+const ENTRY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Holdings below this count as a closed position
+const DUST_SHARES = 0.01;
+
+const DEFAULT_MIN_TRADES = 10;
+
+export type LeaderboardSortBy = 'roi' | 'winRate' | 'volume' | 'recency' | 'drawdown';
+
+const SORT_COLUMNS: Record<LeaderboardSortBy, { column: string; direction: 'asc' | 'desc' }> = {
+  roi: { column: 'realizedRoi', direction: 'desc' },
+  winRate: { column: 'winRate', direction: 'desc' },
+  volume: { column: 'totalVolume', direction: 'desc' },
+  recency: { column: 'lastTradeAt', direction: 'desc' },
+  drawdown: { column: 'maxDrawdown', direction: 'asc' },
+};
+
+export interface LeaderboardTrader {
+  rank: number;
+  traderAddress: string;
+  name?: string;
+  pseudonym?: string;
+  profileImage?: string;
+  totalTrades: number;
+  totalVolume: string;
+  realizedPnl: string;
+  realizedRoi: string; // Percentage
+  winRate: string; // Percentage of closed positions with positive PnL
+  closedPositions: number;
+  maxDrawdown: string; // Largest peak-to-trough drop in cumulative realized PnL (USDC)
+  lastTradeAt?: Date;
+  categories: Array<{ category: string; trades: number }>;
+  refreshedAt: Date;
+}
+
+interface TraderLeaderboardStats {
+  name?: string;
+  pseudonym?: string;
+  profileImage?: string;
+  totalTrades: number;
+  totalVolume: number;
+  realizedPnl: number;
+  realizedRoi: number;
+  winRate: number;
+  closedPositions: number;
+  maxDrawdown: number;
+  lastTradeAt: Date | null;
+  categories: Array<{ category: string; trades: number }>;
+}
+
+/**
+ * Compute leaderboard stats from a trader's recent Data API activity
+ *
+ * Realized PnL comes from sells (against average cost) and redemptions.
+ * Positions in resolved markets that were never redeemed (usually losers) are
+ * closed at their resolution price after the replay.
+ * Positions opened before the fetched activity window have no known cost and
+ * are ignored, so stats reflect the trader's recent trading.
+ */
+export async function computeTraderLeaderboardStats(traderAddress: string): Promise<TraderLeaderboardStats | null> {
+  const activities = await fetchTraderActivities(ethers.utils.getAddress(traderAddress.toLowerCase()));
+  const trades = activities.filter((activity: any) => activity.type === 'TRADE');
+
+  if (trades.length === 0) {
+    return null;
+  }
+
+  // Replay oldest first
+  const timeline = [...activities].sort((a: any, b: any) => parseInt(a.timestamp) - parseInt(b.timestamp));
+
+  const positions = new Map<string, { conditionId: string; shares: number; cost: number; pnl: number }>();
+  const categoryCounts: Record<string, number> = {};
+  let totalVolume = 0;
+  let realizedPnl = 0;
+  let closedCost = 0;
+  let wins = 0;
+  let closedPositions = 0;
+  let lastTradeAt = 0;
+
+  let peakPnl = 0;
+  let maxDrawdown = 0;
+  const recordRealized = (pnl: number, cost: number) => {
+    realizedPnl += pnl;
+    closedCost += cost;
+    peakPnl = Math.max(peakPnl, realizedPnl);
+    maxDrawdown = Math.max(maxDrawdown, peakPnl - realizedPnl);
+  };
+  const closePosition = (pnl: number) => {
+    closedPositions++;
+    if (pnl > 0) {
+      wins++;
+    }
+  };
+
+  for (const activity of timeline) {
+    const usdcSize = parseFloat(activity.usdcSize) || 0;
+
+    if (activity.type === 'TRADE') {
+      const key = `${activity.conditionId}-${activity.outcomeIndex}`;
+      const size = parseFloat(activity.size) || 0;
+      totalVolume += usdcSize;
+      lastTradeAt = Math.max(lastTradeAt, parseInt(activity.timestamp) || 0);
+
+      for (const category of inferCategories(activity.eventSlug || activity.slug || null)) {
+        categoryCounts[category] = (categoryCounts[category] || 0) + 1;
+      }
+
+      if (activity.side === 'BUY') {
+        const position = positions.get(key) || { conditionId: activity.conditionId, shares: 0, cost: 0, pnl: 0 };
+        position.shares += size;
+        position.cost += usdcSize;
+        positions.set(key, position);
+        continue;
+      }
+
+      const position = positions.get(key);
+      if (!position || position.shares <= 0 || size <= 0) {
+        continue;
+      }
+
+      const soldShares = Math.min(size, position.shares);
+      const costSold = position.cost * (soldShares / position.shares);
+      const pnl = usdcSize * (soldShares / size) - costSold;
+      recordRealized(pnl, costSold);
+
+      position.shares -= soldShares;
+      position.cost -= costSold;
+      position.pnl += pnl;
+      if (position.shares < DUST_SHARES) {
+        closePosition(position.pnl);
+        positions.delete(key);
+      }
+    } else if (activity.type === 'REDEEM' && activity.conditionId) {
+      // A redemption pays out every outcome held in the market; split the payout by cost
+      const redeemed = Array.from(positions.entries()).filter(([, p]) => p.conditionId === activity.conditionId);
+      const conditionCost = redeemed.reduce((sum, [, p]) => sum + p.cost, 0);
+
+      for (const [key, position] of redeemed) {
+        const payout = conditionCost > 0 ? usdcSize * (position.cost / conditionCost) : 0;
+        const pnl = payout - position.cost;
+
+        recordRealized(pnl, position.cost);
+        closePosition(position.pnl + pnl);
+        positions.delete(key);
+      }
+    }
+  }
+
+  // Nobody redeems a losing position, so close resolved ones at the price they resolved to
+  if (positions.size > 0) {
+    const resolvedPrices = await getResolvedPositionPrices(traderAddress);
+
+    for (const [key, position] of positions) {
+      const resolutionPrice = resolvedPrices.get(key);
+      if (resolutionPrice === undefined) {
+        continue;
+      }
+
+      const pnl = position.shares * resolutionPrice - position.cost;
+      recordRealized(pnl, position.cost);
+      closePosition(position.pnl + pnl);
+      positions.delete(key);
+    }
+  }
+
+  const profile = activities[0];
+
+  return {
+    name: profile?.name || undefined,
+    pseudonym: profile?.pseudonym || undefined,
+    profileImage: profile?.profileImage || undefined,
+    totalTrades: trades.length,
+    totalVolume,
+    realizedPnl,
+    realizedRoi: closedCost > 0 ? (realizedPnl / closedCost) * 100 : 0,
+    winRate: closedPositions > 0 ? (wins / closedPositions) * 100 : 0,
+    closedPositions,
+    maxDrawdown,
+    lastTradeAt: lastTradeAt > 0 ? new Date(lastTradeAt * 1000) : null,
+    categories: Object.entries(categoryCounts)
+      .sort(([, a], [, b]) => b - a)
+      .map(([category, count]) => ({ category, trades: count })),
+  };
+}
+
+/**
+ * Resolution prices (1 or 0 per share) of a trader's resolved, unredeemed holdings
+ * Keyed by conditionId-outcomeIndex; empty if the Data API can't be reached
+ */
+async function getResolvedPositionPrices(traderAddress: string): Promise<Map<string, number>> {
+  const prices = new Map<string, number>();
+
+  try {
+    for (const holding of await fetchTraderPositions(traderAddress)) {
+      const price = parseFloat(holding.curPrice);
+      const outcomeIndex = parseInt(holding.outcomeIndex, 10);
+      if (holding.redeemable !== true || !holding.conditionId || isNaN(price) || isNaN(outcomeIndex)) {
+        continue;
+      }
+      prices.set(`${holding.conditionId}-${outcomeIndex}`, price);
+    }
+  } catch (error) {
+    logger.warn('Could not fetch positions to close resolved leaderboard positions', {
+      traderAddress,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  return prices;
+}
+
+/**
+ * Recompute and cache leaderboard stats for every tracked trader
+ *
+ * Tracked traders: everyone followed by a copy trading config, addresses in
+ * LEADERBOARD_SEED_TRADERS, and the most active wallets in recent Data API trades.
+ *
+ * @returns Number of traders refreshed
+ */
+export async function refreshLeaderboard(): Promise<number> {
+  const traderAddresses = await getLeaderboardUniverse();
+  let refreshed = 0;
+
+  for (const traderAddress of traderAddresses) {
+    try {
+      const stats = await computeTraderLeaderboardStats(traderAddress);
+      if (!stats) {
+        continue;
+      }
+
+      const data = {
+        ...stats,
+        categories: JSON.stringify(stats.categories),
+        refreshedAt: new Date(),
+      };
+
+      await prisma.traderLeaderboardEntry.upsert({
+        where: { traderAddress },
+        update: data,
+        create: { traderAddress, ...data },
+      });
+      refreshed++;
+    } catch (error) {
+      logger.warn('Error refreshing leaderboard stats for trader', {
+        traderAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  await prisma.traderLeaderboardEntry.deleteMany({
+    where: {
+      refreshedAt: { lt: new Date(Date.now() - ENTRY_RETENTION_MS) },
+    },
+  });
+
+  return refreshed;
+}
+
+/**
+ * Addresses to rank, lowercased and de-duplicated
+ */
+async function getLeaderboardUniverse(): Promise<string[]> {
+  const addresses = new Set<string>();
+
+  const followed = await prisma.copyTradingConfig.findMany({
+    select: { targetTraderAddress: true },
+    distinct: ['targetTraderAddress'],
+  });
+  followed.forEach((c) => addresses.add(c.targetTraderAddress.toLowerCase()));
+
+  (process.env.LEADERBOARD_SEED_TRADERS || '')
+    .split(',')
+    .map((address) => address.trim().toLowerCase())
+    .filter((address) => ethers.utils.isAddress(address))
+    .forEach((address) => addresses.add(address));
+
+  try {
+    for (const address of await discoverActiveTraders()) {
+      addresses.add(address);
+    }
+  } catch (error) {
+    logger.warn('Could not discover active traders for leaderboard', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  return Array.from(addresses).slice(0, MAX_LEADERBOARD_TRADERS);
+}
+
+/**
+ * Most active wallets in the Data API's latest trades across all markets
+ */
+async function discoverActiveTraders(): Promise<string[]> {
+  const response = await fetch(`${config.polymarket.dataApiUrl}/trades?limit=500`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Trades API request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const trades = await response.json();
+  if (!Array.isArray(trades)) {
+    return [];
+  }
+
+  const counts = new Map<string, number>();
+  for (const trade of trades) {
+    if (trade.proxyWallet && ethers.utils.isAddress(trade.proxyWallet)) {
+      const address = trade.proxyWallet.toLowerCase();
+      counts.set(address, (counts.get(address) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .map(([address]) => address);
+}
+
+/**
+ * Get ranked traders from the cached leaderboard
+ */
+export async function getLeaderboard(options: {
+  sortBy?: string;
+  category?: string;
+  minTrades?: number;
+  limit?: number;
+  offset?: number;
+}): Promise<{ traders: LeaderboardTrader[]; total: number; sortBy: LeaderboardSortBy; lastRefreshedAt: Date | null }> {
+  const sortBy = (options.sortBy || 'roi') as LeaderboardSortBy;
+  if (!SORT_COLUMNS[sortBy]) {
+    throw new Error(`Invalid sortBy: ${options.sortBy}. Must be one of: ${Object.keys(SORT_COLUMNS).join(', ')}`);
+  }
+
+  const category = options.category?.toLowerCase();
+  if (category && !getSupportedCategories().includes(category)) {
+    throw new Error(`Invalid category: ${options.category}. Must be one of: ${getSupportedCategories().join(', ')}`);
+  }
+
+  const limit = Math.min(Math.max(options.limit || 50, 1), 100);
+  const offset = Math.max(options.offset || 0, 0);
+  const minTrades = Number.isFinite(options.minTrades) ? options.minTrades! : DEFAULT_MIN_TRADES;
+
+  const where: any = {
+    totalTrades: { gte: minTrades },
+  };
+  if (category) {
+    where.categories = { contains: `"category":"${category}"` };
+  }
+
+  const { column, direction } = SORT_COLUMNS[sortBy];
+
+  const [entries, total, latest] = await Promise.all([
+    prisma.traderLeaderboardEntry.findMany({
+      where,
+      orderBy: [{ [column]: { sort: direction, nulls: 'last' } }, { totalVolume: 'desc' }],
+      take: limit,
+      skip: offset,
+    }),
+    prisma.traderLeaderboardEntry.count({ where }),
+    prisma.traderLeaderboardEntry.findFirst({
+      orderBy: { refreshedAt: 'desc' },
+      select: { refreshedAt: true },
+    }),
+  ]);
+
+  return {
+    traders: entries.map((entry, index) => ({
+      rank: offset + index + 1,
+      traderAddress: entry.traderAddress,
+      name: entry.name || undefined,
+      pseudonym: entry.pseudonym || undefined,
+      profileImage: entry.profileImage || undefined,
+      totalTrades: entry.totalTrades,
+      totalVolume: entry.totalVolume.toFixed(6),
+      realizedPnl: entry.realizedPnl.toFixed(6),
+      realizedRoi: entry.realizedRoi.toFixed(2),
+      winRate: entry.winRate.toFixed(2),
+      closedPositions: entry.closedPositions,
+      maxDrawdown: entry.maxDrawdown.toFixed(6),
+      lastTradeAt: entry.lastTradeAt || undefined,
+      categories: entry.categories ? JSON.parse(entry.categories) : [],
+      refreshedAt: entry.refreshedAt,
+    })),
+    total,
+    sortBy,
+    lastRefreshedAt: latest?.refreshedAt || null,
+  };
+}
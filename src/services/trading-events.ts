@@ -0,0 +1,264 @@
+import Redis from 'ioredis';
+import { createRedisSubscriber, redis } from '../config/redis';
+import { prisma } from '../config/database';
+
+export type TradingEventSource = 'copy_trading' | 'signal';
+
+// Where a copied trade or signal is in its lifecycle
+export type TradeLifecycleStage =
+  | 'pending' // Queued for execution
+  | 'submitted' // Order placed, waiting to settle
+  | 'settled' // Filled (or simulated by a paper config)
+  | 'failed'
+  | 'skipped'
+  | 'resolved' // Market resolved
+  | 'redeemed'; // Winnings redeemed to USDC
+
+export interface TradeUpdateEvent {
+  type: 'trade-update';
+  source: TradingEventSource;
+  id: string;
+  configId: string;
+  marketId: string;
+  marketQuestion: string | null;
+  outcomeIndex: number;
+  tradeType: string;
+  stage: TradeLifecycleStage;
+  status: string;
+  isPaper: boolean;
+  orderId: string | null;
+  amount: string;
+  price: string | null;
+  shares: string | null;
+  txHash: string | null;
+  outcome: string | null;
+  pnl: string | null;
+  errorMessage: string | null;
+  timestamp: string;
+}
+
+export interface PriceUpdateEvent {
+  type: 'price-update';
+  source: TradingEventSource;
+  id: string;
+  configId: string;
+  marketId: string;
+  outcomeIndex: number;
+  currentPrice: string | null;
+  currentValue: string | null;
+  unrealizedPnl: string | null;
+  timestamp: string;
+}
+
+export type TradingEvent = TradeUpdateEvent | PriceUpdateEvent;
+
+type TradingEventListener = (event: TradingEvent) => void;
+
+// One subscriber connection per process, shared by every open stream
+let subscriber: Redis | null = null;
+const listenersByUserId = new Map<string, Set<TradingEventListener>>();
+
+function getTradingEventsChannel(userId: string): string {
+  return `copytrading:events:${userId}`;
+}
+
+/**
+ * Publish a copied trade's current state to its owner's event stream
+ * Publishing goes through Redis so workers in other processes reach the API's open streams.
+ * Never throws - a missed live update must not break execution.
+ */
+export async function publishCopiedTradeEvent(
+  tradeId: string,
+  type: TradingEvent['type'] = 'trade-update'
+): Promise<void> {
+  try {
+    const trade = await prisma.copiedTrade.findUnique({
+      where: { id: tradeId },
+      include: { config: true },
+    });
+    if (!trade?.config) {
+      return;
+    }
+
+    await publishTradingEvent(trade.config.userId, toTradingEvent('copy_trading', trade, type));
+  } catch (error) {
+    console.error(`⚠️ Failed to publish event for trade ${tradeId}:`, error);
+  }
+}
+
+/**
+ * Publish a copied signal's current state to its owner's event stream
+ */
+export async function publishCopiedSignalEvent(
+  signalId: string,
+  type: TradingEvent['type'] = 'trade-update'
+): Promise<void> {
+  try {
+    const signal = await prisma.copiedSignal.findUnique({
+      where: { id: signalId },
+      include: { config: true },
+    });
+    if (!signal?.config) {
+      return;
+    }
+
+    await publishTradingEvent(signal.config.userId, toTradingEvent('signal', signal, type));
+  } catch (error) {
+    console.error(`⚠️ Failed to publish event for signal ${signalId}:`, error);
+  }
+}
+
+/**
+ * Current state of a user's copied trades and signals that are still pending or settling
+ * Sent when a stream opens so the client starts from the same state as the events that follow.
+ */
+export async function getInFlightTradingEvents(userId: string): Promise<TradingEvent[]> {
+  const where = { config: { userId }, status: 'pending' };
+  const [trades, signals] = await Promise.all([
+    prisma.copiedTrade.findMany({ where, orderBy: { createdAt: 'asc' }, take: 100 }),
+    prisma.copiedSignal.findMany({ where, orderBy: { createdAt: 'asc' }, take: 100 }),
+  ]);
+
+  return [
+    ...trades.map((trade) => toTradingEvent('copy_trading', trade, 'trade-update')),
+    ...signals.map((signal) => toTradingEvent('signal', signal, 'trade-update')),
+  ];
+}
+
+/**
+ * Listen to a user's trading events
+ * The process subscribes to the user's channel while at least one listener is attached.
+ *
+ * @returns Function that removes the listener
+ */
+export async function subscribeToTradingEvents(
+  userId: string,
+  listener: TradingEventListener
+): Promise<() => Promise<void>> {
+  const connection = getSubscriber();
+
+  let listeners = listenersByUserId.get(userId);
+  if (!listeners) {
+    listeners = new Set();
+    listenersByUserId.set(userId, listeners);
+    await connection.subscribe(getTradingEventsChannel(userId));
+  }
+  listeners.add(listener);
+
+  return async () => {
+    const current = listenersByUserId.get(userId);
+    if (!current) {
+      return;
+    }
+    current.delete(listener);
+    if (current.size === 0) {
+      listenersByUserId.delete(userId);
+      await connection.unsubscribe(getTradingEventsChannel(userId)).catch(() => undefined);
+    }
+  };
+}
+
+/**
+ * Close the subscriber connection (graceful shutdown)
+ */
+export async function closeTradingEventsSubscriber(): Promise<void> {
+  if (!subscriber) {
+    return;
+  }
+  const connection = subscriber;
+  subscriber = null;
+  listenersByUserId.clear();
+  await connection.quit().catch(() => undefined);
+}
+
+/**
+ * Stage of a copied trade or signal, derived from its status and lifecycle fields
+ */
+export function getLifecycleStage(row: {
+  status: string;
+  orderId: string | null;
+  outcome: string | null;
+  redemptionStatus: string | null;
+}): TradeLifecycleStage {
+  if (row.redemptionStatus === 'redeemed') return 'redeemed';
+  if (row.outcome) return 'resolved';
+  if (row.status === 'failed') return 'failed';
+  if (row.status === 'skipped') return 'skipped';
+  if (row.status === 'settled' || row.status === 'simulated') return 'settled';
+  if (row.orderId) return 'submitted';
+  return 'pending';
+}
+
+async function publishTradingEvent(userId: string, event: TradingEvent): Promise<void> {
+  await redis.publish(getTradingEventsChannel(userId), JSON.stringify(event));
+}
+
+function getSubscriber(): Redis {
+  if (subscriber) {
+    return subscriber;
+  }
+
+  subscriber = createRedisSubscriber();
+  subscriber.on('message', (channel: string, message: string) => {
+    const userId = channel.slice(getTradingEventsChannel('').length);
+    const listeners = listenersByUserId.get(userId);
+    if (!listeners || listeners.size === 0) {
+      return;
+    }
+
+    let event: TradingEvent;
+    try {
+      event = JSON.parse(message);
+    } catch {
+      return;
+    }
+    listeners.forEach((listener) => listener(event));
+  });
+  subscriber.on('error', (error: Error) => {
+    console.error('❌ Trading events subscriber error:', error.message);
+  });
+
+  return subscriber;
+}
+
+function toTradingEvent(source: TradingEventSource, row: any, type: TradingEvent['type']): TradingEvent {
+  const timestamp = new Date().toISOString();
+
+  if (type === 'price-update') {
+    return {
+      type,
+      source,
+      id: row.id,
+      configId: row.configId,
+      marketId: row.marketId,
+      outcomeIndex: row.outcomeIndex,
+      currentPrice: row.currentPrice,
+      currentValue: row.currentValue,
+      unrealizedPnl: row.unrealizedPnl,
+      timestamp,
+    };
+  }
+
+  return {
+    type,
+    source,
+    id: row.id,
+    configId: row.configId,
+    marketId: row.marketId,
+    marketQuestion: row.marketQuestion,
+    outcomeIndex: row.outcomeIndex,
+    tradeType: row.tradeType,
+    stage: getLifecycleStage(row),
+    status: row.status,
+    isPaper: row.isPaper,
+    orderId: row.orderId,
+    amount: row.copiedAmount,
+    price: row.copiedPrice,
+    shares: row.copiedShares,
+    txHash: row.redemptionTxHash && row.redemptionStatus === 'redeemed' ? row.redemptionTxHash : row.copiedTxHash,
+    outcome: row.outcome,
+    pnl: row.pnl,
+    errorMessage: row.errorMessage,
+    timestamp,
+  };
+}
@@ -0,0 +1,31 @@
+import { prisma } from '../config/database';
+import { runWithLock } from './distributed-lock';
+
+// How long a wallet stays locked if its holder dies mid-transaction
+const WALLET_LOCK_TTL_MS = 5 * 60 * 1000;
+
+// How long to wait for the wallet's previous order or transaction before giving up
+// (the timeout error is retryable, so a queued trade is retried later)
+const WALLET_LOCK_WAIT_MS = 30 * 1000;
+
+/**
+ * Run an order or Safe transaction for a proxy wallet
+ * Only one is in flight per wallet at a time across all processes, so orders
+ * can't race on the same balance and Safe transactions don't collide on the nonce.
+ */
+export async function withWalletLock<T>(proxyWallet: string, task: () => Promise<T>): Promise<T> {
+  return runWithLock(`wallet:${proxyWallet.toLowerCase()}`, task, WALLET_LOCK_WAIT_MS, WALLET_LOCK_TTL_MS);
+}
+
+/**
+ * Run an order or Safe transaction for a user's proxy wallet (see withWalletLock)
+ */
+export async function withUserWalletLock<T>(userAddress: string, task: () => Promise<T>): Promise<T> {
+  const user = await prisma.user.findUnique({
+    where: { address: userAddress.toLowerCase() },
+    select: { proxyWallet: true },
+  });
+
+  // Each user has a single Safe, so their address identifies it if it isn't recorded yet
+  return withWalletLock(user?.proxyWallet || userAddress, task);
+}
@@ -3,6 +3,7 @@ import { Interface } from 'ethers/lib/utils';
 import { OperationType, SafeTransaction } from '@polymarket/builder-relayer-client';
 import { createRelayerClientForUser, getExpectedSafeAddress, deriveWalletForUser } from './relayer-client';
 import { getUserLogger } from '../utils/user-logger';
+import { withWalletLock } from './wallet-mutex';
 // Protocol Kit v6 - try to import, fallback to old SDK if not installed
 let Safe: any;
 
@@ -118,9 +119,10 @@ export async function revokeUSDCApproval(
     };
     
     // Execute via RelayerClient (gasless)
-    const response = await relayerClient.execute([revokeTx], "Revoke USDC approval for CTF");
-    
-    const result = await response.wait();
+    const result = await withWalletLock(safeAddress, async () => {
+      const response = await relayerClient.execute([revokeTx], "Revoke USDC approval for CTF");
+      return response.wait();
+    });
     
     if (result && result.transactionHash) {
       console.log(`✅ USDC approval revoked!`);
@@ -191,10 +193,11 @@ async function approveUSDCForCTF(
     const approvalTx = createUSDCApprovalTransaction(usdcAddress, ctfAddress);
     
     // Execute via RelayerClient (gasless)
-    const response = await relayerClient.execute([approvalTx], "Approve USDC for CTF");
-    
     // Wait for transaction confirmation
-    const result = await response.wait();
+    const result = await withWalletLock(safeAddress, async () => {
+      const response = await relayerClient.execute([approvalTx], "Approve USDC for CTF");
+      return response.wait();
+    });
     
     if (result && result.transactionHash) {
       console.log(`✅ USDC approval completed!`);
@@ -1037,8 +1040,10 @@ export async function executeSafeTransaction(
     });
 
     // Execute the transaction
-    const txResponse = await protocolKit.executeTransaction(safeTransaction);
-    const receipt = await txResponse.wait();
+    const receipt = await withWalletLock(safeAddress, async () => {
+      const txResponse = await protocolKit.executeTransaction(safeTransaction);
+      return txResponse.wait();
+    });
 
     return receipt || null;
   } catch (error) {
@@ -1082,8 +1087,10 @@ export async function executeSafeBatchTransaction(
     });
 
     // Execute the batch transaction
-    const txResponse = await protocolKit.executeTransaction(safeTransaction);
-    const receipt = await txResponse.wait();
+    const receipt = await withWalletLock(safeAddress, async () => {
+      const txResponse = await protocolKit.executeTransaction(safeTransaction);
+      return txResponse.wait();
+    });
 
     return receipt || null;
   } catch (error) {
@@ -5,6 +5,8 @@ import { createRelayerClientForUser } from './relayer-client';
 import { config } from '../config/env';
 import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
+import { withWalletLock } from './wallet-mutex';
+import { emitUserEvent } from './notifications';
 
 // ERC20 transfer interface for token withdrawals
 const ERC20_INTERFACE = new Interface([
@@ -86,6 +88,54 @@ async function getERC1155Balance(
   return ethers.utils.formatUnits(balance, 18); // Conditional tokens use 18 decimals
 }
 
+/**
+ * Record a withdrawal before it's sent so failed and in-flight ones show up too
+ */
+async function recordWithdrawal(data: {
+  userId: string;
+  asset: 'USDC' | 'conditional_token';
+  tokenId?: string;
+  amount: string;
+  toAddress: string;
+  proxyWallet: string;
+}): Promise<string> {
+  const withdrawal = await prisma.withdrawal.create({
+    data: {
+      ...data,
+      toAddress: data.toAddress.toLowerCase(),
+    },
+  });
+  return withdrawal.id;
+}
+
+/**
+ * Mark a recorded withdrawal completed or failed (no-op if it was never recorded)
+ */
+async function finishWithdrawal(
+  withdrawalId: string | null,
+  result: { status: 'completed' | 'failed'; txHash?: string; errorMessage?: string }
+): Promise<void> {
+  if (!withdrawalId) {
+    return;
+  }
+  try {
+    await prisma.withdrawal.update({
+      where: { id: withdrawalId },
+      data: {
+        status: result.status,
+        txHash: result.txHash || null,
+        errorMessage: result.errorMessage || null,
+        completedAt: result.status === 'completed' ? new Date() : null,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to update withdrawal record', {
+      withdrawalId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 /**
  * Withdraw USDC from proxy wallet to user's connected wallet
  */
@@ -93,6 +143,7 @@ export async function withdrawUSDC(
   userAddress: string,
   amount?: string // If not provided, withdraws all balance
 ): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  let withdrawalId: string | null = null;
   try {
     // Get user and verify proxy wallet exists
     const user = await prisma.user.findUnique({
@@ -143,18 +194,37 @@ export async function withdrawUSDC(
       amount: ethers.utils.formatUnits(withdrawAmountWei, 6),
     });
 
+    withdrawalId = await recordWithdrawal({
+      userId: user.id,
+      asset: 'USDC',
+      amount: ethers.utils.formatUnits(withdrawAmountWei, 6),
+      toAddress: userAddress,
+      proxyWallet,
+    });
+
     // Execute withdrawal via relayer
     const relayerClient = createRelayerClientForUser(userAddress);
-    const response = await relayerClient.execute([transferTx], 'Withdraw USDC');
-    const result = await response.wait();
+    const result = await withWalletLock(proxyWallet, async () => {
+      const response = await relayerClient.execute([transferTx], 'Withdraw USDC');
+      return response.wait();
+    });
 
     if (result && result.transactionHash) {
+      await finishWithdrawal(withdrawalId, { status: 'completed', txHash: result.transactionHash });
+
       logger.info('USDC withdrawal successful', {
         userAddress,
         txHash: result.transactionHash,
         amount: ethers.utils.formatUnits(withdrawAmountWei, 6),
       });
 
+      await emitUserEvent(user.id, 'withdrawal.completed', `withdrawal.completed:${result.transactionHash}`, {
+        asset: 'USDC',
+        amount: ethers.utils.formatUnits(withdrawAmountWei, 6),
+        to: userAddress,
+        txHash: result.transactionHash,
+      });
+
       return {
         success: true,
         txHash: result.transactionHash,
@@ -164,6 +234,7 @@ export async function withdrawUSDC(
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await finishWithdrawal(withdrawalId, { status: 'failed', errorMessage });
     logger.error('Error withdrawing USDC', {
       userAddress,
       error: errorMessage,
@@ -184,6 +255,7 @@ export async function withdrawConditionalToken(
   tokenId: string,
   amount?: string // If not provided, withdraws all balance
 ): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  let withdrawalId: string | null = null;
   try {
     // Get user and verify proxy wallet exists
     const user = await prisma.user.findUnique({
@@ -242,12 +314,25 @@ export async function withdrawConditionalToken(
       amount: ethers.utils.formatUnits(withdrawAmountWei, 18),
     });
 
+    withdrawalId = await recordWithdrawal({
+      userId: user.id,
+      asset: 'conditional_token',
+      tokenId,
+      amount: ethers.utils.formatUnits(withdrawAmountWei, 18),
+      toAddress: userAddress,
+      proxyWallet,
+    });
+
     // Execute withdrawal via relayer
     const relayerClient = createRelayerClientForUser(userAddress);
-    const response = await relayerClient.execute([transferTx], 'Withdraw conditional token');
-    const result = await response.wait();
+    const result = await withWalletLock(proxyWallet, async () => {
+      const response = await relayerClient.execute([transferTx], 'Withdraw conditional token');
+      return response.wait();
+    });
 
     if (result && result.transactionHash) {
+      await finishWithdrawal(withdrawalId, { status: 'completed', txHash: result.transactionHash });
+
       logger.info('Conditional token withdrawal successful', {
         userAddress,
         txHash: result.transactionHash,
@@ -255,6 +340,14 @@ export async function withdrawConditionalToken(
         amount: ethers.utils.formatUnits(withdrawAmountWei, 18),
       });
 
+      await emitUserEvent(user.id, 'withdrawal.completed', `withdrawal.completed:${result.transactionHash}`, {
+        asset: 'conditional_token',
+        tokenId,
+        amount: ethers.utils.formatUnits(withdrawAmountWei, 18),
+        to: userAddress,
+        txHash: result.transactionHash,
+      });
+
       return {
         success: true,
         txHash: result.transactionHash,
@@ -264,6 +357,7 @@ export async function withdrawConditionalToken(
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await finishWithdrawal(withdrawalId, { status: 'failed', errorMessage });
     logger.error('Error withdrawing conditional token', {
       userAddress,
       tokenId,
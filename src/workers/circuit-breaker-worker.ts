@@ -0,0 +1,55 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { checkCircuitBreakers } from '../services/circuit-breaker';
+import { runOncePerInterval } from '../services/distributed-lock';
+import { logger } from '../utils/logger';
+
+// Cron fires at most once a minute, so every process firing for the same tick claims the same cycle
+const CRON_CYCLE_MS = 60 * 1000;
+
+let breakerTask: ScheduledTask | null = null;
+let isChecking = false;
+
+/**
+ * Worker to snapshot each user's PnL and trip the drawdown circuit breaker
+ * Runs every 5 minutes by default
+ */
+export function startCircuitBreakerWorker(): void {
+  const cronExpression = process.env.CIRCUIT_BREAKER_WORKER_CRON || '*/5 * * * *'; // Every 5 minutes
+
+  logger.info('Starting drawdown circuit breaker worker');
+
+  breakerTask = cron.schedule(cronExpression, async () => {
+    // Skip this run if the previous check is still going
+    if (isChecking) {
+      return;
+    }
+
+    isChecking = true;
+    try {
+      // Only one process snapshots PnL and trips breakers per cycle
+      const tripped = await runOncePerInterval('circuit-breaker', CRON_CYCLE_MS, checkCircuitBreakers);
+      if (tripped) {
+        logger.warn(`Circuit breaker worker tripped ${tripped} breakers`);
+      }
+    } catch (error) {
+      logger.error('Error in circuit breaker worker', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      isChecking = false;
+    }
+  });
+
+  logger.info(`✅ Circuit breaker worker started (cron: ${cronExpression})`);
+}
+
+/**
+ * Stop the circuit breaker worker
+ */
+export function stopCircuitBreakerWorker(): void {
+  if (breakerTask) {
+    breakerTask.stop();
+    breakerTask = null;
+    console.log('🛑 Circuit breaker worker stopped');
+  }
+}
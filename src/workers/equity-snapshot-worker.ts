@@ -0,0 +1,49 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { runOncePerInterval } from '../services/distributed-lock';
+import { recordEquitySnapshots } from '../services/equity-snapshots';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let snapshotTask: ScheduledTask | null = null;
+
+/**
+ * Worker to record each user's and config's daily equity for the equity curve
+ * Runs once a day (UTC) by default; at most one process records each day
+ */
+export function startEquitySnapshotWorker(): void {
+  const cronExpression = process.env.EQUITY_SNAPSHOT_WORKER_CRON || '5 0 * * *'; // 00:05 UTC daily
+
+  logger.info('Starting equity snapshot worker');
+
+  const runSnapshots = async () => {
+    try {
+      const recorded = await runOncePerInterval('equity-snapshots', DAY_MS, () => recordEquitySnapshots());
+      if (recorded !== null) {
+        logger.info(`Equity snapshot worker recorded ${recorded} snapshots`);
+      }
+    } catch (error) {
+      logger.error('Error in equity snapshot worker', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  // Record today's snapshot on start if no process has yet
+  runSnapshots();
+
+  snapshotTask = cron.schedule(cronExpression, runSnapshots, { timezone: 'Etc/UTC' });
+
+  logger.info(`✅ Equity snapshot worker started (cron: ${cronExpression})`);
+}
+
+/**
+ * Stop the equity snapshot worker
+ */
+export function stopEquitySnapshotWorker(): void {
+  if (snapshotTask) {
+    snapshotTask.stop();
+    snapshotTask = null;
+    console.log('🛑 Equity snapshot worker stopped');
+  }
+}
@@ -0,0 +1,52 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { checkLimitOrders } from '../services/limit-orders';
+import { logger } from '../utils/logger';
+import { withLock } from '../services/distributed-lock';
+
+let limitOrderTask: ScheduledTask | null = null;
+let isChecking = false;
+
+/**
+ * Worker to record limit-order copy fills and cancel unfilled orders past their TTL
+ * Runs every 30 seconds by default
+ */
+export function startLimitOrderWorker(): void {
+  const cronExpression = process.env.LIMIT_ORDER_WORKER_CRON || '*/30 * * * * *'; // Every 30 seconds
+
+  logger.info('Starting limit order worker');
+
+  limitOrderTask = cron.schedule(cronExpression, async () => {
+    // Skip this run if the previous check is still going
+    if (isChecking) {
+      return;
+    }
+
+    isChecking = true;
+    try {
+      // Finalizing refunds allocation, so only one process checks at a time
+      const finalized = await withLock('limit-orders', checkLimitOrders);
+      if (finalized) {
+        logger.info(`Limit order worker finalized ${finalized} orders`);
+      }
+    } catch (error) {
+      logger.error('Error in limit order worker', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      isChecking = false;
+    }
+  });
+
+  logger.info(`✅ Limit order worker started (cron: ${cronExpression})`);
+}
+
+/**
+ * Stop the limit order worker
+ */
+export function stopLimitOrderWorker(): void {
+  if (limitOrderTask) {
+    limitOrderTask.stop();
+    limitOrderTask = null;
+    console.log('🛑 Limit order worker stopped');
+  }
+}
@@ -0,0 +1,59 @@
+import { pollOrderFilledLogs, resetOnChainDetector } from '../services/onchain-trade-detector';
+import { config } from '../config/env';
+import { withLock } from '../services/distributed-lock';
+
+let detectorInterval: NodeJS.Timeout | null = null;
+let isPolling = false;
+
+/**
+ * Start the on-chain trade detection worker
+ * Follows CTF Exchange OrderFilled logs block by block so copies aren't delayed
+ * by the Data API polling interval. Polling keeps running as a fallback.
+ */
+export function startOnChainTradeDetectorWorker(): void {
+  if (!config.workers.onChainDetectionEnabled) {
+    console.log('⏭️ On-chain trade detection disabled (ONCHAIN_TRADE_DETECTION_ENABLED=false)');
+    return;
+  }
+
+  if (!config.blockchain.polygonRpcUrl) {
+    console.warn('⚠️ POLYGON_RPC_URL not set, on-chain trade detection disabled (Data API polling only)');
+    return;
+  }
+
+  console.log('🔄 Starting on-chain trade detection worker...');
+  resetOnChainDetector();
+
+  detectorInterval = setInterval(async () => {
+    // Skip this tick if the previous poll is still running
+    if (isPolling) {
+      return;
+    }
+
+    isPolling = true;
+    try {
+      // Only one process follows the logs at a time
+      const tradesQueued = await withLock('onchain-trade-detector', pollOrderFilledLogs);
+      if (tradesQueued) {
+        console.log(`✅ Queued ${tradesQueued} on-chain detected trades for execution`);
+      }
+    } catch (error) {
+      console.error('❌ Error in on-chain trade detector:', error);
+    } finally {
+      isPolling = false;
+    }
+  }, config.workers.onChainPollInterval);
+
+  console.log(`✅ On-chain trade detection worker started (polling logs every ${config.workers.onChainPollInterval}ms)`);
+}
+
+/**
+ * Stop the on-chain trade detection worker
+ */
+export function stopOnChainTradeDetectorWorker(): void {
+  if (detectorInterval) {
+    clearInterval(detectorInterval);
+    detectorInterval = null;
+    console.log('🛑 On-chain trade detection worker stopped');
+  }
+}
@@ -0,0 +1,53 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { checkPositionExits } from '../services/position-exit';
+import { logger } from '../utils/logger';
+import { withLock } from '../services/distributed-lock';
+
+let exitTask: ScheduledTask | null = null;
+let isChecking = false;
+
+/**
+ * Worker to check open copied positions against stop-loss, take-profit
+ * and trailing stop thresholds
+ * Runs every minute by default
+ */
+export function startPositionExitWorker(): void {
+  const cronExpression = process.env.POSITION_EXIT_WORKER_CRON || '* * * * *'; // Every minute
+
+  logger.info('Starting position exit worker');
+
+  exitTask = cron.schedule(cronExpression, async () => {
+    // Skip this run if the previous check is still going
+    if (isChecking) {
+      return;
+    }
+
+    isChecking = true;
+    try {
+      // Exits place orders, so only one process checks at a time
+      const exitsSubmitted = await withLock('position-exit', checkPositionExits);
+      if (exitsSubmitted) {
+        logger.info(`Position exit worker completed: ${exitsSubmitted} exits submitted`);
+      }
+    } catch (error) {
+      logger.error('Error in position exit worker', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      isChecking = false;
+    }
+  });
+
+  logger.info(`✅ Position exit worker started (cron: ${cronExpression})`);
+}
+
+/**
+ * Stop the position exit worker
+ */
+export function stopPositionExitWorker(): void {
+  if (exitTask) {
+    exitTask.stop();
+    exitTask = null;
+    console.log('🛑 Position exit worker stopped');
+  }
+}
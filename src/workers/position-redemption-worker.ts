@@ -1,9 +1,25 @@
 import cron from 'node-cron';
 import { autoRedeemPositions } from '../services/position-redemption';
+import { updateSimulatedPositions } from '../services/paper-trading';
+import { runOncePerInterval, withLock } from '../services/distributed-lock';
 import { logger } from '../utils/logger';
 
+// Cron fires at most once a minute, so every process firing for the same tick claims the same cycle
+const CRON_CYCLE_MS = 60 * 1000;
+
+/**
+ * Redeem closed live positions, then mark and resolve paper positions
+ */
+async function runRedemptionCycle(): Promise<void> {
+  logger.info('Running position redemption worker');
+  const redeemedCount = await autoRedeemPositions();
+  const resolvedCount = await updateSimulatedPositions();
+  logger.info(`Position redemption worker completed: ${redeemedCount} positions redeemed, ${resolvedCount} paper positions resolved`);
+}
+
 /**
  * Worker to periodically check for closed markets and auto-redeem positions
+ * Also marks paper positions to market and resolves them (no on-chain redemption)
  * Runs every 5 minutes by default
  */
 export function startPositionRedemptionWorker(): void {
@@ -14,19 +30,18 @@ export function startPositionRedemptionWorker(): void {
 
   logger.info(`Starting position redemption worker (runs every ${intervalMinutes} minutes)`);
 
-  // Run immediately on start (optional - can be removed if you want to wait for first cron)
-  autoRedeemPositions().catch((error) => {
+  // Run immediately on start, unless another process is mid-run
+  withLock('position-redemption', runRedemptionCycle).catch((error) => {
     logger.error('Error in initial position redemption check', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
   });
 
   // Schedule periodic redemption checks
+  // Every process schedules it, but each cycle only runs in the process that claims it
   cron.schedule(cronExpression, async () => {
     try {
-      logger.info('Running position redemption worker');
-      const redeemedCount = await autoRedeemPositions();
-      logger.info(`Position redemption worker completed: ${redeemedCount} positions redeemed`);
+      await runOncePerInterval('position-redemption', CRON_CYCLE_MS, runRedemptionCycle);
     } catch (error) {
       logger.error('Error in position redemption worker', {
         error: error instanceof Error ? error.message : 'Unknown error',
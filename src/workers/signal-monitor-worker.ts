@@ -1,16 +1,23 @@
 import cron from 'node-cron';
 import { monitorSignals } from '../services/signal-monitor';
 import { config } from '../config/env';
+import { runOncePerInterval } from '../services/distributed-lock';
+import { ensureLegacySignalProvider } from '../services/signal-providers';
 
 let monitorInterval: NodeJS.Timeout | null = null;
 
 /**
  * Start the signal monitoring worker
- * Runs periodically to check for new signals from external API
+ * Runs periodically to poll every registered poll provider for new signals
  */
 export function startSignalMonitorWorker(): void {
   console.log('🔄 Starting signal monitoring worker...');
 
+  // Deployments configured with a single SIGNALS_API_URL keep polling it as the "default" provider
+  ensureLegacySignalProvider().catch((error) => {
+    console.error('❌ Failed to register legacy signal provider:', error);
+  });
+
   // Use same interval as trade monitor
   const intervalSeconds = Math.floor(config.workers.tradeMonitorInterval / 1000);
   
@@ -18,11 +25,14 @@ export function startSignalMonitorWorker(): void {
   const cronPattern = `*/${intervalSeconds} * * * * *`;
 
   // Start cron job
+  // Every process schedules it, but each cycle only runs in the process that claims it
   cron.schedule(cronPattern, async () => {
     try {
-      console.log('🔍 Running signal monitor...');
-      const signalsQueued = await monitorSignals();
-      if (signalsQueued > 0) {
+      const signalsQueued = await runOncePerInterval('signal-monitor', intervalSeconds * 1000, async () => {
+        console.log('🔍 Running signal monitor...');
+        return monitorSignals();
+      });
+      if (signalsQueued) {
         console.log(`✅ Queued ${signalsQueued} signals for execution`);
       }
     } catch (error) {
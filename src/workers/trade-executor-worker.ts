@@ -1,6 +1,10 @@
+import { Job } from 'bull';
 import { tradeExecutionQueue } from '../services/queue';
 import { executeTrade } from '../services/trade-executor';
 import { executeSignal } from '../services/signal-executor';
+import { categorizeFailure, isRetryableFailure } from '../services/execution-failures';
+import { withLock } from '../services/distributed-lock';
+import { releaseExecutionJob } from '../services/execution-scheduler';
 
 /**
  * Start the trade execution worker
@@ -17,48 +21,79 @@ export function startTradeExecutorWorker(): void {
   // - Order submission: 40/s sustained (we process at 20/s max to leave headroom)
   // - API key creation: 50 req/10s (with caching, this should be fine)
   tradeExecutionQueue.process('execute-trade', 1, async (job) => {
-    const { tradeId, configId, originalTrade } = job.data;
+    const { tradeId } = job.data;
     
-    console.log(`📊 Processing trade execution: ${tradeId}`);
+    console.log(`📊 Processing trade execution: ${tradeId} (attempt ${job.attemptsMade + 1}/${job.opts.attempts || 1})`);
     
     try {
-      await executeTrade({
-        tradeId,
-        configId,
-        originalTrade,
-      });
+      // Guard against another process executing the same copy concurrently
+      await withLock(`execute-trade:${tradeId}`, () => executeTrade({
+        ...job.data,
+        hasAttemptsLeft: hasAttemptsLeft(job),
+      }));
       
+      await releaseExecutionJob(job);
       return { success: true, tradeId };
     } catch (error) {
       console.error(`❌ Trade execution failed for ${tradeId}:`, error);
-      throw error; // Retries are temporarily disabled (attempts: 1)
+      const discarded = await discardUnlessRetryable(job, error);
+      if (discarded || !hasAttemptsLeft(job)) {
+        await releaseExecutionJob(job);
+      }
+      throw error;
     }
   });
 
   // Process signal execution jobs with same concurrency limit
   // Concurrency set to 1 to ensure rate limits are respected across all workers
   tradeExecutionQueue.process('execute-signal', 1, async (job) => {
-    const { signalId, configId, originalSignal } = job.data;
+    const { signalId } = job.data;
     
-    console.log(`📊 Processing signal execution: ${signalId}`);
+    console.log(`📊 Processing signal execution: ${signalId} (attempt ${job.attemptsMade + 1}/${job.opts.attempts || 1})`);
     
     try {
-      await executeSignal({
-        signalId,
-        configId,
-        originalSignal,
-      });
+      await withLock(`execute-signal:${signalId}`, () => executeSignal({
+        ...job.data,
+        hasAttemptsLeft: hasAttemptsLeft(job),
+      }));
       
+      await releaseExecutionJob(job);
       return { success: true, signalId };
     } catch (error) {
       console.error(`❌ Signal execution failed for ${signalId}:`, error);
-      throw error; // Retries are temporarily disabled (attempts: 1)
+      const discarded = await discardUnlessRetryable(job, error);
+      if (discarded || !hasAttemptsLeft(job)) {
+        await releaseExecutionJob(job);
+      }
+      throw error;
     }
   });
 
   console.log('✅ Trade execution worker started (trades and signals)');
 }
 
+/**
+ * Whether the queue will run this job again if the current attempt fails
+ */
+function hasAttemptsLeft(job: Job): boolean {
+  return job.attemptsMade + 1 < (job.opts.attempts || 1);
+}
+
+/**
+ * Stop the queue from retrying a job whose failure won't clear up on its own
+ * (balance, validation, closed market, ...)
+ * Returns whether the job was discarded.
+ */
+async function discardUnlessRetryable(job: Job, error: unknown): Promise<boolean> {
+  const { failureReason } = categorizeFailure(error instanceof Error ? error.message : String(error));
+  if (!isRetryableFailure(failureReason)) {
+    await job.discard();
+    console.log(`⏹️ Job ${job.id} failed permanently (${failureReason}), not retrying`);
+    return true;
+  }
+  return false;
+}
+
 /**
  * Get queue statistics
  */
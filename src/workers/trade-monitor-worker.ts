@@ -1,6 +1,8 @@
 import cron from 'node-cron';
 import { monitorTrades } from '../services/trade-monitor';
+import { prunePendingConsensusTrades } from '../services/consensus';
 import { config } from '../config/env';
+import { runOncePerInterval, withLock } from '../services/distributed-lock';
 
 let monitorInterval: NodeJS.Timeout | null = null;
 
@@ -19,11 +21,14 @@ export function startTradeMonitorWorker(): void {
   const cronPattern = `*/${intervalSeconds} * * * * *`;
 
   // Start cron job
+  // Every process schedules it, but each cycle only runs in the process that claims it
   cron.schedule(cronPattern, async () => {
     try {
-      console.log('🔍 Running trade monitor...');
-      const tradesQueued = await monitorTrades();
-      if (tradesQueued > 0) {
+      const tradesQueued = await runOncePerInterval('trade-monitor', intervalSeconds * 1000, async () => {
+        console.log('🔍 Running trade monitor...');
+        return monitorTrades();
+      });
+      if (tradesQueued) {
         console.log(`✅ Queued ${tradesQueued} trades for execution`);
       }
     } catch (error) {
@@ -31,6 +36,18 @@ export function startTradeMonitorWorker(): void {
     }
   });
 
+  // Hourly cleanup of consensus buys older than any consensus window
+  cron.schedule('0 * * * *', async () => {
+    try {
+      const pruned = await withLock('prune-consensus-trades', prunePendingConsensusTrades);
+      if (pruned) {
+        console.log(`🧹 Pruned ${pruned} expired pending consensus trades`);
+      }
+    } catch (error) {
+      console.error('❌ Error pruning pending consensus trades:', error);
+    }
+  });
+
   console.log(`✅ Trade monitor worker started (checking every ${intervalSeconds} seconds)`);
 }
 
@@ -0,0 +1,53 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { refreshLeaderboard } from '../services/trader-leaderboard';
+import { logger } from '../utils/logger';
+
+let leaderboardTask: ScheduledTask | null = null;
+let isRefreshing = false;
+
+/**
+ * Worker to recompute the cached trader discovery leaderboard
+ * Runs every hour by default
+ */
+export function startTraderLeaderboardWorker(): void {
+  const cronExpression = process.env.LEADERBOARD_WORKER_CRON || '0 * * * *'; // Every hour
+
+  logger.info('Starting trader leaderboard worker');
+
+  const runRefresh = async () => {
+    // Skip this run if the previous refresh is still going
+    if (isRefreshing) {
+      return;
+    }
+
+    isRefreshing = true;
+    try {
+      const refreshed = await refreshLeaderboard();
+      logger.info(`Trader leaderboard worker refreshed ${refreshed} traders`);
+    } catch (error) {
+      logger.error('Error in trader leaderboard worker', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      isRefreshing = false;
+    }
+  };
+
+  // Populate the leaderboard on start instead of waiting for the first cron run
+  runRefresh();
+
+  leaderboardTask = cron.schedule(cronExpression, runRefresh);
+
+  logger.info(`✅ Trader leaderboard worker started (cron: ${cronExpression})`);
+}
+
+/**
+ * Stop the trader leaderboard worker
+ */
+export function stopTraderLeaderboardWorker(): void {
+  if (leaderboardTask) {
+    leaderboardTask.stop();
+    leaderboardTask = null;
+    console.log('🛑 Trader leaderboard worker stopped');
+  }
+}
@@ -0,0 +1,25 @@
+import { webhookDeliveryQueue, WebhookDeliveryJobData } from '../services/queue';
+import { deliverWebhook } from '../services/notifications';
+
+/**
+ * Start the webhook delivery worker
+ * Posts signed notification events to user endpoints; failed attempts are
+ * retried by the queue with exponential backoff (see queue.ts).
+ */
+export function startWebhookDeliveryWorker(): void {
+  console.log('🔔 Starting webhook delivery worker...');
+
+  webhookDeliveryQueue.process(5, async (job) => {
+    const { deliveryId } = job.data as WebhookDeliveryJobData;
+    const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+    await deliverWebhook(deliveryId, isLastAttempt);
+    return { success: true, deliveryId };
+  });
+
+  webhookDeliveryQueue.on('failed', (job, err) => {
+    console.warn(`⚠️ Webhook delivery job ${job?.id || 'unknown'} failed (attempt ${job?.attemptsMade || 0}): ${err.message}`);
+  });
+
+  console.log('✅ Webhook delivery worker started');
+}